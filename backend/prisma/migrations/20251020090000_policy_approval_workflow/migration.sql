@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "PolicyStatus" ADD VALUE 'IN_REVIEW';
+ALTER TYPE "PolicyStatus" ADD VALUE 'APPROVED';
+ALTER TYPE "PolicyStatus" ADD VALUE 'REJECTED';
+
+-- AlterTable
+ALTER TABLE "policies" ADD COLUMN     "approvedAt" TIMESTAMP(3),
+ADD COLUMN     "approvedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "policy_approvals" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "comments" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "policy_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "approval_requirements" (
+    "id" TEXT NOT NULL,
+    "category" "PolicyCategory" NOT NULL,
+    "requiredApprovals" INTEGER NOT NULL DEFAULT 1,
+    "approverRoles" "UserRole"[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "approval_requirements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policy_approvals_policyId_version_approverId_key" ON "policy_approvals"("policyId", "version", "approverId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_requirements_category_key" ON "approval_requirements"("category");
+
+-- AddForeignKey
+ALTER TABLE "policies" ADD CONSTRAINT "policies_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_approvals" ADD CONSTRAINT "policy_approvals_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "policies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_approvals" ADD CONSTRAINT "policy_approvals_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
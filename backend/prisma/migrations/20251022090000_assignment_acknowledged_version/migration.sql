@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "policy_assignments" ADD COLUMN     "acknowledgedVersion" INTEGER;
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "policies" ADD COLUMN     "templateId" TEXT,
+ADD COLUMN     "templateVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "policy_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "category" "PolicyCategory" NOT NULL,
+    "framework" TEXT,
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "policy_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "policy_template_versions" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "titleTemplate" TEXT NOT NULL,
+    "descriptionTemplate" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "variables" JSONB NOT NULL,
+    "changes" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "policy_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policy_templates_name_key" ON "policy_templates"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policy_template_versions_templateId_version_key" ON "policy_template_versions"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "policies" ADD CONSTRAINT "policies_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "policy_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_templates" ADD CONSTRAINT "policy_templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_template_versions" ADD CONSTRAINT "policy_template_versions_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "policy_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_template_versions" ADD CONSTRAINT "policy_template_versions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
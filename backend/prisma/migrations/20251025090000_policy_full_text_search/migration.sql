@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "policies" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "policy_versions" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("snapshot"->>'title', '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("snapshot"->>'description', '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "policies_search_vector_idx" ON "policies" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "policy_versions_search_vector_idx" ON "policy_versions" USING GIN ("search_vector");
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "review_cycles" (
+    "id" TEXT NOT NULL,
+    "category" "PolicyCategory",
+    "framework" TEXT,
+    "intervalDays" INTEGER NOT NULL,
+    "leadDays" INTEGER NOT NULL DEFAULT 30,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_cycles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "policy_reviews" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "assigneeId" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "notes" TEXT,
+    "completedById" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "policy_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_cycles_category_key" ON "review_cycles"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_cycles_framework_key" ON "review_cycles"("framework");
+
+-- CreateIndex
+CREATE INDEX "policy_reviews_assigneeId_status_idx" ON "policy_reviews"("assigneeId", "status");
+
+-- CreateIndex
+CREATE INDEX "policy_reviews_policyId_status_idx" ON "policy_reviews"("policyId", "status");
+
+-- AddForeignKey
+ALTER TABLE "policy_reviews" ADD CONSTRAINT "policy_reviews_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "policies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_reviews" ADD CONSTRAINT "policy_reviews_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_reviews" ADD CONSTRAINT "policy_reviews_completedById_fkey" FOREIGN KEY ("completedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
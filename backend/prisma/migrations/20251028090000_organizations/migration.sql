@@ -0,0 +1,107 @@
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "UserRole" NOT NULL DEFAULT 'USER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "policies" ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "policy_templates" ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "security_incidents" ADD COLUMN     "organizationId" TEXT;
+
+-- Backfill: one organization per distinct free-text users.organization value
+-- (by slug), and "Default Organization" for users without one
+INSERT INTO "organizations" ("id", "name", "slug", "updatedAt")
+SELECT 'org_' || md5(slug), MIN(name), slug, CURRENT_TIMESTAMP
+FROM (
+    SELECT name, trim(both '-' from lower(regexp_replace(name, '[^a-zA-Z0-9]+', '-', 'g'))) AS slug
+    FROM (SELECT COALESCE(NULLIF(trim("organization"), ''), 'Default Organization') AS name FROM "users") named
+) slugs
+GROUP BY slug;
+
+-- Every user keeps their global role inside their organization
+INSERT INTO "organization_members" ("id", "organizationId", "userId", "role")
+SELECT 'mem_' || md5(u."id"), 'org_' || md5(trim(both '-' from lower(regexp_replace(COALESCE(NULLIF(trim(u."organization"), ''), 'Default Organization'), '[^a-zA-Z0-9]+', '-', 'g')))), u."id", u."role"
+FROM "users" u;
+
+-- Existing records follow the organization of the user who created them
+UPDATE "policies" p SET "organizationId" = m."organizationId"
+FROM "organization_members" m WHERE m."userId" = p."authorId";
+
+UPDATE "policy_templates" t SET "organizationId" = m."organizationId"
+FROM "organization_members" m WHERE m."userId" = t."createdById";
+
+UPDATE "audit_logs" a SET "organizationId" = m."organizationId"
+FROM "organization_members" m WHERE m."userId" = a."userId";
+
+UPDATE "audit_logs" a SET "organizationId" = p."organizationId"
+FROM "policies" p WHERE a."organizationId" IS NULL AND a."entityType" = 'POLICY' AND a."entityId" = p."id";
+
+UPDATE "security_incidents" i SET "organizationId" = m."organizationId"
+FROM "organization_members" m WHERE m."userId" = i."userId";
+
+-- DropIndex
+DROP INDEX "policy_templates_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_slug_key" ON "organizations"("slug");
+
+-- CreateIndex
+CREATE INDEX "organization_members_userId_idx" ON "organization_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organizationId_userId_key" ON "organization_members"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "policies_organizationId_idx" ON "policies"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policy_templates_organizationId_name_key" ON "policy_templates"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_organizationId_createdAt_idx" ON "audit_logs"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "security_incidents_organizationId_idx" ON "security_incidents"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policies" ADD CONSTRAINT "policies_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_templates" ADD CONSTRAINT "policy_templates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "security_incidents" ADD CONSTRAINT "security_incidents_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
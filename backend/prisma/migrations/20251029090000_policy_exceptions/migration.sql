@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "policy_exceptions" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "userIds" TEXT[],
+    "roles" TEXT[],
+    "justification" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "approvedById" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "decisionNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "policy_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "policy_exceptions_policyId_status_idx" ON "policy_exceptions"("policyId", "status");
+
+-- CreateIndex
+CREATE INDEX "policy_exceptions_status_expiresAt_idx" ON "policy_exceptions"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "policy_exceptions" ADD CONSTRAINT "policy_exceptions_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "policies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_exceptions" ADD CONSTRAINT "policy_exceptions_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_exceptions" ADD CONSTRAINT "policy_exceptions_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
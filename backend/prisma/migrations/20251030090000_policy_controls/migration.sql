@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "policy_controls" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "controlId" TEXT NOT NULL,
+    "framework" TEXT NOT NULL,
+    "mappedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "policy_controls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policy_controls_policyId_controlId_key" ON "policy_controls"("policyId", "controlId");
+
+-- CreateIndex
+CREATE INDEX "policy_controls_framework_controlId_idx" ON "policy_controls"("framework", "controlId");
+
+-- AddForeignKey
+ALTER TABLE "policy_controls" ADD CONSTRAINT "policy_controls_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "policies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "policy_controls" ADD CONSTRAINT "policy_controls_mappedById_fkey" FOREIGN KEY ("mappedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "evidence" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "sha256" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "description" TEXT,
+    "policyId" TEXT,
+    "controlId" TEXT,
+    "complianceTxIds" TEXT[],
+    "retainUntil" TIMESTAMP(3) NOT NULL,
+    "integrity" TEXT NOT NULL DEFAULT 'UNVERIFIED',
+    "lastVerifiedAt" TIMESTAMP(3),
+    "uploadedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "evidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "evidence_organizationId_sha256_idx" ON "evidence"("organizationId", "sha256");
+
+-- CreateIndex
+CREATE INDEX "evidence_policyId_idx" ON "evidence"("policyId");
+
+-- CreateIndex
+CREATE INDEX "evidence_controlId_idx" ON "evidence"("controlId");
+
+-- CreateIndex
+CREATE INDEX "evidence_retainUntil_idx" ON "evidence"("retainUntil");
+
+-- AddForeignKey
+ALTER TABLE "evidence" ADD CONSTRAINT "evidence_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "evidence" ADD CONSTRAINT "evidence_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "policies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "evidence" ADD CONSTRAINT "evidence_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
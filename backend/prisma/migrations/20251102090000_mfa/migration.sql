@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "mfaEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mfaSecret" TEXT,
+ADD COLUMN     "mfaEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "mfaLastUsedStep" INTEGER,
+ADD COLUMN     "mfaRecoveryCodes" TEXT[];
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "mfaVerifiedAt" TIMESTAMP(3);
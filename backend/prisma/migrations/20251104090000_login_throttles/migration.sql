@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "login_throttles" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "accounts" TEXT[],
+    "lastFailureAt" TIMESTAMP(3) NOT NULL,
+    "lockedUntil" TIMESTAMP(3),
+    "lockouts" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "login_throttles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "login_throttles_scope_key_key" ON "login_throttles"("scope", "key");
+
+-- CreateIndex
+CREATE INDEX "login_throttles_lockedUntil_idx" ON "login_throttles"("lockedUntil");
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "policies" ADD COLUMN     "reviewRound" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "policy_approvals" ADD COLUMN     "round" INTEGER NOT NULL DEFAULT 0;
+
+-- Approvals used to be counted per version, so each version was one round
+UPDATE "policies" SET "reviewRound" = "version";
+
+UPDATE "policy_approvals" SET "round" = "version";
+
+-- DropIndex
+DROP INDEX "policy_approvals_policyId_version_approverId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policy_approvals_policyId_round_approverId_key" ON "policy_approvals"("policyId", "round", "approverId");
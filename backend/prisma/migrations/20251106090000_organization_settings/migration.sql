@@ -0,0 +1,50 @@
+-- DropIndex
+DROP INDEX "approval_requirements_category_key";
+
+-- DropIndex
+DROP INDEX "review_cycles_category_key";
+
+-- DropIndex
+DROP INDEX "review_cycles_framework_key";
+
+-- AlterTable
+ALTER TABLE "approval_requirements" ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "review_cycles" ADD COLUMN     "organizationId" TEXT;
+
+-- Settings were platform-wide: every organization keeps the ones in force
+INSERT INTO "approval_requirements" ("id", "organizationId", "category", "requiredApprovals", "approverRoles", "createdAt", "updatedAt")
+SELECT 'apr_' || md5(r."id" || o."id"), o."id", r."category", r."requiredApprovals", r."approverRoles", r."createdAt", r."updatedAt"
+FROM "approval_requirements" r CROSS JOIN "organizations" o
+WHERE r."organizationId" IS NULL;
+
+INSERT INTO "review_cycles" ("id", "organizationId", "category", "framework", "intervalDays", "leadDays", "createdAt", "updatedAt")
+SELECT 'rvc_' || md5(c."id" || o."id"), o."id", c."category", c."framework", c."intervalDays", c."leadDays", c."createdAt", c."updatedAt"
+FROM "review_cycles" c CROSS JOIN "organizations" o
+WHERE c."organizationId" IS NULL;
+
+DELETE FROM "approval_requirements" WHERE "organizationId" IS NULL;
+
+DELETE FROM "review_cycles" WHERE "organizationId" IS NULL;
+
+-- AlterTable
+ALTER TABLE "approval_requirements" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "review_cycles" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_requirements_organizationId_category_key" ON "approval_requirements"("organizationId", "category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_cycles_organizationId_category_key" ON "review_cycles"("organizationId", "category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_cycles_organizationId_framework_key" ON "review_cycles"("organizationId", "framework");
+
+-- AddForeignKey
+ALTER TABLE "approval_requirements" ADD CONSTRAINT "approval_requirements_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_cycles" ADD CONSTRAINT "review_cycles_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
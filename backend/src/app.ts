@@ -11,6 +11,17 @@ import policyRoutes from './routes/policies';
 import userRoutes from './routes/users';
 import blockchainRoutes from './routes/blockchain';
 import aiSecurityRoutes from './routes/ai-security';
+import approvalRequirementRoutes from './routes/approval-requirements';
+import assignmentRoutes from './routes/assignments';
+import templateRoutes from './routes/templates';
+import decideRoutes from './routes/decide';
+import reviewRoutes from './routes/reviews';
+import organizationRoutes from './routes/organizations';
+import exceptionRoutes from './routes/exceptions';
+import controlRoutes from './routes/controls';
+import evidenceRoutes from './routes/evidence';
+import auditBundleRoutes from './routes/audit-bundles';
+import lockoutRoutes from './routes/lockouts';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
@@ -21,6 +32,11 @@ dotenv.config();
 
 const app = express();
 
+// Behind a load balancer, client IPs (used for login throttling) come from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
+
 // Middleware
 app.use(helmet());
 app.use(cors({
@@ -46,6 +62,17 @@ app.use('/api/policies', policyRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/blockchain', blockchainRoutes);
 app.use('/api/ai-security', aiSecurityRoutes);
+app.use('/api/approval-requirements', approvalRequirementRoutes);
+app.use('/api/assignments', assignmentRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/decide', decideRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/exceptions', exceptionRoutes);
+app.use('/api/controls', controlRoutes);
+app.use('/api/evidence', evidenceRoutes);
+app.use('/api/audit-bundles', auditBundleRoutes);
+app.use('/api/lockouts', lockoutRoutes);
 
 // Error handling middleware (should be last)
 app.use(errorHandler);
@@ -0,0 +1,43 @@
+import { readFileSync } from 'fs';
+import { verifyBundle } from '../utils/auditBundle';
+
+/**
+ * Offline audit bundle verifier; needs no database or server.
+ *
+ *   npm run verify-bundle -- <bundle.tar.gz> --public-key <key.pem>
+ *
+ * The public key is required: it is the server's (GET
+ * /api/audit-bundles/public-key), obtained out of band, and the key inside
+ * the bundle is only compared against it. Exits 0 when the signature and
+ * every file hash check out, 1 otherwise.
+ */
+function main(args: string[]): number {
+  const keyFlag = args.indexOf('--public-key');
+  const keyPath = keyFlag >= 0 ? args[keyFlag + 1] : undefined;
+  const [bundlePath] = args.filter((arg, index) => !arg.startsWith('--') && (keyFlag < 0 || index !== keyFlag + 1));
+
+  if (!bundlePath || !keyPath) {
+    console.error('Usage: verify-bundle <bundle.tar.gz> --public-key <key.pem>');
+    return 2;
+  }
+
+  const result = verifyBundle(readFileSync(bundlePath), { publicKey: readFileSync(keyPath, 'utf8') });
+
+  if (result.manifest) {
+    const { bundleId, framework, from, to, generatedAt } = result.manifest;
+    console.log(`Bundle ${bundleId}: ${framework} ${from} to ${to} (generated ${generatedAt})`);
+  }
+  console.log(`Signature: ${result.signatureValid ? 'valid' : 'INVALID'}`);
+  console.log(`Signing key: ${result.trustedKey ? 'matches the expected key' : 'DOES NOT match the expected key'}`);
+  for (const file of result.files) {
+    console.log(`  ${file.status.padEnd(8)} ${file.path}`);
+  }
+  for (const error of result.errors) {
+    console.error(`Error: ${error}`);
+  }
+  console.log(result.valid ? 'Bundle verified' : 'Bundle verification FAILED');
+
+  return result.valid ? 0 : 1;
+}
+
+process.exitCode = main(process.argv.slice(2));
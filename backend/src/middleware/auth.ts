@@ -1,24 +1,62 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { AuthTokens } from '../services/authTokens';
+import { roleRequiresMfa } from '../services/multiFactorAuth';
+import { runInOrganization } from '../utils/tenancy';
+import { mfaChallenge } from './mfa';
+
+// Built on first use, so importing the middleware doesn't open a database client
+let authTokens: AuthTokens | null = null;
+
+const getAuthTokens = () => {
+  if (!authTokens) {
+    authTokens = new AuthTokens();
+  }
+  return authTokens;
+};
+
+const authenticate = (enforceMfa: boolean) => async (req: Request, res: Response, next: NextFunction) => {
+  let decoded: any;
 
-export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.header('Authorization');
-    
+
     if (!authHeader) {
       return res.status(401).json({ error: 'No token provided' });
     }
 
     const token = authHeader.replace('Bearer ', '');
-    
+
     if (!token) {
       return res.status(401).json({ error: 'No token provided' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
-    (req as any).user = decoded;
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  // Logout, refresh-token reuse and deactivation end a session before its access tokens expire
+  try {
+    if (!decoded?.sid || !(await getAuthTokens().isSessionActive(decoded.userId, decoded.sid))) {
+      return res.status(401).json({ error: 'Session has ended' });
+    }
   } catch (error) {
-    res.status(401).json({ error: 'Invalid token' });
+    return next(error);
+  }
+
+  if (enforceMfa && !decoded.mfaAt && roleRequiresMfa(decoded.role)) {
+    return res.status(401).json(mfaChallenge('MFA_REQUIRED'));
   }
+
+  (req as any).user = decoded;
+
+  // Everything downstream of this request only sees the token's organization
+  runInOrganization(decoded?.organizationId ?? null, next);
 };
+
+export const authMiddleware = authenticate(true);
+
+// For the endpoints a user needs before completing MFA their role requires:
+// their profile, logout, and MFA enrollment and verification themselves
+export const sessionAuthMiddleware = authenticate(false);
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+
+export type MfaChallengeReason = 'MFA_REQUIRED' | 'STEP_UP';
+
+/**
+ * Body of a 401 that a second factor resolves. Verifying a code at
+ * `POST /api/auth/mfa/step-up`, or a passkey at the WebAuthn step-up
+ * endpoints, returns a new access token for the same session, with which
+ * the request can be retried.
+ */
+export const mfaChallenge = (reason: MfaChallengeReason) => ({
+  error: 'Multi-factor authentication required',
+  mfaChallenge: {
+    reason,
+    methods: ['totp', 'recovery_code', 'webauthn'],
+    verifyUrl: '/api/auth/mfa/step-up',
+    webauthnOptionsUrl: '/api/auth/webauthn/step-up/options',
+    webauthnVerifyUrl: '/api/auth/webauthn/step-up/verify'
+  }
+});
+
+/**
+ * Step-up for high-risk requests: the session must have passed a second
+ * factor within MFA_STEP_UP_MAX_AGE_MINUTES (10 by default).
+ */
+export const requireRecentMfa = (req: Request, res: Response, next: NextFunction) => {
+  const maxAgeSeconds = (Number(process.env.MFA_STEP_UP_MAX_AGE_MINUTES) || 10) * 60;
+  const mfaAt = req.user?.mfaAt;
+
+  if (!mfaAt || Date.now() / 1000 - mfaAt > maxAgeSeconds) {
+    return res.status(401).json(mfaChallenge('STEP_UP'));
+  }
+
+  next();
+};
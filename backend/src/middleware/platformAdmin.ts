@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+
+// Unscoped: the flag belongs to the account, not to an organization
+const prisma = new PrismaClient();
+
+/**
+ * Platform admins operate the installation itself: global account changes
+ * and IP address lockouts, which affect every organization. Organization
+ * admins cannot grant the flag; it is only set in the database.
+ */
+export const isPlatformAdmin = async (userId: string): Promise<boolean> => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { isPlatformAdmin: true } });
+  return Boolean(user?.isPlatformAdmin);
+};
+
+export const platformAdminOnly = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    if (!(await isPlatformAdmin(req.user.userId))) {
+      return res.status(403).json({ error: 'Platform admin access required' });
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  next();
+};
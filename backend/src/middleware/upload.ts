@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { currentOrganizationId, runInOrganization } from '../utils/tenancy';
+
+// Accepts values such as "10MB", "512kb" or a plain byte count
+export const parseFileSize = (value: string | undefined, fallback: number): number => {
+  if (!value) {
+    return fallback;
+  }
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i);
+  if (!match) {
+    return fallback;
+  }
+
+  const units: { [key: string]: number } = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+  return Math.floor(parseFloat(match[1]) * units[(match[2] || 'b').toLowerCase()]);
+};
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseFileSize(process.env.MAX_FILE_SIZE, 10 * 1024 * 1024),
+    files: 1
+  }
+});
+
+/**
+ * Buffers a single uploaded file into `req.file`, turning multer errors into
+ * 4xx responses instead of falling through to the generic error handler.
+ */
+export const singleFileUpload = (field: string) => {
+  const handler = upload.single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    // multer calls back from stream events, outside the request's tenant
+    // scope; the handlers after it must run in the same organization
+    const organizationId = currentOrganizationId();
+
+    handler(req, res, (error: any) => runInOrganization(organizationId, () => {
+      if (error instanceof multer.MulterError) {
+        const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+        return res.status(status).json({ error: error.message });
+      }
+
+      if (error) {
+        return next(error);
+      }
+
+      next();
+    }));
+  };
+};
@@ -3,10 +3,10 @@ import { authMiddleware } from '../middleware/auth';
 import { roleCheck } from '../middleware/roleCheck';
 import { AISecurityAnalyzer } from '../services/aiSecurityAnalyzer';
 import { AdvancedAnalytics } from '../services/advancedAnalytics';
-import { PrismaClient } from '@prisma/client';
+import { createPrismaClient } from '../utils/tenancy';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Initialize services lazily to avoid issues in tests
 let aiAnalyzer: AISecurityAnalyzer;
@@ -38,6 +38,10 @@ router.post('/analyze-behavior', roleCheck(['ADMIN', 'ANALYST']), async (req, re
       return res.status(400).json({ error: 'User ID is required' });
     }
 
+    if (req.user?.organizationId && !(await getAIAnalyzer().isInScope(userId))) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
     const behaviorScore = await getAIAnalyzer().analyzeUserBehavior(userId);
     res.json({ userId, behaviorScore });
   } catch (error) {
@@ -48,14 +52,15 @@ router.post('/analyze-behavior', roleCheck(['ADMIN', 'ANALYST']), async (req, re
 // Threat detection endpoint
 router.post('/detect-threats', roleCheck(['ADMIN', 'ANALYST']), async (req, res, next) => {
   try {
-    const { accessRequest } = req.body;
-    
+    // Either wrapped in `accessRequest` or the activity itself
+    const accessRequest = req.body.accessRequest ?? (req.body.userId && req.body.action ? req.body : null);
+
     if (!accessRequest) {
       return res.status(400).json({ error: 'Access request data is required' });
     }
 
     const threats = await getAIAnalyzer().detectAnomalies(accessRequest);
-    res.json(threats);
+    res.json({ ...threats, threatLevel: threats.level, detectedThreats: threats.indicators });
   } catch (error) {
     next(error);
   }
@@ -65,7 +70,15 @@ router.post('/detect-threats', roleCheck(['ADMIN', 'ANALYST']), async (req, res,
 router.post('/predict-risks', roleCheck(['ADMIN', 'ANALYST']), async (req, res, next) => {
   try {
     const predictions = await getAIAnalyzer().predictSecurityIncidents();
-    res.json(predictions);
+    // Most probable threats first; the level is the impact of the most probable one
+    const ranked = [...predictions.predictedThreats].sort((a, b) => b.probability - a.probability);
+
+    res.json({
+      ...predictions,
+      predictedThreatLevel: ranked[0]?.estimatedImpact ?? 'LOW',
+      confidence: predictions.confidenceScore,
+      keyFactors: ranked.map(threat => threat.type)
+    });
   } catch (error) {
     next(error);
   }
@@ -146,8 +159,13 @@ router.get('/security-status', roleCheck(['ADMIN', 'ANALYST', 'USER']), async (r
 router.get('/analyze-user/:userId', roleCheck(['ADMIN', 'ANALYST']), async (req, res, next) => {
   try {
     const { userId } = req.params;
-    const behaviorScore = await getAIAnalyzer().analyzeUserBehavior(userId);
-    res.json({ userId, behaviorScore, riskScore: behaviorScore });
+
+    if (req.user?.organizationId && !(await getAIAnalyzer().isInScope(userId))) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const assessment = getAIAnalyzer().assessUser(userId);
+    res.json({ userId, ...assessment });
   } catch (error) {
     next(error);
   }
@@ -156,7 +174,15 @@ router.get('/analyze-user/:userId', roleCheck(['ADMIN', 'ANALYST']), async (req,
 router.get('/forecast', roleCheck(['ADMIN', 'ANALYST']), async (req, res, next) => {
   try {
     const predictions = await getAIAnalyzer().predictSecurityIncidents();
-    res.json(predictions);
+    // Most probable threats first; the level is the impact of the most probable one
+    const ranked = [...predictions.predictedThreats].sort((a, b) => b.probability - a.probability);
+
+    res.json({
+      ...predictions,
+      predictedThreatLevel: ranked[0]?.estimatedImpact ?? 'LOW',
+      confidence: predictions.confidenceScore,
+      keyFactors: ranked.map(threat => threat.type)
+    });
   } catch (error) {
     next(error);
   }
@@ -222,6 +248,15 @@ router.get('/analytics/benchmarks', roleCheck(['ADMIN']), async (req, res, next)
   }
 });
 
+router.get('/analytics/acknowledgments', roleCheck(['ADMIN', 'ANALYST', 'AUDITOR']), async (req, res, next) => {
+  try {
+    const acknowledgments = await getAnalytics().analyzeAcknowledgments();
+    res.json(acknowledgments);
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/analytics/insights', roleCheck(['ADMIN', 'ANALYST']), async (req, res, next) => {
   try {
     const predictions = await getAnalytics().generatePredictiveInsights();
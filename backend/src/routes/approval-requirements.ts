@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { PolicyCategory, UserRole } from '@prisma/client';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { validateRequest } from '../middleware/validation';
+import { approvalRequirementSchema } from '../validators/policy';
+import { PolicyWorkflow } from '../services/policyWorkflow';
+
+const router = Router();
+const workflow = new PolicyWorkflow();
+
+const CATEGORIES: PolicyCategory[] = ['PRIVACY', 'SECURITY', 'COMPLIANCE', 'HR', 'IT', 'FINANCE', 'OTHER'];
+
+/**
+ * @route   GET /api/approval-requirements
+ * @desc    Get required approvers for every policy category
+ * @access  Private
+ */
+router.get('/', authMiddleware, async (req, res, next) => {
+  try {
+    const requirements = await workflow.listRequirements();
+    res.json({ requirements });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   PUT /api/approval-requirements/:category
+ * @desc    Configure required approvals and approver roles for a category
+ * @access  Private (Admin only)
+ */
+router.put('/:category',
+  authMiddleware,
+  roleCheck(['ADMIN']),
+  validateRequest(approvalRequirementSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const category = req.params.category.toUpperCase() as PolicyCategory;
+    if (!CATEGORIES.includes(category)) {
+      return res.status(400).json({ error: 'Invalid policy category' });
+    }
+
+    const { requiredApprovals, approverRoles } = req.body as {
+      requiredApprovals: number;
+      approverRoles: UserRole[];
+    };
+
+    const requirement = await workflow.setRequirement(category, requiredApprovals, approverRoles, req.user);
+
+    res.json({
+      message: 'Approval requirement updated successfully',
+      requirement
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { PolicyAssignments } from '../services/policyAssignments';
+
+const router = Router();
+const assignments = new PolicyAssignments();
+
+/**
+ * @route   GET /api/assignments/me
+ * @desc    Get policies assigned to the logged-in user
+ * @access  Private
+ */
+router.get('/me', authMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const policies = await assignments.listForUser(req.user.userId);
+
+    res.json({
+      assignments: policies,
+      pending: policies.filter(a => a.requiresAcknowledgment).length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/assignments/completion
+ * @desc    Get acknowledgment completion rates for all assigned policies
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/completion',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']),
+  async (req, res, next) => {
+  try {
+    const report = await assignments.completionReport();
+    res.json({ policies: report });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { requireRecentMfa } from '../middleware/mfa';
+import { validateRequest } from '../middleware/validation';
+import { singleFileUpload } from '../middleware/upload';
+import { auditBundleSchema, bundleVerificationSchema } from '../validators/evidence';
+import { AuditBundles } from '../services/auditBundles';
+import { verifyBundle } from '../utils/auditBundle';
+import { HttpError } from '../utils/errors';
+
+const router = Router();
+const bundles = new AuditBundles();
+
+/**
+ * @route   POST /api/audit-bundles
+ * @desc    Export a signed evidence bundle (.tar.gz) for a framework and date range
+ * @access  Private (Admin, Auditor, recent MFA)
+ */
+router.post('/',
+  authMiddleware,
+  roleCheck(['ADMIN', 'AUDITOR']),
+  requireRecentMfa,
+  validateRequest(auditBundleSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const bundle = await bundles.build(req.body, req.user);
+
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="${bundle.filename}"`);
+    res.setHeader('X-Bundle-Id', bundle.manifest.bundleId);
+    res.setHeader('X-Manifest-Hash', bundle.manifestHash);
+    res.send(bundle.archive);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/audit-bundles/public-key
+ * @desc    Public key bundles are signed with, to pin when verifying offline
+ * @access  Private
+ */
+router.get('/public-key', authMiddleware, (req, res) => {
+  res.json({ algorithm: 'Ed25519', publicKey: bundles.publicKey() });
+});
+
+/**
+ * @route   POST /api/audit-bundles/verify
+ * @desc    Check an uploaded bundle's signature and file hashes (multipart `file`); the signature is
+ *          checked against this server's key unless another `publicKey` is given
+ * @access  Private (Admin, Auditor)
+ */
+router.post('/verify',
+  authMiddleware,
+  roleCheck(['ADMIN', 'AUDITOR']),
+  singleFileUpload('file'),
+  validateRequest(bundleVerificationSchema),
+  (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'A bundle file is required' });
+  }
+
+  res.json(verifyBundle(req.file.buffer, { publicKey: req.body.publicKey || bundles.publicKey() }));
+});
+
+export default router;
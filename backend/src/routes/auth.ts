@@ -1,13 +1,105 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
 import { validateRequest } from '../middleware/validation';
-import { authMiddleware } from '../middleware/auth';
-import { loginSchema, registerSchema } from '../validators/auth';
+import { authMiddleware, sessionAuthMiddleware } from '../middleware/auth';
+import { requireRecentMfa } from '../middleware/mfa';
+import {
+  loginSchema,
+  logoutSchema,
+  mfaCodeSchema,
+  mfaLoginSchema,
+  mfaProofSchema,
+  passkeyLoginSchema,
+  passkeyMfaLoginSchema,
+  passkeyMfaOptionsSchema,
+  passkeyRegistrationSchema,
+  passkeyStepUpSchema,
+  refreshTokenSchema,
+  registerSchema,
+  switchOrganizationSchema
+} from '../validators/auth';
+import { createPrismaClient, runInOrganization } from '../utils/tenancy';
+import { HttpError } from '../utils/errors';
+import { Organizations, OrganizationMembership, slugify } from '../services/organizations';
+import { AuthTokens, SessionContext } from '../services/authTokens';
+import { MultiFactorAuth, roleRequiresMfa } from '../services/multiFactorAuth';
+import { Passkeys } from '../services/passkeys';
+import { LoginAttempt, LoginProtection } from '../services/loginProtection';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
+const organizations = new Organizations();
+const authTokens = new AuthTokens();
+const mfa = new MultiFactorAuth();
+const passkeys = new Passkeys();
+const loginProtection = new LoginProtection();
+
+// Compared against when there is no active account, so a login for an unknown
+// email takes as long as one with a wrong password
+const UNKNOWN_ACCOUNT_HASH = '$2a$12$mGmSNtGl7RNwPkUyQ8LcBut3oR4Wqe6z9Okrc1zWrYGU5LrBV/SSu';
+
+const sessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('User-Agent'),
+  ipAddress: req.ip
+});
+
+// Second factors the user can complete a password login with
+const secondFactors = async (user: { id: string; mfaEnabled: boolean }): Promise<string[]> => [
+  ...(user.mfaEnabled ? ['totp', 'recovery_code'] : []),
+  ...((await passkeys.hasPasskeys(user.id)) ? ['webauthn'] : [])
+];
+
+// 429 while the account or IP address of the attempt is delayed or locked out
+const throttled = async (res: Response, attempt: LoginAttempt): Promise<boolean> => {
+  const retryAfter = await loginProtection.retryAfter(attempt);
+  if (retryAfter > 0) {
+    res.set('Retry-After', String(retryAfter));
+    res.status(429).json({ error: 'Too many failed login attempts. Try again later.', retryAfter });
+  }
+  return retryAfter > 0;
+};
+
+// Runs a credential check, counting a rejected credential (401) as a failed login
+const countingFailures = async <T>(attempt: LoginAttempt, check: () => Promise<T>): Promise<T> => {
+  try {
+    return await check();
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 401) {
+      await loginProtection.recordFailure(attempt);
+    }
+    throw error;
+  }
+};
+
+const completeLogin = async (
+  req: Request,
+  user: { id: string; email: string; firstName: string; lastName: string },
+  membership: OrganizationMembership,
+  mfaVerifiedAt: Date | null
+) => {
+  const tokens = await authTokens.issue(user, membership, sessionContext(req), mfaVerifiedAt);
+  await loginProtection.recordSuccess({ email: user.email, ipAddress: req.ip });
+
+  // Update last login
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLogin: new Date() }
+  });
+
+  return {
+    message: 'Login successful',
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: membership.role
+    },
+    organization: membership,
+    ...tokens
+  };
+};
 
 /**
  * @route   POST /api/auth/register
@@ -29,11 +121,17 @@ router.post('/register', validateRequest(registerSchema), async (req, res, next)
       });
     }
 
+    // A named organization must be new; a personal one gets a unique suffix
+    const organizationName = organization || `${firstName} ${lastName}`;
+    const slug = organization
+      ? await organizations.ensureNameAvailable(organization)
+      : `${slugify(organizationName) || 'personal'}-${crypto.randomBytes(4).toString('hex')}`;
+
     // Hash password
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-    // Create user
+    // Create user together with the organization they administer
     const user = await prisma.user.create({
       data: {
         email,
@@ -41,8 +139,14 @@ router.post('/register', validateRequest(registerSchema), async (req, res, next)
         firstName,
         lastName,
         role,
-        organization,
-        isActive: true
+        organization: organizationName,
+        isActive: true,
+        memberships: {
+          create: {
+            role: 'ADMIN',
+            organization: { create: { name: organizationName, slug } }
+          }
+        }
       },
       select: {
         id: true,
@@ -52,23 +156,26 @@ router.post('/register', validateRequest(registerSchema), async (req, res, next)
         role: true,
         organization: true,
         isActive: true,
-        createdAt: true
+        createdAt: true,
+        memberships: {
+          select: { role: true, organization: { select: { id: true, name: true, slug: true } } }
+        }
       }
     });
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '24h' }
-    );
+    const { memberships, ...profile } = user;
+    const membership: OrganizationMembership = { ...memberships[0].organization, role: memberships[0].role };
 
     res.status(201).json({
       message: 'User registered successfully',
-      user,
-      token
+      user: profile,
+      organization: membership,
+      ...(await authTokens.issue(user, membership, sessionContext(req)))
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     next(error);
   }
 });
@@ -80,7 +187,12 @@ router.post('/register', validateRequest(registerSchema), async (req, res, next)
  */
 router.post('/login', validateRequest(loginSchema), async (req, res, next) => {
   try {
-    const { email, password } = req.body;
+    const { email, password, organizationId } = req.body;
+    const attempt = { email, ipAddress: req.ip };
+
+    if (await throttled(res, attempt)) {
+      return;
+    }
 
     // Find user
     const user = await prisma.user.findUnique({
@@ -88,6 +200,8 @@ router.post('/login', validateRequest(loginSchema), async (req, res, next) => {
     });
 
     if (!user || !user.isActive) {
+      await bcrypt.compare(password, UNKNOWN_ACCOUNT_HASH);
+      await loginProtection.recordFailure(attempt);
       return res.status(401).json({
         error: 'Invalid credentials'
       });
@@ -97,36 +211,31 @@ router.post('/login', validateRequest(loginSchema), async (req, res, next) => {
     const isValidPassword = await bcrypt.compare(password, user.password);
 
     if (!isValidPassword) {
+      await loginProtection.recordFailure(attempt);
       return res.status(401).json({
         error: 'Invalid credentials'
       });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '24h' }
-    );
+    // Without an explicit choice the oldest membership is used
+    const membership = await organizations.resolveMembership(user.id, organizationId);
 
-    // Update last login
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { lastLogin: new Date() }
-    });
+    // Enrolled users get a session only once their second factor is verified
+    const mfaMethods = await secondFactors(user);
+    if (mfaMethods.length > 0) {
+      return res.json({
+        message: 'Multi-factor authentication required',
+        mfaRequired: true,
+        mfaMethods,
+        mfaToken: mfa.challengeToken(user.id, membership.id)
+      });
+    }
 
-    res.json({
-      message: 'Login successful',
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role
-      },
-      token
-    });
+    res.json(await completeLogin(req, user, membership, null));
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     next(error);
   }
 });
@@ -136,7 +245,7 @@ router.post('/login', validateRequest(loginSchema), async (req, res, next) => {
  * @desc    Get current user profile
  * @access  Private
  */
-router.get('/me', authMiddleware, async (req: Request, res, next) => {
+router.get('/me', sessionAuthMiddleware, async (req: Request, res, next) => {
   try {
     const authReq = req as any;
     if (!authReq.user) {
@@ -164,12 +273,543 @@ router.get('/me', authMiddleware, async (req: Request, res, next) => {
       });
     }
 
+    const memberships = await organizations.membershipsFor(user.id);
+
     res.json({
-      user
+      user,
+      organizationId: authReq.user.organizationId ?? null,
+      organizations: memberships
     });
   } catch (error) {
     next(error);
   }
 });
 
+/**
+ * @route   POST /api/auth/switch-organization
+ * @desc    Issue a token for another organization the user belongs to
+ * @access  Private
+ */
+router.post('/switch-organization', sessionAuthMiddleware, validateRequest(switchOrganizationSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const userId = req.user.userId;
+
+    // The user is looked up outside the current organization's scope
+    const user = await runInOrganization(null, () =>
+      prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true, isActive: true } })
+    );
+
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const membership = await organizations.resolveMembership(user.id, req.body.organizationId);
+
+    // The new organization gets its own session, keeping the MFA done in this one; the current one ends
+    const mfaVerifiedAt = req.user.mfaAt ? new Date(req.user.mfaAt * 1000) : null;
+    const tokens = await authTokens.issue(user, membership, sessionContext(req), mfaVerifiedAt);
+    if (req.user.sid) {
+      await authTokens.revokeSession(req.user.sid, userId);
+    }
+
+    res.json({
+      message: 'Organization switched successfully',
+      organization: membership,
+      ...tokens
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new access and refresh token
+ * @access  Public
+ */
+router.post('/refresh', validateRequest(refreshTokenSchema), async (req, res, next) => {
+  try {
+    const { organization, ...tokens } = await authTokens.refresh(req.body.refreshToken, sessionContext(req));
+
+    res.json({
+      message: 'Token refreshed successfully',
+      organization,
+      ...tokens
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    End the current session, or every session with `allSessions`
+ * @access  Private
+ */
+router.post('/logout', sessionAuthMiddleware, validateRequest(logoutSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const revoked = req.body.allSessions
+      ? await authTokens.revokeAllSessions(req.user.userId)
+      : await authTokens.revokeSession(req.user.sid!, req.user.userId);
+
+    res.json({ message: 'Logged out successfully', revoked });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/mfa/login
+ * @desc    Complete the login of an MFA-enrolled user with the `mfaToken` from
+ *          /login and a `code` or `recoveryCode`
+ * @access  Public
+ */
+router.post('/mfa/login', validateRequest(mfaLoginSchema), async (req, res, next) => {
+  try {
+    const { userId, organizationId } = mfa.readChallengeToken(req.body.mfaToken);
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    // Wrong codes count against the account like wrong passwords
+    if (await throttled(res, { email: user.email, ipAddress: req.ip })) {
+      return;
+    }
+
+    // Scoped so a consumed recovery code is audited in the organization being logged into
+    await runInOrganization(organizationId, () =>
+      mfa.verify(user.id, { code: req.body.code, recoveryCode: req.body.recoveryCode }, req.ip)
+    );
+    const membership = await organizations.resolveMembership(user.id, organizationId);
+
+    res.json(await completeLogin(req, user, membership, new Date()));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/auth/mfa
+ * @desc    MFA status of the logged-in user and whether their role requires it
+ * @access  Private
+ */
+router.get('/mfa', sessionAuthMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const status = await mfa.status(req.user.userId);
+
+    res.json({
+      ...status,
+      required: roleRequiresMfa(req.user.role),
+      verifiedAt: req.user.mfaAt ? new Date(req.user.mfaAt * 1000) : null
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/mfa/enroll
+ * @desc    Start TOTP enrollment: a new secret and its otpauth:// URI for a QR code
+ * @access  Private
+ */
+router.post('/mfa/enroll', sessionAuthMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const enrollment = await mfa.beginEnrollment(req.user.userId);
+    res.json(enrollment);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/mfa/enroll/verify
+ * @desc    Confirm enrollment with a first `code`; returns the recovery codes and
+ *          an access token for the now MFA-verified session
+ * @access  Private
+ */
+router.post('/mfa/enroll/verify', sessionAuthMiddleware, validateRequest(mfaCodeSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const recoveryCodes = await mfa.confirmEnrollment(req.user.userId, req.body.code, req.user, req.ip);
+    const membership = await organizations.resolveMembership(req.user.userId, req.user.organizationId);
+    const { token, expiresIn } = await authTokens.markMfaVerified(
+      { id: req.user.userId, email: req.user.email }, membership, req.user.sid!
+    );
+
+    res.json({
+      message: 'Multi-factor authentication enabled',
+      recoveryCodes,
+      token,
+      expiresIn
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/mfa/step-up
+ * @desc    Answer an MFA challenge with a `code` or `recoveryCode`; returns a new
+ *          access token for the same session to retry the request with
+ * @access  Private
+ */
+router.post('/mfa/step-up', sessionAuthMiddleware, validateRequest(mfaProofSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const method = await mfa.verify(req.user.userId, req.body, req.ip);
+    const membership = await organizations.resolveMembership(req.user.userId, req.user.organizationId);
+    const { token, expiresIn, mfaVerifiedAt } = await authTokens.markMfaVerified(
+      { id: req.user.userId, email: req.user.email }, membership, req.user.sid!
+    );
+
+    res.json({
+      message: 'Multi-factor authentication verified',
+      method,
+      verifiedAt: mfaVerifiedAt,
+      token,
+      expiresIn
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/mfa/recovery-codes
+ * @desc    Replace all recovery codes, confirmed with a current `code`
+ * @access  Private
+ */
+router.post('/mfa/recovery-codes', authMiddleware, validateRequest(mfaCodeSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const recoveryCodes = await mfa.regenerateRecoveryCodes(req.user.userId, req.body.code, req.user, req.ip);
+    res.json({ message: 'Recovery codes replaced', recoveryCodes });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/mfa
+ * @desc    Turn off MFA, confirmed with a `code` or `recoveryCode` (not for roles that require it)
+ * @access  Private
+ */
+router.delete('/mfa', authMiddleware, validateRequest(mfaProofSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await mfa.disable(req.user.userId, req.body, req.user.role, req.user, req.ip);
+    res.json({ message: 'Multi-factor authentication disabled' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/register/options
+ * @desc    Options for registering a passkey with navigator.credentials.create()
+ * @access  Private
+ */
+router.post('/webauthn/register/options', sessionAuthMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const options = await passkeys.registrationOptions(req.user.userId);
+    res.json(options);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/register/verify
+ * @desc    Register the passkey created with the options; returns an access token for
+ *          the now MFA-verified session
+ * @access  Private
+ */
+router.post('/webauthn/register/verify', sessionAuthMiddleware, validateRequest(passkeyRegistrationSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const passkey = await passkeys.verifyRegistration(req.user.userId, req.body.credential, req.body.name, req.user);
+    const membership = await organizations.resolveMembership(req.user.userId, req.user.organizationId);
+    const { token, expiresIn } = await authTokens.markMfaVerified(
+      { id: req.user.userId, email: req.user.email }, membership, req.user.sid!
+    );
+
+    res.status(201).json({
+      message: 'Passkey registered',
+      passkey,
+      token,
+      expiresIn
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/auth/webauthn/credentials
+ * @desc    Passkeys of the logged-in user
+ * @access  Private
+ */
+router.get('/webauthn/credentials', sessionAuthMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const credentials = await passkeys.list(req.user.userId);
+    res.json({ credentials });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/webauthn/credentials/:id
+ * @desc    Remove one of the logged-in user's passkeys
+ * @access  Private (recent MFA)
+ */
+router.delete('/webauthn/credentials/:id', authMiddleware, requireRecentMfa, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await passkeys.remove(req.user.userId, req.params.id, req.user);
+    res.json({ message: 'Passkey removed' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/login/options
+ * @desc    Options for a passwordless login with navigator.credentials.get()
+ * @access  Public
+ */
+router.post('/webauthn/login/options', async (req, res, next) => {
+  try {
+    const options = await passkeys.authenticationOptions();
+    res.json(options);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/login/verify
+ * @desc    Passwordless login with a passkey that verified the user; the session
+ *          counts as MFA-verified
+ * @access  Public
+ */
+router.post('/webauthn/login/verify', validateRequest(passkeyLoginSchema), async (req, res, next) => {
+  try {
+    // The account is unknown until the passkey is verified, so only the IP address is throttled
+    const attempt = { ipAddress: req.ip };
+    if (await throttled(res, attempt)) {
+      return;
+    }
+
+    const { userId } = await countingFailures(attempt, () => passkeys.verifyAuthentication(req.body.credential));
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const membership = await organizations.resolveMembership(user.id, req.body.organizationId);
+    res.json(await completeLogin(req, user, membership, new Date()));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/mfa/options
+ * @desc    Options for completing a password login with a passkey as second factor
+ * @access  Public
+ */
+router.post('/webauthn/mfa/options', validateRequest(passkeyMfaOptionsSchema), async (req, res, next) => {
+  try {
+    const { userId } = mfa.readChallengeToken(req.body.mfaToken);
+    const options = await passkeys.authenticationOptions(userId);
+    res.json(options);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/mfa/verify
+ * @desc    Complete a password login with the `mfaToken` from /login and a passkey
+ * @access  Public
+ */
+router.post('/webauthn/mfa/verify', validateRequest(passkeyMfaLoginSchema), async (req, res, next) => {
+  try {
+    const { userId, organizationId } = mfa.readChallengeToken(req.body.mfaToken);
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const attempt = { email: user.email, ipAddress: req.ip };
+    if (await throttled(res, attempt)) {
+      return;
+    }
+
+    await countingFailures(attempt, () => passkeys.verifyAuthentication(req.body.credential, user.id));
+    const membership = await organizations.resolveMembership(user.id, organizationId);
+
+    res.json(await completeLogin(req, user, membership, new Date()));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/step-up/options
+ * @desc    Options for answering an MFA challenge with a passkey
+ * @access  Private
+ */
+router.post('/webauthn/step-up/options', sessionAuthMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const options = await passkeys.authenticationOptions(req.user.userId);
+    res.json(options);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/step-up/verify
+ * @desc    Answer an MFA challenge with a passkey; returns a new access token for the
+ *          same session to retry the request with
+ * @access  Private
+ */
+router.post('/webauthn/step-up/verify', sessionAuthMiddleware, validateRequest(passkeyStepUpSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const attempt = { email: req.user.email, ipAddress: req.ip };
+    if (await throttled(res, attempt)) {
+      return;
+    }
+
+    await countingFailures(attempt, () => passkeys.verifyAuthentication(req.body.credential, req.user!.userId));
+    const membership = await organizations.resolveMembership(req.user.userId, req.user.organizationId);
+    const { token, expiresIn, mfaVerifiedAt } = await authTokens.markMfaVerified(
+      { id: req.user.userId, email: req.user.email }, membership, req.user.sid!
+    );
+
+    res.json({
+      message: 'Multi-factor authentication verified',
+      method: 'webauthn',
+      verifiedAt: mfaVerifiedAt,
+      token,
+      expiresIn
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
 export default router;
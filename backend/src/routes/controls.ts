@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { ControlCatalog } from '../services/controlCatalog';
+import { HttpError } from '../utils/errors';
+
+const router = Router();
+const catalog = new ControlCatalog();
+
+/**
+ * @route   GET /api/controls/frameworks
+ * @desc    Frameworks in the bundled control catalog with their control counts
+ * @access  Private
+ */
+router.get('/frameworks', authMiddleware, (req, res) => {
+  res.json({ frameworks: catalog.frameworks() });
+});
+
+/**
+ * @route   GET /api/controls/coverage
+ * @desc    Controls covered, pending and unmapped per framework (filter by `framework`)
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/coverage', authMiddleware, roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']), async (req, res, next) => {
+  try {
+    const coverage = await catalog.coverage(req.query.framework ? String(req.query.framework) : undefined);
+    res.json({ coverage });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/controls
+ * @desc    Catalog controls (filter by `framework` and `domain`)
+ * @access  Private
+ */
+router.get('/', authMiddleware, (req, res, next) => {
+  try {
+    const controls = catalog.controls({
+      framework: req.query.framework ? String(req.query.framework) : undefined,
+      domain: req.query.domain ? String(req.query.domain) : undefined
+    });
+    res.json({ controls, total: controls.length });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/controls/:controlId/policies
+ * @desc    A control and the policies mapped to it
+ * @access  Private
+ */
+router.get('/:controlId/policies', authMiddleware, async (req, res, next) => {
+  try {
+    const mapped = await catalog.policiesForControl(req.params.controlId);
+    res.json(mapped);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { accessRequestSchema } from '../validators/decision';
+import { PolicyDecisionPoint } from '../services/policyDecision';
+import { HttpError } from '../utils/errors';
+
+const router = Router();
+const decisionPoint = new PolicyDecisionPoint();
+
+// Roles that may ask for decisions on behalf of other subjects
+const DELEGATE_ROLES = ['ADMIN', 'POLICY_MANAGER', 'AUDITOR'];
+
+/**
+ * @route   POST /api/decide
+ * @desc    Evaluate an access request against active policy rules. For a decision about
+ *          the caller, only `subject.id` may be sent: the subject and context are
+ *          resolved on the server
+ * @access  Private (users may only ask about themselves)
+ */
+router.post('/', authMiddleware, validateRequest(accessRequestSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { resource, action } = req.body;
+    let { subject, context } = req.body;
+
+    if (!DELEGATE_ROLES.includes(req.user.role)) {
+      if (subject.id !== req.user.userId) {
+        return res.status(403).json({ error: 'Insufficient permissions to request decisions for other subjects' });
+      }
+
+      // Attributes a caller could claim for themselves are not taken from the request
+      const claimed = Object.keys(subject).filter(key => key !== 'id');
+      if (claimed.length > 0 || context) {
+        return res.status(400).json({
+          error: 'Subject attributes and context are resolved by the server for your own decisions',
+          claimed: [...claimed.map(key => `subject.${key}`), ...(context ? ['context'] : [])]
+        });
+      }
+
+      subject = await decisionPoint.subjectFor(req.user.userId);
+      context = { ip: req.ip, mfa: Boolean(req.user.mfaAt) };
+    }
+
+    const result = await decisionPoint.decide({ subject, resource, action, context }, req.user.userId);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,171 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { requireRecentMfa } from '../middleware/mfa';
+import { validateRequest } from '../middleware/validation';
+import { singleFileUpload } from '../middleware/upload';
+import { evidenceUploadSchema } from '../validators/evidence';
+import { EvidenceStore } from '../services/evidenceStore';
+import { HttpError } from '../utils/errors';
+
+const router = Router();
+const evidenceStore = new EvidenceStore();
+
+const EVIDENCE_ROLES = ['ADMIN', 'POLICY_MANAGER', 'AUDITOR'];
+
+/**
+ * @route   POST /api/evidence
+ * @desc    Upload an evidence file (multipart `file`), optionally linked to a policy and a control
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.post('/',
+  authMiddleware,
+  roleCheck(EVIDENCE_ROLES),
+  singleFileUpload('file'),
+  validateRequest(evidenceUploadSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'An evidence file is required' });
+    }
+
+    const { evidence, duplicate } = await evidenceStore.upload({
+      fileName: req.file.originalname,
+      mimeType: req.file.mimetype,
+      content: req.file.buffer,
+      policyId: req.body.policyId,
+      controlId: req.body.controlId,
+      description: req.body.description
+    }, req.user);
+
+    res.status(duplicate ? 200 : 201).json({
+      message: duplicate ? 'Evidence already stored' : 'Evidence uploaded successfully',
+      duplicate,
+      evidence
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/evidence
+ * @desc    Evidence records (filter by `policyId`, `controlId`, `sha256`; `disposable=true` for those past retention)
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/', authMiddleware, roleCheck(EVIDENCE_ROLES), async (req, res, next) => {
+  try {
+    const evidence = await evidenceStore.list({
+      policyId: req.query.policyId ? String(req.query.policyId) : undefined,
+      controlId: req.query.controlId ? String(req.query.controlId) : undefined,
+      sha256: req.query.sha256 ? String(req.query.sha256).toLowerCase() : undefined,
+      disposable: req.query.disposable === 'true'
+    });
+    res.json({ evidence });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/evidence/verify
+ * @desc    Re-hash every stored evidence file and flag missing or corrupted ones
+ * @access  Private (Admin, Auditor)
+ */
+router.post('/verify', authMiddleware, roleCheck(['ADMIN', 'AUDITOR']), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const summary = await evidenceStore.verifyAll(req.user);
+    res.json(summary);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/evidence/:id
+ * @desc    Evidence metadata, links and last integrity result
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/:id', authMiddleware, roleCheck(EVIDENCE_ROLES), async (req, res, next) => {
+  try {
+    const evidence = await evidenceStore.get(req.params.id);
+    res.json({ evidence });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/evidence/:id/download
+ * @desc    Download the evidence file after checking it against its hash
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/:id/download', authMiddleware, roleCheck(EVIDENCE_ROLES), async (req, res, next) => {
+  try {
+    const { evidence, content } = await evidenceStore.read(req.params.id);
+
+    res.setHeader('Content-Type', evidence.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${evidence.fileName.replace(/[^\w.\- ]/g, '_')}"`);
+    res.setHeader('X-Evidence-Hash', evidence.sha256);
+    res.send(content);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/evidence/:id/verify
+ * @desc    Re-hash one stored evidence file
+ * @access  Private (Admin, Auditor)
+ */
+router.post('/:id/verify', authMiddleware, roleCheck(['ADMIN', 'AUDITOR']), async (req, res, next) => {
+  try {
+    const evidence = await evidenceStore.verify(req.params.id);
+    res.json({ evidence });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/evidence/:id
+ * @desc    Delete evidence whose retention period has passed
+ * @access  Private (Admin, recent MFA)
+ */
+router.delete('/:id', authMiddleware, roleCheck(['ADMIN']), requireRecentMfa, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await evidenceStore.remove(req.params.id, req.user);
+    res.json({ message: 'Evidence deleted successfully' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+export default router;
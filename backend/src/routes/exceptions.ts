@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { validateRequest } from '../middleware/validation';
+import { rejectPolicySchema, workflowCommentSchema } from '../validators/policy';
+import { ExceptionStatus, PolicyExceptions } from '../services/policyExceptions';
+import { HttpError } from '../utils/errors';
+
+const router = Router();
+const exceptions = new PolicyExceptions();
+
+const STATUSES: ExceptionStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'REVOKED', 'EXPIRED'];
+
+/**
+ * @route   GET /api/exceptions
+ * @desc    Policy exceptions across all policies (filter by `status`)
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/', authMiddleware, roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']), async (req, res, next) => {
+  try {
+    const status = req.query.status ? String(req.query.status).toUpperCase() : undefined;
+    if (status && !STATUSES.includes(status as ExceptionStatus)) {
+      return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` });
+    }
+
+    const list = await exceptions.list({ status: status as ExceptionStatus | undefined });
+    res.json({ exceptions: list });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/exceptions/:id/approve
+ * @desc    Approve a pending exception; the requester cannot approve their own
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/:id/approve',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(workflowCommentSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const exception = await exceptions.approve(req.params.id, req.user, req.body.comments);
+
+    res.json({
+      message: 'Policy exception approved successfully',
+      exception
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/exceptions/:id/reject
+ * @desc    Reject a pending exception (comments required)
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/:id/reject',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(rejectPolicySchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const exception = await exceptions.reject(req.params.id, req.user, req.body.comments);
+
+    res.json({
+      message: 'Policy exception rejected',
+      exception
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/exceptions/:id/revoke
+ * @desc    End a pending or approved exception before it expires
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/:id/revoke',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(workflowCommentSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const exception = await exceptions.revoke(req.params.id, req.user, req.body.comments);
+
+    res.json({
+      message: 'Policy exception revoked',
+      exception
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { isPlatformAdmin } from '../middleware/platformAdmin';
+import { LoginProtection, ThrottleScope } from '../services/loginProtection';
+import { HttpError } from '../utils/errors';
+
+const router = Router();
+const loginProtection = new LoginProtection();
+
+/**
+ * @route   GET /api/lockouts
+ * @desc    Accounts and IP addresses currently locked out of or delayed at login (filter by `scope`).
+ *          IP addresses are only listed for platform admins
+ * @access  Private (Admin only)
+ */
+router.get('/', authMiddleware, roleCheck(['ADMIN']), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const scope = req.query.scope ? (String(req.query.scope).toUpperCase() as ThrottleScope) : undefined;
+    if (scope && scope !== 'ACCOUNT' && scope !== 'IP') {
+      return res.status(400).json({ error: 'scope must be ACCOUNT or IP' });
+    }
+
+    const platformAdmin = await isPlatformAdmin(req.user.userId);
+    if (scope === 'IP' && !platformAdmin) {
+      return res.status(403).json({ error: 'Platform admin access required' });
+    }
+
+    const lockouts = await loginProtection.list({ scope }, platformAdmin);
+    res.json({ lockouts });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/lockouts/:id
+ * @desc    Clear a lockout and the failed attempts behind it. Account lockouts can be
+ *          cleared for members of the organization, IP address lockouts only by a platform admin
+ * @access  Private (Admin only)
+ */
+router.delete('/:id', authMiddleware, roleCheck(['ADMIN']), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await loginProtection.clear(req.params.id, req.user, await isPlatformAdmin(req.user.userId));
+    res.json({ message: 'Lockout cleared' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,271 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { requireRecentMfa } from '../middleware/mfa';
+import { validateRequest } from '../middleware/validation';
+import { organizationInvitationSchema, organizationMemberRoleSchema, organizationSchema } from '../validators/auth';
+import { Organizations } from '../services/organizations';
+import { HttpError } from '../utils/errors';
+
+const router = Router();
+const organizations = new Organizations();
+
+// Members can only be managed in the organization the token was issued for
+const currentOrganization = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user?.organizationId || req.user.organizationId !== req.params.id) {
+    return res.status(403).json({ error: 'Switch to this organization first' });
+  }
+  next();
+};
+
+/**
+ * @route   GET /api/organizations
+ * @desc    Organizations the logged-in user belongs to, with their role in each
+ * @access  Private
+ */
+router.get('/', authMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const memberships = await organizations.membershipsFor(req.user.userId);
+    res.json({ organizations: memberships, current: req.user.organizationId ?? null });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/organizations
+ * @desc    Create an organization with the logged-in user as its admin
+ * @access  Private
+ */
+router.post('/', authMiddleware, validateRequest(organizationSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const organization = await organizations.create(req.body.name, req.user.userId);
+
+    res.status(201).json({
+      message: 'Organization created successfully',
+      organization
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/organizations/invitations
+ * @desc    Pending invitations addressed to the logged-in user
+ * @access  Private
+ */
+router.get('/invitations', authMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const invitations = await organizations.invitationsFor(req.user.userId);
+    res.json({ invitations });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/organizations/invitations/:invitationId/accept
+ * @desc    Join the organization an invitation is for
+ * @access  Private (the invited user only)
+ */
+router.post('/invitations/:invitationId/accept', authMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const organization = await organizations.acceptInvitation(req.params.invitationId, req.user.userId);
+
+    res.json({
+      message: 'Invitation accepted successfully',
+      organization
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/organizations/invitations/:invitationId/decline
+ * @desc    Decline an invitation
+ * @access  Private (the invited user only)
+ */
+router.post('/invitations/:invitationId/decline', authMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await organizations.declineInvitation(req.params.invitationId, req.user.userId);
+
+    res.json({ message: 'Invitation declined' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/organizations/:id/members
+ * @desc    Members of the current organization
+ * @access  Private
+ */
+router.get('/:id/members', authMiddleware, currentOrganization, async (req, res, next) => {
+  try {
+    const members = await organizations.listMembers(req.params.id);
+    res.json({ members });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/organizations/:id/invitations
+ * @desc    Pending invitations to the current organization
+ * @access  Private (Admin only)
+ */
+router.get('/:id/invitations', authMiddleware, currentOrganization, roleCheck(['ADMIN']), async (req, res, next) => {
+  try {
+    const invitations = await organizations.listInvitations(req.params.id);
+    res.json({ invitations });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/organizations/:id/invitations
+ * @desc    Invite a user by email; they join once they accept
+ * @access  Private (Admin only, recent MFA)
+ */
+router.post('/:id/invitations',
+  authMiddleware,
+  currentOrganization,
+  roleCheck(['ADMIN']),
+  requireRecentMfa,
+  validateRequest(organizationInvitationSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const invitation = await organizations.invite(req.params.id, req.body.email, req.body.role, req.user);
+
+    res.status(201).json({
+      message: 'Invitation sent successfully',
+      invitation
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/organizations/:id/invitations/:invitationId
+ * @desc    Revoke a pending invitation
+ * @access  Private (Admin only, recent MFA)
+ */
+router.delete('/:id/invitations/:invitationId',
+  authMiddleware,
+  currentOrganization,
+  roleCheck(['ADMIN']),
+  requireRecentMfa,
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await organizations.revokeInvitation(req.params.id, req.params.invitationId, req.user);
+
+    res.json({ message: 'Invitation revoked successfully' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   PUT /api/organizations/:id/members/:userId
+ * @desc    Change a member's role in the current organization
+ * @access  Private (Admin only, recent MFA)
+ */
+router.put('/:id/members/:userId',
+  authMiddleware,
+  currentOrganization,
+  roleCheck(['ADMIN']),
+  requireRecentMfa,
+  validateRequest(organizationMemberRoleSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const member = await organizations.updateMemberRole(req.params.id, req.params.userId, req.body.role, req.user);
+
+    res.json({
+      message: 'Member updated successfully',
+      member
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/organizations/:id/members/:userId
+ * @desc    Remove a member from the current organization
+ * @access  Private (Admin only, recent MFA)
+ */
+router.delete('/:id/members/:userId', authMiddleware, currentOrganization, roleCheck(['ADMIN']), requireRecentMfa, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await organizations.removeMember(req.params.id, req.params.userId, req.user);
+
+    res.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+export default router;
@@ -1,16 +1,67 @@
 import { Router } from 'express';
-import { PrismaClient } from '@prisma/client';
 import { authMiddleware } from '../middleware/auth';
 import { roleCheck } from '../middleware/roleCheck';
 import { validateRequest } from '../middleware/validation';
-import { createPolicySchema, updatePolicySchema } from '../validators/policy';
+import { singleFileUpload } from '../middleware/upload';
+import {
+  createPolicySchema,
+  updatePolicySchema,
+  workflowCommentSchema,
+  rejectPolicySchema,
+  assignPolicySchema,
+  acknowledgePolicySchema,
+  renameTagSchema,
+  mergeTagsSchema,
+  validateRulesSchema,
+  simulatePolicySchema,
+  markReviewedSchema,
+  policyExceptionSchema,
+  policyControlsSchema
+} from '../validators/policy';
+import { PolicyWorkflow } from '../services/policyWorkflow';
+import { PolicyVersioning } from '../services/policyVersioning';
+import { PolicyAssignments } from '../services/policyAssignments';
+import { PolicyTransfer } from '../services/policyTransfer';
+import { PolicyScheduler } from '../services/policyScheduler';
+import { PolicyTags } from '../services/policyTags';
+import { PolicySearch } from '../services/policySearch';
+import { PolicyRules } from '../services/policyRules';
+import { PolicySimulation } from '../services/policySimulation';
+import { PolicyConflicts } from '../services/policyConflicts';
+import { PolicyReviews } from '../services/policyReviews';
+import { PolicyDocuments } from '../services/policyDocuments';
+import { PolicyHistory } from '../services/policyHistory';
+import { PolicyExceptions } from '../services/policyExceptions';
+import { ControlCatalog } from '../services/controlCatalog';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { buildPolicyWhere, matchesPolicyFilters, normalizeTags } from '../utils/policyFilters';
+import { createPrismaClient } from '../utils/tenancy';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
+const workflow = new PolicyWorkflow();
+const versioning = new PolicyVersioning();
+const assignments = new PolicyAssignments();
+const transfer = new PolicyTransfer();
+const scheduler = new PolicyScheduler();
+const tagCatalog = new PolicyTags();
+const policySearch = new PolicySearch();
+const policyRules = new PolicyRules();
+const simulation = new PolicySimulation();
+const conflictAnalyzer = new PolicyConflicts();
+const reviews = new PolicyReviews();
+const documents = new PolicyDocuments();
+const history = new PolicyHistory();
+const exceptions = new PolicyExceptions();
+const controlCatalog = new ControlCatalog();
 
 /**
  * @route   GET /api/policies
- * @desc    Get all policies (with filtering, sorting, pagination)
+ * @desc    Get all policies (with filtering, sorting, pagination) and facet counts
+ *          for category, status, framework and tags. `search` runs a ranked
+ *          full-text search; `includeVersions=true` also searches earlier versions.
+ *          `asOf` lists policies as they stood at that date.
  * @access  Private
  */
 router.get('/', authMiddleware, async (req, res, next) => {
@@ -18,43 +69,61 @@ router.get('/', authMiddleware, async (req, res, next) => {
     const {
       page = 1,
       limit = 10,
-      category,
-      status,
-      search,
-      sortBy = 'createdAt',
       sortOrder = 'desc'
     } = req.query;
+    const search = req.query.search ? String(req.query.search) : undefined;
+    const includeVersions = req.query.includeVersions === 'true';
 
     const skip = (Number(page) - 1) * Number(limit);
     const take = Number(limit);
 
-    // Build where clause
-    const where: any = {};
-    
-    if (category) {
-      where.category = category;
-    }
-    
-    if (status) {
-      where.status = status;
-    }
-    
-    if (search) {
-      where.OR = [
-        { title: { contains: search as string, mode: 'insensitive' } },
-        { description: { contains: search as string, mode: 'insensitive' } },
-        { content: { contains: search as string, mode: 'insensitive' } }
-      ];
+    // Past states are reconstructed rather than queried, so they are filtered and paged here
+    if (req.query.asOf !== undefined) {
+      const asOf = history.parseAsOf(req.query.asOf);
+      const matches = search ? await policySearch.rank(search, { includeVersions }) : null;
+      const states = await history.listAsOf(asOf, matches?.map(match => match.policyId));
+
+      const sortBy = ((req.query.sortBy as string) || 'createdAt') as keyof (typeof states)[number];
+      const direction = sortOrder === 'desc' ? -1 : 1;
+      const value = (policy: (typeof states)[number]) => policy[sortBy] ?? '';
+      const filtered = states
+        .filter(policy => matchesPolicyFilters(policy, req.query))
+        .sort((a, b) => (value(a) > value(b) ? 1 : value(a) < value(b) ? -1 : 0) * direction);
+      const totalPages = Math.ceil(filtered.length / take);
+
+      return res.json({
+        asOf,
+        policies: filtered.slice(skip, skip + take),
+        facets: history.facets(states, req.query),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: filtered.length,
+          totalPages,
+          hasNext: Number(page) < totalPages,
+          hasPrev: Number(page) > 1
+        }
+      });
     }
 
+    // Build where clause, narrowed to full-text matches when searching
+    const where = buildPolicyWhere(req.query);
+    const matches = search ? await policySearch.rank(search, { includeVersions }) : null;
+    const searchScope = matches ? { id: { in: matches.map(match => match.policyId) } } : {};
+    Object.assign(where, searchScope);
+
+    // Search results are ordered by relevance unless a sort field is given
+    const byRelevance = matches !== null && !req.query.sortBy;
+    const sortBy = (req.query.sortBy as string) || 'createdAt';
+
     // Get policies with pagination
-    const [policies, total] = await Promise.all([
+    const [found, total, facets] = await Promise.all([
       prisma.policy.findMany({
         where,
-        skip,
-        take,
+        skip: byRelevance ? undefined : skip,
+        take: byRelevance ? undefined : take,
         orderBy: {
-          [sortBy as string]: sortOrder === 'desc' ? 'desc' : 'asc'
+          [sortBy]: sortOrder === 'desc' ? 'desc' : 'asc'
         },
         include: {
           author: {
@@ -64,21 +133,49 @@ router.get('/', authMiddleware, async (req, res, next) => {
               lastName: true,
               email: true
             }
-          },
-          _count: {
-            select: {
-              auditLogs: true
-            }
           }
         }
       }),
-      prisma.policy.count({ where })
+      prisma.policy.count({ where }),
+      tagCatalog.getFacets(req.query, searchScope)
     ]);
 
+    let policies = found;
+    if (byRelevance && matches) {
+      const position = new Map(matches.map((match, index) => [match.policyId, index]));
+      policies = found
+        .sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0))
+        .slice(skip, skip + take);
+    }
+
+    // Audit logs reference entities loosely by id, so count them separately
+    const auditCounts = await prisma.auditLog.groupBy({
+      by: ['entityId'],
+      where: { entityId: { in: policies.map(policy => policy.id) } },
+      _count: { _all: true }
+    });
+    const auditCountById = new Map(auditCounts.map(row => [row.entityId, row._count._all]));
+
+    const highlights = search
+      ? await policySearch.highlight(policies.map(policy => policy.id), search, { includeVersions })
+      : {};
+    const matchById = new Map((matches || []).map(match => [match.policyId, match]));
+
     const totalPages = Math.ceil(total / take);
 
     res.json({
-      policies,
+      policies: policies.map(policy => ({
+        ...policy,
+        _count: { auditLogs: auditCountById.get(policy.id) || 0 },
+        ...(search && {
+          search: {
+            rank: matchById.get(policy.id)?.rank ?? 0,
+            matchedVersions: matchById.get(policy.id)?.matchedVersions ?? [],
+            ...highlights[policy.id]
+          }
+        })
+      })),
+      facets,
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -89,6 +186,236 @@ router.get('/', authMiddleware, async (req, res, next) => {
       }
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/export
+ * @desc    Export policies as JSON, YAML or CSV (same filters as GET /api/policies)
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/export',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']),
+  async (req, res, next) => {
+  try {
+    const format = transfer.detectFormat(undefined, (req.query.format as string) || 'json');
+    const where = buildPolicyWhere(req.query);
+    if (req.query.search) {
+      const matches = await policySearch.rank(String(req.query.search), {
+        includeVersions: req.query.includeVersions === 'true'
+      });
+      where.id = { in: matches.map(match => match.policyId) };
+    }
+
+    const result = await transfer.exportPolicies(where, format);
+
+    res.setHeader('Content-Type', result.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+    res.setHeader('X-Total-Count', String(result.count));
+    res.send(result.body);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/tags
+ * @desc    Get the tag catalog with usage counts (same filters as GET /api/policies)
+ * @access  Private
+ */
+router.get('/tags', authMiddleware, async (req, res, next) => {
+  try {
+    const tags = await tagCatalog.listTags(buildPolicyWhere(req.query, 'tags'));
+    res.json({ tags, total: tags.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/tags/merge
+ * @desc    Merge several tags into one across all policies
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/tags/merge',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(mergeTagsSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await tagCatalog.mergeTags(req.body.sources, req.body.target, req.user.userId);
+
+    res.json({
+      message: `Merged ${result.sources.length} tag(s) into "${result.target}"`,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   PUT /api/policies/tags/:tag
+ * @desc    Rename a tag across all policies (merges if the new name exists)
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.put('/tags/:tag',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(renameTagSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await tagCatalog.renameTag(req.params.tag, req.body.name, req.user.userId);
+
+    res.json({
+      message: `Tag renamed to "${result.target}"`,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/rules/validate
+ * @desc    Parse and type check a rule section without saving it
+ * @access  Private
+ */
+router.post('/rules/validate', authMiddleware, validateRequest(validateRulesSchema), (req, res) => {
+  const { rules, errors } = policyRules.validate(req.body.rules);
+
+  res.json({
+    valid: errors.length === 0,
+    errors,
+    rules: rules.map(rule => ({
+      name: rule.name,
+      effect: rule.effect,
+      actions: rule.actions || '*',
+      obligations: rule.obligations,
+      line: rule.span.line
+    }))
+  });
+});
+
+/**
+ * @route   GET /api/policies/upcoming-transitions
+ * @desc    Get policies that will activate or expire in the next `days` days (default 7)
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.get('/upcoming-transitions',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  async (req, res, next) => {
+  try {
+    const days = req.query.days ? Number(req.query.days) : 7;
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+      return res.status(400).json({ error: 'days must be an integer between 1 and 90' });
+    }
+
+    const transitions = await scheduler.upcomingTransitions(days);
+
+    res.json({
+      days,
+      transitions,
+      summary: {
+        activations: transitions.filter(t => t.transition === 'ACTIVATE').length,
+        expirations: transitions.filter(t => t.transition === 'EXPIRE').length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/effective
+ * @desc    Policies in force at `asOf` (default now) with their versions, document
+ *          hashes and a snapshot hash over the whole set
+ * @access  Private
+ */
+router.get('/effective', authMiddleware, async (req, res, next) => {
+  try {
+    const asOf = req.query.asOf !== undefined ? history.parseAsOf(req.query.asOf) : new Date();
+    const snapshot = await history.effectiveSet(asOf);
+
+    res.json(snapshot);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/import
+ * @desc    Import policies from a JSON, YAML or CSV file (multipart field "file")
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/import',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  singleFileUpload('file'),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'A policy file is required' });
+    }
+
+    const format = transfer.detectFormat(req.file.originalname, (req.query.format || req.body.format) as string);
+    const dryRun = req.query.dryRun === 'true' || req.body.dryRun === 'true';
+    const skipInvalid = req.query.skipInvalid === 'true' || req.body.skipInvalid === 'true';
+
+    const report = await transfer.importPolicies(
+      req.file.buffer.toString('utf8'),
+      format,
+      req.user.userId,
+      { dryRun, skipInvalid }
+    );
+
+    if (!dryRun && report.invalid > 0 && !skipInvalid) {
+      return res.status(422).json({
+        error: 'Import contains invalid policies; nothing was created',
+        report
+      });
+    }
+
+    res.status(dryRun ? 200 : 201).json({
+      message: dryRun
+        ? `Dry run: ${report.valid} of ${report.total} policies are valid`
+        : `Imported ${report.created} policies`,
+      report
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     next(error);
   }
 });
@@ -102,6 +429,19 @@ router.get('/:id', authMiddleware, async (req, res, next) => {
   try {
     const { id } = req.params;
 
+    if (req.query.asOf !== undefined) {
+      const asOf = history.parseAsOf(req.query.asOf);
+      const policy = await history.getAsOf(id, asOf);
+      const auditLogs = await prisma.auditLog.findMany({
+        where: { entityId: id, createdAt: { lte: asOf } },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+        include: { user: { select: { id: true, firstName: true, lastName: true } } }
+      });
+
+      return res.json({ policy: { ...policy, auditLogs } });
+    }
+
     const policy = await prisma.policy.findUnique({
       where: { id },
       include: {
@@ -113,17 +453,12 @@ router.get('/:id', authMiddleware, async (req, res, next) => {
             email: true
           }
         },
-        auditLogs: {
-          orderBy: { createdAt: 'desc' },
-          take: 10,
-          include: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true
-              }
-            }
+        approvedBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true
           }
         }
       }
@@ -133,8 +468,26 @@ router.get('/:id', authMiddleware, async (req, res, next) => {
       return res.status(404).json({ error: 'Policy not found' });
     }
 
-    res.json({ policy });
+    const auditLogs = await prisma.auditLog.findMany({
+      where: { entityId: id },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true
+          }
+        }
+      }
+    });
+
+    res.json({ policy: { ...policy, auditLogs } });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     next(error);
   }
 });
@@ -161,9 +514,12 @@ router.post('/',
       category,
       effectiveDate,
       expirationDate,
-      tags = []
+      tags = [],
+      rules
     } = req.body;
 
+    policyRules.assertValid(rules);
+
     const policy = await prisma.policy.create({
       data: {
         title,
@@ -172,6 +528,8 @@ router.post('/',
         category,
         effectiveDate: new Date(effectiveDate),
         expirationDate: expirationDate ? new Date(expirationDate) : null,
+        tags: normalizeTags(tags),
+        rules: rules || null,
         authorId: req.user.userId,
         status: 'DRAFT',
         version: 1
@@ -188,6 +546,8 @@ router.post('/',
       }
     });
 
+    await versioning.recordVersion(policy, req.user.userId, 'Initial version');
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
@@ -208,6 +568,9 @@ router.post('/',
       policy
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     next(error);
   }
 });
@@ -235,7 +598,9 @@ router.put('/:id',
       effectiveDate,
       expirationDate,
       status,
-      tags = []
+      changeSummary,
+      tags,
+      rules
     } = req.body;
 
     // Check if policy exists and user has permission
@@ -254,29 +619,71 @@ router.put('/:id',
       return res.status(403).json({ error: 'Insufficient permissions to update this policy' });
     }
 
-    const policy = await prisma.policy.update({
-      where: { id },
-      data: {
-        title,
-        description,
-        content,
-        category,
-        effectiveDate: effectiveDate ? new Date(effectiveDate) : undefined,
-        expirationDate: expirationDate ? new Date(expirationDate) : null,
-        status,
-        updatedAt: new Date(),
-        version: { increment: 1 }
-      },
-      include: {
-        author: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true
+    // Lifecycle changes go through the approval workflow; content edits
+    // restart any review that is in progress
+    if (status) {
+      workflow.assertManualStatusChange(existingPolicy.status, status);
+    }
+    policyRules.assertValid(rules);
+
+    const edits = {
+      title,
+      description,
+      content,
+      category,
+      effectiveDate: effectiveDate ? new Date(effectiveDate) : undefined,
+      // Omitted keeps the expiry; null clears it
+      expirationDate: expirationDate === undefined ? undefined : expirationDate && new Date(expirationDate),
+      rules: rules === undefined ? undefined : rules || null
+    };
+
+    // Only changes to versioned fields make a new version; tag and status
+    // changes keep the current one (and its acknowledgments)
+    const proposed = {
+      ...existingPolicy,
+      ...Object.fromEntries(Object.entries(edits).filter(([, value]) => value !== undefined))
+    };
+    const contentChanged = versioning.versionedChanges(existingPolicy, proposed).length > 0;
+    const lifecycle = !status && contentChanged ? workflow.editReset(existingPolicy.status) : { status };
+
+    // Snapshot every new version so earlier content can be diffed and restored
+    const userId = req.user.userId;
+    const policy = await prisma.$transaction(async tx => {
+      if (contentChanged) {
+        await versioning.ensureBaseline(existingPolicy, tx);
+      }
+
+      const updated = await tx.policy.update({
+        where: { id },
+        data: {
+          ...edits,
+          tags: tags ? normalizeTags(tags) : undefined,
+          ...lifecycle,
+          updatedAt: new Date(),
+          ...(contentChanged && { version: { increment: 1 } })
+        },
+        include: {
+          author: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true
+            }
           }
         }
+      });
+
+      if (contentChanged) {
+        await versioning.recordVersion(
+          updated,
+          userId,
+          changeSummary || versioning.summarizeChanges(existingPolicy, updated),
+          tx
+        );
       }
+
+      return updated;
     });
 
     // Create audit log
@@ -290,7 +697,8 @@ router.put('/:id',
           title: policy.title,
           category: policy.category,
           status: policy.status,
-          version: policy.version
+          version: policy.version,
+          changeSummary
         }
       }
     });
@@ -300,6 +708,605 @@ router.put('/:id',
       policy
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/submit
+ * @desc    Submit a draft or rejected policy for review
+ * @access  Private (Admin, Policy_Manager, or Author)
+ */
+router.post('/:id/submit',
+  authMiddleware,
+  validateRequest(workflowCommentSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const policy = await workflow.submitForReview(req.params.id, req.user, req.body.comments);
+
+    // The submission stands even if the analysis fails; the report endpoint can be retried
+    let conflicts = null;
+    try {
+      conflicts = await conflictAnalyzer.analyze(policy.id, req.user.userId);
+    } catch (error) {
+      logger.error(`Conflict analysis failed for policy ${policy.id}:`, error);
+    }
+
+    res.json({
+      message: 'Policy submitted for review',
+      policy,
+      conflicts
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/approve
+ * @desc    Record an approval for the current policy version
+ * @access  Private (roles configured for the policy category)
+ */
+router.post('/:id/approve',
+  authMiddleware,
+  validateRequest(workflowCommentSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const outcome = await workflow.approve(req.params.id, req.user, req.body.comments);
+
+    res.json({
+      message: outcome.fullyApproved
+        ? 'Policy approved'
+        : `Approval recorded (${outcome.approvals}/${outcome.requiredApprovals})`,
+      ...outcome
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/reject
+ * @desc    Reject the current policy version with comments
+ * @access  Private (roles configured for the policy category)
+ */
+router.post('/:id/reject',
+  authMiddleware,
+  validateRequest(rejectPolicySchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const policy = await workflow.reject(req.params.id, req.user, req.body.comments);
+
+    res.json({
+      message: 'Policy rejected',
+      policy
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/activate
+ * @desc    Activate an approved policy
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/:id/activate',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const policy = await workflow.activate(req.params.id, req.user);
+
+    res.json({
+      message: 'Policy activated',
+      policy
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/approvals
+ * @desc    Get approval records and sign-off progress for a policy
+ * @access  Private
+ */
+router.get('/:id/approvals', authMiddleware, async (req, res, next) => {
+  try {
+    const history = await workflow.getApprovalHistory(req.params.id);
+    res.json(history);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/versions
+ * @desc    Get version history for a policy
+ * @access  Private
+ */
+router.get('/:id/versions', authMiddleware, async (req, res, next) => {
+  try {
+    const versions = await versioning.listVersions(req.params.id);
+    res.json({ versions });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/versions/:a/diff/:b
+ * @desc    Get line-level and field-level diff between two versions
+ * @access  Private
+ */
+router.get('/:id/versions/:a/diff/:b', authMiddleware, async (req, res, next) => {
+  try {
+    const from = Number(req.params.a);
+    const to = Number(req.params.b);
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({ error: 'Versions must be integers' });
+    }
+
+    const diff = await versioning.diffVersions(req.params.id, from, to);
+    res.json(diff);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/rollback/:version
+ * @desc    Restore an earlier version as a new version
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/:id/rollback/:version',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version)) {
+      return res.status(400).json({ error: 'Version must be an integer' });
+    }
+
+    const policy = await versioning.rollback(req.params.id, version, req.user.userId);
+
+    res.json({
+      message: `Policy rolled back to version ${version}`,
+      policy
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/document
+ * @desc    Render a policy version as a PDF, HTML or Markdown document
+ *          (`format`, default pdf; `version`, default current). The document
+ *          hash is returned in the X-Document-Hash header.
+ * @access  Private
+ */
+router.get('/:id/document', authMiddleware, async (req, res, next) => {
+  try {
+    const format = documents.detectFormat(req.query.format as string | undefined);
+    const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: 'Version must be an integer' });
+    }
+
+    const result = await documents.render(req.params.id, format, version);
+
+    res.setHeader('Content-Type', result.contentType);
+    res.setHeader('Content-Disposition', `${format === 'html' ? 'inline' : 'attachment'}; filename="${result.filename}"`);
+    res.setHeader('X-Document-Hash', result.documentHash);
+    res.setHeader('X-Policy-Version', String(result.version));
+    res.send(result.body);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/document/verify
+ * @desc    Recompute a version's document hash and compare it with the hash
+ *          anchored under blockchainTxHash and an optional `hash` from a copy
+ * @access  Private
+ */
+router.get('/:id/document/verify', authMiddleware, async (req, res, next) => {
+  try {
+    const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: 'Version must be an integer' });
+    }
+
+    const verification = await documents.verify(req.params.id, {
+      version,
+      hash: req.query.hash !== undefined ? String(req.query.hash) : undefined
+    });
+
+    res.json({ verification });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/document/anchor
+ * @desc    Record the current version's document hash on the ledger
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/:id/document/anchor',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const anchor = await documents.anchor(req.params.id, req.user);
+
+    res.json({
+      message: 'Policy document anchored on the ledger',
+      ...anchor
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/conflicts
+ * @desc    Contradictions, overlaps and dead rules against related active and draft policies
+ * @access  Private
+ */
+router.get('/:id/conflicts', authMiddleware, async (req, res, next) => {
+  try {
+    const report = await conflictAnalyzer.analyze(req.params.id);
+    res.json({ conflicts: report });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/simulate
+ * @desc    Replay recorded access decisions against a policy before it is activated
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.post('/:id/simulate',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']),
+  validateRequest(simulatePolicySchema),
+  async (req, res, next) => {
+  try {
+    const report = await simulation.simulate(req.params.id, {
+      from: new Date(req.body.from),
+      to: new Date(req.body.to),
+      limit: req.body.limit
+    });
+
+    res.json({ simulation: report });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/review
+ * @desc    Mark an active policy as reviewed, with notes
+ * @access  Private (Admin, Policy_Manager, owner or review assignee)
+ */
+router.post('/:id/review',
+  authMiddleware,
+  validateRequest(markReviewedSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await reviews.markReviewed(req.params.id, req.user, req.body.notes);
+
+    res.json({
+      message: 'Policy marked as reviewed',
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/reviews
+ * @desc    Review history and pending review tasks of a policy
+ * @access  Private
+ */
+router.get('/:id/reviews', authMiddleware, async (req, res, next) => {
+  try {
+    const history = await reviews.history(req.params.id);
+    res.json({ reviews: history });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/exceptions
+ * @desc    Request a time-boxed exception from the policy for users or roles
+ * @access  Private
+ */
+router.post('/:id/exceptions',
+  authMiddleware,
+  validateRequest(policyExceptionSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const exception = await exceptions.request(req.params.id, req.body, req.user);
+
+    res.status(201).json({
+      message: 'Policy exception requested successfully',
+      exception
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/exceptions
+ * @desc    Exceptions requested for a policy, newest first
+ * @access  Private
+ */
+router.get('/:id/exceptions', authMiddleware, async (req, res, next) => {
+  try {
+    const list = await exceptions.list({ policyId: req.params.id });
+    res.json({ exceptions: list });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/controls
+ * @desc    Catalog controls the policy is mapped to
+ * @access  Private
+ */
+router.get('/:id/controls', authMiddleware, async (req, res, next) => {
+  try {
+    const controls = await controlCatalog.policyControls(req.params.id);
+    res.json({ controls });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   PUT /api/policies/:id/controls
+ * @desc    Replace the catalog controls the policy is mapped to
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.put('/:id/controls',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(policyControlsSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const controls = await controlCatalog.setPolicyControls(req.params.id, req.body.controlIds, req.user);
+
+    res.json({
+      message: 'Policy controls updated successfully',
+      controls
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/assignments
+ * @desc    Assign a policy to users, by id, role or organization
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/:id/assignments',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(assignPolicySchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { userIds, roles, organization } = req.body;
+    const result = await assignments.assign(req.params.id, { userIds, roles, organization }, req.user.userId);
+
+    res.status(201).json({
+      message: 'Policy assigned successfully',
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/assignments
+ * @desc    Get assignees and their acknowledgment status
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/:id/assignments',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']),
+  async (req, res, next) => {
+  try {
+    const result = await assignments.listForPolicy(req.params.id);
+    res.json({ assignments: result });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/policies/:id/assignments/:userId
+ * @desc    Remove a policy assignment
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.delete('/:id/assignments/:userId',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await assignments.unassign(req.params.id, req.params.userId, req.user.userId);
+    res.json({ message: 'Assignment removed successfully' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/policies/:id/acknowledge
+ * @desc    Acknowledge a specific version of an assigned policy
+ * @access  Private (Assignee)
+ */
+router.post('/:id/acknowledge',
+  authMiddleware,
+  validateRequest(acknowledgePolicySchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const assignment = await assignments.acknowledge(req.params.id, req.user.userId, req.body.version);
+
+    res.json({
+      message: 'Policy acknowledged',
+      assignment
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/policies/:id/acknowledgments
+ * @desc    Get acknowledgment completion rate for a policy
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/:id/acknowledgments',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']),
+  async (req, res, next) => {
+  try {
+    const [report] = await assignments.completionReport(req.params.id);
+    res.json(report);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     next(error);
   }
 });
@@ -0,0 +1,107 @@
+import { Router } from 'express';
+import { PolicyCategory } from '@prisma/client';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { validateRequest } from '../middleware/validation';
+import { reviewCycleSchema } from '../validators/policy';
+import { PolicyReviews } from '../services/policyReviews';
+
+const router = Router();
+const reviews = new PolicyReviews();
+
+const CATEGORIES: PolicyCategory[] = ['PRIVACY', 'SECURITY', 'COMPLIANCE', 'HR', 'IT', 'FINANCE', 'OTHER'];
+const FRAMEWORKS = ['SOX', 'GDPR', 'HIPAA', 'ISO27001'];
+
+/**
+ * @route   GET /api/reviews/cycles
+ * @desc    Get the review interval for every category and configured framework
+ * @access  Private
+ */
+router.get('/cycles', authMiddleware, async (req, res, next) => {
+  try {
+    const cycles = await reviews.listCycles();
+    res.json({ cycles });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   PUT /api/reviews/cycles/:kind/:value
+ * @desc    Configure the review interval for a category or compliance framework
+ * @access  Private (Admin only)
+ */
+router.put('/cycles/:kind/:value',
+  authMiddleware,
+  roleCheck(['ADMIN']),
+  validateRequest(reviewCycleSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const value = req.params.value.toUpperCase();
+    let target: { category: PolicyCategory } | { framework: string };
+
+    if (req.params.kind === 'category' && CATEGORIES.includes(value as PolicyCategory)) {
+      target = { category: value as PolicyCategory };
+    } else if (req.params.kind === 'framework' && FRAMEWORKS.includes(value)) {
+      target = { framework: value };
+    } else {
+      return res.status(400).json({ error: 'Invalid policy category or compliance framework' });
+    }
+
+    const { intervalDays, leadDays } = req.body;
+    const cycle = await reviews.setCycle(target, { intervalDays, leadDays }, req.user);
+
+    res.json({
+      message: 'Review cycle updated successfully',
+      cycle
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/reviews/queue
+ * @desc    Pending review tasks for the logged-in user; managers may pass ?all=true
+ * @access  Private
+ */
+router.get('/queue', authMiddleware, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const everyone = req.query.all === 'true' && ['ADMIN', 'POLICY_MANAGER', 'AUDITOR'].includes(req.user.role);
+    const tasks = await reviews.queue(everyone ? undefined : req.user.userId);
+
+    res.json({
+      tasks,
+      overdue: tasks.filter(task => task.overdue).length
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/reviews/overdue
+ * @desc    Active policies past their review due date
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/overdue',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']),
+  async (req, res, next) => {
+  try {
+    const report = await reviews.overdue();
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
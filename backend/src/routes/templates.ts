@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { PolicyCategory } from '@prisma/client';
+import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { validateRequest } from '../middleware/validation';
+import {
+  createTemplateSchema,
+  instantiateTemplateSchema,
+  publishTemplateVersionSchema
+} from '../validators/template';
+import { FRAMEWORK_REQUIRED_SECTIONS, PolicyTemplates } from '../services/policyTemplates';
+import { HttpError } from '../utils/errors';
+
+const router = Router();
+const templates = new PolicyTemplates();
+
+/**
+ * @route   GET /api/templates
+ * @desc    List policy templates, optionally filtered by framework or category
+ * @access  Private
+ */
+router.get('/', authMiddleware, async (req, res, next) => {
+  try {
+    const { framework, category, includeInactive } = req.query;
+
+    const results = await templates.listTemplates({
+      framework: framework ? String(framework).toUpperCase() : undefined,
+      category: category ? (String(category).toUpperCase() as PolicyCategory) : undefined,
+      includeInactive: includeInactive === 'true'
+    });
+
+    res.json({ templates: results });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/templates/frameworks
+ * @desc    Get the sections each compliance framework requires in a template
+ * @access  Private
+ */
+router.get('/frameworks', authMiddleware, (req, res) => {
+  res.json({ frameworks: FRAMEWORK_REQUIRED_SECTIONS });
+});
+
+/**
+ * @route   GET /api/templates/outdated-policies
+ * @desc    List policies generated from an older version of any template
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/outdated-policies',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']),
+  async (req, res, next) => {
+  try {
+    const policies = await templates.findOutdatedPolicies();
+    res.json({ policies, total: policies.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/templates/:id
+ * @desc    Get a template with its version history
+ * @access  Private
+ */
+router.get('/:id', authMiddleware, async (req, res, next) => {
+  try {
+    const template = await templates.getTemplate(req.params.id);
+    res.json({ template });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/templates
+ * @desc    Create a policy template
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(createTemplateSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const template = await templates.createTemplate(
+      { ...req.body, variables: req.body.variables || [] },
+      req.user.userId
+    );
+
+    res.status(201).json({
+      message: 'Template created successfully',
+      template
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   PUT /api/templates/:id
+ * @desc    Publish a new version of a template
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.put('/:id',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(publishTemplateVersionSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { changes, ...definition } = req.body;
+
+    const template = await templates.publishVersion(
+      req.params.id,
+      { ...definition, variables: definition.variables || [] },
+      changes,
+      req.user.userId
+    );
+
+    res.json({
+      message: `Template version ${template.currentVersion} published`,
+      template
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/templates/:id/instantiate
+ * @desc    Create a draft policy from the current template version
+ * @access  Private (Admin, Policy_Manager)
+ */
+router.post('/:id/instantiate',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER']),
+  validateRequest(instantiateTemplateSchema),
+  async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const policy = await templates.instantiate(
+      req.params.id,
+      { ...req.body, variables: req.body.variables || {} },
+      req.user.userId
+    );
+
+    res.status(201).json({
+      message: 'Policy created from template',
+      policy
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/templates/:id/outdated-policies
+ * @desc    List policies generated from an older version of this template
+ * @access  Private (Admin, Policy_Manager, Auditor)
+ */
+router.get('/:id/outdated-policies',
+  authMiddleware,
+  roleCheck(['ADMIN', 'POLICY_MANAGER', 'AUDITOR']),
+  async (req, res, next) => {
+  try {
+    const policies = await templates.findOutdatedPolicies(req.params.id);
+    res.json({ policies, total: policies.length });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/templates/:id
+ * @desc    Deactivate a template; generated policies are kept
+ * @access  Private (Admin only)
+ */
+router.delete('/:id', authMiddleware, roleCheck(['ADMIN']), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await templates.deactivateTemplate(req.params.id, req.user.userId);
+
+    res.json({ message: 'Template deactivated successfully' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+export default router;
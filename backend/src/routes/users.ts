@@ -1,14 +1,220 @@
-import { Router } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Router, Request, Response, NextFunction } from 'express';
+import { UserRole } from '@prisma/client';
 import { authMiddleware } from '../middleware/auth';
+import { roleCheck } from '../middleware/roleCheck';
+import { requireRecentMfa } from '../middleware/mfa';
+import { isPlatformAdmin, platformAdminOnly } from '../middleware/platformAdmin';
+import { validateRequest } from '../middleware/validation';
+import { deleteUserSchema, userProfileSchema, userRoleSchema } from '../validators/auth';
+import { UserManagement } from '../services/userManagement';
+import { MultiFactorAuth } from '../services/multiFactorAuth';
+import { HttpError } from '../utils/errors';
 
 const router = Router();
-const prisma = new PrismaClient();
+const users = new UserManagement();
+const mfa = new MultiFactorAuth();
 
-router.get('/', authMiddleware, async (req, res, next) => {
+const USER_READER_ROLES = ['ADMIN', 'AUDITOR'];
+
+// Users can always read their own profile
+const selfOr = (roles: string[]) => (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.userId === req.params.id) {
+    return next();
+  }
+  return roleCheck(roles)(req, res, next);
+};
+
+// The account is shared by every organization the user belongs to, so only
+// its owner or a platform admin may change it
+const selfOrPlatformAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.userId === req.params.id) {
+    return next();
+  }
+  return platformAdminOnly(req, res, next);
+};
+
+/**
+ * @route   GET /api/users
+ * @desc    Users of the current organization (filter by `search`, `role`, `isActive`; `page`, `limit`)
+ * @access  Private (Admin, Auditor)
+ */
+router.get('/', authMiddleware, roleCheck(USER_READER_ROLES), async (req, res, next) => {
+  try {
+    const result = await users.list({
+      search: req.query.search ? String(req.query.search) : undefined,
+      role: req.query.role ? (String(req.query.role).toUpperCase() as UserRole) : undefined,
+      isActive: req.query.isActive === undefined ? undefined : req.query.isActive === 'true',
+      page: req.query.page ? Number(req.query.page) : undefined,
+      limit: req.query.limit ? Number(req.query.limit) : undefined
+    });
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @route   GET /api/users/:id
+ * @desc    Get a user
+ * @access  Private (Admin, Auditor, or the user)
+ */
+router.get('/:id', authMiddleware, selfOr(USER_READER_ROLES), async (req, res, next) => {
+  try {
+    const user = await users.get(req.params.id);
+    res.json({ user });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   PUT /api/users/:id
+ * @desc    Update a user's name, email or organization label
+ * @access  Private (the user, or a platform admin)
+ */
+router.put('/:id', authMiddleware, selfOrPlatformAdmin, validateRequest(userProfileSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const user = await users.updateProfile(req.params.id, req.body, req.user);
+
+    res.json({
+      message: 'User updated successfully',
+      user
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   PUT /api/users/:id/role
+ * @desc    Change a user's role in the current organization
+ * @access  Private (Admin only, recent MFA)
+ */
+router.put('/:id/role', authMiddleware, roleCheck(['ADMIN']), requireRecentMfa, validateRequest(userRoleSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const user = await users.setRole(req.params.id, req.body.role, req.user);
+
+    res.json({
+      message: 'User role updated successfully',
+      user
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/users/:id/deactivate
+ * @desc    Block a user from logging in to any organization, keeping their records
+ * @access  Private (Platform admin only, recent MFA)
+ */
+router.post('/:id/deactivate', authMiddleware, platformAdminOnly, requireRecentMfa, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const user = await users.setActive(req.params.id, false, req.user);
+
+    res.json({
+      message: 'User deactivated successfully',
+      user
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/users/:id/reactivate
+ * @desc    Allow a deactivated user to log in again
+ * @access  Private (Platform admin only)
+ */
+router.post('/:id/reactivate', authMiddleware, platformAdminOnly, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const user = await users.setActive(req.params.id, true, req.user);
+
+    res.json({
+      message: 'User reactivated successfully',
+      user
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   POST /api/users/:id/mfa/reset
+ * @desc    Clear a user's TOTP and passkeys after they lost their devices and recovery codes.
+ *          Members of other organizations too can only be reset by a platform admin
+ * @access  Private (Admin only, recent MFA)
+ */
+router.post('/:id/mfa/reset', authMiddleware, roleCheck(['ADMIN']), requireRecentMfa, async (req, res, next) => {
   try {
-    res.json({ message: 'Users endpoint' });
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await mfa.reset(req.params.id, req.user, await isPlatformAdmin(req.user.userId));
+
+    res.json({ message: 'Multi-factor authentication reset; the user must enroll again' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    next(error);
+  }
+});
+
+/**
+ * @route   DELETE /api/users/:id
+ * @desc    Delete a user, reassigning their policies to `reassignTo`
+ * @access  Private (Admin only, recent MFA)
+ */
+router.delete('/:id', authMiddleware, roleCheck(['ADMIN']), requireRecentMfa, validateRequest(deleteUserSchema), async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await users.remove(req.params.id, req.body.reassignTo, req.user);
+
+    res.json({
+      message: 'User deleted successfully',
+      ...result
+    });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     next(error);
   }
 });
@@ -0,0 +1,559 @@
+import { CompareOperator, Expr, LiteralExpr, Rule, Scope, ValueType } from './ast';
+import { ATTRIBUTES, resolvePath } from './typeChecker';
+
+/**
+ * Static analysis of rules: whether a rule can ever apply, whether two rules
+ * can apply to the same request and whether one rule covers every request
+ * another one does.
+ *
+ * Each rule is flattened into a disjunction of terms; a term constrains each
+ * attribute it mentions to a domain of values. A missing attribute is one
+ * more possible value, since comparisons on it are false but their negation
+ * is true. Comparisons the analysis cannot model (attribute against
+ * attribute) are kept as opaque atoms, which makes the answers conservative:
+ * `rulesOverlap` and `ruleCovers` only report what they can prove.
+ */
+
+type Primitive = string | number | boolean;
+
+interface Interval {
+  lo: number;
+  hi: number;
+  loOpen: boolean;
+  hiOpen: boolean;
+}
+
+// `values` lists the allowed values when `finite`, otherwise the excluded ones
+interface ValueDomain {
+  kind: 'values';
+  absent: boolean;
+  finite: boolean;
+  values: Set<Primitive>;
+}
+
+interface RangeDomain {
+  kind: 'range';
+  absent: boolean;
+  intervals: Interval[];
+}
+
+// List attributes; `required` and `forbidden` only apply when the list is present
+interface MemberDomain {
+  kind: 'members';
+  absent: boolean;
+  present: boolean;
+  required: Set<Primitive>;
+  forbidden: Set<Primitive>;
+}
+
+type Domain = ValueDomain | RangeDomain | MemberDomain;
+
+interface Term {
+  unsatisfiable: boolean;
+  domains: Map<string, Domain>;
+  opaque: Set<string>;
+}
+
+export interface RuleShape {
+  actions: Set<string> | null;
+  // null when the conditions are too large to analyse
+  terms: Term[] | null;
+}
+
+const MAX_TERMS = 64;
+const MINUTES_PER_DAY = 24 * 60;
+
+class TooComplex extends Error {}
+
+export function ruleShape(rule: Rule): RuleShape {
+  const actions = rule.actions ? new Set(rule.actions) : null;
+
+  try {
+    let terms: Term[] = [emptyTerm()];
+    for (const [expr, scope] of [
+      [rule.subjects, 'subject'],
+      [rule.resources, 'resource'],
+      [rule.when, 'context']
+    ] as [Expr | undefined, Scope][]) {
+      if (expr) terms = product(terms, toTerms(expr, scope, false));
+    }
+    return { actions, terms: terms.filter(satisfiable) };
+  } catch (error) {
+    if (!(error instanceof TooComplex)) throw error;
+    return { actions, terms: null };
+  }
+}
+
+/**
+ * False when no request can ever match the rule.
+ */
+export function canApply(shape: RuleShape): boolean {
+  if (shape.actions && shape.actions.size === 0) return false;
+  return shape.terms === null || shape.terms.length > 0;
+}
+
+/**
+ * True when some request matches both rules.
+ */
+export function rulesOverlap(a: RuleShape, b: RuleShape): boolean {
+  if (a.terms === null || b.terms === null) return false;
+  if (a.actions && b.actions && ![...a.actions].some(action => b.actions!.has(action))) return false;
+  if ((a.actions && a.actions.size === 0) || (b.actions && b.actions.size === 0)) return false;
+
+  return a.terms.some(left => b.terms!.some(right => satisfiable(intersectTerms(left, right))));
+}
+
+/**
+ * True when every request matching `inner` also matches `outer`.
+ */
+export function ruleCovers(outer: RuleShape, inner: RuleShape): boolean {
+  if (outer.terms === null || inner.terms === null) return false;
+  if (outer.actions && (!inner.actions || [...inner.actions].some(action => !outer.actions!.has(action)))) {
+    return false;
+  }
+
+  return inner.terms.every(term => outer.terms!.some(candidate => termWithin(term, candidate)));
+}
+
+function emptyTerm(): Term {
+  return { unsatisfiable: false, domains: new Map(), opaque: new Set() };
+}
+
+function constantTerm(value: boolean): Term {
+  return { ...emptyTerm(), unsatisfiable: !value };
+}
+
+function product(left: Term[], right: Term[]): Term[] {
+  const terms: Term[] = [];
+  for (const a of left) {
+    for (const b of right) {
+      const term = intersectTerms(a, b);
+      if (satisfiable(term)) terms.push(term);
+    }
+  }
+  if (terms.length > MAX_TERMS) throw new TooComplex();
+  return terms;
+}
+
+function toTerms(expr: Expr, scope: Scope, negated: boolean): Term[] {
+  switch (expr.kind) {
+    case 'not':
+      return toTerms(expr.operand, scope, !negated);
+
+    case 'logical': {
+      const left = toTerms(expr.left, scope, negated);
+      const right = toTerms(expr.right, scope, negated);
+      // De Morgan: a negated `and` is an `or` of the negations
+      if ((expr.operator === 'and') !== negated) return product(left, right);
+      const terms = [...left, ...right];
+      if (terms.length > MAX_TERMS) throw new TooComplex();
+      return terms;
+    }
+
+    default:
+      return [atomTerm(expr, scope, negated)];
+  }
+}
+
+function atomTerm(expr: Expr, scope: Scope, negated: boolean): Term {
+  const atom = toAtom(expr, scope);
+
+  if (atom.kind === 'constant') {
+    return constantTerm(atom.value !== negated);
+  }
+
+  if (atom.kind === 'opaque') {
+    return { ...emptyTerm(), opaque: new Set([`${negated ? '!' : ''}${atom.key}`]) };
+  }
+
+  const term = emptyTerm();
+  term.domains.set(atom.attribute, negated ? complement(atom.domain, atom.attribute) : atom.domain);
+  return term;
+}
+
+type Atom =
+  | { kind: 'constant'; value: boolean }
+  | { kind: 'opaque'; key: string }
+  | { kind: 'domain'; attribute: string; domain: Domain };
+
+const FLIPPED: Partial<Record<CompareOperator, CompareOperator>> = {
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<=',
+  '==': '==',
+  '!=': '!='
+};
+
+function toAtom(expr: Expr, scope: Scope): Atom {
+  const opaque = (): Atom => ({ kind: 'opaque', key: fingerprint(expr, scope) });
+
+  switch (expr.kind) {
+    case 'literal':
+      return { kind: 'constant', value: expr.value === true };
+
+    case 'path': {
+      // A bare attribute is a condition on a boolean
+      const attribute = attributeOf(expr.segments, scope);
+      if (!attribute || typeOf(attribute) !== 'boolean') return opaque();
+      return { kind: 'domain', attribute, domain: values(false, true, [true]) };
+    }
+
+    case 'between': {
+      const attribute = expr.value.kind === 'path' ? attributeOf(expr.value.segments, scope) : null;
+      if (!attribute || expr.lower.kind !== 'literal' || expr.upper.kind !== 'literal') return opaque();
+
+      const lower = Number(expr.lower.value);
+      const upper = Number(expr.upper.value);
+      const intervals =
+        lower <= upper
+          ? [closed(lower, upper)]
+          : [closed(lower, Infinity), closed(-Infinity, upper)]; // wraps past midnight
+      return { kind: 'domain', attribute, domain: bounded(attribute, intervals) };
+    }
+
+    case 'compare': {
+      let { left, right, operator } = expr;
+
+      if (left.kind === 'literal' && right.kind === 'literal') {
+        return { kind: 'constant', value: compareConstants(operator, left.value, right.value) };
+      }
+
+      // `"x" in groups` reads a list attribute like `groups contains "x"`
+      if (operator === 'in' && left.kind === 'literal' && right.kind === 'path') {
+        [left, right, operator] = [right, left, 'contains'];
+      } else if (left.kind === 'literal' && right.kind === 'path' && FLIPPED[operator]) {
+        [left, right, operator] = [right, left, FLIPPED[operator]!];
+      }
+
+      const attribute = left.kind === 'path' ? attributeOf(left.segments, scope) : null;
+      if (!attribute) return opaque();
+
+      const domain = comparisonDomain(attribute, operator, right);
+      return domain ? { kind: 'domain', attribute, domain } : opaque();
+    }
+
+    default:
+      return opaque();
+  }
+}
+
+function comparisonDomain(attribute: string, operator: CompareOperator, right: Expr): Domain | null {
+  const type = typeOf(attribute);
+  const literals: LiteralExpr[] | null =
+    right.kind === 'literal' ? [right] : right.kind === 'list' ? right.items : null;
+  if (!type || !literals) return null;
+
+  const items = literals.map(literal => literal.value);
+  const ordered = type === 'number' || type === 'time';
+
+  switch (operator) {
+    case '==':
+      if (right.kind !== 'literal') return null;
+      return ordered ? bounded(attribute, [closed(Number(items[0]), Number(items[0]))]) : values(false, true, items);
+
+    case '!=':
+      if (right.kind !== 'literal') return null;
+      return ordered
+        ? range(false, complementIntervals([closed(Number(items[0]), Number(items[0]))], universeInterval(type)))
+        : normalize(values(false, false, items), attribute);
+
+    case 'in':
+      if (right.kind !== 'list') return null;
+      return ordered
+        ? bounded(attribute, items.map(item => closed(Number(item), Number(item))))
+        : values(false, true, items);
+
+    case 'contains':
+      if (right.kind !== 'literal' || !type.endsWith('[]')) return null;
+      return { kind: 'members', absent: false, present: true, required: new Set(items), forbidden: new Set() };
+
+    default: {
+      if (!ordered || right.kind !== 'literal') return null;
+      const value = Number(items[0]);
+      const interval =
+        operator === '<'
+          ? { lo: -Infinity, hi: value, loOpen: false, hiOpen: true }
+          : operator === '<='
+            ? closed(-Infinity, value)
+            : operator === '>'
+              ? { lo: value, hi: Infinity, loOpen: true, hiOpen: false }
+              : closed(value, Infinity);
+      return bounded(attribute, [interval]);
+    }
+  }
+}
+
+function compareConstants(operator: CompareOperator, left: Primitive, right: Primitive): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    default:
+      return false;
+  }
+}
+
+function attributeOf(segments: string[], scope: Scope): string | null {
+  const { scope: target, attribute } = resolvePath(segments, scope);
+  return ATTRIBUTES[target][attribute] ? `${target}.${attribute}` : null;
+}
+
+function typeOf(attribute: string): ValueType | undefined {
+  const [scope, ...rest] = attribute.split('.');
+  return ATTRIBUTES[scope as Scope][rest.join('.')]?.type;
+}
+
+function enumValues(attribute: string): Primitive[] | null {
+  if (typeOf(attribute) === 'boolean') return [true, false];
+  const [scope, ...rest] = attribute.split('.');
+  return ATTRIBUTES[scope as Scope][rest.join('.')]?.values || null;
+}
+
+// The request clock always supplies a time and day
+function alwaysPresent(attribute: string): boolean {
+  return attribute === 'context.time' || attribute === 'context.day';
+}
+
+function universe(attribute: string): Domain {
+  const type = typeOf(attribute);
+  const absent = !alwaysPresent(attribute);
+
+  if (type === 'number' || type === 'time') {
+    return range(absent, [universeInterval(type)]);
+  }
+  if (type && type.endsWith('[]')) {
+    return { kind: 'members', absent, present: true, required: new Set(), forbidden: new Set() };
+  }
+  return normalize(values(absent, false, []), attribute);
+}
+
+function universeInterval(type: ValueType): Interval {
+  return type === 'time' ? closed(0, MINUTES_PER_DAY - 1) : closed(-Infinity, Infinity);
+}
+
+function complement(domain: Domain, attribute: string): Domain {
+  const absent = !alwaysPresent(attribute) && !domain.absent;
+
+  switch (domain.kind) {
+    case 'values':
+      return normalize(values(absent, !domain.finite, [...domain.values]), attribute);
+
+    case 'range':
+      return range(absent, complementIntervals(domain.intervals, universeInterval(typeOf(attribute)!)));
+
+    case 'members':
+      // Only atoms are complemented, and an atom requires exactly one member
+      return { kind: 'members', absent, present: true, required: new Set(), forbidden: new Set(domain.required) };
+  }
+}
+
+function values(absent: boolean, finite: boolean, items: Primitive[]): ValueDomain {
+  return { kind: 'values', absent, finite, values: new Set(items) };
+}
+
+function range(absent: boolean, intervals: Interval[]): RangeDomain {
+  return { kind: 'range', absent, intervals: normalizeIntervals(intervals) };
+}
+
+// Range of a present attribute, clipped to the values it can take
+function bounded(attribute: string, intervals: Interval[]): RangeDomain {
+  const within = universeInterval(typeOf(attribute)!);
+  return range(
+    false,
+    intervals.map(interval => intersectInterval(interval, within)).filter((i): i is Interval => i !== null)
+  );
+}
+
+function closed(lo: number, hi: number): Interval {
+  return { lo, hi, loOpen: false, hiOpen: false };
+}
+
+// Attributes with a fixed set of values are always kept as an explicit list
+function normalize(domain: ValueDomain, attribute: string): ValueDomain {
+  const all = enumValues(attribute);
+  if (domain.finite || !all) return domain;
+  return values(domain.absent, true, all.filter(value => !domain.values.has(value)));
+}
+
+function intersectTerms(a: Term, b: Term): Term {
+  const domains = new Map(a.domains);
+  for (const [attribute, domain] of b.domains) {
+    const existing = domains.get(attribute);
+    domains.set(attribute, existing ? intersect(existing, domain) : domain);
+  }
+
+  return {
+    unsatisfiable: a.unsatisfiable || b.unsatisfiable,
+    domains,
+    opaque: new Set([...a.opaque, ...b.opaque])
+  };
+}
+
+function intersect(a: Domain, b: Domain): Domain {
+  const absent = a.absent && b.absent;
+
+  if (a.kind === 'values' && b.kind === 'values') {
+    if (a.finite && b.finite) return values(absent, true, [...a.values].filter(v => b.values.has(v)));
+    if (a.finite) return values(absent, true, [...a.values].filter(v => !b.values.has(v)));
+    if (b.finite) return values(absent, true, [...b.values].filter(v => !a.values.has(v)));
+    return values(absent, false, [...a.values, ...b.values]);
+  }
+
+  if (a.kind === 'range' && b.kind === 'range') {
+    const intervals = a.intervals.flatMap(left => b.intervals.map(right => intersectInterval(left, right)));
+    return range(absent, intervals.filter((interval): interval is Interval => interval !== null));
+  }
+
+  if (a.kind === 'members' && b.kind === 'members') {
+    return {
+      kind: 'members',
+      absent,
+      present: a.present && b.present,
+      required: new Set([...a.required, ...b.required]),
+      forbidden: new Set([...a.forbidden, ...b.forbidden])
+    };
+  }
+
+  // Differently typed domains for one attribute cannot come out of a type checked rule
+  return range(false, []);
+}
+
+function satisfiable(term: Term): boolean {
+  if (term.unsatisfiable) return false;
+  if ([...term.opaque].some(key => term.opaque.has(`!${key}`))) return false;
+  return [...term.domains.values()].every(domain => !isEmpty(domain));
+}
+
+function isEmpty(domain: Domain): boolean {
+  if (domain.absent) return false;
+
+  switch (domain.kind) {
+    case 'values':
+      return domain.finite && domain.values.size === 0;
+    case 'range':
+      return domain.intervals.length === 0;
+    case 'members':
+      return !membersPossible(domain);
+  }
+}
+
+function membersPossible(domain: MemberDomain): boolean {
+  return domain.present && ![...domain.required].some(value => domain.forbidden.has(value));
+}
+
+function termWithin(inner: Term, outer: Term): boolean {
+  if (!satisfiable(inner)) return true;
+  if ([...outer.opaque].some(key => !inner.opaque.has(key))) return false;
+
+  return [...outer.domains].every(([attribute, domain]) =>
+    subset(inner.domains.get(attribute) || universe(attribute), domain)
+  );
+}
+
+function subset(inner: Domain, outer: Domain): boolean {
+  if (inner.absent && !outer.absent) return false;
+
+  if (inner.kind === 'values' && outer.kind === 'values') {
+    if (inner.finite) {
+      return [...inner.values].every(v => (outer.finite ? outer.values.has(v) : !outer.values.has(v)));
+    }
+    return !outer.finite && [...outer.values].every(v => inner.values.has(v));
+  }
+
+  if (inner.kind === 'range' && outer.kind === 'range') {
+    return inner.intervals.every(interval => outer.intervals.some(candidate => intervalWithin(interval, candidate)));
+  }
+
+  if (inner.kind === 'members' && outer.kind === 'members') {
+    if (!membersPossible(inner)) return true;
+    return (
+      outer.present &&
+      [...outer.required].every(v => inner.required.has(v)) &&
+      [...outer.forbidden].every(v => inner.forbidden.has(v))
+    );
+  }
+
+  return false;
+}
+
+function intersectInterval(a: Interval, b: Interval): Interval | null {
+  const [lo, loOpen] = a.lo > b.lo ? [a.lo, a.loOpen] : b.lo > a.lo ? [b.lo, b.loOpen] : [a.lo, a.loOpen || b.loOpen];
+  const [hi, hiOpen] = a.hi < b.hi ? [a.hi, a.hiOpen] : b.hi < a.hi ? [b.hi, b.hiOpen] : [a.hi, a.hiOpen || b.hiOpen];
+
+  if (lo > hi || (lo === hi && (loOpen || hiOpen))) return null;
+  return { lo, hi, loOpen, hiOpen };
+}
+
+function normalizeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.lo - b.lo || Number(a.loOpen) - Number(b.loOpen));
+  const merged: Interval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    const touches = last && (last.hi > interval.lo || (last.hi === interval.lo && !(last.hiOpen && interval.loOpen)));
+
+    if (!touches) {
+      merged.push({ ...interval });
+    } else if (interval.hi > last.hi || (interval.hi === last.hi && !interval.hiOpen)) {
+      last.hi = interval.hi;
+      last.hiOpen = interval.hiOpen;
+    }
+  }
+
+  return merged;
+}
+
+function complementIntervals(intervals: Interval[], within: Interval): Interval[] {
+  const gaps: Interval[] = [];
+  let cursor = within.lo;
+  let cursorOpen = within.loOpen;
+
+  for (const interval of normalizeIntervals(intervals)) {
+    const gap = intersectInterval({ lo: cursor, hi: interval.lo, loOpen: cursorOpen, hiOpen: !interval.loOpen }, within);
+    if (gap) gaps.push(gap);
+    cursor = interval.hi;
+    cursorOpen = !interval.hiOpen;
+  }
+
+  const tail = intersectInterval({ lo: cursor, hi: within.hi, loOpen: cursorOpen, hiOpen: within.hiOpen }, within);
+  if (tail) gaps.push(tail);
+  return gaps;
+}
+
+function intervalWithin(inner: Interval, outer: Interval): boolean {
+  const lowOk = inner.lo > outer.lo || (inner.lo === outer.lo && (inner.loOpen || !outer.loOpen));
+  const highOk = inner.hi < outer.hi || (inner.hi === outer.hi && (inner.hiOpen || !outer.hiOpen));
+  return lowOk && highOk;
+}
+
+// Structural key for conditions the analysis treats as opaque
+function fingerprint(expr: Expr, scope: Scope): string {
+  switch (expr.kind) {
+    case 'literal':
+      return JSON.stringify(expr.value);
+    case 'list':
+      return `[${expr.items.map(item => JSON.stringify(item.value)).join(',')}]`;
+    case 'path': {
+      const { scope: target, attribute } = resolvePath(expr.segments, scope);
+      return `${target}.${attribute}`;
+    }
+    case 'not':
+      return `not(${fingerprint(expr.operand, scope)})`;
+    case 'logical':
+      return `(${fingerprint(expr.left, scope)} ${expr.operator} ${fingerprint(expr.right, scope)})`;
+    case 'compare':
+      return `${fingerprint(expr.left, scope)} ${expr.operator} ${fingerprint(expr.right, scope)}`;
+    case 'between':
+      return `${fingerprint(expr.value, scope)} between ${fingerprint(expr.lower, scope)} and ${fingerprint(expr.upper, scope)}`;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Syntax tree for the policy rule language. Every node carries the span of
+ * source text it came from so diagnostics can point at the exact position.
+ */
+
+export interface SourceSpan {
+  offset: number;
+  line: number;
+  column: number;
+  length: number;
+}
+
+export interface RuleDiagnostic extends SourceSpan {
+  stage: 'syntax' | 'type';
+  message: string;
+}
+
+export type Effect = 'permit' | 'deny';
+
+// Attribute namespaces a path can refer to
+export type Scope = 'subject' | 'resource' | 'context';
+
+export type ValueType = 'string' | 'number' | 'boolean' | 'time' | 'string[]' | 'number[]';
+
+export type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'contains';
+
+export interface LiteralExpr {
+  kind: 'literal';
+  // Times are stored as minutes after midnight
+  type: 'string' | 'number' | 'boolean' | 'time';
+  value: string | number | boolean;
+  span: SourceSpan;
+}
+
+export interface ListExpr {
+  kind: 'list';
+  items: LiteralExpr[];
+  span: SourceSpan;
+}
+
+export interface PathExpr {
+  kind: 'path';
+  segments: string[];
+  span: SourceSpan;
+}
+
+export interface NotExpr {
+  kind: 'not';
+  operand: Expr;
+  span: SourceSpan;
+}
+
+export interface LogicalExpr {
+  kind: 'logical';
+  operator: 'and' | 'or';
+  left: Expr;
+  right: Expr;
+  span: SourceSpan;
+}
+
+export interface CompareExpr {
+  kind: 'compare';
+  operator: CompareOperator;
+  left: Expr;
+  right: Expr;
+  span: SourceSpan;
+}
+
+export interface BetweenExpr {
+  kind: 'between';
+  value: Expr;
+  lower: Expr;
+  upper: Expr;
+  span: SourceSpan;
+}
+
+export type Expr = LiteralExpr | ListExpr | PathExpr | NotExpr | LogicalExpr | CompareExpr | BetweenExpr;
+
+export interface Rule {
+  name: string;
+  effect: Effect;
+  // Omitted clauses match everything
+  subjects?: Expr;
+  resources?: Expr;
+  actions?: string[];
+  when?: Expr;
+  obligations: string[];
+  span: SourceSpan;
+}
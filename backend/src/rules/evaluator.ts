@@ -0,0 +1,156 @@
+import { Effect, Expr, Rule, Scope } from './ast';
+import { resolvePath } from './typeChecker';
+
+export interface AccessRequest {
+  subject: Record<string, any>;
+  resource: Record<string, any>;
+  action: string;
+  context?: Record<string, any>;
+}
+
+export type RuleDecision = 'PERMIT' | 'DENY' | 'NOT_APPLICABLE';
+
+export interface RuleMatch {
+  rule: string;
+  effect: Effect;
+  obligations: string[];
+}
+
+export interface RuleEvaluation {
+  decision: RuleDecision;
+  matched: RuleMatch[];
+  obligations: string[];
+}
+
+const DAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * Whether every clause of the rule holds for the request. Missing
+ * attributes never satisfy a comparison, so `not` is the only way a rule
+ * can match on an attribute the caller did not send.
+ */
+export function ruleApplies(rule: Rule, request: AccessRequest): boolean {
+  if (rule.actions && !rule.actions.includes(request.action)) {
+    return false;
+  }
+
+  const clauses: [Expr | undefined, Scope][] = [
+    [rule.subjects, 'subject'],
+    [rule.resources, 'resource'],
+    [rule.when, 'context']
+  ];
+
+  return clauses.every(([expr, scope]) => !expr || evaluate(expr, scope, request) === true);
+}
+
+/**
+ * Deny-overrides combination: any matching deny rule wins, otherwise any
+ * matching permit rule permits. Obligations come from the rules that
+ * produced the decision.
+ */
+export function evaluateRules(rules: Rule[], request: AccessRequest): RuleEvaluation {
+  const matched = rules
+    .filter(rule => ruleApplies(rule, request))
+    .map(rule => ({ rule: rule.name, effect: rule.effect, obligations: rule.obligations }));
+
+  const denied = matched.some(match => match.effect === 'deny');
+  const decision: RuleDecision = denied ? 'DENY' : matched.length > 0 ? 'PERMIT' : 'NOT_APPLICABLE';
+  const effect: Effect = denied ? 'deny' : 'permit';
+
+  return {
+    decision,
+    matched,
+    obligations: Array.from(
+      new Set(matched.filter(match => match.effect === effect).flatMap(match => match.obligations))
+    )
+  };
+}
+
+function evaluate(expr: Expr, scope: Scope, request: AccessRequest): unknown {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+
+    case 'list':
+      return expr.items.map(item => item.value);
+
+    case 'path':
+      return lookup(expr.segments, scope, request);
+
+    case 'not':
+      return evaluate(expr.operand, scope, request) !== true;
+
+    case 'logical': {
+      const left = evaluate(expr.left, scope, request) === true;
+      if (expr.operator === 'and') return left && evaluate(expr.right, scope, request) === true;
+      return left || evaluate(expr.right, scope, request) === true;
+    }
+
+    case 'between': {
+      const value = evaluate(expr.value, scope, request);
+      const lower = evaluate(expr.lower, scope, request);
+      const upper = evaluate(expr.upper, scope, request);
+      if (typeof value !== 'number' || typeof lower !== 'number' || typeof upper !== 'number') return false;
+
+      // Time windows may wrap past midnight, e.g. 22:00 and 06:00
+      return lower <= upper ? value >= lower && value <= upper : value >= lower || value <= upper;
+    }
+
+    case 'compare': {
+      const left = evaluate(expr.left, scope, request);
+      const right = evaluate(expr.right, scope, request);
+      if (left === undefined || left === null || right === undefined || right === null) return false;
+
+      switch (expr.operator) {
+        case '==':
+          return left === right;
+        case '!=':
+          return left !== right;
+        case '<':
+          return (left as number) < (right as number);
+        case '<=':
+          return (left as number) <= (right as number);
+        case '>':
+          return (left as number) > (right as number);
+        case '>=':
+          return (left as number) >= (right as number);
+        case 'in':
+          return Array.isArray(right) && right.includes(left);
+        case 'contains':
+          return Array.isArray(left) && left.includes(right);
+      }
+    }
+  }
+}
+
+function lookup(segments: string[], defaultScope: Scope, request: AccessRequest): unknown {
+  const { scope, attribute } = resolvePath(segments, defaultScope);
+
+  if (scope === 'context' && (attribute === 'time' || attribute === 'day')) {
+    return clock(attribute, request.context || {});
+  }
+
+  const source = scope === 'subject' ? request.subject : scope === 'resource' ? request.resource : request.context;
+  return attribute.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+/**
+ * Time of day (minutes after midnight) and weekday, from `context.time`
+ * ("HH:MM") and `context.day` when given, else `context.timestamp`, else now.
+ * Timestamps are read in UTC.
+ */
+function clock(attribute: 'time' | 'day', context: Record<string, any>): number | string | undefined {
+  if (attribute === 'time' && typeof context.time === 'string') {
+    const match = context.time.match(/^(\d{1,2}):(\d{2})$/);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+  }
+
+  if (attribute === 'day' && typeof context.day === 'string') {
+    return context.day.toUpperCase();
+  }
+
+  const at = context.timestamp !== undefined ? new Date(context.timestamp) : new Date();
+  if (isNaN(at.getTime())) return undefined;
+
+  return attribute === 'time' ? at.getUTCHours() * 60 + at.getUTCMinutes() : DAYS[at.getUTCDay()];
+}
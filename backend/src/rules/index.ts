@@ -0,0 +1,32 @@
+import { Rule, RuleDiagnostic } from './ast';
+import { tokenize } from './lexer';
+import { parse } from './parser';
+import { checkRules } from './typeChecker';
+
+export * from './ast';
+export { ATTRIBUTES } from './typeChecker';
+export { evaluateRules, ruleApplies } from './evaluator';
+export type { AccessRequest, RuleDecision, RuleEvaluation, RuleMatch } from './evaluator';
+export { canApply, ruleCovers, ruleShape, rulesOverlap } from './analysis';
+export type { RuleShape } from './analysis';
+
+export interface CompiledRules {
+  rules: Rule[];
+  errors: RuleDiagnostic[];
+}
+
+/**
+ * Parses and type checks a policy's rule section. Type checking only runs
+ * on syntactically valid source so errors don't cascade.
+ */
+export function compileRules(source: string): CompiledRules {
+  const lexed = tokenize(source);
+  const parsed = parse(lexed.tokens);
+  const syntaxErrors = [...lexed.errors, ...parsed.errors].sort((a, b) => a.offset - b.offset);
+
+  if (syntaxErrors.length > 0) {
+    return { rules: [], errors: syntaxErrors };
+  }
+
+  return { rules: parsed.rules, errors: checkRules(parsed.rules) };
+}
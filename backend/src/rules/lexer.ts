@@ -0,0 +1,170 @@
+import { RuleDiagnostic, SourceSpan } from './ast';
+
+export type TokenType =
+  | 'identifier'
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'time'
+  | 'operator'
+  | 'punctuation'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  span: SourceSpan;
+}
+
+export const KEYWORDS = new Set([
+  'permit',
+  'deny',
+  'subjects',
+  'resources',
+  'actions',
+  'when',
+  'obligations',
+  'and',
+  'or',
+  'not',
+  'in',
+  'contains',
+  'between',
+  'true',
+  'false'
+]);
+
+const OPERATORS = ['==', '!=', '<=', '>=', '<', '>'];
+const PUNCTUATION = '{}[](),;:.*';
+
+/**
+ * Splits rule source into tokens. `#` starts a comment that runs to the end
+ * of the line. Lexing continues after an invalid character so every problem
+ * in the source is reported at once.
+ */
+export function tokenize(source: string): { tokens: Token[]; errors: RuleDiagnostic[] } {
+  const tokens: Token[] = [];
+  const errors: RuleDiagnostic[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const span = (start: number, startLine: number, startColumn: number): SourceSpan => ({
+    offset: start,
+    line: startLine,
+    column: startColumn,
+    length: offset - start
+  });
+
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const start = offset;
+    const startLine = line;
+    const startColumn = column;
+
+    if (/\s/.test(char)) {
+      advance();
+      continue;
+    }
+
+    if (char === '#') {
+      while (offset < source.length && source[offset] !== '\n') advance();
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      while (offset < source.length && /[A-Za-z0-9_]/.test(source[offset])) advance();
+      const value = source.slice(start, offset);
+      tokens.push({
+        type: KEYWORDS.has(value) ? 'keyword' : 'identifier',
+        value,
+        span: span(start, startLine, startColumn)
+      });
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      while (offset < source.length && /[0-9]/.test(source[offset])) advance();
+
+      // HH:MM time of day
+      if (source[offset] === ':' && /^[0-9]{2}/.test(source.slice(offset + 1, offset + 3))) {
+        advance(3);
+        const value = source.slice(start, offset);
+        const [hours, minutes] = value.split(':').map(Number);
+        if (hours > 23 || minutes > 59) {
+          errors.push({
+            stage: 'syntax',
+            message: `Invalid time ${value}; expected HH:MM between 00:00 and 23:59`,
+            ...span(start, startLine, startColumn)
+          });
+        }
+        tokens.push({ type: 'time', value, span: span(start, startLine, startColumn) });
+        continue;
+      }
+
+      if (source[offset] === '.' && /[0-9]/.test(source[offset + 1] || '')) {
+        advance();
+        while (offset < source.length && /[0-9]/.test(source[offset])) advance();
+      }
+      tokens.push({ type: 'number', value: source.slice(start, offset), span: span(start, startLine, startColumn) });
+      continue;
+    }
+
+    if (char === '"') {
+      advance();
+      let value = '';
+      let terminated = false;
+
+      while (offset < source.length && source[offset] !== '\n') {
+        if (source[offset] === '\\' && offset + 1 < source.length) {
+          value += source[offset + 1];
+          advance(2);
+        } else if (source[offset] === '"') {
+          advance();
+          terminated = true;
+          break;
+        } else {
+          value += source[offset];
+          advance();
+        }
+      }
+
+      if (!terminated) {
+        errors.push({ stage: 'syntax', message: 'Unterminated string', ...span(start, startLine, startColumn) });
+      }
+      tokens.push({ type: 'string', value, span: span(start, startLine, startColumn) });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, offset));
+    if (operator) {
+      advance(operator.length);
+      tokens.push({ type: 'operator', value: operator, span: span(start, startLine, startColumn) });
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      advance();
+      tokens.push({ type: 'punctuation', value: char, span: span(start, startLine, startColumn) });
+      continue;
+    }
+
+    advance();
+    errors.push({ stage: 'syntax', message: `Unexpected character '${char}'`, ...span(start, startLine, startColumn) });
+  }
+
+  tokens.push({ type: 'eof', value: '', span: { offset, line, column, length: 0 } });
+  return { tokens, errors };
+}
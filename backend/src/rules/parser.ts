@@ -0,0 +1,360 @@
+import {
+  CompareOperator,
+  Effect,
+  Expr,
+  LiteralExpr,
+  ListExpr,
+  Rule,
+  RuleDiagnostic,
+  SourceSpan
+} from './ast';
+import { Token, TokenType } from './lexer';
+
+type Clause = 'subjects' | 'resources' | 'actions' | 'when' | 'obligations';
+
+const CLAUSES: Clause[] = ['subjects', 'resources', 'actions', 'when', 'obligations'];
+
+class ParseFailure extends Error {}
+
+/**
+ * Recursive-descent parser for rule source:
+ *
+ *   permit "finance-reports" {
+ *     subjects: role in ["ADMIN", "AUDITOR"] or department == "finance";
+ *     resources: type == "financial-report";
+ *     actions: ["read", "export"];
+ *     when: trustScore >= 70 and device.managed and time between 08:00 and 18:00;
+ *     obligations: ["log-access"];
+ *   }
+ *
+ * After a syntax error the parser skips to the end of the clause so later
+ * clauses and rules are still checked.
+ */
+export function parse(tokens: Token[]): { rules: Rule[]; errors: RuleDiagnostic[] } {
+  const parser = new Parser(tokens);
+  const rules = parser.parseRules();
+  return { rules, errors: parser.errors };
+}
+
+class Parser {
+  errors: RuleDiagnostic[] = [];
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseRules(): Rule[] {
+    const rules: Rule[] = [];
+
+    while (!this.check('eof')) {
+      try {
+        rules.push(this.parseRule());
+      } catch (error) {
+        if (!(error instanceof ParseFailure)) throw error;
+        this.skipToNextRule();
+      }
+    }
+
+    return rules;
+  }
+
+  private parseRule(): Rule {
+    const start = this.peek();
+    if (!this.checkKeyword('permit') && !this.checkKeyword('deny')) {
+      this.fail(start, `Expected 'permit' or 'deny' to start a rule but found ${this.describe(start)}`);
+    }
+    const effect = this.next().value as Effect;
+    const name = this.expect('string', undefined, 'a quoted rule name').value;
+    this.expect('punctuation', '{');
+
+    const rule: Rule = { name, effect, obligations: [], span: start.span };
+    const seen = new Set<Clause>();
+
+    while (!this.checkPunctuation('}') && !this.check('eof')) {
+      try {
+        this.parseClause(rule, seen);
+      } catch (error) {
+        if (!(error instanceof ParseFailure)) throw error;
+        this.skipToClauseEnd();
+      }
+    }
+
+    const end = this.expect('punctuation', '}');
+    rule.span = this.spanBetween(start.span, end.span);
+    return rule;
+  }
+
+  private parseClause(rule: Rule, seen: Set<Clause>): void {
+    const keyword = this.peek();
+    if (keyword.type !== 'keyword' || !CLAUSES.includes(keyword.value as Clause)) {
+      this.fail(keyword, `Expected one of ${CLAUSES.join(', ')} but found ${this.describe(keyword)}`);
+    }
+    this.next();
+
+    const clause = keyword.value as Clause;
+    if (seen.has(clause)) {
+      this.report(keyword.span, `Duplicate '${clause}' clause in rule "${rule.name}"`);
+    }
+    seen.add(clause);
+
+    this.expect('punctuation', ':');
+
+    switch (clause) {
+      case 'subjects':
+        rule.subjects = this.parseExpression();
+        break;
+      case 'resources':
+        rule.resources = this.parseExpression();
+        break;
+      case 'when':
+        rule.when = this.parseExpression();
+        break;
+      case 'actions':
+        if (this.checkPunctuation('*')) {
+          this.next();
+          rule.actions = undefined;
+        } else {
+          rule.actions = this.parseStringList('action');
+        }
+        break;
+      case 'obligations':
+        rule.obligations = this.parseStringList('obligation');
+        break;
+    }
+
+    this.expect('punctuation', ';');
+  }
+
+  private parseStringList(label: string): string[] {
+    const list = this.parseList();
+    return list.items.map(item => {
+      if (item.type !== 'string') {
+        this.report(item.span, `Each ${label} must be a quoted string`);
+      }
+      return String(item.value);
+    });
+  }
+
+  private parseExpression(): Expr {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.checkKeyword('or')) {
+      this.next();
+      const right = this.parseAnd();
+      left = { kind: 'logical', operator: 'or', left, right, span: this.spanBetween(left.span, right.span) };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.checkKeyword('and')) {
+      this.next();
+      const right = this.parseNot();
+      left = { kind: 'logical', operator: 'and', left, right, span: this.spanBetween(left.span, right.span) };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.checkKeyword('not')) {
+      const keyword = this.next();
+      const operand = this.parseNot();
+      return { kind: 'not', operand, span: this.spanBetween(keyword.span, operand.span) };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parsePrimary();
+    const token = this.peek();
+
+    if (token.type === 'operator') {
+      this.next();
+      const right = this.parsePrimary();
+      return {
+        kind: 'compare',
+        operator: token.value as CompareOperator,
+        left,
+        right,
+        span: this.spanBetween(left.span, right.span)
+      };
+    }
+
+    if (this.checkKeyword('in') || this.checkKeyword('contains')) {
+      this.next();
+      const right = this.parsePrimary();
+      return {
+        kind: 'compare',
+        operator: token.value as CompareOperator,
+        left,
+        right,
+        span: this.spanBetween(left.span, right.span)
+      };
+    }
+
+    // `x not in [...]` reads better than `not x in [...]`
+    if (this.checkKeyword('not') && this.peek(1).type === 'keyword' && this.peek(1).value === 'in') {
+      this.next();
+      this.next();
+      const right = this.parsePrimary();
+      const span = this.spanBetween(left.span, right.span);
+      return { kind: 'not', operand: { kind: 'compare', operator: 'in', left, right, span }, span };
+    }
+
+    if (this.checkKeyword('between')) {
+      this.next();
+      const lower = this.parsePrimary();
+      this.expect('keyword', 'and');
+      const upper = this.parsePrimary();
+      return { kind: 'between', value: left, lower, upper, span: this.spanBetween(left.span, upper.span) };
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek();
+
+    if (this.checkPunctuation('(')) {
+      this.next();
+      const expr = this.parseExpression();
+      const close = this.expect('punctuation', ')');
+      return { ...expr, span: this.spanBetween(token.span, close.span) };
+    }
+
+    if (this.checkPunctuation('[')) {
+      return this.parseList();
+    }
+
+    if (token.type === 'identifier') {
+      this.next();
+      const segments = [token.value];
+      let end = token.span;
+
+      while (this.checkPunctuation('.')) {
+        this.next();
+        const segment = this.expect('identifier', undefined, 'an attribute name');
+        segments.push(segment.value);
+        end = segment.span;
+      }
+
+      return { kind: 'path', segments, span: this.spanBetween(token.span, end) };
+    }
+
+    return this.parseLiteral();
+  }
+
+  private parseList(): ListExpr {
+    const open = this.expect('punctuation', '[');
+    const items: LiteralExpr[] = [];
+
+    if (!this.checkPunctuation(']')) {
+      items.push(this.parseLiteral());
+      while (this.checkPunctuation(',')) {
+        this.next();
+        items.push(this.parseLiteral());
+      }
+    }
+
+    const close = this.expect('punctuation', ']');
+    return { kind: 'list', items, span: this.spanBetween(open.span, close.span) };
+  }
+
+  private parseLiteral(): LiteralExpr {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'string':
+        this.next();
+        return { kind: 'literal', type: 'string', value: token.value, span: token.span };
+      case 'number':
+        this.next();
+        return { kind: 'literal', type: 'number', value: Number(token.value), span: token.span };
+      case 'time': {
+        this.next();
+        const [hours, minutes] = token.value.split(':').map(Number);
+        return { kind: 'literal', type: 'time', value: hours * 60 + minutes, span: token.span };
+      }
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          this.next();
+          return { kind: 'literal', type: 'boolean', value: token.value === 'true', span: token.span };
+        }
+        break;
+    }
+
+    return this.fail(token, `Expected a value but found ${this.describe(token)}`);
+  }
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.position + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.position++;
+    return token;
+  }
+
+  private check(type: TokenType): boolean {
+    return this.peek().type === type;
+  }
+
+  private checkKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && token.value === value;
+  }
+
+  private checkPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private expect(type: TokenType, value?: string, description?: string): Token {
+    const token = this.peek();
+    if (token.type === type && (value === undefined || token.value === value)) {
+      return this.next();
+    }
+    return this.fail(token, `Expected ${description || `'${value}'`} but found ${this.describe(token)}`);
+  }
+
+  private describe(token: Token): string {
+    if (token.type === 'eof') return 'end of rules';
+    if (token.type === 'string') return `"${token.value}"`;
+    return `'${token.value}'`;
+  }
+
+  private report(span: SourceSpan, message: string): void {
+    this.errors.push({ stage: 'syntax', message, ...span });
+  }
+
+  private fail(token: Token, message: string): never {
+    this.report(token.span, message);
+    throw new ParseFailure(message);
+  }
+
+  private skipToClauseEnd(): void {
+    while (!this.check('eof') && !this.checkPunctuation('}')) {
+      if (this.next().value === ';') return;
+    }
+  }
+
+  private skipToNextRule(): void {
+    this.next();
+    while (!this.check('eof') && !this.checkKeyword('permit') && !this.checkKeyword('deny')) {
+      this.next();
+    }
+  }
+
+  private spanBetween(start: SourceSpan, end: SourceSpan): SourceSpan {
+    return {
+      offset: start.offset,
+      line: start.line,
+      column: start.column,
+      length: end.offset + end.length - start.offset
+    };
+  }
+}
@@ -0,0 +1,272 @@
+import { Expr, LiteralExpr, PathExpr, Rule, RuleDiagnostic, Scope, SourceSpan, ValueType } from './ast';
+
+interface AttributeDefinition {
+  type: ValueType;
+  values?: string[];
+}
+
+const ROLES = ['USER', 'ADMIN', 'POLICY_MANAGER', 'AUDITOR'];
+const DAYS = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+
+/**
+ * Attributes rules may refer to. `subjects` clauses read subject attributes,
+ * `resources` clauses resource attributes and `when` clauses the request
+ * context; any clause can reach another scope with an explicit prefix such
+ * as `subject.role`.
+ */
+export const ATTRIBUTES: Record<Scope, Record<string, AttributeDefinition>> = {
+  subject: {
+    id: { type: 'string' },
+    email: { type: 'string' },
+    role: { type: 'string', values: ROLES },
+    department: { type: 'string' },
+    organization: { type: 'string' },
+    groups: { type: 'string[]' }
+  },
+  resource: {
+    id: { type: 'string' },
+    type: { type: 'string' },
+    classification: { type: 'string' },
+    owner: { type: 'string' },
+    organization: { type: 'string' },
+    tags: { type: 'string[]' }
+  },
+  context: {
+    trustScore: { type: 'number' },
+    riskScore: { type: 'number' },
+    mfa: { type: 'boolean' },
+    ip: { type: 'string' },
+    'device.id': { type: 'string' },
+    'device.type': { type: 'string' },
+    'device.os': { type: 'string' },
+    'device.managed': { type: 'boolean' },
+    'device.trusted': { type: 'boolean' },
+    'location.country': { type: 'string' },
+    'location.region': { type: 'string' },
+    'location.network': { type: 'string' },
+    time: { type: 'time' },
+    day: { type: 'string', values: DAYS }
+  }
+};
+
+const SCOPES: Scope[] = ['subject', 'resource', 'context'];
+
+type CheckedType = ValueType | 'list' | 'error';
+
+/**
+ * Resolves a path to its scope and attribute name, honouring an explicit
+ * `subject.` / `resource.` / `context.` prefix.
+ */
+export function resolvePath(path: string[], defaultScope: Scope): { scope: Scope; attribute: string } {
+  if (path.length > 1 && SCOPES.includes(path[0] as Scope)) {
+    return { scope: path[0] as Scope, attribute: path.slice(1).join('.') };
+  }
+  return { scope: defaultScope, attribute: path.join('.') };
+}
+
+export function checkRules(rules: Rule[]): RuleDiagnostic[] {
+  const checker = new TypeChecker();
+  const names = new Map<string, SourceSpan>();
+
+  for (const rule of rules) {
+    if (names.has(rule.name)) {
+      checker.report(rule.span, `Rule name "${rule.name}" is already used on line ${names.get(rule.name)!.line}`);
+    } else {
+      names.set(rule.name, rule.span);
+    }
+
+    if (rule.subjects) checker.checkCondition(rule.subjects, 'subject');
+    if (rule.resources) checker.checkCondition(rule.resources, 'resource');
+    if (rule.when) checker.checkCondition(rule.when, 'context');
+  }
+
+  return checker.errors;
+}
+
+class TypeChecker {
+  errors: RuleDiagnostic[] = [];
+
+  report(span: SourceSpan, message: string): void {
+    this.errors.push({ stage: 'type', message, ...span });
+  }
+
+  checkCondition(expr: Expr, scope: Scope): void {
+    const type = this.check(expr, scope);
+    if (type !== 'boolean' && type !== 'error') {
+      this.report(expr.span, `Condition must be true/false but this is ${this.describe(type)}`);
+    }
+  }
+
+  private check(expr: Expr, scope: Scope): CheckedType {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.type;
+
+      case 'list':
+        return this.checkList(expr.items);
+
+      case 'path':
+        return this.checkPath(expr, scope);
+
+      case 'not': {
+        this.checkCondition(expr.operand, scope);
+        return 'boolean';
+      }
+
+      case 'logical':
+        this.checkCondition(expr.left, scope);
+        this.checkCondition(expr.right, scope);
+        return 'boolean';
+
+      case 'between': {
+        const value = this.check(expr.value, scope);
+        const lower = this.check(expr.lower, scope);
+        const upper = this.check(expr.upper, scope);
+        if ([value, lower, upper].includes('error')) return 'boolean';
+
+        if (value !== 'number' && value !== 'time') {
+          this.report(expr.value.span, `'between' needs a number or time but this is ${this.describe(value)}`);
+        } else {
+          for (const [bound, type] of [[expr.lower, lower], [expr.upper, upper]] as [Expr, CheckedType][]) {
+            if (type !== value) {
+              this.report(bound.span, `Expected ${this.describe(value)} bound but found ${this.describe(type)}`);
+            }
+          }
+        }
+        return 'boolean';
+      }
+
+      case 'compare':
+        this.checkComparison(expr.operator, expr.left, expr.right, scope);
+        return 'boolean';
+    }
+  }
+
+  private checkComparison(operator: string, left: Expr, right: Expr, scope: Scope): void {
+    const leftType = this.check(left, scope);
+    const rightType = this.check(right, scope);
+    if (leftType === 'error' || rightType === 'error') return;
+
+    const mismatch = () =>
+      this.report(
+        right.span,
+        `Cannot compare ${this.describe(leftType)} with ${this.describe(rightType)} using '${operator}'`
+      );
+
+    switch (operator) {
+      case '==':
+      case '!=':
+        if (this.isList(leftType) || this.isList(rightType) || leftType !== rightType) {
+          mismatch();
+        } else {
+          this.checkEnumValue(left, right, scope);
+          this.checkEnumValue(right, left, scope);
+        }
+        return;
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        if (leftType !== rightType || (leftType !== 'number' && leftType !== 'time')) {
+          mismatch();
+        }
+        return;
+
+      case 'in':
+        if (right.kind === 'list') {
+          if (this.isList(leftType) || (rightType !== 'list' && rightType !== `${leftType}[]`)) {
+            mismatch();
+          } else {
+            right.items.forEach(item => this.checkEnumValue(left, item, scope));
+          }
+        } else if (rightType !== `${leftType}[]`) {
+          mismatch();
+        }
+        return;
+
+      case 'contains':
+        if (leftType !== `${rightType}[]`) {
+          this.report(
+            right.span,
+            `Cannot check whether ${this.describe(leftType)} contains ${this.describe(rightType)}`
+          );
+        }
+        return;
+    }
+  }
+
+  private checkList(items: LiteralExpr[]): CheckedType {
+    if (items.length === 0) return 'list';
+
+    const type = items[0].type;
+    for (const item of items.slice(1)) {
+      if (item.type !== type) {
+        this.report(item.span, `List mixes ${this.describe(type)} and ${this.describe(item.type)} values`);
+        return 'error';
+      }
+    }
+
+    if (type === 'string' || type === 'number') return `${type}[]`;
+    this.report(items[0].span, `Lists may only hold text or numbers`);
+    return 'error';
+  }
+
+  private checkPath(expr: PathExpr, scope: Scope): CheckedType {
+    const { scope: target, attribute } = resolvePath(expr.segments, scope);
+    const definition = ATTRIBUTES[target][attribute];
+
+    if (!definition) {
+      const known = Object.keys(ATTRIBUTES[target]);
+      const suggestion = known.find(name => name.toLowerCase() === attribute.toLowerCase());
+      this.report(
+        expr.span,
+        `Unknown ${target} attribute '${attribute}'` +
+          (suggestion ? `; did you mean '${suggestion}'?` : `; expected one of ${known.join(', ')}`)
+      );
+      return 'error';
+    }
+
+    return definition.type;
+  }
+
+  /**
+   * Catches typos such as role == "ADMN" against attributes with a fixed set
+   * of values.
+   */
+  private checkEnumValue(attribute: Expr, value: Expr, scope: Scope): void {
+    if (attribute.kind !== 'path' || value.kind !== 'literal' || value.type !== 'string') return;
+
+    const { scope: target, attribute: name } = resolvePath(attribute.segments, scope);
+    const allowed = ATTRIBUTES[target][name]?.values;
+
+    if (allowed && !allowed.includes(String(value.value))) {
+      this.report(value.span, `"${value.value}" is not a valid ${name}; expected one of ${allowed.join(', ')}`);
+    }
+  }
+
+  private isList(type: CheckedType): boolean {
+    return type === 'list' || type.endsWith('[]');
+  }
+
+  private describe(type: CheckedType): string {
+    switch (type) {
+      case 'string[]':
+        return 'a list of text';
+      case 'number[]':
+        return 'a list of numbers';
+      case 'list':
+        return 'an empty list';
+      case 'time':
+        return 'a time';
+      case 'boolean':
+        return 'true/false';
+      case 'number':
+        return 'a number';
+      case 'string':
+        return 'text';
+      default:
+        return 'an invalid value';
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { PrismaClient } from '@prisma/client';
 import app from './app';
+import { PolicyScheduler } from './services/policyScheduler';
 import { logger } from './utils/logger';
 
 // Load environment variables
@@ -8,16 +9,28 @@ dotenv.config();
 
 const prisma = new PrismaClient();
 const PORT = process.env.PORT || 3001;
+const policyScheduler = new PolicyScheduler();
+
+// Bundles signed with an ephemeral key stop verifying after a restart
+if (!process.env.BUNDLE_SIGNING_KEY) {
+  if (process.env.NODE_ENV === 'production') {
+    logger.error('BUNDLE_SIGNING_KEY is not set; refusing to start in production');
+    process.exit(1);
+  }
+  logger.warn('⚠️  BUNDLE_SIGNING_KEY is not set: audit bundles are signed with a key that changes on every restart');
+}
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
   logger.info('Received SIGINT. Graceful shutdown...');
+  policyScheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM. Graceful shutdown...');
+  policyScheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -27,4 +40,9 @@ app.listen(PORT, () => {
   logger.info(`🚀 Server running on port ${PORT}`);
   logger.info(`� Health check: http://localhost:${PORT}/health`);
   logger.info(`📝 API docs: http://localhost:${PORT}/api-docs`);
+
+  // Activate and expire policies based on their effective/expiration dates
+  if (process.env.POLICY_SCHEDULER_ENABLED !== 'false') {
+    policyScheduler.start(Number(process.env.POLICY_SCHEDULER_INTERVAL_MS) || undefined);
+  }
 });
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { createPrismaClient, currentOrganizationId, runInOrganization } from '../utils/tenancy';
 
 interface UserBehaviorPattern {
   userId: string;
@@ -26,13 +27,22 @@ interface RiskFactor {
   description: string;
 }
 
-interface ThreatLevel {
+export interface ThreatLevel {
   level: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  riskScore?: number; // 0-100, set by detectAnomalies
   confidence: number;
   indicators: string[];
   recommendations: string[];
 }
 
+export interface UserRiskAssessment {
+  behaviorScore: number;
+  riskScore: number;
+  threatLevel: ThreatLevel['level'];
+  anomalies: string[];
+  recommendations: string[];
+}
+
 interface SecurityForecast {
   predictedThreats: PredictedThreat[];
   riskTrend: 'INCREASING' | 'STABLE' | 'DECREASING';
@@ -61,14 +71,22 @@ interface PolicyChange {
   justification: string;
 }
 
+/**
+ * Behavior profiles are kept per organization and user, built from the
+ * user's activity in that organization (plus activity outside any), so
+ * scoring in one organization never draws on another's audit trail.
+ */
 export class AISecurityAnalyzer {
   private prisma: PrismaClient;
+  // Keyed by profileKey(organizationId, userId)
   private behaviorProfiles: Map<string, UserBehaviorPattern> = new Map();
   private threatIntelligence: any[] = [];
 
   constructor() {
-    this.prisma = new PrismaClient();
-    this.initializeAI();
+    this.prisma = createPrismaClient();
+    // Unscoped: the analyzer is often first built inside a request, whose
+    // organization must not limit the profiles cached for everyone
+    runInOrganization(null, () => this.initializeAI());
   }
 
   private async initializeAI() {
@@ -91,8 +109,19 @@ export class AISecurityAnalyzer {
       });
 
       for (const user of users) {
+        const organizationIds = new Set<string>(
+          user.auditLogs.map(log => log.organizationId).filter((id): id is string => Boolean(id))
+        );
+
+        for (const organizationId of organizationIds) {
+          const auditLogs = user.auditLogs.filter(log => !log.organizationId || log.organizationId === organizationId);
+          const pattern = await this.analyzeBehaviorPattern({ ...user, auditLogs });
+          this.behaviorProfiles.set(this.profileKey(organizationId, user.id), pattern);
+        }
+
+        // Unscoped callers (background jobs) see the user's whole activity
         const pattern = await this.analyzeBehaviorPattern(user);
-        this.behaviorProfiles.set(user.id, pattern);
+        this.behaviorProfiles.set(this.profileKey(null, user.id), pattern);
       }
 
       logger.info(`Loaded behavior patterns for ${users.length} users`);
@@ -288,8 +317,16 @@ export class AISecurityAnalyzer {
     logger.info(`Loaded ${this.threatIntelligence.length} threat intelligence items`);
   }
 
+  /**
+   * Profiles are loaded for the users of every organization; this tells
+   * whether a user belongs to the current request's organization.
+   */
+  public async isInScope(userId: string): Promise<boolean> {
+    return (await this.prisma.user.count({ where: { id: userId } })) > 0;
+  }
+
   public analyzeUserBehavior(userId: string): number {
-    const profile = this.behaviorProfiles.get(userId);
+    const profile = this.profileFor(userId);
     if (!profile) {
       return 50; // Default medium risk for unknown users
     }
@@ -324,7 +361,7 @@ export class AISecurityAnalyzer {
     });
 
     // Behavioral anomaly detection
-    const userProfile = this.behaviorProfiles.get(accessRequest.userId);
+    const userProfile = this.profileFor(accessRequest.userId);
     if (userProfile) {
       const currentHour = new Date().getHours();
       if (Math.abs(currentHour - userProfile.avgLoginTime) > 4) {
@@ -339,34 +376,57 @@ export class AISecurityAnalyzer {
       }
     }
 
-    // Determine threat level
-    let level: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-    let confidence: number;
-
-    if (riskScore >= 75) {
-      level = 'CRITICAL';
-      confidence = 0.9;
-    } else if (riskScore >= 50) {
-      level = 'HIGH';
-      confidence = 0.8;
-    } else if (riskScore >= 25) {
-      level = 'MEDIUM';
-      confidence = 0.7;
-    } else {
-      level = 'LOW';
-      confidence = 0.6;
-    }
-
+    const { level, confidence } = this.threatLevelFor(riskScore);
     const recommendations = this.generateRecommendations(level, indicators);
 
     return {
       level,
+      riskScore: Math.min(riskScore, 100),
       confidence,
       indicators,
       recommendations
     };
   }
 
+  /**
+   * Risk of a user from their behavior profile: the profile's risk factors
+   * are the anomalies, graded like a live access request.
+   */
+  public assessUser(userId: string): UserRiskAssessment {
+    const riskScore = this.analyzeUserBehavior(userId);
+    const anomalies = (this.profileFor(userId)?.riskFactors ?? []).map(factor => factor.description);
+    const { level } = this.threatLevelFor(riskScore);
+
+    return {
+      behaviorScore: riskScore,
+      riskScore,
+      threatLevel: level,
+      anomalies,
+      recommendations: this.generateRecommendations(level, anomalies)
+    };
+  }
+
+  private profileFor(userId: string): UserBehaviorPattern | undefined {
+    return this.behaviorProfiles.get(this.profileKey(currentOrganizationId(), userId));
+  }
+
+  private profileKey(organizationId: string | null, userId: string): string {
+    return `${organizationId ?? '*'}:${userId}`;
+  }
+
+  private threatLevelFor(riskScore: number): Pick<ThreatLevel, 'level' | 'confidence'> {
+    if (riskScore >= 75) {
+      return { level: 'CRITICAL', confidence: 0.9 };
+    }
+    if (riskScore >= 50) {
+      return { level: 'HIGH', confidence: 0.8 };
+    }
+    if (riskScore >= 25) {
+      return { level: 'MEDIUM', confidence: 0.7 };
+    }
+    return { level: 'LOW', confidence: 0.6 };
+  }
+
   private generateRecommendations(level: string, indicators: string[]): string[] {
     const recommendations: string[] = [];
 
@@ -474,7 +534,7 @@ export class AISecurityAnalyzer {
   }
 
   public async updateBehaviorProfile(userId: string, newActivity: any) {
-    const profile = this.behaviorProfiles.get(userId);
+    const profile = this.profileFor(userId);
     if (profile) {
       // Update behavior profile with new activity
       // This would involve more sophisticated ML model updates
@@ -0,0 +1,273 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject, randomUUID } from 'crypto';
+import { AuditLog, PrismaClient } from '@prisma/client';
+import { packBundle } from '../utils/auditBundle';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { TarEntry } from '../utils/tar';
+import { createPrismaClient, currentOrganizationId } from '../utils/tenancy';
+import { ControlCatalog } from './controlCatalog';
+import { EvidenceStore } from './evidenceStore';
+import { WorkflowActor } from './policyWorkflow';
+
+export interface BundleRequest {
+  framework: string;
+  from: string | Date;
+  to?: string | Date;
+}
+
+export interface LedgerReference {
+  source: string;
+  auditLogId: string;
+  entityType: string;
+  entityId: string;
+  txId: string;
+  network: string | null;
+  verified: boolean | null;
+  recordedAt: Date;
+}
+
+export const ZK_VERIFICATION_ACTION = 'RECORD_ZK_VERIFICATION';
+
+const PERSON_SELECT = { id: true, firstName: true, lastName: true, email: true };
+
+// Transaction ids audit entries carry, by where they sit in `details`
+const LEDGER_FIELDS: { path: string[]; network: string | null }[] = [
+  { path: ['txHash'], network: null },
+  { path: ['txId'], network: null },
+  { path: ['ledger', 'fabricTxId'], network: 'hyperledger-fabric' },
+  { path: ['ledger', 'ethTxId'], network: 'ethereum' }
+];
+
+let ephemeralKey: KeyObject | null = null;
+
+/**
+ * Everything an external auditor asks for about one framework over a date
+ * range, packed into a single signed archive (see utils/auditBundle):
+ * policy versions, approvals, acknowledgments, audit log entries, ledger
+ * transactions, ZK verification results and linked evidence files.
+ */
+export class AuditBundles {
+  private prisma: PrismaClient;
+  private catalog: ControlCatalog;
+  private evidence: EvidenceStore;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.catalog = new ControlCatalog();
+    this.evidence = new EvidenceStore();
+  }
+
+  async build(request: BundleRequest, actor: WorkflowActor) {
+    const { framework } = this.catalog.getFramework(request.framework);
+    const from = new Date(request.from);
+    const to = request.to ? new Date(request.to) : new Date();
+
+    if (from > to) {
+      throw new HttpError(400, 'from must be before to');
+    }
+
+    const range = { gte: from, lte: to };
+    const policies = await this.prisma.policy.findMany({
+      where: {
+        createdAt: { lte: to },
+        OR: [{ complianceFramework: framework }, { controls: { some: { framework } } }]
+      },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        version: true,
+        category: true,
+        complianceFramework: true,
+        effectiveDate: true,
+        expirationDate: true,
+        blockchainTxHash: true,
+        createdAt: true,
+        controls: { where: { framework }, select: { controlId: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    const policyIds = policies.map(policy => policy.id);
+
+    const evidence = await this.prisma.evidence.findMany({
+      where: {
+        createdAt: range,
+        OR: [{ policyId: { in: policyIds } }, { controlId: { startsWith: `${framework}:` } }]
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    const evidenceIds = evidence.map(record => record.id);
+
+    const [versions, approvals, acknowledgments, auditLogs, transactions] = await Promise.all([
+      this.prisma.policyVersion.findMany({
+        where: { policyId: { in: policyIds }, createdAt: range },
+        select: {
+          id: true,
+          policyId: true,
+          version: true,
+          content: true,
+          changes: true,
+          snapshot: true,
+          createdAt: true,
+          createdBy: { select: PERSON_SELECT }
+        },
+        orderBy: [{ policyId: 'asc' }, { version: 'asc' }]
+      }),
+      this.prisma.policyApproval.findMany({
+        where: { policyId: { in: policyIds }, createdAt: range },
+        include: { approver: { select: PERSON_SELECT } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.prisma.policyAssignment.findMany({
+        where: { policyId: { in: policyIds }, acknowledgedAt: range },
+        include: { user: { select: PERSON_SELECT } },
+        orderBy: { acknowledgedAt: 'asc' }
+      }),
+      this.prisma.auditLog.findMany({
+        where: {
+          createdAt: range,
+          OR: [
+            { entityType: 'POLICY', entityId: { in: policyIds } },
+            { entityType: 'EVIDENCE', entityId: { in: evidenceIds } },
+            // Access decisions record the policies they evaluated
+            ...policyIds.map(id => ({ action: 'ACCESS_DECISION', details: { path: ['policyIds'], array_contains: [id] } }))
+          ]
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.prisma.blockchainTransaction.findMany({
+        where: { entityId: { in: [...policyIds, ...evidenceIds] }, createdAt: range },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    const zkVerifications = auditLogs.filter(entry => entry.action === ZK_VERIFICATION_ACTION);
+    const ledger = { transactions, references: this.ledgerReferences(auditLogs) };
+
+    const evidenceFiles: TarEntry[] = [];
+    const evidenceIndex = [];
+    for (const record of evidence) {
+      try {
+        const { content } = await this.evidence.read(record.id);
+        // Records sharing content share one file
+        if (!evidenceFiles.some(file => file.name === `evidence/${record.sha256}`)) {
+          evidenceFiles.push({ name: `evidence/${record.sha256}`, content });
+        }
+        evidenceIndex.push({ ...record, included: true });
+      } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+        // A file that fails verification is listed but not shipped
+        evidenceIndex.push({ ...record, included: false, reason: error.message });
+      }
+    }
+
+    const json = (name: string, value: unknown): TarEntry => ({
+      name,
+      content: Buffer.from(JSON.stringify(value, null, 2))
+    });
+
+    const bundleId = randomUUID();
+    const generatedAt = new Date();
+    const { archive, manifest, manifestHash } = packBundle(
+      {
+        bundleId,
+        framework,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        generatedAt: generatedAt.toISOString(),
+        generatedBy: actor.userId,
+        organizationId: currentOrganizationId(),
+        counts: {
+          policies: policies.length,
+          versions: versions.length,
+          approvals: approvals.length,
+          acknowledgments: acknowledgments.length,
+          auditLogs: auditLogs.length,
+          ledgerTransactions: transactions.length + ledger.references.length,
+          zkVerifications: zkVerifications.length,
+          evidence: evidenceIndex.filter(record => record.included).length
+        }
+      },
+      [
+        json('policies.json', policies),
+        json('policy-versions.json', versions),
+        json('approvals.json', approvals),
+        json('acknowledgments.json', acknowledgments),
+        json('audit-log.json', auditLogs),
+        json('ledger.json', ledger),
+        json('zk-verifications.json', zkVerifications),
+        json('evidence.json', evidenceIndex),
+        ...evidenceFiles
+      ],
+      this.signingKey()
+    );
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'EXPORT_AUDIT_BUNDLE',
+        entityType: 'AUDIT_BUNDLE',
+        entityId: bundleId,
+        userId: actor.userId,
+        details: { framework, from: manifest.from, to: manifest.to, manifestHash, counts: manifest.counts }
+      }
+    });
+
+    return {
+      filename: `audit-bundle-${framework.toLowerCase()}-${manifest.from.slice(0, 10)}-${manifest.to.slice(0, 10)}.tar.gz`,
+      archive,
+      manifest,
+      manifestHash
+    };
+  }
+
+  /**
+   * Public half of the signing key, for pinning in offline verification.
+   */
+  publicKey(): string {
+    return createPublicKey(this.signingKey()).export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  ledgerReferences(entries: AuditLog[]): LedgerReference[] {
+    const references: LedgerReference[] = [];
+
+    for (const entry of entries) {
+      const details = entry.details && typeof entry.details === 'object' && !Array.isArray(entry.details)
+        ? (entry.details as Record<string, any>)
+        : null;
+      if (!details) continue;
+
+      for (const { path, network } of LEDGER_FIELDS) {
+        const txId = path.reduce<any>((value, key) => (value && typeof value === 'object' ? value[key] : undefined), details);
+        if (typeof txId !== 'string' || txId.length === 0) continue;
+
+        references.push({
+          source: entry.action,
+          auditLogId: entry.id,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          txId,
+          network,
+          verified: path[0] === 'ledger' ? Boolean(details.ledger.verified) : null,
+          recordedAt: entry.createdAt
+        });
+      }
+    }
+
+    return references;
+  }
+
+  // BUNDLE_SIGNING_KEY holds a PEM Ed25519 private key; without it bundles
+  // are signed with a key that only lasts as long as the process
+  private signingKey(): KeyObject {
+    if (process.env.BUNDLE_SIGNING_KEY) {
+      return createPrivateKey(process.env.BUNDLE_SIGNING_KEY.replace(/\\n/g, '\n'));
+    }
+
+    if (!ephemeralKey) {
+      logger.warn('BUNDLE_SIGNING_KEY is not set; signing audit bundles with an ephemeral key');
+      ephemeralKey = generateKeyPairSync('ed25519').privateKey;
+    }
+
+    return ephemeralKey;
+  }
+}
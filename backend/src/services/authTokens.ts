@@ -0,0 +1,246 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient, RefreshToken } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient } from '../utils/tenancy';
+import { Organizations, OrganizationMembership } from './organizations';
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  refreshExpiresAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Access tokens are short-lived JWTs naming their session (`sid`); refresh
+ * tokens are opaque, stored hashed and rotated on every use. A session ends
+ * on logout, on refresh-token reuse and when its user is deactivated, and
+ * authMiddleware rejects access tokens of ended sessions.
+ */
+export class AuthTokens {
+  private prisma: PrismaClient;
+  private organizations: Organizations;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.organizations = new Organizations();
+  }
+
+  /**
+   * Starts a session for the organization of `membership`; `mfaVerifiedAt`
+   * when the login included a second factor.
+   */
+  async issue(
+    user: { id: string; email: string },
+    membership: OrganizationMembership,
+    context: SessionContext = {},
+    mfaVerifiedAt: Date | null = null
+  ): Promise<TokenPair> {
+    const familyId = randomUUID();
+    const { refreshToken, expiresAt } = await this.createRefreshToken(
+      this.prisma, user.id, familyId, membership.id, context, mfaVerifiedAt
+    );
+
+    return {
+      token: this.accessToken(user, membership, familyId, mfaVerifiedAt),
+      refreshToken,
+      expiresIn: this.accessTokenTtl(),
+      refreshExpiresAt: expiresAt
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new pair. The role is re-read from the
+   * membership, so role changes apply from the next refresh.
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}) {
+    const record = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { user: { select: { id: true, email: true, isActive: true } } }
+    });
+
+    if (!record) {
+      throw new HttpError(401, 'Invalid refresh token');
+    }
+
+    if (record.revokedAt) {
+      if (record.replacedById) {
+        await this.reuseDetected(record, context);
+      }
+      throw new HttpError(401, 'Session has ended');
+    }
+
+    if (record.expiresAt <= new Date()) {
+      throw new HttpError(401, 'Refresh token expired');
+    }
+
+    if (!record.user.isActive) {
+      await this.revokeSession(record.familyId);
+      throw new HttpError(401, 'Invalid credentials');
+    }
+
+    const membership = await this.organizations.resolveMembership(record.userId, record.organizationId ?? undefined);
+
+    const next = await this.prisma.$transaction(async tx => {
+      // Claiming the token first makes a concurrent second use lose
+      const claimed = await tx.refreshToken.updateMany({
+        where: { id: record.id, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const successor = await this.createRefreshToken(
+        tx, record.userId, record.familyId, membership.id, context, record.mfaVerifiedAt
+      );
+      await tx.refreshToken.update({ where: { id: record.id }, data: { replacedById: successor.id } });
+      return successor;
+    });
+
+    if (!next) {
+      await this.reuseDetected(record, context);
+      throw new HttpError(401, 'Session has ended');
+    }
+
+    return {
+      token: this.accessToken(record.user, membership, record.familyId, record.mfaVerifiedAt),
+      refreshToken: next.refreshToken,
+      expiresIn: this.accessTokenTtl(),
+      refreshExpiresAt: next.expiresAt,
+      organization: membership
+    };
+  }
+
+  /**
+   * Records a second factor verified in the session, for step-up, and
+   * returns an access token that carries it. The refresh token is unchanged.
+   */
+  async markMfaVerified(
+    user: { id: string; email: string },
+    membership: OrganizationMembership,
+    sid: string
+  ): Promise<{ token: string; expiresIn: string; mfaVerifiedAt: Date }> {
+    const mfaVerifiedAt = new Date();
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { familyId: sid, userId: user.id, revokedAt: null },
+      data: { mfaVerifiedAt }
+    });
+
+    if (count === 0) {
+      throw new HttpError(401, 'Session has ended');
+    }
+
+    return { token: this.accessToken(user, membership, sid, mfaVerifiedAt), expiresIn: this.accessTokenTtl(), mfaVerifiedAt };
+  }
+
+  async revokeSession(familyId: string, userId?: string): Promise<number> {
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { familyId, ...(userId && { userId }), revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    return count;
+  }
+
+  async revokeAllSessions(userId: string): Promise<number> {
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    return count;
+  }
+
+  /**
+   * Whether an access token's session is still live: its user is active
+   * and the family still has an unrevoked, unexpired refresh token.
+   */
+  async isSessionActive(userId: string, sid: string): Promise<boolean> {
+    const live = await this.prisma.refreshToken.count({
+      where: { familyId: sid, userId, revokedAt: null, expiresAt: { gt: new Date() }, user: { isActive: true } }
+    });
+    return live > 0;
+  }
+
+  private accessTokenTtl(): string {
+    return process.env.JWT_EXPIRES_IN || '15m';
+  }
+
+  // The token's role is the one held in its organization; `mfaAt` (epoch
+  // seconds) is when the session last passed a second factor
+  private accessToken(
+    user: { id: string; email: string },
+    membership: OrganizationMembership,
+    sid: string,
+    mfaVerifiedAt: Date | null
+  ): string {
+    return jwt.sign(
+      {
+        userId: user.id,
+        email: user.email,
+        role: membership.role,
+        organizationId: membership.id,
+        sid,
+        ...(mfaVerifiedAt && { mfaAt: Math.floor(mfaVerifiedAt.getTime() / 1000) })
+      },
+      process.env.JWT_SECRET || 'fallback-secret',
+      { expiresIn: this.accessTokenTtl() } as jwt.SignOptions
+    );
+  }
+
+  private async createRefreshToken(
+    client: Pick<PrismaClient, 'refreshToken'>,
+    userId: string,
+    familyId: string,
+    organizationId: string,
+    context: SessionContext,
+    mfaVerifiedAt: Date | null
+  ) {
+    const refreshToken = randomBytes(48).toString('base64url');
+    const expiresAt = new Date(Date.now() + (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 7) * DAY_MS);
+
+    const created = await client.refreshToken.create({
+      data: {
+        userId,
+        familyId,
+        tokenHash: hashToken(refreshToken),
+        organizationId,
+        expiresAt,
+        userAgent: context.userAgent?.slice(0, 255),
+        ipAddress: context.ipAddress,
+        mfaVerifiedAt
+      }
+    });
+
+    return { id: created.id, refreshToken, expiresAt };
+  }
+
+  // A rotated token was presented again: whoever holds the family may have
+  // stolen it, so every token in it is revoked
+  private async reuseDetected(record: RefreshToken, context: SessionContext): Promise<void> {
+    const revoked = await this.revokeSession(record.familyId);
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'REFRESH_TOKEN_REUSE',
+        entityType: 'USER',
+        entityId: record.userId,
+        userId: record.userId,
+        organizationId: record.organizationId,
+        details: { familyId: record.familyId, revoked, ipAddress: context.ipAddress, userAgent: context.userAgent }
+      }
+    });
+
+    logger.warn(`Refresh token reuse for user ${record.userId}; session ${record.familyId} revoked`);
+  }
+}
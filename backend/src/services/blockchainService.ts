@@ -0,0 +1,158 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+// Types for blockchain operations
+export interface AccessDecision {
+  userId: string;
+  resourceId: string;
+  action: string;
+  decision: 'PERMIT' | 'DENY';
+  riskScore: number;
+  timestamp: number;
+  contextFactors: Record<string, any>;
+}
+
+export interface PolicyChange {
+  policyId: string;
+  version: string;
+  changeType: 'CREATE' | 'UPDATE' | 'DELETE';
+  authorId: string;
+  previousHash?: string;
+  newHash: string;
+  timestamp: number;
+}
+
+export interface ComplianceEvent {
+  eventType: string;
+  regulation: 'SOX' | 'GDPR' | 'HIPAA' | 'ISO27001';
+  entityId: string;
+  complianceStatus: boolean;
+  evidenceHash: string;
+  timestamp: number;
+}
+
+// Mock blockchain service implementation
+export class BlockchainService {
+  private provider: ethers.Provider;
+  private contract: ethers.Contract | null = null;
+  private fabricConnected = false;
+  
+  constructor() {
+    // Initialize Ethereum provider (mock for demo)
+    this.provider = new ethers.JsonRpcProvider(
+      process.env.ETHEREUM_RPC_URL || 'https://mainnet.infura.io/v3/your-project-id'
+    );
+    this.initializeContracts();
+  }
+
+  private async initializeContracts() {
+    try {
+      // Mock contract ABI for demo
+      const contractABI = [
+        "function recordAccess(string memory decision) public returns (bytes32)",
+        "function recordPolicyChange(string memory change) public returns (bytes32)",
+        "function recordComplianceEvent(string memory event) public returns (bytes32)",
+        "function verifyRecord(bytes32 txHash) public view returns (bool)"
+      ];
+      
+      const contractAddress = process.env.SMART_CONTRACT_ADDRESS || '0x742d35Cc6664C678b0c2cB6c0E8FBBE0F0aB';
+      // Mock contract initialization
+      logger.info('Blockchain contracts initialized successfully');
+    } catch (error) {
+      logger.error('Failed to initialize blockchain contracts:', error);
+    }
+  }
+
+  // Record access decision with cross-chain verification
+  async recordAccessDecision(decision: AccessDecision): Promise<{ fabricTxId: string; ethTxId: string; verified: boolean }> {
+    try {
+      const decisionHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(decision)));
+      
+      // Mock Hyperledger Fabric transaction
+      const fabricTxId = `fabric_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      
+      // Mock Ethereum transaction
+      const ethTxId = `eth_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      
+      // Cross-chain verification using Cactus (mock implementation)
+      const verified = await this.cactusVerifyTransactions(fabricTxId, ethTxId);
+      
+      logger.info(`Access decision recorded: Fabric=${fabricTxId}, Ethereum=${ethTxId}, Verified=${verified}`);
+      
+      return { fabricTxId, ethTxId, verified };
+    } catch (error) {
+      logger.error('Failed to record access decision:', error);
+      throw new Error('Blockchain recording failed');
+    }
+  }
+
+  // Record policy changes with version control
+  async recordPolicyChange(change: PolicyChange): Promise<string> {
+    try {
+      const changeHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(change)));
+      
+      // Mock blockchain transaction for policy change
+      const txId = `policy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      
+      logger.info(`Policy change recorded: ${txId} for policy ${change.policyId}`);
+      return txId;
+    } catch (error) {
+      logger.error('Failed to record policy change:', error);
+      throw new Error('Policy change recording failed');
+    }
+  }
+
+  // Record compliance events with regulatory mapping
+  async recordComplianceEvent(event: ComplianceEvent): Promise<string> {
+    try {
+      const eventHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(event)));
+      
+      // Mock compliance event recording
+      const txId = `compliance_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      
+      logger.info(`Compliance event recorded: ${txId} for ${event.regulation}`);
+      return txId;
+    } catch (error) {
+      logger.error('Failed to record compliance event:', error);
+      throw new Error('Compliance event recording failed');
+    }
+  }
+
+  // Mock Cactus cross-chain verification
+  private async cactusVerifyTransactions(fabricTxId: string, ethTxId: string): Promise<boolean> {
+    try {
+      // Simulate cross-chain verification delay
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      
+      // Mock verification logic (99.9% success rate as per documentation)
+      return Math.random() > 0.001;
+    } catch (error) {
+      logger.error('Cross-chain verification failed:', error);
+      return false;
+    }
+  }
+
+  // Generate audit trail for specific time range
+  async generateAuditTrail(startTime: number, endTime: number): Promise<any[]> {
+    try {
+      // Mock audit trail generation
+      const auditEntries = [];
+      const now = Date.now();
+      
+      for (let i = 0; i < 10; i++) {
+        auditEntries.push({
+          txId: `audit_${now}_${i}`,
+          timestamp: startTime + (i * ((endTime - startTime) / 10)),
+          type: ['ACCESS', 'POLICY', 'COMPLIANCE'][Math.floor(Math.random() * 3)],
+          hash: ethers.keccak256(ethers.toUtf8Bytes(`audit_entry_${i}`)),
+          verified: true
+        });
+      }
+      
+      return auditEntries;
+    } catch (error) {
+      logger.error('Failed to generate audit trail:', error);
+      throw new Error('Audit trail generation failed');
+    }
+  }
+}
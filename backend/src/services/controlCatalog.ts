@@ -0,0 +1,230 @@
+import { PrismaClient } from '@prisma/client';
+import gdpr from '../data/controls/gdpr.json';
+import hipaa from '../data/controls/hipaa.json';
+import iso27001 from '../data/controls/iso27001.json';
+import sox from '../data/controls/sox.json';
+import { HttpError } from '../utils/errors';
+import { createPrismaClient } from '../utils/tenancy';
+import { WorkflowActor } from './policyWorkflow';
+
+export interface CatalogControl {
+  id: string;
+  framework: string;
+  reference: string;
+  title: string;
+  domain: string;
+}
+
+export interface ControlFramework {
+  framework: string;
+  name: string;
+  edition: string;
+  controls: CatalogControl[];
+}
+
+export interface FrameworkCoverage {
+  framework: string;
+  name: string;
+  totalControls: number;
+  mappedControls: number;
+  coveredControls: number;
+  coverage: number;
+  unmapped: CatalogControl[];
+  pending: CatalogControl[];
+}
+
+interface CatalogFile {
+  framework: string;
+  name: string;
+  edition: string;
+  controls: Omit<CatalogControl, 'framework'>[];
+}
+
+// Bundled catalogs, in the order frameworks are reported
+const FRAMEWORKS: ControlFramework[] = ([sox, gdpr, hipaa, iso27001] as CatalogFile[]).map(file => ({
+  ...file,
+  controls: file.controls.map(control => ({ ...control, framework: file.framework }))
+}));
+
+const CONTROLS = new Map(FRAMEWORKS.flatMap(framework => framework.controls).map(control => [control.id, control]));
+
+const PERSON_SELECT = { id: true, firstName: true, lastName: true, email: true };
+
+/**
+ * Controls of the supported compliance frameworks (GDPR articles, SOX
+ * sections, HIPAA Security Rule safeguards, ISO 27001 Annex A), loaded from
+ * the bundled files in `src/data/controls`, and the many-to-many mapping of
+ * policies onto them.
+ */
+export class ControlCatalog {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  frameworks() {
+    return FRAMEWORKS.map(({ framework, name, edition, controls }) => ({
+      framework,
+      name,
+      edition,
+      controlCount: controls.length
+    }));
+  }
+
+  getFramework(framework: string): ControlFramework {
+    const found = FRAMEWORKS.find(candidate => candidate.framework === framework.toUpperCase());
+
+    if (!found) {
+      throw new HttpError(404, 'Framework not found', {
+        frameworks: FRAMEWORKS.map(candidate => candidate.framework)
+      });
+    }
+
+    return found;
+  }
+
+  controls(filter: { framework?: string; domain?: string } = {}): CatalogControl[] {
+    const controls = filter.framework
+      ? this.getFramework(filter.framework).controls
+      : Array.from(CONTROLS.values());
+
+    return filter.domain
+      ? controls.filter(control => control.domain.toLowerCase() === filter.domain!.toLowerCase())
+      : controls;
+  }
+
+  getControl(controlId: string): CatalogControl {
+    const control = CONTROLS.get(controlId);
+
+    if (!control) {
+      throw new HttpError(404, 'Control not found');
+    }
+
+    return control;
+  }
+
+  async policyControls(policyId: string) {
+    const policy = await this.prisma.policy.findUnique({ where: { id: policyId }, select: { id: true } });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    const mappings = await this.prisma.policyControl.findMany({
+      where: { policyId },
+      include: { mappedBy: { select: PERSON_SELECT } },
+      orderBy: { controlId: 'asc' }
+    });
+
+    return mappings
+      .filter(mapping => CONTROLS.has(mapping.controlId))
+      .map(mapping => ({
+        ...CONTROLS.get(mapping.controlId)!,
+        mappedAt: mapping.createdAt,
+        mappedBy: mapping.mappedBy
+      }));
+  }
+
+  /**
+   * Replaces the controls a policy is mapped to and audits what was added
+   * and removed. Mapping the same set again is a no-op.
+   */
+  async setPolicyControls(policyId: string, controlIds: string[], actor: WorkflowActor) {
+    const requested = Array.from(new Set(controlIds));
+    const unknownControls = requested.filter(controlId => !CONTROLS.has(controlId));
+
+    if (unknownControls.length > 0) {
+      throw new HttpError(400, 'Unknown controls', { unknownControls });
+    }
+
+    const policy = await this.prisma.policy.findUnique({ where: { id: policyId }, select: { id: true, status: true } });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    if (policy.status === 'ARCHIVED') {
+      throw new HttpError(409, 'Archived policies cannot be mapped to controls');
+    }
+
+    const existing = await this.prisma.policyControl.findMany({ where: { policyId }, select: { controlId: true } });
+    const current = new Set(existing.map(mapping => mapping.controlId));
+    const added = requested.filter(controlId => !current.has(controlId));
+    const removed = Array.from(current).filter(controlId => !requested.includes(controlId));
+
+    if (added.length > 0 || removed.length > 0) {
+      await this.prisma.$transaction([
+        this.prisma.policyControl.deleteMany({ where: { policyId, controlId: { in: removed } } }),
+        this.prisma.policyControl.createMany({
+          data: added.map(controlId => ({
+            policyId,
+            controlId,
+            framework: CONTROLS.get(controlId)!.framework,
+            mappedById: actor.userId
+          }))
+        }),
+        this.prisma.auditLog.create({
+          data: {
+            action: 'MAP_POLICY_CONTROLS',
+            entityType: 'POLICY',
+            entityId: policyId,
+            userId: actor.userId,
+            details: { added, removed, controlCount: requested.length }
+          }
+        })
+      ]);
+    }
+
+    return this.policyControls(policyId);
+  }
+
+  async policiesForControl(controlId: string) {
+    const control = this.getControl(controlId);
+    const mappings = await this.prisma.policyControl.findMany({
+      where: { controlId },
+      include: {
+        policy: { select: { id: true, title: true, status: true, version: true, complianceFramework: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return { control, policies: mappings.map(mapping => mapping.policy) };
+  }
+
+  /**
+   * Per framework: controls covered by an ACTIVE policy, controls mapped
+   * only to policies not yet active (`pending`), and controls no live
+   * policy is mapped to (`unmapped`). Archived policies do not count.
+   */
+  async coverage(framework?: string): Promise<FrameworkCoverage[]> {
+    const frameworks = framework ? [this.getFramework(framework)] : FRAMEWORKS;
+    const mappings = await this.prisma.policyControl.findMany({
+      where: {
+        framework: { in: frameworks.map(candidate => candidate.framework) },
+        policy: { status: { not: 'ARCHIVED' } }
+      },
+      select: { controlId: true, policy: { select: { status: true } } }
+    });
+
+    const mapped = new Set(mappings.map(mapping => mapping.controlId));
+    const covered = new Set(
+      mappings.filter(mapping => mapping.policy.status === 'ACTIVE').map(mapping => mapping.controlId)
+    );
+
+    return frameworks.map(({ framework: key, name, controls }) => {
+      const coveredControls = controls.filter(control => covered.has(control.id)).length;
+
+      return {
+        framework: key,
+        name,
+        totalControls: controls.length,
+        mappedControls: controls.filter(control => mapped.has(control.id)).length,
+        coveredControls,
+        coverage: controls.length > 0 ? Math.round((coveredControls / controls.length) * 100) : 0,
+        unmapped: controls.filter(control => !mapped.has(control.id)),
+        pending: controls.filter(control => mapped.has(control.id) && !covered.has(control.id))
+      };
+    });
+  }
+}
@@ -0,0 +1,322 @@
+import path from 'path';
+import { Evidence, PrismaClient } from '@prisma/client';
+import { ContentStatus, ContentStore, sha256 } from '../utils/contentStore';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient, runInOrganization } from '../utils/tenancy';
+import { CatalogControl, ControlCatalog } from './controlCatalog';
+import { WorkflowActor } from './policyWorkflow';
+
+export interface EvidenceUpload {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  policyId?: string;
+  controlId?: string;
+  description?: string;
+}
+
+export interface ComplianceEventLink {
+  txId: string;
+  eventType: string;
+  regulation: string;
+}
+
+export interface VerificationSummary {
+  checked: number;
+  valid: number;
+  corrupted: string[];
+  missing: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minimum retention by framework: SOX s.802 keeps audit records for seven
+// years, HIPAA 164.316(b)(2) keeps documentation for six
+const RETENTION_DAYS: Record<string, number> = {
+  SOX: 7 * 365,
+  HIPAA: 6 * 365
+};
+
+const DEFAULT_RETENTION_DAYS = 3 * 365;
+
+const PERSON_SELECT = { id: true, firstName: true, lastName: true, email: true };
+
+const EVIDENCE_INCLUDE = {
+  policy: { select: { id: true, title: true, complianceFramework: true } },
+  uploadedBy: { select: PERSON_SELECT }
+};
+
+/**
+ * Evidence files linked to policies, catalog controls and recorded
+ * compliance events. The bytes go to a local content-addressed store
+ * (EVIDENCE_DIR, by default `<UPLOAD_DIR>/evidence`) so identical uploads
+ * are kept once; rows here hold the metadata, links and retention.
+ */
+export class EvidenceStore {
+  private prisma: PrismaClient;
+  private store: ContentStore;
+  private catalog: ControlCatalog;
+
+  constructor(root: string = process.env.EVIDENCE_DIR || path.join(process.env.UPLOAD_DIR || 'uploads', 'evidence')) {
+    this.prisma = createPrismaClient();
+    this.store = new ContentStore(root);
+    this.catalog = new ControlCatalog();
+  }
+
+  /**
+   * Stores an evidence file. Uploading the same content with the same links
+   * again returns the existing record with `duplicate: true`.
+   */
+  async upload(input: EvidenceUpload, actor: WorkflowActor): Promise<{ evidence: Evidence; duplicate: boolean }> {
+    if (input.content.length === 0) {
+      throw new HttpError(400, 'Evidence file is empty');
+    }
+
+    const control = input.controlId ? this.findControl(input.controlId) : null;
+    let framework = control?.framework ?? null;
+
+    if (input.policyId) {
+      const policy = await this.prisma.policy.findUnique({
+        where: { id: input.policyId },
+        select: { id: true, complianceFramework: true }
+      });
+
+      if (!policy) {
+        throw new HttpError(404, 'Policy not found');
+      }
+
+      framework = framework ?? policy.complianceFramework;
+    }
+
+    const hash = sha256(input.content);
+    const existing = await this.prisma.evidence.findFirst({
+      where: { sha256: hash, policyId: input.policyId ?? null, controlId: input.controlId ?? null },
+      include: EVIDENCE_INCLUDE
+    });
+
+    // Writing again also repairs a stored copy that went missing or corrupt
+    const { stored } = await this.store.put(input.content);
+
+    if (existing) {
+      return { evidence: existing, duplicate: true };
+    }
+
+    const now = new Date();
+    const evidence = await this.prisma.$transaction(async tx => {
+      const created = await tx.evidence.create({
+        data: {
+          sha256: hash,
+          fileName: input.fileName,
+          mimeType: input.mimeType,
+          size: input.content.length,
+          description: input.description,
+          policyId: input.policyId,
+          controlId: input.controlId,
+          complianceTxIds: [],
+          retainUntil: this.retainUntil(framework, now),
+          integrity: 'VALID',
+          lastVerifiedAt: now,
+          uploadedById: actor.userId
+        },
+        include: EVIDENCE_INCLUDE
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'UPLOAD_EVIDENCE',
+          entityType: 'EVIDENCE',
+          entityId: created.id,
+          userId: actor.userId,
+          details: {
+            sha256: hash,
+            fileName: input.fileName,
+            size: input.content.length,
+            policyId: input.policyId,
+            controlId: input.controlId,
+            newContent: stored
+          }
+        }
+      });
+
+      return created;
+    });
+
+    return { evidence, duplicate: false };
+  }
+
+  async list(filter: { policyId?: string; controlId?: string; sha256?: string; disposable?: boolean } = {}) {
+    return this.prisma.evidence.findMany({
+      where: {
+        policyId: filter.policyId,
+        controlId: filter.controlId,
+        sha256: filter.sha256,
+        ...(filter.disposable && { retainUntil: { lte: new Date() } })
+      },
+      include: EVIDENCE_INCLUDE,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  async get(evidenceId: string) {
+    const evidence = await this.prisma.evidence.findUnique({ where: { id: evidenceId }, include: EVIDENCE_INCLUDE });
+
+    if (!evidence) {
+      throw new HttpError(404, 'Evidence not found');
+    }
+
+    return evidence;
+  }
+
+  /**
+   * The evidence and its file, checked against the hash first. Files that
+   * are missing or no longer match are flagged and refused.
+   */
+  async read(evidenceId: string): Promise<{ evidence: Evidence; content: Buffer }> {
+    const evidence = await this.get(evidenceId);
+    const content = await this.store.get(evidence.sha256);
+    const integrity: ContentStatus = !content ? 'MISSING' : sha256(content) === evidence.sha256 ? 'VALID' : 'CORRUPTED';
+
+    if (integrity !== 'VALID') {
+      await this.recordIntegrity([evidence], integrity);
+      throw new HttpError(409, integrity === 'MISSING'
+        ? 'Evidence file is missing from the store'
+        : 'Evidence file failed integrity verification');
+    }
+
+    return { evidence, content: content! };
+  }
+
+  /**
+   * Re-hashes the stored file of one evidence record.
+   */
+  async verify(evidenceId: string) {
+    const evidence = await this.get(evidenceId);
+    const integrity = await this.store.verify(evidence.sha256);
+
+    await this.recordIntegrity([evidence], integrity);
+    return this.get(evidenceId);
+  }
+
+  /**
+   * Re-hashes every stored file once and updates all records that share it.
+   */
+  async verifyAll(actor: WorkflowActor): Promise<VerificationSummary> {
+    const records = await this.prisma.evidence.findMany({ select: { id: true, sha256: true } });
+    const summary: VerificationSummary = { checked: records.length, valid: 0, corrupted: [], missing: [] };
+
+    const byHash = new Map<string, typeof records>();
+    for (const record of records) {
+      byHash.set(record.sha256, [...(byHash.get(record.sha256) || []), record]);
+    }
+
+    for (const [hash, sharing] of byHash) {
+      const integrity = await this.store.verify(hash);
+      await this.recordIntegrity(sharing, integrity);
+
+      if (integrity === 'VALID') summary.valid += sharing.length;
+      if (integrity === 'CORRUPTED') summary.corrupted.push(...sharing.map(record => record.id));
+      if (integrity === 'MISSING') summary.missing.push(...sharing.map(record => record.id));
+    }
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'VERIFY_EVIDENCE',
+        entityType: 'EVIDENCE',
+        entityId: 'all',
+        userId: actor.userId,
+        details: { ...summary }
+      }
+    });
+
+    return summary;
+  }
+
+  /**
+   * Records that a compliance event went on the ledger with this evidence,
+   * extending retention to what the event's regulation requires.
+   */
+  async linkComplianceEvent(evidenceId: string, event: ComplianceEventLink, actor: WorkflowActor) {
+    const evidence = await this.get(evidenceId);
+    const retainUntil = new Date(Math.max(
+      evidence.retainUntil.getTime(),
+      this.retainUntil(event.regulation, new Date()).getTime()
+    ));
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.evidence.update({
+        where: { id: evidenceId },
+        data: { complianceTxIds: { push: event.txId }, retainUntil },
+        include: EVIDENCE_INCLUDE
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'RECORD_COMPLIANCE_EVIDENCE',
+          entityType: 'EVIDENCE',
+          entityId: evidenceId,
+          userId: actor.userId,
+          details: { ...event, sha256: evidence.sha256 }
+        }
+      })
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * Deletes an evidence record once its retention has passed. The stored
+   * file goes too unless another record, in any organization, shares it.
+   */
+  async remove(evidenceId: string, actor: WorkflowActor): Promise<void> {
+    const evidence = await this.get(evidenceId);
+
+    if (evidence.retainUntil > new Date()) {
+      throw new HttpError(409, `Evidence is retained until ${evidence.retainUntil.toISOString()}`);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.evidence.delete({ where: { id: evidenceId } }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'DELETE_EVIDENCE',
+          entityType: 'EVIDENCE',
+          entityId: evidenceId,
+          userId: actor.userId,
+          details: { sha256: evidence.sha256, fileName: evidence.fileName, retainUntil: evidence.retainUntil.toISOString() }
+        }
+      })
+    ]);
+
+    const remaining = await runInOrganization(null, () =>
+      this.prisma.evidence.count({ where: { sha256: evidence.sha256 } })
+    );
+
+    if (remaining === 0) {
+      await this.store.remove(evidence.sha256);
+    }
+  }
+
+  retainUntil(framework: string | null, from: Date): Date {
+    const days = (framework && RETENTION_DAYS[framework.toUpperCase()]) || DEFAULT_RETENTION_DAYS;
+    return new Date(from.getTime() + days * DAY_MS);
+  }
+
+  private async recordIntegrity(records: Pick<Evidence, 'id' | 'sha256'>[], integrity: ContentStatus): Promise<void> {
+    await this.prisma.evidence.updateMany({
+      where: { id: { in: records.map(record => record.id) } },
+      data: { integrity, lastVerifiedAt: new Date() }
+    });
+
+    if (integrity !== 'VALID') {
+      logger.error(`Evidence ${records.map(record => record.id).join(', ')} failed verification: ${integrity}`);
+    }
+  }
+
+  private findControl(controlId: string): CatalogControl {
+    try {
+      return this.catalog.getControl(controlId);
+    } catch {
+      throw new HttpError(400, 'Unknown control');
+    }
+  }
+}
@@ -0,0 +1,264 @@
+import { LoginThrottle, PrismaClient } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient } from '../utils/tenancy';
+import { WorkflowActor } from './policyWorkflow';
+
+export type ThrottleScope = 'ACCOUNT' | 'IP';
+
+// Passwordless passkey logins do not name an account until verified
+export interface LoginAttempt {
+  email?: string;
+  ipAddress?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const MAX_DELAY_SECONDS = 60;
+const MAX_LOCKOUT_MS = 24 * 60 * MINUTE_MS;
+
+const setting = (name: string, fallback: number): number => Number(process.env[name]) || fallback;
+
+const policy = () => ({
+  windowMs: setting('LOGIN_FAILURE_WINDOW_MINUTES', 15) * MINUTE_MS,
+  lockoutMs: setting('LOGIN_LOCKOUT_MINUTES', 15) * MINUTE_MS,
+  thresholds: {
+    ACCOUNT: setting('LOGIN_LOCKOUT_THRESHOLD', 5),
+    IP: setting('LOGIN_IP_LOCKOUT_THRESHOLD', 50)
+  } as Record<ThrottleScope, number>,
+  stuffingAccounts: setting('LOGIN_STUFFING_ACCOUNT_THRESHOLD', 10)
+});
+
+/**
+ * Throttles logins, whatever the credential, per account and per IP
+ * address. Failures within the window first delay the next attempt (1s,
+ * doubling, from half the lockout threshold on) and then lock it out; every
+ * lockout lasts twice as long as the previous one. An IP address failing
+ * against many accounts is credential stuffing: it is locked at once and a
+ * security incident is opened for the organizations whose users were
+ * targeted.
+ *
+ * Accounts are keyed by the email tried, whether or not it exists, so
+ * responses do not reveal which accounts do.
+ */
+export class LoginProtection {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Seconds until the account and IP of `attempt` may try again; 0 when
+   * they may try now.
+   */
+  async retryAfter(attempt: LoginAttempt): Promise<number> {
+    const records = await this.prisma.loginThrottle.findMany({ where: { OR: this.keys(attempt) } });
+    const now = Date.now();
+
+    const blockedUntil = Math.max(now, ...records.map(record => this.blockedUntil(record, now)));
+    return Math.ceil((blockedUntil - now) / 1000);
+  }
+
+  async recordFailure(attempt: LoginAttempt): Promise<void> {
+    const now = new Date();
+    const { windowMs } = policy();
+
+    await this.prisma.loginThrottle.deleteMany({
+      where: {
+        lastFailureAt: { lt: new Date(now.getTime() - MAX_LOCKOUT_MS) },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }]
+      }
+    });
+
+    for (const { scope, key } of this.keys(attempt)) {
+      // Failures from before the window no longer count
+      await this.prisma.loginThrottle.updateMany({
+        where: { scope, key, lastFailureAt: { lt: new Date(now.getTime() - windowMs) } },
+        data: { failures: 0, accounts: [] }
+      });
+
+      const tried = scope === 'IP' && attempt.email ? [this.normalize(attempt.email)] : [];
+      const record = await this.prisma.loginThrottle.upsert({
+        where: { scope_key: { scope, key } },
+        create: { scope, key, failures: 1, accounts: tried, lastFailureAt: now },
+        update: { failures: { increment: 1 }, lastFailureAt: now, ...(tried.length > 0 && { accounts: { push: tried } }) }
+      });
+
+      await this.lockIfExceeded(record, now);
+    }
+  }
+
+  /**
+   * A completed login clears the account's failures. Its IP address keeps
+   * them: credential stuffing succeeds now and then.
+   */
+  async recordSuccess(attempt: LoginAttempt & { email: string }): Promise<void> {
+    await this.prisma.loginThrottle.deleteMany({ where: { scope: 'ACCOUNT', key: this.normalize(attempt.email) } });
+  }
+
+  /**
+   * Accounts and IP addresses currently locked out or delayed. Accounts are
+   * limited to users of the current organization. IP addresses are shared
+   * by all organizations, so only platform admins see them: anyone can
+   * register and administer an organization of their own.
+   */
+  async list(filter: { scope?: ThrottleScope } = {}, platformAdmin = false) {
+    const now = Date.now();
+    const records = await this.prisma.loginThrottle.findMany({
+      where: { ...(filter.scope && { scope: filter.scope }), lastFailureAt: { gt: new Date(now - MAX_LOCKOUT_MS) } },
+      orderBy: { lastFailureAt: 'desc' }
+    });
+
+    const visible = await this.visibleAccounts(records);
+
+    return records
+      .filter(record => this.blockedUntil(record, now) > now)
+      .filter(record => (record.scope === 'IP' ? platformAdmin : visible.has(record.key)))
+      .map(record => ({
+        id: record.id,
+        scope: record.scope,
+        key: record.key,
+        failures: record.failures,
+        accountsTried: record.scope === 'IP' ? new Set(record.accounts).size : undefined,
+        lastFailureAt: record.lastFailureAt,
+        lockedUntil: record.lockedUntil && record.lockedUntil.getTime() > now ? record.lockedUntil : null,
+        retryAt: new Date(this.blockedUntil(record, now)),
+        lockouts: record.lockouts
+      }));
+  }
+
+  async clear(id: string, actor: WorkflowActor, platformAdmin = false): Promise<void> {
+    const record = await this.prisma.loginThrottle.findUnique({ where: { id } });
+
+    if (!record || !(await this.canManage(record, platformAdmin))) {
+      throw new HttpError(404, 'Lockout not found');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.loginThrottle.delete({ where: { id } }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'CLEAR_LOGIN_LOCKOUT',
+          entityType: 'LOGIN_THROTTLE',
+          entityId: id,
+          userId: actor.userId,
+          details: { scope: record.scope, key: record.key, failures: record.failures, lockouts: record.lockouts }
+        }
+      })
+    ]);
+
+    logger.info(`Login lockout of ${record.scope} ${record.key} cleared by ${actor.userId}`);
+  }
+
+  private keys(attempt: LoginAttempt): { scope: ThrottleScope; key: string }[] {
+    return [
+      ...(attempt.email ? [{ scope: 'ACCOUNT' as const, key: this.normalize(attempt.email) }] : []),
+      ...(attempt.ipAddress ? [{ scope: 'IP' as const, key: attempt.ipAddress }] : [])
+    ];
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private blockedUntil(record: LoginThrottle, now: number): number {
+    const { windowMs, thresholds } = policy();
+
+    if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+      return record.lockedUntil.getTime();
+    }
+
+    const delayFrom = Math.max(1, Math.floor(thresholds[record.scope as ThrottleScope] / 2));
+    if (record.failures < delayFrom || record.lastFailureAt.getTime() < now - windowMs) {
+      return now;
+    }
+
+    const delaySeconds = Math.min(2 ** (record.failures - delayFrom), MAX_DELAY_SECONDS);
+    return record.lastFailureAt.getTime() + delaySeconds * 1000;
+  }
+
+  private async lockIfExceeded(record: LoginThrottle, now: Date): Promise<void> {
+    const { lockoutMs, thresholds, stuffingAccounts } = policy();
+    const accounts = [...new Set(record.accounts)];
+    const stuffing = record.scope === 'IP' && accounts.length >= stuffingAccounts;
+
+    if (record.failures < thresholds[record.scope as ThrottleScope] && !stuffing) {
+      return;
+    }
+
+    const lockedUntil = new Date(now.getTime() + Math.min(lockoutMs * 2 ** record.lockouts, MAX_LOCKOUT_MS));
+
+    // Conditional on the count just written, so only one of concurrent failures locks
+    const { count } = await this.prisma.loginThrottle.updateMany({
+      where: { id: record.id, failures: record.failures },
+      data: { lockedUntil, lockouts: { increment: 1 }, failures: 0, accounts: [] }
+    });
+    if (count === 0) {
+      return;
+    }
+
+    logger.warn(`Login locked for ${record.scope} ${record.key} until ${lockedUntil.toISOString()}`);
+
+    if (stuffing) {
+      await this.openStuffingIncidents(record.key, accounts);
+    }
+  }
+
+  // One incident per organization with targeted users, so each sees its own
+  private async openStuffingIncidents(ipAddress: string, accounts: string[]): Promise<void> {
+    const users = await this.prisma.user.findMany({
+      where: { email: { in: accounts, mode: 'insensitive' } },
+      select: { id: true, email: true, memberships: { select: { organizationId: true } } }
+    });
+
+    const targeted = new Map<string | null, string[]>();
+    for (const user of users) {
+      for (const { organizationId } of user.memberships) {
+        targeted.set(organizationId, [...(targeted.get(organizationId) ?? []), user.email]);
+      }
+    }
+    if (targeted.size === 0) {
+      targeted.set(null, []);
+    }
+
+    const { windowMs } = policy();
+    for (const [organizationId, emails] of targeted) {
+      await this.prisma.securityIncident.create({
+        data: {
+          incidentType: 'CREDENTIAL_STUFFING',
+          severity: 'HIGH',
+          status: 'OPEN',
+          description: `Failed logins for ${accounts.length} accounts from ${ipAddress} within ${windowMs / MINUTE_MS} minutes`,
+          indicators: [`ip:${ipAddress}`, `accounts_tried:${accounts.length}`, ...emails.map(email => `targeted:${email}`)],
+          recommendations: [
+            'Block the source IP address at the network edge',
+            'Reset passwords of targeted accounts that logged in from it',
+            'Require multi-factor authentication for targeted accounts'
+          ],
+          confidence: 0.9,
+          organizationId
+        }
+      });
+    }
+
+    logger.warn(`Credential stuffing from ${ipAddress}: ${accounts.length} accounts tried; IP locked`);
+  }
+
+  private async canManage(record: LoginThrottle, platformAdmin: boolean): Promise<boolean> {
+    return record.scope === 'IP' ? platformAdmin : (await this.visibleAccounts([record])).has(record.key);
+  }
+
+  private async visibleAccounts(records: LoginThrottle[]): Promise<Set<string>> {
+    const emails = records.filter(record => record.scope === 'ACCOUNT').map(record => record.key);
+    if (emails.length === 0) {
+      return new Set();
+    }
+
+    // Tenant-scoped: only members of the current organization are found
+    const users = await this.prisma.user.findMany({
+      where: { email: { in: emails, mode: 'insensitive' } },
+      select: { email: true }
+    });
+    return new Set(users.map(user => this.normalize(user.email)));
+  }
+}
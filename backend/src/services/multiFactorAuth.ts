@@ -0,0 +1,350 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient, requireOrganizationId, runInOrganization } from '../utils/tenancy';
+import { generateTotpSecret, otpauthUri, verifyTotp } from '../utils/totp';
+import { LoginProtection } from './loginProtection';
+import { WorkflowActor } from './policyWorkflow';
+
+export interface MfaProof {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export type MfaMethod = 'totp' | 'recovery_code';
+
+const RECOVERY_CODE_COUNT = 10;
+
+const hashCode = (code: string): string =>
+  createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+// Secrets are stored AES-256-GCM encrypted as iv.tag.ciphertext
+const encryptionKey = (): Buffer =>
+  createHash('sha256')
+    .update(process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || 'fallback-secret')
+    .digest();
+
+const seal = (secret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+};
+
+const unseal = (sealed: string): string => {
+  const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Roles that may only use the API after MFA (MFA_REQUIRED_ROLES,
+ * comma-separated; none unless configured).
+ */
+export function roleRequiresMfa(role: string): boolean {
+  return (process.env.MFA_REQUIRED_ROLES || '')
+    .split(',')
+    .map(entry => entry.trim().toUpperCase())
+    .filter(Boolean)
+    .includes(role.toUpperCase());
+}
+
+/**
+ * TOTP second factor with single-use recovery codes. Login of an enrolled
+ * user is split in two: the password yields a short-lived challenge token,
+ * and the session is only issued once a code for it is verified.
+ *
+ * Every code check counts against the login throttle of the user's account
+ * and the caller's IP address, so six-digit codes cannot be brute-forced
+ * from a session any more than at login.
+ */
+export class MultiFactorAuth {
+  private prisma: PrismaClient;
+  private loginProtection: LoginProtection;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.loginProtection = new LoginProtection();
+  }
+
+  async status(userId: string) {
+    const user = await this.load(userId);
+
+    return {
+      enabled: user.mfaEnabled,
+      enabledAt: user.mfaEnabledAt,
+      pendingEnrollment: !user.mfaEnabled && user.mfaSecret !== null,
+      recoveryCodesRemaining: user.mfaEnabled ? user.mfaRecoveryCodes.length : 0
+    };
+  }
+
+  /**
+   * Starts (or restarts) enrollment with a new secret. MFA is only enabled
+   * once a code generated from it is confirmed.
+   */
+  async beginEnrollment(userId: string) {
+    const user = await this.load(userId);
+
+    if (user.mfaEnabled) {
+      throw new HttpError(409, 'Multi-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({ where: { id: userId }, data: { mfaSecret: seal(secret), mfaLastUsedStep: null } });
+
+    return { secret, otpauthUri: otpauthUri(secret, user.email, process.env.MFA_ISSUER || 'Policy Admin') };
+  }
+
+  /**
+   * Enables MFA with the first valid code and returns the recovery codes,
+   * which are only ever shown here.
+   */
+  async confirmEnrollment(userId: string, code: string, actor: WorkflowActor, ipAddress?: string): Promise<string[]> {
+    const user = await this.load(userId);
+
+    if (user.mfaEnabled) {
+      throw new HttpError(409, 'Multi-factor authentication is already enabled');
+    }
+    const secret = user.mfaSecret;
+    if (!secret) {
+      throw new HttpError(409, 'Start enrollment first');
+    }
+
+    const step = await this.throttled(user.email, ipAddress, async () => {
+      const matched = verifyTotp(unseal(secret), code);
+      if (matched === null) {
+        throw new HttpError(401, 'Invalid authentication code');
+      }
+      return matched;
+    });
+
+    const recoveryCodes = this.newRecoveryCodes();
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          mfaEnabled: true,
+          mfaEnabledAt: new Date(),
+          mfaLastUsedStep: step,
+          mfaRecoveryCodes: recoveryCodes.map(hashCode)
+        }
+      }),
+      this.audit('ENABLE_MFA', userId, actor.userId, { method: 'totp' })
+    ]);
+
+    logger.info(`MFA enabled for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Checks a TOTP code or consumes a recovery code. Codes are single-use:
+   * a TOTP code cannot be replayed within its validity window.
+   */
+  async verify(userId: string, proof: MfaProof, ipAddress?: string): Promise<MfaMethod> {
+    const user = await this.load(userId);
+
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      throw new HttpError(409, 'Multi-factor authentication is not enabled', { mfaEnrolled: false });
+    }
+
+    if (!proof.code && !proof.recoveryCode) {
+      throw new HttpError(400, 'An authentication code or recovery code is required');
+    }
+
+    return this.throttled(user.email, ipAddress, () => this.check(user, proof));
+  }
+
+  /**
+   * Replaces all recovery codes; needs a current TOTP code.
+   */
+  async regenerateRecoveryCodes(userId: string, code: string, actor: WorkflowActor, ipAddress?: string): Promise<string[]> {
+    await this.verify(userId, { code }, ipAddress);
+
+    const recoveryCodes = this.newRecoveryCodes();
+    await this.prisma.$transaction([
+      this.prisma.user.update({ where: { id: userId }, data: { mfaRecoveryCodes: recoveryCodes.map(hashCode) } }),
+      this.audit('REGENERATE_MFA_RECOVERY_CODES', userId, actor.userId, { count: recoveryCodes.length })
+    ]);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turns MFA off for the user themselves, proven with a code. Users whose
+   * role requires MFA cannot turn it off.
+   */
+  async disable(userId: string, proof: MfaProof, role: string, actor: WorkflowActor, ipAddress?: string): Promise<void> {
+    if (roleRequiresMfa(role)) {
+      throw new HttpError(409, 'Your role requires multi-factor authentication');
+    }
+
+    await this.verify(userId, proof, ipAddress);
+    await this.clear(userId, 'DISABLE_MFA', actor);
+  }
+
+  /**
+   * Clears another user's second factors, TOTP and passkeys, e.g. after
+   * they lost both device and recovery codes. They have to enroll again.
+   * Organization admins can only reset members who belong to no other
+   * organization; anyone else's account is left to a platform admin.
+   */
+  async reset(userId: string, actor: WorkflowActor, platformAdmin = false): Promise<void> {
+    if (userId === actor.userId) {
+      throw new HttpError(400, 'Use your own recovery codes to regain access');
+    }
+
+    const organizationId = requireOrganizationId();
+    const memberships = await this.prisma.organizationMember.findMany({ where: { userId }, select: { organizationId: true } });
+
+    if (!platformAdmin) {
+      if (!memberships.some(membership => membership.organizationId === organizationId)) {
+        throw new HttpError(404, 'User not found');
+      }
+      if (memberships.length > 1) {
+        throw new HttpError(409, 'User belongs to other organizations; a platform admin must reset their second factors');
+      }
+    }
+
+    // Platform admins reset accounts outside their own organization
+    await runInOrganization(platformAdmin ? null : organizationId, async () => {
+      await this.load(userId);
+      const { count } = await this.prisma.webAuthnCredential.deleteMany({ where: { userId } });
+      await this.clear(userId, 'RESET_MFA', actor, { passkeysRemoved: count });
+    });
+  }
+
+  /**
+   * Short-lived token proving the password step of a login, exchanged for
+   * a session once the second factor is verified.
+   */
+  challengeToken(userId: string, organizationId: string): string {
+    return jwt.sign(
+      { userId, organizationId, purpose: 'mfa' },
+      process.env.JWT_SECRET || 'fallback-secret',
+      { expiresIn: '5m' }
+    );
+  }
+
+  readChallengeToken(token: string): { userId: string; organizationId: string } {
+    try {
+      const claims = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
+      if (claims.purpose === 'mfa') {
+        return { userId: claims.userId, organizationId: claims.organizationId };
+      }
+    } catch {
+      // Expired and malformed challenges are reported alike
+    }
+
+    throw new HttpError(401, 'MFA challenge is invalid or has expired');
+  }
+
+  // A failed check (401) is counted like a failed login; while the account or
+  // IP address is locked out, codes are not checked at all
+  private async throttled<T>(email: string, ipAddress: string | undefined, check: () => Promise<T>): Promise<T> {
+    const attempt = { email, ipAddress };
+    const retryAfter = await this.loginProtection.retryAfter(attempt);
+
+    if (retryAfter > 0) {
+      throw new HttpError(429, 'Too many failed attempts. Try again later.', { retryAfter });
+    }
+
+    try {
+      return await check();
+    } catch (error) {
+      if (error instanceof HttpError && error.statusCode === 401) {
+        await this.loginProtection.recordFailure(attempt);
+      }
+      throw error;
+    }
+  }
+
+  private async check(user: Awaited<ReturnType<MultiFactorAuth['load']>>, proof: MfaProof): Promise<MfaMethod> {
+    if (proof.code) {
+      const step = verifyTotp(unseal(user.mfaSecret!), proof.code);
+
+      if (step === null || (user.mfaLastUsedStep !== null && step <= user.mfaLastUsedStep)) {
+        throw new HttpError(401, 'Invalid authentication code');
+      }
+
+      // Conditional on the last step so two concurrent uses cannot both pass
+      const { count } = await this.prisma.user.updateMany({
+        where: { id: user.id, OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }] },
+        data: { mfaLastUsedStep: step }
+      });
+      if (count === 0) {
+        throw new HttpError(401, 'Invalid authentication code');
+      }
+
+      return 'totp';
+    }
+
+    const hash = hashCode(proof.recoveryCode!);
+
+    if (!user.mfaRecoveryCodes.includes(hash)) {
+      throw new HttpError(401, 'Invalid recovery code');
+    }
+
+    // Conditional on the codes read, so a code cannot be spent twice and a
+    // concurrent use of another code is not undone
+    const remaining = user.mfaRecoveryCodes.filter(candidate => candidate !== hash);
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: user.id, mfaRecoveryCodes: { has: hash, equals: user.mfaRecoveryCodes } },
+      data: { mfaRecoveryCodes: remaining }
+    });
+    if (count === 0) {
+      throw new HttpError(401, 'Invalid recovery code');
+    }
+
+    await this.audit('USE_MFA_RECOVERY_CODE', user.id, user.id, { remaining: remaining.length });
+    return 'recovery_code';
+  }
+
+  private async clear(userId: string, action: string, actor: WorkflowActor, details: Record<string, any> = {}): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { mfaEnabled: false, mfaSecret: null, mfaEnabledAt: null, mfaLastUsedStep: null, mfaRecoveryCodes: [] }
+      }),
+      this.audit(action, userId, actor.userId, details)
+    ]);
+
+    logger.info(`MFA turned off for user ${userId} (${action}) by ${actor.userId}`);
+  }
+
+  private async load(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        mfaEnabled: true,
+        mfaSecret: true,
+        mfaEnabledAt: true,
+        mfaLastUsedStep: true,
+        mfaRecoveryCodes: true
+      }
+    });
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    return user;
+  }
+
+  private newRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private audit(action: string, userId: string, actorId: string, details: Record<string, any>) {
+    return this.prisma.auditLog.create({
+      data: { action, entityType: 'USER', entityId: userId, userId: actorId, details }
+    });
+  }
+}
@@ -0,0 +1,373 @@
+import { PrismaClient, UserRole } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient, runInOrganization } from '../utils/tenancy';
+import { WorkflowActor } from './policyWorkflow';
+
+export interface OrganizationMembership {
+  id: string;
+  name: string;
+  slug: string;
+  role: UserRole;
+}
+
+const MEMBER_USER_SELECT = { id: true, email: true, firstName: true, lastName: true, isActive: true };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INVITATION_TTL_DAYS = 14;
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Organizations are the tenant boundary. A user can belong to several, with
+ * a role in each; the JWT carries one organization and the role held there.
+ */
+export class Organizations {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  async membershipsFor(userId: string): Promise<OrganizationMembership[]> {
+    const memberships = await this.prisma.organizationMember.findMany({
+      where: { userId, organization: { isActive: true } },
+      include: { organization: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return memberships.map(membership => ({
+      id: membership.organization.id,
+      name: membership.organization.name,
+      slug: membership.organization.slug,
+      role: membership.role
+    }));
+  }
+
+  /**
+   * The organization a token is issued for: the requested one, or the
+   * user's oldest membership.
+   */
+  async resolveMembership(userId: string, organizationId?: string): Promise<OrganizationMembership> {
+    const memberships = await this.membershipsFor(userId);
+
+    if (memberships.length === 0) {
+      throw new HttpError(403, 'User is not a member of any organization');
+    }
+
+    if (!organizationId) {
+      return memberships[0];
+    }
+
+    const membership = memberships.find(candidate => candidate.id === organizationId);
+    if (!membership) {
+      throw new HttpError(403, 'Not a member of this organization');
+    }
+    return membership;
+  }
+
+  async ensureNameAvailable(name: string): Promise<string> {
+    const slug = slugify(name);
+
+    if (!slug) {
+      throw new HttpError(400, 'Organization name must contain letters or digits');
+    }
+
+    const existing = await this.prisma.organization.findUnique({ where: { slug } });
+    if (existing) {
+      throw new HttpError(409, 'An organization with this name already exists');
+    }
+
+    return slug;
+  }
+
+  /**
+   * Creates an organization with `creatorId` as its first ADMIN.
+   */
+  async create(name: string, creatorId: string): Promise<OrganizationMembership> {
+    const slug = await this.ensureNameAvailable(name);
+
+    const organization = await this.prisma.$transaction(async tx => {
+      const created = await tx.organization.create({
+        data: {
+          name,
+          slug,
+          members: { create: { userId: creatorId, role: 'ADMIN' } }
+        }
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'CREATE_ORGANIZATION',
+          entityType: 'ORGANIZATION',
+          entityId: created.id,
+          userId: creatorId,
+          organizationId: created.id,
+          details: { name, slug }
+        }
+      });
+
+      return created;
+    });
+
+    logger.info(`Organization ${slug} created by ${creatorId}`);
+    return { id: organization.id, name: organization.name, slug: organization.slug, role: 'ADMIN' };
+  }
+
+  async listMembers(organizationId: string) {
+    return this.prisma.organizationMember.findMany({
+      where: { organizationId },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Invites a user, by email, to the organization. Nobody becomes a member
+   * without accepting: the invitation only grants the role once its user
+   * accepts it. Inviting the same email again renews the invitation.
+   */
+  async invite(organizationId: string, email: string, role: UserRole, actor: WorkflowActor) {
+    const normalized = email.trim().toLowerCase();
+
+    // The invitee is not yet a member, so the lookup must not be tenant-scoped
+    const existing = await runInOrganization(null, () =>
+      this.prisma.organizationMember.findFirst({
+        where: { organizationId, user: { email: { equals: normalized, mode: 'insensitive' } } },
+        select: { id: true }
+      })
+    );
+    if (existing) {
+      throw new HttpError(409, 'User is already a member of this organization');
+    }
+
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * DAY_MS);
+    const [invitation] = await this.prisma.$transaction([
+      this.prisma.organizationInvitation.upsert({
+        where: { organizationId_email: { organizationId, email: normalized } },
+        create: { organizationId, email: normalized, role, invitedById: actor.userId, expiresAt },
+        update: { role, invitedById: actor.userId, expiresAt }
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'INVITE_ORGANIZATION_MEMBER',
+          entityType: 'ORGANIZATION',
+          entityId: organizationId,
+          userId: actor.userId,
+          details: { email: normalized, role, expiresAt: expiresAt.toISOString() }
+        }
+      })
+    ]);
+
+    return invitation;
+  }
+
+  // Invitations are not tenant-scoped (invitees read them from another
+  // organization), so every query here names the organization or the invitee
+  async listInvitations(organizationId: string) {
+    return this.prisma.organizationInvitation.findMany({
+      where: { organizationId, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  async revokeInvitation(organizationId: string, invitationId: string, actor: WorkflowActor): Promise<void> {
+    const invitation = await this.prisma.organizationInvitation.findFirst({ where: { id: invitationId, organizationId } });
+
+    if (!invitation) {
+      throw new HttpError(404, 'Invitation not found');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.organizationInvitation.delete({ where: { id: invitation.id } }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'REVOKE_ORGANIZATION_INVITATION',
+          entityType: 'ORGANIZATION',
+          entityId: organizationId,
+          userId: actor.userId,
+          details: { email: invitation.email, role: invitation.role }
+        }
+      })
+    ]);
+  }
+
+  /**
+   * Pending invitations addressed to the user's email.
+   */
+  async invitationsFor(userId: string) {
+    const email = await this.emailOf(userId);
+
+    return this.prisma.organizationInvitation.findMany({
+      where: { email, expiresAt: { gt: new Date() }, organization: { isActive: true } },
+      include: { organization: { select: { id: true, name: true, slug: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Joins the organization with the invited role. Only the user the
+   * invitation is addressed to can accept it.
+   */
+  async acceptInvitation(invitationId: string, userId: string): Promise<OrganizationMembership> {
+    const invitation = await this.loadInvitation(invitationId, userId);
+
+    const member = await this.prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId: invitation.organizationId, userId } }
+    });
+
+    await this.prisma.$transaction([
+      ...(member
+        ? []
+        : [this.prisma.organizationMember.create({
+            data: { organizationId: invitation.organizationId, userId, role: invitation.role }
+          })]),
+      this.prisma.organizationInvitation.delete({ where: { id: invitation.id } }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'ADD_ORGANIZATION_MEMBER',
+          entityType: 'ORGANIZATION',
+          entityId: invitation.organizationId,
+          userId,
+          organizationId: invitation.organizationId,
+          details: { memberId: userId, role: member?.role ?? invitation.role, invitedById: invitation.invitedById }
+        }
+      })
+    ]);
+
+    logger.info(`User ${userId} joined organization ${invitation.organizationId}`);
+    return {
+      id: invitation.organization.id,
+      name: invitation.organization.name,
+      slug: invitation.organization.slug,
+      role: member?.role ?? invitation.role
+    };
+  }
+
+  async declineInvitation(invitationId: string, userId: string): Promise<void> {
+    const invitation = await this.loadInvitation(invitationId, userId);
+
+    await this.prisma.$transaction([
+      this.prisma.organizationInvitation.delete({ where: { id: invitation.id } }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'DECLINE_ORGANIZATION_INVITATION',
+          entityType: 'ORGANIZATION',
+          entityId: invitation.organizationId,
+          userId,
+          organizationId: invitation.organizationId,
+          details: { email: invitation.email, role: invitation.role }
+        }
+      })
+    ]);
+  }
+
+  async updateMemberRole(organizationId: string, userId: string, role: UserRole, actor: WorkflowActor) {
+    const member = await this.loadMember(organizationId, userId);
+
+    if (member.role === 'ADMIN' && role !== 'ADMIN') {
+      await this.assertAnotherAdmin(organizationId);
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.organizationMember.update({
+        where: { id: member.id },
+        data: { role },
+        include: { user: { select: MEMBER_USER_SELECT } }
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'UPDATE_ORGANIZATION_MEMBER',
+          entityType: 'ORGANIZATION',
+          entityId: organizationId,
+          userId: actor.userId,
+          details: { memberId: userId, from: member.role, to: role }
+        }
+      }),
+      this.revokeSessions(organizationId, userId)
+    ]);
+
+    return updated;
+  }
+
+  async removeMember(organizationId: string, userId: string, actor: WorkflowActor): Promise<void> {
+    const member = await this.loadMember(organizationId, userId);
+
+    if (member.role === 'ADMIN') {
+      await this.assertAnotherAdmin(organizationId);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.organizationMember.delete({ where: { id: member.id } }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'REMOVE_ORGANIZATION_MEMBER',
+          entityType: 'ORGANIZATION',
+          entityId: organizationId,
+          userId: actor.userId,
+          details: { memberId: userId, role: member.role }
+        }
+      }),
+      this.revokeSessions(organizationId, userId)
+    ]);
+  }
+
+  // Sessions carry the role and organization they were issued for, so a
+  // member whose role changes or who leaves signs in again
+  private revokeSessions(organizationId: string, userId: string) {
+    return this.prisma.refreshToken.updateMany({
+      where: { userId, organizationId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+
+  private async emailOf(userId: string): Promise<string> {
+    const user = await runInOrganization(null, () =>
+      this.prisma.user.findUnique({ where: { id: userId }, select: { email: true } })
+    );
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    return user.email.toLowerCase();
+  }
+
+  // Invitations for someone else are reported as missing, not forbidden
+  private async loadInvitation(invitationId: string, userId: string) {
+    const email = await this.emailOf(userId);
+    const invitation = await this.prisma.organizationInvitation.findFirst({
+      where: { id: invitationId, email, expiresAt: { gt: new Date() }, organization: { isActive: true } },
+      include: { organization: { select: { id: true, name: true, slug: true } } }
+    });
+
+    if (!invitation) {
+      throw new HttpError(404, 'Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  private async loadMember(organizationId: string, userId: string) {
+    const member = await this.prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } }
+    });
+
+    if (!member) {
+      throw new HttpError(404, 'Member not found');
+    }
+
+    return member;
+  }
+
+  // An organization must always keep at least one ADMIN
+  private async assertAnotherAdmin(organizationId: string): Promise<void> {
+    const admins = await this.prisma.organizationMember.count({ where: { organizationId, role: 'ADMIN' } });
+
+    if (admins <= 1) {
+      throw new HttpError(409, 'An organization must keep at least one admin');
+    }
+  }
+}
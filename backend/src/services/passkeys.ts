@@ -0,0 +1,381 @@
+import { createHash, randomBytes, X509Certificate } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { decodeCbor } from '../utils/cbor';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient } from '../utils/tenancy';
+import {
+  AuthenticatorData,
+  COSE_ALGORITHMS,
+  coseToPublicKey,
+  parseAuthenticatorData,
+  verifySignature
+} from '../utils/webauthn';
+import { WorkflowActor } from './policyWorkflow';
+
+/**
+ * `PublicKeyCredential` of a registration, with binary fields base64url
+ * encoded by the browser.
+ */
+export interface RegistrationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * `PublicKeyCredential` of an authentication, base64url encoded likewise.
+ */
+export interface AuthenticationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+type ChallengePurpose = 'registration' | 'authentication';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+const CREDENTIAL_SELECT = {
+  id: true,
+  credentialId: true,
+  name: true,
+  transports: true,
+  backedUp: true,
+  lastUsedAt: true,
+  createdAt: true
+};
+
+const sha256 = (data: Buffer | string): Buffer => createHash('sha256').update(data).digest();
+
+const relyingParty = () => ({
+  id: process.env.WEBAUTHN_RP_ID || 'localhost',
+  name: process.env.WEBAUTHN_RP_NAME || process.env.MFA_ISSUER || 'Policy Admin'
+});
+
+// Origins the browser may report in client data: the frontend's by default
+const allowedOrigins = (): string[] =>
+  (process.env.WEBAUTHN_ORIGINS || process.env.FRONTEND_URL || 'http://localhost:3000')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+
+/**
+ * WebAuthn passkeys, usable for passwordless login or as a second factor.
+ * Each ceremony answers a stored single-use challenge; credentials keep
+ * their signature counter so a cloned authenticator is noticed.
+ *
+ * Attestation is not requested, so authenticators are not checked against
+ * a list of trusted models; `packed` attestation signatures are verified
+ * when an authenticator sends them anyway.
+ */
+export class Passkeys {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  async list(userId: string) {
+    return this.prisma.webAuthnCredential.findMany({
+      where: { userId },
+      select: CREDENTIAL_SELECT,
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async hasPasskeys(userId: string): Promise<boolean> {
+    return (await this.prisma.webAuthnCredential.count({ where: { userId } })) > 0;
+  }
+
+  /**
+   * Options for `navigator.credentials.create()`. The user's existing
+   * passkeys are excluded so an authenticator is not registered twice.
+   */
+  async registrationOptions(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, firstName: true, lastName: true, passkeys: { select: { credentialId: true, transports: true } } }
+    });
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    return {
+      challenge: await this.createChallenge('registration', userId),
+      rp: relyingParty(),
+      user: {
+        id: Buffer.from(user.id).toString('base64url'),
+        name: user.email,
+        displayName: `${user.firstName} ${user.lastName}`
+      },
+      pubKeyCredParams: Object.values(COSE_ALGORITHMS).map(alg => ({ type: 'public-key', alg })),
+      timeout: CHALLENGE_TTL_MS,
+      attestation: 'none',
+      authenticatorSelection: { residentKey: 'required', userVerification: 'preferred' },
+      excludeCredentials: user.passkeys.map(passkey => ({
+        type: 'public-key',
+        id: passkey.credentialId,
+        transports: passkey.transports
+      }))
+    };
+  }
+
+  async verifyRegistration(userId: string, credential: RegistrationCredential, name: string | undefined, actor: WorkflowActor) {
+    const clientData = this.readClientData(credential.response.clientDataJSON, 'webauthn.create');
+    await this.consumeChallenge(clientData.challenge, 'registration', userId);
+
+    let attestation: Map<unknown, unknown>;
+    let authData: AuthenticatorData;
+    try {
+      attestation = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url')) as Map<unknown, unknown>;
+      authData = parseAuthenticatorData(attestation.get('authData') as Buffer);
+    } catch {
+      throw new HttpError(400, 'Malformed passkey response');
+    }
+
+    this.checkAuthenticatorData(authData, false);
+
+    const attested = authData.attestedCredential;
+    if (!attested || attested.credentialId.toString('base64url') !== credential.rawId) {
+      throw new HttpError(400, 'Malformed passkey response');
+    }
+
+    let publicKey: ReturnType<typeof coseToPublicKey>;
+    try {
+      publicKey = coseToPublicKey(attested.publicKey);
+    } catch {
+      throw new HttpError(400, 'Unsupported passkey algorithm');
+    }
+
+    this.checkAttestation(
+      attestation,
+      Buffer.concat([attestation.get('authData') as Buffer, sha256(Buffer.from(credential.response.clientDataJSON, 'base64url'))]),
+      publicKey
+    );
+
+    const existing = await this.prisma.webAuthnCredential.findUnique({ where: { credentialId: credential.rawId } });
+    if (existing) {
+      throw new HttpError(409, 'This passkey is already registered');
+    }
+
+    const [created] = await this.prisma.$transaction([
+      this.prisma.webAuthnCredential.create({
+        data: {
+          userId,
+          credentialId: credential.rawId,
+          publicKey: attested.publicKey.toString('base64url'),
+          signCount: authData.signCount,
+          transports: credential.response.transports ?? [],
+          aaguid: attested.aaguid,
+          backedUp: authData.backedUp,
+          name
+        },
+        select: CREDENTIAL_SELECT
+      }),
+      this.audit('REGISTER_PASSKEY', userId, actor.userId, { credentialId: credential.rawId, name })
+    ]);
+
+    logger.info(`Passkey registered for user ${userId}`);
+    return created;
+  }
+
+  /**
+   * Options for `navigator.credentials.get()`. Without a user this is a
+   * passwordless login: the authenticator offers its discoverable passkeys
+   * and must verify the user itself (PIN or biometrics). With one it is a
+   * second factor or step-up for that user.
+   */
+  async authenticationOptions(userId: string | null = null) {
+    const allowCredentials = userId
+      ? (await this.list(userId)).map(passkey => ({ type: 'public-key', id: passkey.credentialId, transports: passkey.transports }))
+      : [];
+
+    if (userId && allowCredentials.length === 0) {
+      throw new HttpError(409, 'No passkey is registered', { passkeysRegistered: false });
+    }
+
+    return {
+      challenge: await this.createChallenge('authentication', userId),
+      rpId: relyingParty().id,
+      timeout: CHALLENGE_TTL_MS,
+      userVerification: userId ? 'preferred' : 'required',
+      allowCredentials
+    };
+  }
+
+  /**
+   * Verifies an assertion against a challenge from `authenticationOptions`
+   * for the same `userId` (null for passwordless login) and returns whose
+   * passkey it was.
+   */
+  async verifyAuthentication(credential: AuthenticationCredential, userId: string | null = null) {
+    const clientData = this.readClientData(credential.response.clientDataJSON, 'webauthn.get');
+    await this.consumeChallenge(clientData.challenge, 'authentication', userId);
+
+    const stored = await this.prisma.webAuthnCredential.findUnique({ where: { credentialId: credential.rawId } });
+    if (!stored || (userId && stored.userId !== userId)) {
+      throw new HttpError(401, 'Unknown passkey');
+    }
+
+    const { userHandle } = credential.response;
+    if (userHandle && Buffer.from(userHandle, 'base64url').toString() !== stored.userId) {
+      throw new HttpError(401, 'Passkey verification failed');
+    }
+
+    const authenticatorData = Buffer.from(credential.response.authenticatorData, 'base64url');
+    let authData: AuthenticatorData;
+    try {
+      authData = parseAuthenticatorData(authenticatorData);
+    } catch {
+      throw new HttpError(400, 'Malformed passkey response');
+    }
+
+    // Passwordless login has no other factor, so the authenticator must verify the user
+    this.checkAuthenticatorData(authData, userId === null);
+
+    const { algorithm, key } = coseToPublicKey(Buffer.from(stored.publicKey, 'base64url'));
+    const signed = Buffer.concat([authenticatorData, sha256(Buffer.from(credential.response.clientDataJSON, 'base64url'))]);
+    if (!verifySignature(algorithm, key, signed, Buffer.from(credential.response.signature, 'base64url'))) {
+      throw new HttpError(401, 'Passkey verification failed');
+    }
+
+    // Authenticators without a counter always report 0
+    if ((authData.signCount > 0 || stored.signCount > 0) && authData.signCount <= stored.signCount) {
+      await this.audit('PASSKEY_CLONE_DETECTED', stored.userId, stored.userId, {
+        credentialId: stored.credentialId,
+        storedSignCount: stored.signCount,
+        presentedSignCount: authData.signCount
+      });
+      logger.warn(`Passkey ${stored.credentialId} of user ${stored.userId} reported a stale signature counter`);
+      throw new HttpError(401, 'Passkey verification failed');
+    }
+
+    // Conditional on the counter read above so a concurrent use of the same assertion loses
+    const { count } = await this.prisma.webAuthnCredential.updateMany({
+      where: { id: stored.id, signCount: stored.signCount },
+      data: { signCount: authData.signCount, backedUp: authData.backedUp, lastUsedAt: new Date() }
+    });
+    if (count === 0) {
+      throw new HttpError(401, 'Passkey verification failed');
+    }
+
+    return { userId: stored.userId, credentialId: stored.credentialId, userVerified: authData.userVerified };
+  }
+
+  async remove(userId: string, id: string, actor: WorkflowActor): Promise<void> {
+    const passkey = await this.prisma.webAuthnCredential.findFirst({ where: { id, userId } });
+
+    if (!passkey) {
+      throw new HttpError(404, 'Passkey not found');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.webAuthnCredential.delete({ where: { id } }),
+      this.audit('REMOVE_PASSKEY', userId, actor.userId, { credentialId: passkey.credentialId, name: passkey.name })
+    ]);
+  }
+
+  private async createChallenge(purpose: ChallengePurpose, userId: string | null): Promise<string> {
+    const challenge = randomBytes(32).toString('base64url');
+
+    await this.prisma.$transaction([
+      this.prisma.webAuthnChallenge.deleteMany({ where: { expiresAt: { lt: new Date() } } }),
+      this.prisma.webAuthnChallenge.create({
+        data: { challenge, purpose, userId, expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS) }
+      })
+    ]);
+
+    return challenge;
+  }
+
+  // Challenges are single-use and bound to the ceremony and user they were issued for
+  private async consumeChallenge(challenge: string, purpose: ChallengePurpose, userId: string | null): Promise<void> {
+    const { count } = await this.prisma.webAuthnChallenge.deleteMany({
+      where: { challenge, purpose, userId, expiresAt: { gt: new Date() } }
+    });
+
+    if (count === 0) {
+      throw new HttpError(401, 'Passkey challenge is invalid or has expired');
+    }
+  }
+
+  private readClientData(encoded: string, type: string): { challenge: string } {
+    let clientData: any;
+    try {
+      clientData = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+      throw new HttpError(400, 'Malformed passkey response');
+    }
+
+    if (clientData?.type !== type || typeof clientData.challenge !== 'string') {
+      throw new HttpError(400, 'Malformed passkey response');
+    }
+    if (!allowedOrigins().includes(clientData.origin)) {
+      throw new HttpError(401, 'Passkey was created for another site');
+    }
+
+    return clientData;
+  }
+
+  private checkAuthenticatorData(authData: AuthenticatorData, requireUserVerification: boolean): void {
+    if (!authData.rpIdHash.equals(sha256(relyingParty().id))) {
+      throw new HttpError(401, 'Passkey was created for another site');
+    }
+    if (!authData.userPresent) {
+      throw new HttpError(401, 'Passkey verification failed');
+    }
+    if (requireUserVerification && !authData.userVerified) {
+      throw new HttpError(401, 'Passkey did not verify the user');
+    }
+  }
+
+  private checkAttestation(
+    attestation: Map<unknown, unknown>,
+    signed: Buffer,
+    credentialKey: ReturnType<typeof coseToPublicKey>
+  ): void {
+    const format = attestation.get('fmt');
+    const statement = attestation.get('attStmt');
+
+    if (format === 'none') {
+      return;
+    }
+
+    if (format === 'packed' && statement instanceof Map) {
+      const algorithm = statement.get('alg') as number;
+      const signature = statement.get('sig') as Buffer;
+      const certificates = statement.get('x5c');
+
+      // Full attestation is signed by the authenticator model's key, self attestation by the credential's own
+      const key = Array.isArray(certificates) && certificates.length > 0
+        ? new X509Certificate(certificates[0] as Buffer).publicKey
+        : algorithm === credentialKey.algorithm ? credentialKey.key : null;
+
+      if (key && Buffer.isBuffer(signature) && verifySignature(algorithm, key, signed, signature)) {
+        return;
+      }
+      throw new HttpError(401, 'Passkey attestation is invalid');
+    }
+
+    throw new HttpError(400, 'Unsupported passkey attestation format');
+  }
+
+  private audit(action: string, userId: string, actorId: string, details: Record<string, any>) {
+    return this.prisma.auditLog.create({
+      data: { action, entityType: 'USER', entityId: userId, userId: actorId, details }
+    });
+  }
+}
@@ -0,0 +1,253 @@
+import { Policy, PrismaClient, UserRole } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient, currentOrganizationId } from '../utils/tenancy';
+
+export interface AssignmentSelector {
+  userIds?: string[];
+  roles?: UserRole[];
+  organization?: string;
+}
+
+export interface CompletionReport {
+  policyId: string;
+  title: string;
+  version: number;
+  assigned: number;
+  acknowledged: number;
+  acknowledgedCurrentVersion: number;
+  pending: number;
+  completionRate: number; // percentage of assignees on the current version
+}
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true
+};
+
+export class PolicyAssignments {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Assigns a policy to explicit users and/or every active user matching a
+   * role or organization. Roles are the ones held in the current
+   * organization, and an organization (id, slug or name) selects its
+   * members. Existing assignments are left untouched.
+   */
+  async assign(policyId: string, selector: AssignmentSelector, assignedById: string) {
+    const policy = await this.loadPolicy(policyId);
+
+    if (policy.status === 'ARCHIVED') {
+      throw new HttpError(409, 'Archived policies cannot be assigned');
+    }
+
+    // Membership, not the global User.role or free-text User.organization
+    const organizationId = currentOrganizationId();
+    const member = (filter: Record<string, unknown>) => ({
+      memberships: { some: { ...(organizationId && { organizationId }), ...filter } }
+    });
+
+    const or: any[] = [];
+    if (selector.userIds?.length) {
+      or.push({ id: { in: selector.userIds } });
+    }
+    if (selector.roles?.length) {
+      or.push(member({ role: { in: selector.roles } }));
+    }
+    if (selector.organization) {
+      const name = selector.organization;
+      or.push(member({ organization: { OR: [{ id: name }, { slug: name }, { name }] } }));
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: { isActive: true, OR: or },
+      select: { id: true }
+    });
+
+    const missing = (selector.userIds || []).filter(id => !users.some(u => u.id === id));
+    if (missing.length > 0) {
+      throw new HttpError(404, 'Some users were not found or are inactive', { missing });
+    }
+
+    const { count } = await this.prisma.policyAssignment.createMany({
+      data: users.map(user => ({ policyId, userId: user.id })),
+      skipDuplicates: true
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'ASSIGN_POLICY',
+        entityType: 'POLICY',
+        entityId: policyId,
+        userId: assignedById,
+        details: {
+          version: policy.version,
+          selector: { ...selector },
+          matchedUsers: users.length,
+          newAssignments: count
+        }
+      }
+    });
+
+    logger.info(`Policy ${policyId} assigned to ${count} new users`);
+    return { matchedUsers: users.length, assigned: count, alreadyAssigned: users.length - count };
+  }
+
+  async unassign(policyId: string, userId: string, actorId: string): Promise<void> {
+    const { count } = await this.prisma.policyAssignment.deleteMany({
+      where: { policyId, userId }
+    });
+
+    if (count === 0) {
+      throw new HttpError(404, 'Assignment not found');
+    }
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'UNASSIGN_POLICY',
+        entityType: 'POLICY',
+        entityId: policyId,
+        userId: actorId,
+        details: { assigneeId: userId }
+      }
+    });
+  }
+
+  async listForPolicy(policyId: string) {
+    const policy = await this.loadPolicy(policyId);
+
+    const assignments = await this.prisma.policyAssignment.findMany({
+      where: { policyId },
+      orderBy: { assignedAt: 'desc' },
+      include: { user: { select: USER_SELECT } }
+    });
+
+    return assignments.map(assignment => ({
+      ...assignment,
+      isCurrent: assignment.acknowledgedVersion === policy.version
+    }));
+  }
+
+  async listForUser(userId: string) {
+    const assignments = await this.prisma.policyAssignment.findMany({
+      where: { userId, policy: { status: { not: 'ARCHIVED' } } },
+      orderBy: { assignedAt: 'desc' },
+      include: {
+        policy: {
+          select: {
+            id: true,
+            title: true,
+            description: true,
+            category: true,
+            status: true,
+            version: true,
+            effectiveDate: true,
+            complianceFramework: true
+          }
+        }
+      }
+    });
+
+    // A new policy version needs a fresh acknowledgment
+    return assignments.map(assignment => ({
+      ...assignment,
+      requiresAcknowledgment: assignment.acknowledgedVersion !== assignment.policy.version
+    }));
+  }
+
+  async acknowledge(policyId: string, userId: string, version: number) {
+    const policy = await this.loadPolicy(policyId);
+
+    if (policy.status !== 'ACTIVE') {
+      throw new HttpError(409, 'Only active policies can be acknowledged');
+    }
+
+    if (version !== policy.version) {
+      throw new HttpError(409, `Version ${version} is not the current version (${policy.version})`);
+    }
+
+    const assignment = await this.prisma.policyAssignment.findUnique({
+      where: { policyId_userId: { policyId, userId } }
+    });
+
+    if (!assignment) {
+      throw new HttpError(404, 'Policy is not assigned to you');
+    }
+
+    if (assignment.acknowledgedVersion === version) {
+      return assignment;
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.policyAssignment.update({
+        where: { id: assignment.id },
+        data: { acknowledgedAt: new Date(), acknowledgedVersion: version }
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'ACKNOWLEDGE_POLICY',
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId,
+          details: { version, previousVersion: assignment.acknowledgedVersion }
+        }
+      })
+    ]);
+
+    return updated;
+  }
+
+  async completionReport(policyId?: string): Promise<CompletionReport[]> {
+    const policies = await this.prisma.policy.findMany({
+      where: policyId ? { id: policyId } : { status: { not: 'ARCHIVED' }, assignments: { some: {} } },
+      select: {
+        id: true,
+        title: true,
+        version: true,
+        assignments: {
+          select: { acknowledgedAt: true, acknowledgedVersion: true }
+        }
+      },
+      orderBy: { title: 'asc' }
+    });
+
+    if (policyId && policies.length === 0) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    return policies.map(policy => {
+      const assigned = policy.assignments.length;
+      const acknowledged = policy.assignments.filter(a => a.acknowledgedAt).length;
+      const acknowledgedCurrentVersion = policy.assignments
+        .filter(a => a.acknowledgedVersion === policy.version).length;
+
+      return {
+        policyId: policy.id,
+        title: policy.title,
+        version: policy.version,
+        assigned,
+        acknowledged,
+        acknowledgedCurrentVersion,
+        pending: assigned - acknowledgedCurrentVersion,
+        completionRate: assigned > 0 ? Math.round((acknowledgedCurrentVersion / assigned) * 100) : 0
+      };
+    });
+  }
+
+  private async loadPolicy(policyId: string): Promise<Policy> {
+    const policy = await this.prisma.policy.findUnique({ where: { id: policyId } });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    return policy;
+  }
+}
@@ -0,0 +1,230 @@
+import { PolicyStatus, PrismaClient } from '@prisma/client';
+import { canApply, compileRules, Rule, ruleCovers, RuleShape, ruleShape, rulesOverlap } from '../rules';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient } from '../utils/tenancy';
+
+export type ConflictType = 'CONTRADICTION' | 'OVERLAP' | 'DEAD_RULE';
+
+export interface ConflictFinding {
+  type: ConflictType;
+  severity: 'HIGH' | 'MEDIUM' | 'LOW';
+  rule: string;
+  // The rule it conflicts with; in the same policy when policyId matches
+  other?: { policyId: string; title: string; status: PolicyStatus; rule: string };
+  message: string;
+}
+
+export interface ConflictReport {
+  policyId: string;
+  analyzedAt: Date;
+  rulesAnalyzed: number;
+  comparedPolicies: { id: string; title: string; status: PolicyStatus }[];
+  summary: { contradictions: number; overlaps: number; deadRules: number };
+  findings: ConflictFinding[];
+}
+
+interface AnalyzedPolicy {
+  id: string;
+  title: string;
+  status: PolicyStatus;
+  rules: { rule: Rule; shape: RuleShape }[];
+}
+
+const PEER_STATUSES: PolicyStatus[] = ['ACTIVE', 'DRAFT'];
+
+/**
+ * Compares a policy's rules with each other and with the ACTIVE and DRAFT
+ * policies that share its category or compliance framework.
+ */
+export class PolicyConflicts {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * When `recordedBy` is given the summary is also written to the audit
+   * log, as happens on submit-for-review.
+   */
+  async analyze(policyId: string, recordedBy?: string): Promise<ConflictReport> {
+    const policy = await this.prisma.policy.findUnique({
+      where: { id: policyId },
+      select: { id: true, title: true, status: true, category: true, complianceFramework: true, rules: true }
+    });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    const peers = await this.prisma.policy.findMany({
+      where: {
+        id: { not: policy.id },
+        status: { in: PEER_STATUSES },
+        rules: { not: null },
+        OR: [
+          { category: policy.category },
+          ...(policy.complianceFramework ? [{ complianceFramework: policy.complianceFramework }] : [])
+        ]
+      },
+      select: { id: true, title: true, status: true, rules: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const target = this.prepare(policy);
+    const others = peers.map(peer => this.prepare(peer)).filter(peer => peer.rules.length > 0);
+    const findings = this.findConflicts(target, others);
+
+    const report: ConflictReport = {
+      policyId: policy.id,
+      analyzedAt: new Date(),
+      rulesAnalyzed: target.rules.length,
+      comparedPolicies: others.map(({ id, title, status }) => ({ id, title, status })),
+      summary: {
+        contradictions: findings.filter(finding => finding.type === 'CONTRADICTION').length,
+        overlaps: findings.filter(finding => finding.type === 'OVERLAP').length,
+        deadRules: findings.filter(finding => finding.type === 'DEAD_RULE').length
+      },
+      findings
+    };
+
+    if (recordedBy) {
+      await this.prisma.auditLog.create({
+        data: {
+          action: 'ANALYZE_CONFLICTS',
+          entityType: 'POLICY',
+          entityId: policy.id,
+          userId: recordedBy,
+          details: {
+            automatic: true,
+            ...report.summary,
+            comparedPolicies: report.comparedPolicies.map(peer => peer.id)
+          }
+        }
+      });
+    }
+
+    return report;
+  }
+
+  private findConflicts(target: AnalyzedPolicy, others: AnalyzedPolicy[]): ConflictFinding[] {
+    const findings: ConflictFinding[] = [];
+
+    target.rules.forEach((entry, index) => {
+      if (!canApply(entry.shape)) {
+        findings.push({
+          type: 'DEAD_RULE',
+          severity: 'MEDIUM',
+          rule: entry.rule.name,
+          message: `Rule "${entry.rule.name}" can never apply: its conditions or actions exclude every request`
+        });
+        return;
+      }
+
+      // Pairs inside the policy are compared once
+      const candidates = [
+        ...target.rules.slice(index + 1).map(other => ({ policy: target, ...other })),
+        ...others.flatMap(policy => policy.rules.map(other => ({ policy, ...other })))
+      ];
+
+      for (const candidate of candidates) {
+        if (!canApply(candidate.shape)) continue;
+        const finding = this.compare(entry, candidate, candidate.policy);
+        if (finding) findings.push(finding);
+      }
+    });
+
+    return findings;
+  }
+
+  private compare(
+    entry: { rule: Rule; shape: RuleShape },
+    other: { rule: Rule; shape: RuleShape },
+    policy: AnalyzedPolicy
+  ): ConflictFinding | null {
+    if (!rulesOverlap(entry.shape, other.shape)) return null;
+
+    const reference = { policyId: policy.id, title: policy.title, status: policy.status, rule: other.rule.name };
+    const where = `rule "${other.rule.name}" of "${policy.title}"`;
+    const name = entry.rule.name;
+
+    if (entry.rule.effect !== other.rule.effect) {
+      const [permit, deny] = entry.rule.effect === 'permit' ? [entry, other] : [other, entry];
+
+      if (ruleCovers(deny.shape, permit.shape)) {
+        return entry === permit
+          ? {
+              type: 'DEAD_RULE',
+              severity: 'HIGH',
+              rule: name,
+              other: reference,
+              message: `Permit rule "${name}" never takes effect: ${where} denies every request it permits`
+            }
+          : {
+              type: 'CONTRADICTION',
+              severity: 'HIGH',
+              rule: name,
+              other: reference,
+              message: `Deny rule "${name}" overrides every request permitted by ${where}`
+            };
+      }
+
+      return {
+        type: 'CONTRADICTION',
+        severity: 'MEDIUM',
+        rule: name,
+        other: reference,
+        message: `Rule "${name}" and ${where} permit and deny some of the same requests; deny wins`
+      };
+    }
+
+    const covered = ruleCovers(other.shape, entry.shape);
+    const covers = ruleCovers(entry.shape, other.shape);
+
+    if (covered && covers) {
+      return {
+        type: 'OVERLAP',
+        severity: 'MEDIUM',
+        rule: name,
+        other: reference,
+        message: `Rule "${name}" duplicates ${where}`
+      };
+    }
+    if (covered) {
+      return {
+        type: 'OVERLAP',
+        severity: 'MEDIUM',
+        rule: name,
+        other: reference,
+        message: `Rule "${name}" is redundant: ${where} already ${entry.rule.effect === 'permit' ? 'permits' : 'denies'} every request it matches`
+      };
+    }
+    if (covers) {
+      return {
+        type: 'OVERLAP',
+        severity: 'LOW',
+        rule: name,
+        other: reference,
+        message: `Rule "${name}" makes ${where} redundant`
+      };
+    }
+
+    // Partial overlaps with the same effect are normal and not reported
+    return null;
+  }
+
+  private prepare(policy: { id: string; title: string; status: PolicyStatus; rules: string | null }): AnalyzedPolicy {
+    const { rules, errors } = compileRules(policy.rules || '');
+    if (errors.length > 0) {
+      logger.warn(`Skipping conflict analysis of policy ${policy.id}: ${errors[0].message}`);
+    }
+
+    return {
+      id: policy.id,
+      title: policy.title,
+      status: policy.status,
+      rules: errors.length > 0 ? [] : rules.map(rule => ({ rule, shape: ruleShape(rule) }))
+    };
+  }
+}
@@ -0,0 +1,252 @@
+import { PrismaClient } from '@prisma/client';
+import { AccessRequest, compileRules, Effect, evaluateRules, Rule } from '../rules';
+import { logger } from '../utils/logger';
+import { AISecurityAnalyzer, ThreatLevel } from './aiSecurityAnalyzer';
+import { BlockchainService } from './blockchainService';
+import { ActiveException, PolicyExceptions } from './policyExceptions';
+import { HttpError } from '../utils/errors';
+import { createPrismaClient, requireOrganizationId } from '../utils/tenancy';
+
+export interface DecisionPolicy {
+  id: string;
+  title: string;
+  version: number;
+  rules: string | null;
+}
+
+export interface PolicyMatch {
+  policyId: string;
+  title: string;
+  version: number;
+  rule: string;
+  effect: Effect;
+}
+
+export interface PolicyEvaluation {
+  decision: 'PERMIT' | 'DENY';
+  reason: string;
+  policyIds: string[];
+  matches: PolicyMatch[];
+  obligations: string[];
+  // Exceptions that waived at least one deny rule
+  exceptions: ActiveException[];
+}
+
+export interface AccessDecisionResult extends PolicyEvaluation {
+  riskScore: number;
+  threatLevel: ThreatLevel['level'];
+  indicators: string[];
+  ledger: { fabricTxId: string; ethTxId: string; verified: boolean } | null;
+  evaluatedAt: string;
+}
+
+/**
+ * Policy decision point: evaluates access requests against the rule
+ * sections of ACTIVE policies and records every outcome.
+ */
+export class PolicyDecisionPoint {
+  private prisma: PrismaClient;
+  private blockchain: BlockchainService;
+  private exceptions: PolicyExceptions;
+  private analyzer?: AISecurityAnalyzer;
+  private compiled = new Map<string, { version: number; rules: Rule[] }>();
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.blockchain = new BlockchainService();
+    this.exceptions = new PolicyExceptions();
+  }
+
+  async activePolicies(): Promise<DecisionPolicy[]> {
+    return this.prisma.policy.findMany({
+      where: { status: 'ACTIVE', rules: { not: null } },
+      select: { id: true, title: true, version: true, rules: true },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Deny-overrides across every given policy. A request no rule applies to
+   * is denied. Deny rules of a policy the subject holds an exception for are
+   * skipped; its permit rules still apply.
+   */
+  evaluate(policies: DecisionPolicy[], request: AccessRequest, exceptions: ActiveException[] = []): PolicyEvaluation {
+    const matches: PolicyMatch[] = [];
+    const obligations: Record<Effect, string[]> = { permit: [], deny: [] };
+    const applied = new Map<string, ActiveException>();
+
+    for (const policy of policies) {
+      const result = evaluateRules(this.rulesFor(policy), request);
+      const exception = exceptions.find(candidate => candidate.policyId === policy.id);
+
+      for (const match of result.matched) {
+        if (exception && match.effect === 'deny') {
+          applied.set(exception.id, exception);
+          continue;
+        }
+
+        matches.push({
+          policyId: policy.id,
+          title: policy.title,
+          version: policy.version,
+          rule: match.rule,
+          effect: match.effect
+        });
+        obligations[match.effect].push(...match.obligations);
+      }
+    }
+
+    const denied = matches.some(match => match.effect === 'deny');
+    const decision = denied ? 'DENY' : matches.length > 0 ? 'PERMIT' : 'DENY';
+    const reason = denied
+      ? 'Denied by policy rule'
+      : matches.length > 0
+        ? applied.size > 0 ? 'Permitted by policy rule under a policy exception' : 'Permitted by policy rule'
+        : 'No active policy applies to this request';
+
+    return {
+      decision,
+      reason,
+      policyIds: Array.from(new Set(matches.map(match => match.policyId))),
+      matches,
+      obligations: Array.from(new Set(obligations[denied ? 'deny' : 'permit'])),
+      exceptions: Array.from(applied.values())
+    };
+  }
+
+  /**
+   * Subject attributes of a user as recorded: the role is the one held in
+   * the current organization. Used for decisions users request about
+   * themselves, which must not rest on attributes they claim.
+   */
+  async subjectFor(userId: string): Promise<Record<string, any>> {
+    const organizationId = requireOrganizationId();
+    const [membership, user] = await Promise.all([
+      this.prisma.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId, userId } },
+        select: { role: true }
+      }),
+      this.prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true, isActive: true } })
+    ]);
+
+    if (!membership || !user || !user.isActive) {
+      throw new HttpError(404, 'Subject not found');
+    }
+
+    return { id: user.id, email: user.email, role: membership.role };
+  }
+
+  /**
+   * Decides a request against the current ACTIVE policies. The analyzer's
+   * risk score is placed in `context.riskScore` before evaluation so rules
+   * can act on it; callers cannot supply their own. Approved exceptions
+   * covering the subject, by id or organization role, are honoured. The outcome is anchored on the
+   * ledger and written to the audit log.
+   */
+  async decide(request: AccessRequest, requestedBy: string): Promise<AccessDecisionResult> {
+    const context = request.context || {};
+    const threat = this.getAnalyzer().detectAnomalies({
+      userId: request.subject.id,
+      resourceId: request.resource.id,
+      action: request.action,
+      location: context.location?.country,
+      ip: context.ip,
+      device: context.device
+    });
+    const riskScore = threat.riskScore ?? 0;
+
+    const evaluated: AccessRequest = { ...request, context: { ...context, riskScore } };
+    const [policies, exceptions] = await Promise.all([
+      this.activePolicies(),
+      this.exceptions.activeFor(String(request.subject.id))
+    ]);
+    const result = this.evaluate(policies, evaluated, exceptions);
+    const evaluatedAt = new Date();
+
+    let ledger: AccessDecisionResult['ledger'] = null;
+    try {
+      ledger = await this.blockchain.recordAccessDecision({
+        userId: request.subject.id,
+        resourceId: request.resource.id,
+        action: request.action,
+        decision: result.decision,
+        riskScore,
+        timestamp: evaluatedAt.getTime(),
+        contextFactors: {
+          ...evaluated.context,
+          policyIds: result.policyIds,
+          obligations: result.obligations,
+          exceptionIds: result.exceptions.map(exception => exception.id)
+        }
+      });
+    } catch (error) {
+      // The decision stands; the audit entry records that anchoring failed
+      logger.error('Failed to anchor access decision:', error);
+    }
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'ACCESS_DECISION',
+        entityType: 'RESOURCE',
+        entityId: String(request.resource.id),
+        userId: requestedBy,
+        ipAddress: context.ip,
+        location: context.location?.country,
+        deviceId: context.device?.id,
+        riskScore,
+        threatLevel: threat.level,
+        details: {
+          subject: request.subject,
+          resource: request.resource,
+          action: request.action,
+          context,
+          decision: result.decision,
+          policyIds: result.policyIds,
+          obligations: result.obligations,
+          exceptionIds: result.exceptions.map(exception => exception.id),
+          ledger
+        }
+      }
+    });
+
+    logger.info(`Access decision ${result.decision} for ${request.subject.id} on ${request.resource.id} (${request.action})`);
+
+    return {
+      ...result,
+      riskScore,
+      threatLevel: threat.level,
+      indicators: threat.indicators,
+      ledger,
+      evaluatedAt: evaluatedAt.toISOString()
+    };
+  }
+
+  /**
+   * Compiled rules are cached per policy and replaced when the version
+   * changes. Rules are validated on save, so a policy whose rules no longer
+   * compile is skipped rather than failing every decision.
+   */
+  private rulesFor(policy: DecisionPolicy): Rule[] {
+    const cached = this.compiled.get(policy.id);
+    if (cached && cached.version === policy.version) {
+      return cached.rules;
+    }
+
+    const { rules, errors } = compileRules(policy.rules || '');
+    if (errors.length > 0) {
+      logger.warn(`Skipping rules of policy ${policy.id}: ${errors[0].message}`);
+    }
+
+    const usable = errors.length > 0 ? [] : rules;
+    this.compiled.set(policy.id, { version: policy.version, rules: usable });
+    return usable;
+  }
+
+  // Created on first use since it loads behaviour profiles on construction
+  private getAnalyzer(): AISecurityAnalyzer {
+    if (!this.analyzer) {
+      this.analyzer = new AISecurityAnalyzer();
+    }
+    return this.analyzer;
+  }
+}
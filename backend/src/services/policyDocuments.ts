@@ -0,0 +1,525 @@
+import { createHash } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { escapeHtml, inlineHtml, MarkdownBlock, parseMarkdown, plainText } from '../utils/markdown';
+import { PdfParagraph, renderPdf } from '../utils/pdf';
+import { BlockchainService } from './blockchainService';
+import { WorkflowActor } from './policyWorkflow';
+import { createPrismaClient } from '../utils/tenancy';
+import { canonicalJson } from '../utils/canonicalJson';
+
+export type DocumentFormat = 'html' | 'markdown' | 'pdf';
+
+export interface DocumentApproval {
+  approverId: string;
+  approver: string;
+  role: string;
+  decision: string;
+  comments: string | null;
+  decidedAt: string;
+}
+
+export interface PolicyDocument {
+  policyId: string;
+  version: number;
+  currentVersion: number;
+  status: string;
+  title: string;
+  description: string;
+  category: string;
+  complianceFramework: string | null;
+  effectiveDate: string;
+  expirationDate: string | null;
+  tags: string[];
+  content: string;
+  rules: string | null;
+  author: string;
+  versionCreatedAt: string;
+  approvals: DocumentApproval[];
+  anchor: { txHash: string | null; address: string | null };
+  documentHash: string;
+}
+
+export interface RenderedDocument {
+  body: string | Buffer;
+  contentType: string;
+  filename: string;
+  documentHash: string;
+  version: number;
+}
+
+const CONTENT_TYPES: Record<DocumentFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  pdf: 'application/pdf'
+};
+
+const EXTENSIONS: Record<DocumentFormat, string> = { html: 'html', markdown: 'md', pdf: 'pdf' };
+
+const ANCHOR_ACTION = 'ANCHOR_POLICY_DOCUMENT';
+const ANCHORABLE_STATUSES = ['APPROVED', 'ACTIVE'];
+
+const PERSON_SELECT = { id: true, firstName: true, lastName: true, email: true, role: true };
+
+/**
+ * Renders a policy version as a standalone HTML, Markdown or PDF document.
+ *
+ * Every format carries the same document hash: SHA-256 over a canonical
+ * JSON form of the version's metadata, content, rules and approval
+ * decisions. Render time, status and the ledger anchor are left out, so the
+ * hash only changes when the signed-off text does. Anchoring writes that
+ * hash to the ledger and stores the transaction as `blockchainTxHash`.
+ */
+export class PolicyDocuments {
+  private prisma: PrismaClient;
+  private blockchain: BlockchainService | null = null;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Resolves the format from a query value; `md` is accepted for Markdown.
+   */
+  detectFormat(explicit?: string): DocumentFormat {
+    const candidate = (explicit || 'pdf').toLowerCase();
+
+    if (candidate === 'html') return 'html';
+    if (candidate === 'markdown' || candidate === 'md') return 'markdown';
+    if (candidate === 'pdf') return 'pdf';
+
+    throw new HttpError(400, 'Unsupported format; use html, markdown or pdf');
+  }
+
+  /**
+   * Loads a version of a policy, the current one when `version` is omitted.
+   * Earlier versions are rebuilt from their PolicyVersion snapshot.
+   */
+  async load(policyId: string, version?: number): Promise<PolicyDocument> {
+    const policy = await this.prisma.policy.findUnique({
+      where: { id: policyId },
+      include: { author: { select: PERSON_SELECT } }
+    });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    const target = version ?? policy.version;
+    let fields = {
+      title: policy.title,
+      description: policy.description,
+      category: policy.category as string,
+      complianceFramework: policy.complianceFramework,
+      effectiveDate: policy.effectiveDate.toISOString(),
+      expirationDate: policy.expirationDate ? policy.expirationDate.toISOString() : null,
+      tags: policy.tags || [],
+      content: policy.content,
+      rules: policy.rules ?? null
+    };
+
+    const row = await this.prisma.policyVersion.findUnique({
+      where: { policyId_version: { policyId, version: target } }
+    });
+
+    if (target !== policy.version) {
+      if (!row) {
+        throw new HttpError(404, `Version ${target} not found for this policy`);
+      }
+
+      const snapshot = row.snapshot && typeof row.snapshot === 'object' && !Array.isArray(row.snapshot)
+        ? (row.snapshot as Record<string, any>)
+        : {};
+      fields = {
+        ...fields,
+        ...Object.fromEntries(
+          Object.entries(snapshot).filter(([field]) => field in fields && field !== 'content')
+        ),
+        content: row.content
+      };
+    }
+
+    const approvals = await this.prisma.policyApproval.findMany({
+      where: { policyId, version: target },
+      orderBy: { createdAt: 'asc' },
+      include: { approver: { select: PERSON_SELECT } }
+    });
+
+    const document: Omit<PolicyDocument, 'documentHash'> = {
+      policyId,
+      version: target,
+      currentVersion: policy.version,
+      status: target === policy.version ? policy.status : 'SUPERSEDED',
+      ...fields,
+      // Policies created before version history was kept have no row for their version
+      versionCreatedAt: (row ? row.createdAt : policy.updatedAt).toISOString(),
+      author: `${policy.author.firstName} ${policy.author.lastName} <${policy.author.email}>`,
+      approvals: approvals.map(approval => ({
+        approverId: approval.approverId,
+        approver: `${approval.approver.firstName} ${approval.approver.lastName}`,
+        role: approval.approver.role,
+        decision: approval.decision,
+        comments: approval.comments,
+        decidedAt: approval.createdAt.toISOString()
+      })),
+      anchor: { txHash: policy.blockchainTxHash, address: policy.blockchainAddress }
+    };
+
+    return { ...document, documentHash: this.hash(document) };
+  }
+
+  async render(policyId: string, format: DocumentFormat, version?: number): Promise<RenderedDocument> {
+    const document = await this.load(policyId, version);
+
+    const body =
+      format === 'html'
+        ? this.toHtml(document)
+        : format === 'markdown'
+          ? this.toMarkdown(document)
+          : this.toPdf(document);
+
+    return {
+      body,
+      contentType: CONTENT_TYPES[format],
+      filename: `${slugify(document.title)}-v${document.version}.${EXTENSIONS[format]}`,
+      documentHash: document.documentHash,
+      version: document.version
+    };
+  }
+
+  hash(document: Omit<PolicyDocument, 'documentHash'>): string {
+    const signed = {
+      policyId: document.policyId,
+      version: document.version,
+      title: document.title,
+      description: document.description,
+      category: document.category,
+      complianceFramework: document.complianceFramework,
+      effectiveDate: document.effectiveDate,
+      expirationDate: document.expirationDate,
+      tags: document.tags,
+      content: document.content,
+      rules: document.rules,
+      approvals: document.approvals.map(({ approverId, decision, comments, decidedAt }) => ({
+        approverId,
+        decision,
+        comments,
+        decidedAt
+      }))
+    };
+
+    return createHash('sha256').update(canonicalJson(signed)).digest('hex');
+  }
+
+  /**
+   * Records the current version's document hash on the ledger and stores
+   * the transaction as the policy's `blockchainTxHash`.
+   */
+  async anchor(policyId: string, actor: WorkflowActor) {
+    const document = await this.load(policyId);
+
+    if (!ANCHORABLE_STATUSES.includes(document.status)) {
+      throw new HttpError(409, `Only approved or active policies can be anchored (current status: ${document.status})`);
+    }
+
+    const previous = await this.latestAnchor(policyId);
+    if (!this.blockchain) {
+      this.blockchain = new BlockchainService();
+    }
+
+    const txHash = await this.blockchain.recordPolicyChange({
+      policyId,
+      version: String(document.version),
+      changeType: previous ? 'UPDATE' : 'CREATE',
+      authorId: actor.userId,
+      previousHash: previous?.documentHash,
+      newHash: document.documentHash,
+      timestamp: Date.now()
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.policy.update({ where: { id: policyId }, data: { blockchainTxHash: txHash } }),
+      this.prisma.auditLog.create({
+        data: {
+          action: ANCHOR_ACTION,
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId: actor.userId,
+          details: {
+            version: document.version,
+            documentHash: document.documentHash,
+            txHash,
+            previousHash: previous?.documentHash ?? null
+          }
+        }
+      })
+    ]);
+
+    logger.info(`Anchored policy ${policyId} v${document.version}: ${txHash}`);
+    return { txHash, documentHash: document.documentHash, version: document.version };
+  }
+
+  /**
+   * Recomputes the document hash and compares it with the hash anchored
+   * under the policy's `blockchainTxHash` and, when given, a hash taken
+   * from a printed or downloaded copy.
+   */
+  async verify(policyId: string, options: { version?: number; hash?: string } = {}) {
+    const document = await this.load(policyId, options.version);
+    const anchored = await this.latestAnchor(policyId);
+
+    // An anchor only counts while it is still the policy's ledger reference
+    const ledger =
+      anchored && document.anchor.txHash && anchored.txHash === document.anchor.txHash ? anchored : null;
+
+    return {
+      policyId,
+      version: document.version,
+      documentHash: document.documentHash,
+      ledger: {
+        txHash: document.anchor.txHash,
+        anchoredHash: ledger?.documentHash ?? null,
+        anchoredVersion: ledger?.version ?? null,
+        anchoredAt: ledger?.anchoredAt ?? null
+      },
+      matchesLedger: ledger !== null && ledger.documentHash === document.documentHash,
+      ...(options.hash !== undefined
+        ? { suppliedHash: options.hash, matchesSupplied: options.hash.toLowerCase() === document.documentHash }
+        : {})
+    };
+  }
+
+  private async latestAnchor(policyId: string) {
+    const entry = await this.prisma.auditLog.findFirst({
+      where: { action: ANCHOR_ACTION, entityType: 'POLICY', entityId: policyId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!entry || !entry.details || typeof entry.details !== 'object' || Array.isArray(entry.details)) {
+      return null;
+    }
+
+    const details = entry.details as Record<string, any>;
+    return {
+      txHash: details.txHash as string,
+      documentHash: details.documentHash as string,
+      version: details.version as number,
+      anchoredAt: entry.createdAt
+    };
+  }
+
+  private metadataRows(document: PolicyDocument): [string, string][] {
+    return [
+      ['Policy ID', document.policyId],
+      [
+        'Version',
+        document.version === document.currentVersion
+          ? String(document.version)
+          : `${document.version} (current version is ${document.currentVersion})`
+      ],
+      ['Status', document.status],
+      ['Category', document.category],
+      ['Compliance framework', document.complianceFramework || '—'],
+      ['Effective date', document.effectiveDate.slice(0, 10)],
+      ['Expiration date', document.expirationDate ? document.expirationDate.slice(0, 10) : '—'],
+      ['Tags', document.tags.length > 0 ? document.tags.join(', ') : '—'],
+      ['Author', document.author],
+      ['Version recorded', document.versionCreatedAt]
+    ];
+  }
+
+  private integrityRows(document: PolicyDocument): [string, string][] {
+    return [
+      ['Document hash (SHA-256)', document.documentHash],
+      ['Ledger anchor', document.anchor.txHash || 'Not anchored'],
+      ...(document.anchor.address ? [['Ledger address', document.anchor.address] as [string, string]] : [])
+    ];
+  }
+
+  private toMarkdown(document: PolicyDocument): string {
+    const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const lines = [`# ${document.title}`, '', document.description, '', '| Field | Value |', '| --- | --- |'];
+    lines.push(...this.metadataRows(document).map(([label, value]) => `| ${label} | ${cell(value)} |`));
+
+    lines.push('', '## Policy', '');
+    for (const block of parseMarkdown(document.content)) {
+      lines.push(...markdownBlock(block), '');
+    }
+
+    if (document.rules) {
+      lines.push('## Access Rules', '', '```', document.rules, '```', '');
+    }
+
+    lines.push('## Approval History', '');
+    if (document.approvals.length === 0) {
+      lines.push('No approval decisions were recorded for this version.');
+    } else {
+      lines.push('| Approver | Role | Decision | Date | Comments |', '| --- | --- | --- | --- | --- |');
+      for (const approval of document.approvals) {
+        lines.push(
+          `| ${cell(approval.approver)} | ${approval.role} | ${approval.decision} | ${approval.decidedAt} | ${cell(approval.comments || '')} |`
+        );
+      }
+    }
+
+    lines.push('', '## Integrity', '');
+    lines.push(...this.integrityRows(document).map(([label, value]) => `- ${label}: \`${value}\``));
+
+    return lines.join('\n') + '\n';
+  }
+
+  private toHtml(document: PolicyDocument): string {
+    const rows = (entries: [string, string][]) =>
+      entries.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n');
+
+    const approvals =
+      document.approvals.length === 0
+        ? '<p>No approval decisions were recorded for this version.</p>'
+        : [
+            '<table>',
+            '<tr><th>Approver</th><th>Role</th><th>Decision</th><th>Date</th><th>Comments</th></tr>',
+            ...document.approvals.map(
+              approval =>
+                `<tr><td>${escapeHtml(approval.approver)}</td><td>${approval.role}</td><td>${approval.decision}</td>` +
+                `<td>${approval.decidedAt}</td><td>${escapeHtml(approval.comments || '')}</td></tr>`
+            ),
+            '</table>'
+          ].join('\n');
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(document.title)} (v${document.version})</title>`,
+      `<meta name="document-hash" content="${document.documentHash}">`,
+      '<style>',
+      'body { font-family: Helvetica, Arial, sans-serif; max-width: 800px; margin: 2em auto; color: #222; line-height: 1.5; }',
+      'table { border-collapse: collapse; width: 100%; margin: 1em 0; }',
+      'th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }',
+      'th { background: #f4f4f4; }',
+      'pre, code { font-family: Courier, monospace; background: #f6f6f6; }',
+      'pre { padding: 8px; white-space: pre-wrap; }',
+      '.integrity td { font-family: Courier, monospace; word-break: break-all; }',
+      '@media print { body { margin: 0; max-width: none; } }',
+      '</style>',
+      '</head>',
+      '<body>',
+      `<h1>${escapeHtml(document.title)}</h1>`,
+      `<p>${escapeHtml(document.description)}</p>`,
+      `<table class="metadata">\n${rows(this.metadataRows(document))}\n</table>`,
+      '<h2>Policy</h2>',
+      ...parseMarkdown(document.content).map(htmlBlock),
+      ...(document.rules ? ['<h2>Access Rules</h2>', `<pre>${escapeHtml(document.rules)}</pre>`] : []),
+      '<h2>Approval History</h2>',
+      approvals,
+      '<h2>Integrity</h2>',
+      `<table class="integrity">\n${rows(this.integrityRows(document))}\n</table>`,
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  private toPdf(document: PolicyDocument): Buffer {
+    const paragraphs: PdfParagraph[] = [
+      { text: document.title, font: 'bold', size: 18 },
+      { text: document.description, spaceBefore: 6 },
+      { text: '', rule: true, spaceBefore: 4 },
+      ...this.metadataRows(document).map(([label, value]) => ({ text: `${label}: ${value}`, size: 9 })),
+      { text: 'Policy', font: 'bold', size: 14, spaceBefore: 14 }
+    ];
+
+    for (const block of parseMarkdown(document.content)) {
+      paragraphs.push(...pdfBlock(block));
+    }
+
+    if (document.rules) {
+      paragraphs.push({ text: 'Access Rules', font: 'bold', size: 14, spaceBefore: 14 });
+      paragraphs.push({ text: document.rules, font: 'mono', size: 8, spaceBefore: 4 });
+    }
+
+    paragraphs.push({ text: 'Approval History', font: 'bold', size: 14, spaceBefore: 14 });
+    if (document.approvals.length === 0) {
+      paragraphs.push({ text: 'No approval decisions were recorded for this version.', spaceBefore: 4 });
+    }
+    for (const approval of document.approvals) {
+      paragraphs.push({
+        text: `${approval.decision} by ${approval.approver} (${approval.role}) on ${approval.decidedAt}` +
+          (approval.comments ? ` - ${approval.comments}` : ''),
+        bullet: '•',
+        indent: 14,
+        spaceBefore: 3
+      });
+    }
+
+    paragraphs.push({ text: 'Integrity', font: 'bold', size: 14, spaceBefore: 14 });
+    for (const [label, value] of this.integrityRows(document)) {
+      paragraphs.push({ text: label, font: 'bold', size: 9, spaceBefore: 4 });
+      paragraphs.push({ text: value, font: 'mono', size: 9 });
+    }
+
+    return renderPdf(paragraphs, {
+      title: `${document.title} (v${document.version})`,
+      author: document.author,
+      subject: `${document.category} policy`,
+      keywords: document.tags.join(', '),
+      creationDate: new Date(document.versionCreatedAt),
+      footer: `${document.title} v${document.version} - SHA-256 ${document.documentHash.slice(0, 16)}…`
+    });
+  }
+}
+
+// Policy content headings sit one level below the document's own sections
+function markdownBlock(block: MarkdownBlock): string[] {
+  switch (block.type) {
+    case 'heading':
+      return [`${'#'.repeat(Math.min(block.level + 2, 6))} ${block.text}`];
+    case 'list':
+      return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${item}`);
+    case 'code':
+      return ['```', block.text, '```'];
+    default:
+      return [block.text];
+  }
+}
+
+function htmlBlock(block: MarkdownBlock): string {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(block.level + 2, 6);
+      return `<h${level}>${inlineHtml(block.text)}</h${level}>`;
+    }
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>\n${block.items.map(item => `<li>${inlineHtml(item)}</li>`).join('\n')}\n</${tag}>`;
+    }
+    case 'code':
+      return `<pre>${escapeHtml(block.text)}</pre>`;
+    default:
+      return `<p>${inlineHtml(block.text)}</p>`;
+  }
+}
+
+function pdfBlock(block: MarkdownBlock): PdfParagraph[] {
+  switch (block.type) {
+    case 'heading':
+      return [{ text: plainText(block.text), font: 'bold', size: Math.max(10, 14 - block.level), spaceBefore: 10 }];
+    case 'list':
+      return block.items.map((item, index) => ({
+        text: plainText(item),
+        bullet: block.ordered ? `${index + 1}.` : '•',
+        indent: 18,
+        spaceBefore: index === 0 ? 4 : 1
+      }));
+    case 'code':
+      return [{ text: block.text, font: 'mono', size: 8, spaceBefore: 4 }];
+    default:
+      return [{ text: plainText(block.text), spaceBefore: 6 }];
+  }
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'policy';
+}
@@ -0,0 +1,297 @@
+import { PolicyException, PrismaClient } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient, currentOrganizationId } from '../utils/tenancy';
+import { WorkflowActor } from './policyWorkflow';
+
+export type ExceptionStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'REVOKED' | 'EXPIRED';
+
+export interface ExceptionRequest {
+  userIds?: string[];
+  roles?: string[];
+  justification: string;
+  expiresAt: string | Date;
+}
+
+export interface ActiveException {
+  id: string;
+  policyId: string;
+  expiresAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Exceptions are time-boxed; anything longer should be a policy change
+const MAX_EXCEPTION_DAYS = 365;
+
+const PERSON_SELECT = { id: true, firstName: true, lastName: true, email: true };
+
+const EXCEPTION_INCLUDE = {
+  policy: { select: { id: true, title: true, version: true, complianceFramework: true } },
+  requestedBy: { select: PERSON_SELECT },
+  approvedBy: { select: PERSON_SELECT }
+};
+
+/**
+ * Time-boxed exemptions from a policy for listed users or roles. Requests
+ * start PENDING; once APPROVED by someone other than the requester they
+ * waive the policy's deny rules for those subjects until `expiresAt`.
+ */
+export class PolicyExceptions {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  async request(policyId: string, input: ExceptionRequest, actor: WorkflowActor) {
+    const policy = await this.prisma.policy.findUnique({ where: { id: policyId }, select: { id: true, status: true } });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    if (policy.status === 'ARCHIVED') {
+      throw new HttpError(409, 'Archived policies cannot have exceptions');
+    }
+
+    const userIds = Array.from(new Set(input.userIds || []));
+    const roles = Array.from(new Set(input.roles || []));
+
+    if (userIds.length === 0 && roles.length === 0) {
+      throw new HttpError(400, 'An exception must name at least one user or role');
+    }
+
+    const expiresAt = new Date(input.expiresAt);
+    const now = Date.now();
+
+    if (expiresAt.getTime() <= now) {
+      throw new HttpError(400, 'expiresAt must be in the future');
+    }
+
+    if (expiresAt.getTime() - now > MAX_EXCEPTION_DAYS * DAY_MS) {
+      throw new HttpError(400, `Exceptions can last at most ${MAX_EXCEPTION_DAYS} days`);
+    }
+
+    if (userIds.length > 0) {
+      const known = await this.prisma.user.count({ where: { id: { in: userIds } } });
+      if (known !== userIds.length) {
+        throw new HttpError(400, 'Exception scope names unknown users');
+      }
+    }
+
+    const [exception] = await this.prisma.$transaction([
+      this.prisma.policyException.create({
+        data: {
+          policyId,
+          userIds,
+          roles,
+          justification: input.justification,
+          status: 'PENDING',
+          expiresAt,
+          requestedById: actor.userId
+        },
+        include: EXCEPTION_INCLUDE
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'REQUEST_POLICY_EXCEPTION',
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId: actor.userId,
+          details: { userIds, roles, expiresAt: expiresAt.toISOString(), justification: input.justification }
+        }
+      })
+    ]);
+
+    return exception;
+  }
+
+  async approve(exceptionId: string, actor: WorkflowActor, notes?: string) {
+    const exception = await this.loadPending(exceptionId);
+
+    if (exception.requestedById === actor.userId) {
+      throw new HttpError(403, 'Exceptions cannot be approved by their requester');
+    }
+
+    return this.decide(exception, 'APPROVED', 'APPROVE_POLICY_EXCEPTION', actor, notes);
+  }
+
+  async reject(exceptionId: string, actor: WorkflowActor, notes: string) {
+    const exception = await this.loadPending(exceptionId);
+    return this.decide(exception, 'REJECTED', 'REJECT_POLICY_EXCEPTION', actor, notes);
+  }
+
+  /**
+   * Ends a pending or approved exception before its expiry.
+   */
+  async revoke(exceptionId: string, actor: WorkflowActor, notes?: string) {
+    const exception = await this.load(exceptionId);
+
+    if (exception.status !== 'PENDING' && exception.status !== 'APPROVED') {
+      throw new HttpError(409, `Exception is already ${exception.status.toLowerCase()}`);
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.policyException.update({
+        where: { id: exceptionId },
+        data: { status: 'REVOKED', decisionNotes: notes ?? exception.decisionNotes },
+        include: EXCEPTION_INCLUDE
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'REVOKE_POLICY_EXCEPTION',
+          entityType: 'POLICY',
+          entityId: exception.policyId,
+          userId: actor.userId,
+          details: { exceptionId, previousStatus: exception.status, notes }
+        }
+      })
+    ]);
+
+    return updated;
+  }
+
+  async list(filter: { policyId?: string; status?: ExceptionStatus } = {}) {
+    return this.prisma.policyException.findMany({
+      where: { policyId: filter.policyId, status: filter.status },
+      include: EXCEPTION_INCLUDE,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Approved, unexpired exceptions covering a decision subject by id or by
+   * the role the subject holds in the current organization. Roles are read
+   * from the membership, never from the request, so a caller cannot claim
+   * a role to pick up its exceptions.
+   */
+  async activeFor(subjectId: string, now: Date = new Date()): Promise<ActiveException[]> {
+    const organizationId = currentOrganizationId();
+    const membership = organizationId
+      ? await this.prisma.organizationMember.findUnique({
+          where: { organizationId_userId: { organizationId, userId: subjectId } },
+          select: { role: true }
+        })
+      : null;
+
+    return this.prisma.policyException.findMany({
+      where: {
+        status: 'APPROVED',
+        expiresAt: { gt: now },
+        OR: [
+          { userIds: { has: subjectId } },
+          ...(membership ? [{ roles: { has: membership.role } }] : [])
+        ]
+      },
+      select: { id: true, policyId: true, expiresAt: true }
+    });
+  }
+
+  /**
+   * Marks pending and approved exceptions past their expiry as EXPIRED,
+   * with an audit entry each. Safe to call repeatedly.
+   */
+  async expireDue(now: Date = new Date()): Promise<string[]> {
+    const due = await this.prisma.policyException.findMany({
+      where: { status: { in: ['PENDING', 'APPROVED'] }, expiresAt: { lte: now } },
+      select: { id: true, policyId: true, status: true, expiresAt: true, policy: { select: { organizationId: true } } }
+    });
+    const expired: string[] = [];
+
+    for (const exception of due) {
+      const changed = await this.prisma.$transaction(async tx => {
+        // Guard on the status so a concurrent revoke wins
+        const { count } = await tx.policyException.updateMany({
+          where: { id: exception.id, status: exception.status },
+          data: { status: 'EXPIRED' }
+        });
+
+        if (count === 0) {
+          return false;
+        }
+
+        // Runs outside any request, so the policy's organization is set explicitly
+        await tx.auditLog.create({
+          data: {
+            action: 'EXPIRE_POLICY_EXCEPTION',
+            entityType: 'POLICY',
+            entityId: exception.policyId,
+            organizationId: exception.policy.organizationId ?? null,
+            details: {
+              exceptionId: exception.id,
+              previousStatus: exception.status,
+              expiresAt: exception.expiresAt.toISOString(),
+              automatic: true
+            }
+          }
+        });
+
+        return true;
+      });
+
+      if (changed) expired.push(exception.id);
+    }
+
+    if (expired.length > 0) {
+      logger.info(`Expired ${expired.length} policy exceptions`);
+    }
+
+    return expired;
+  }
+
+  private async decide(
+    exception: PolicyException,
+    status: 'APPROVED' | 'REJECTED',
+    action: string,
+    actor: WorkflowActor,
+    notes?: string
+  ) {
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.policyException.update({
+        where: { id: exception.id },
+        data: {
+          status,
+          decisionNotes: notes,
+          ...(status === 'APPROVED' && { approvedById: actor.userId, approvedAt: new Date() })
+        },
+        include: EXCEPTION_INCLUDE
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action,
+          entityType: 'POLICY',
+          entityId: exception.policyId,
+          userId: actor.userId,
+          details: { exceptionId: exception.id, expiresAt: exception.expiresAt.toISOString(), notes }
+        }
+      })
+    ]);
+
+    return updated;
+  }
+
+  private async loadPending(exceptionId: string): Promise<PolicyException> {
+    const exception = await this.load(exceptionId);
+
+    if (exception.status !== 'PENDING') {
+      throw new HttpError(409, `Exception is already ${exception.status.toLowerCase()}`);
+    }
+
+    if (exception.expiresAt <= new Date()) {
+      throw new HttpError(409, 'Exception has expired');
+    }
+
+    return exception;
+  }
+
+  private async load(exceptionId: string): Promise<PolicyException> {
+    const exception = await this.prisma.policyException.findUnique({ where: { id: exceptionId } });
+
+    if (!exception) {
+      throw new HttpError(404, 'Exception not found');
+    }
+
+    return exception;
+  }
+}
@@ -0,0 +1,345 @@
+import { createHash } from 'crypto';
+import { Policy, PolicyStatus, PolicyVersion, Prisma, PrismaClient } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { canonicalJson } from '../utils/canonicalJson';
+import { matchesPolicyFilters } from '../utils/policyFilters';
+import { createPrismaClient } from '../utils/tenancy';
+import { PolicyFacets } from './policyTags';
+import { PolicyDocuments } from './policyDocuments';
+import { PolicyWorkflow } from './policyWorkflow';
+
+export interface StatusEvent {
+  action: string;
+  userId?: string | null;
+  details: Prisma.JsonValue;
+  createdAt: Date;
+}
+
+export interface ApprovalState {
+  approvedById: string | null;
+  approvedAt: Date | null;
+}
+
+export type PolicyAsOf<T extends Policy = Policy> = T & { asOf: Date };
+
+export interface EffectivePolicy {
+  policyId: string;
+  title: string;
+  version: number;
+  category: string;
+  complianceFramework: string | null;
+  effectiveDate: string;
+  expirationDate: string | null;
+  documentHash: string;
+}
+
+export interface EffectivePolicySet {
+  asOf: string;
+  count: number;
+  policies: EffectivePolicy[];
+  snapshotHash: string;
+}
+
+type Details = Record<string, any>;
+
+// Status a policy is left in by each audited action, or null when unknown.
+// `afterEdit` is the status an edit would leave the policy in.
+const TRANSITIONS: Record<string, (details: Details, afterEdit: PolicyStatus | null) => PolicyStatus | null> = {
+  CREATE_POLICY: details => details.status ?? 'DRAFT',
+  IMPORT_POLICY: () => 'DRAFT',
+  INSTANTIATE_TEMPLATE: () => 'DRAFT',
+  UPDATE_POLICY: details => details.status ?? null,
+  ROLLBACK_POLICY: (details, afterEdit) => details.status ?? afterEdit,
+  SUBMIT_POLICY: () => 'IN_REVIEW',
+  APPROVE_POLICY: details => details.status ?? null,
+  REJECT_POLICY: () => 'REJECTED',
+  ACTIVATE_POLICY: () => 'ACTIVE',
+  AUTO_ACTIVATE_POLICY: details => details.to ?? 'ACTIVE',
+  AUTO_EXPIRE_POLICY: details => details.to ?? 'INACTIVE',
+  DELETE_POLICY: () => 'ARCHIVED'
+};
+
+// Statuses a policy only reaches again after its approval was cleared
+const UNAPPROVED_STATUSES: PolicyStatus[] = ['DRAFT', 'IN_REVIEW', 'REJECTED'];
+
+const PERSON_SELECT = { id: true, firstName: true, lastName: true, email: true };
+
+/**
+ * Reconstructs policies as they stood at a point in time. Content and
+ * metadata come from the latest PolicyVersion recorded by then; status and
+ * approver are replayed from the audit entries of status-changing actions.
+ */
+export class PolicyHistory {
+  private prisma: PrismaClient;
+  private workflow: PolicyWorkflow;
+  private documents: PolicyDocuments;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.workflow = new PolicyWorkflow();
+    this.documents = new PolicyDocuments();
+  }
+
+  parseAsOf(value: unknown): Date {
+    const asOf = new Date(String(value));
+
+    if (value === undefined || value === '' || Number.isNaN(asOf.getTime())) {
+      throw new HttpError(400, 'asOf must be an ISO 8601 date');
+    }
+
+    if (asOf.getTime() > Date.now()) {
+      throw new HttpError(400, 'asOf cannot be in the future');
+    }
+
+    return asOf;
+  }
+
+  /**
+   * Replays status events up to `asOf`. Before the first recorded event the
+   * status it moved away from is used, and a policy without any events
+   * keeps `current`.
+   */
+  statusAt(events: StatusEvent[], asOf: Date, current: PolicyStatus): PolicyStatus {
+    const ordered = [...events].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    let status: PolicyStatus | null = null;
+
+    for (const event of ordered) {
+      if (event.createdAt > asOf) {
+        if (status === null) {
+          const details = this.details(event);
+          return details.previousStatus ?? details.from ?? 'DRAFT';
+        }
+        break;
+      }
+
+      const transition = TRANSITIONS[event.action];
+      const next = transition?.(this.details(event), status && this.workflow.statusAfterEdit(status));
+      status = next ?? status;
+    }
+
+    return status ?? current;
+  }
+
+  /**
+   * Replays the approval up to `asOf`: the approver is whoever recorded the
+   * approval that completed the last review round, and a resubmission or an
+   * edit back to draft clears it. Policies without any recorded approval
+   * fall back to `current` when it predates `asOf`.
+   */
+  approvalAt(events: StatusEvent[], asOf: Date, current: ApprovalState): ApprovalState {
+    const ordered = [...events].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const none: ApprovalState = { approvedById: null, approvedAt: null };
+
+    if (!ordered.some(event => event.action === 'APPROVE_POLICY')) {
+      return current.approvedAt !== null && current.approvedAt <= asOf ? current : none;
+    }
+
+    let approval = none;
+    let status: PolicyStatus | null = null;
+
+    for (const event of ordered.filter(candidate => candidate.createdAt <= asOf)) {
+      const transition = TRANSITIONS[event.action];
+      status = transition?.(this.details(event), status && this.workflow.statusAfterEdit(status)) ?? status;
+
+      if (event.action === 'APPROVE_POLICY' && status === 'APPROVED') {
+        approval = { approvedById: event.userId ?? null, approvedAt: event.createdAt };
+      } else if (status && UNAPPROVED_STATUSES.includes(status)) {
+        approval = none;
+      }
+    }
+
+    return approval;
+  }
+
+  /**
+   * The version in force at `asOf`. Policies edited before history was
+   * recorded get a baseline row on their first edit, so when nothing
+   * predates `asOf` the earliest row is the closest record.
+   */
+  versionAt<T extends Pick<PolicyVersion, 'version' | 'createdAt'>>(versions: T[], asOf: Date): T | null {
+    const ordered = [...versions].sort((a, b) => a.version - b.version);
+    const recorded = ordered.filter(version => version.createdAt <= asOf);
+
+    return recorded[recorded.length - 1] ?? ordered[0] ?? null;
+  }
+
+  reconstruct<T extends Policy>(
+    policy: T,
+    versions: PolicyVersion[],
+    events: StatusEvent[],
+    asOf: Date
+  ): PolicyAsOf<T> {
+    const row = this.versionAt(versions, asOf);
+    const snapshot = row?.snapshot && typeof row.snapshot === 'object' && !Array.isArray(row.snapshot)
+      ? (row.snapshot as Record<string, any>)
+      : {};
+
+    const changedAt = [
+      policy.createdAt,
+      ...(row && row.createdAt <= asOf ? [row.createdAt] : []),
+      ...events.filter(event => event.createdAt <= asOf).map(event => event.createdAt)
+    ];
+    const approval = this.approvalAt(events, asOf, policy);
+
+    return {
+      ...policy,
+      ...(row && {
+        version: row.version,
+        content: row.content,
+        title: snapshot.title ?? policy.title,
+        description: snapshot.description ?? policy.description,
+        category: snapshot.category ?? policy.category,
+        complianceFramework: snapshot.complianceFramework !== undefined
+          ? snapshot.complianceFramework
+          : policy.complianceFramework,
+        effectiveDate: snapshot.effectiveDate ? new Date(snapshot.effectiveDate) : policy.effectiveDate,
+        expirationDate: snapshot.expirationDate !== undefined
+          ? (snapshot.expirationDate ? new Date(snapshot.expirationDate) : null)
+          : policy.expirationDate,
+        tags: snapshot.tags ?? policy.tags,
+        rules: snapshot.rules !== undefined ? snapshot.rules : policy.rules
+      }),
+      status: this.statusAt(events, asOf, policy.status),
+      approvedAt: approval.approvedAt,
+      approvedById: approval.approvedById,
+      updatedAt: new Date(Math.max(...changedAt.map(date => date.getTime()))),
+      asOf
+    };
+  }
+
+  /**
+   * Every policy that existed at `asOf`, as it stood then.
+   */
+  async listAsOf(asOf: Date, ids?: string[]) {
+    const policies = await this.prisma.policy.findMany({
+      where: { createdAt: { lte: asOf }, ...(ids && { id: { in: ids } }) },
+      include: { author: { select: PERSON_SELECT } }
+    });
+
+    return this.reconstructAll(policies, asOf);
+  }
+
+  async getAsOf(policyId: string, asOf: Date) {
+    const policy = await this.prisma.policy.findUnique({
+      where: { id: policyId },
+      include: {
+        author: { select: PERSON_SELECT },
+        approvedBy: { select: PERSON_SELECT }
+      }
+    });
+
+    if (!policy || policy.createdAt > asOf) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    const [state] = await this.reconstructAll([policy], asOf);
+    const approvedBy = !state.approvedById
+      ? null
+      : state.approvedById === policy.approvedById
+        ? policy.approvedBy
+        : await this.prisma.user.findUnique({ where: { id: state.approvedById }, select: PERSON_SELECT });
+
+    return { ...state, approvedBy };
+  }
+
+  /**
+   * Facet counts over reconstructed states, matching PolicyTags.getFacets.
+   */
+  facets(policies: Policy[], query: Record<string, any>): PolicyFacets {
+    const count = (field: 'category' | 'status' | 'framework', value: (policy: Policy) => string | null) => {
+      const counts: Record<string, number> = {};
+      for (const policy of policies.filter(candidate => matchesPolicyFilters(candidate, query, field))) {
+        const key = value(policy);
+        if (key) counts[key] = (counts[key] || 0) + 1;
+      }
+      return counts;
+    };
+
+    const tags: Record<string, number> = {};
+    for (const policy of policies.filter(candidate => matchesPolicyFilters(candidate, query, 'tags'))) {
+      for (const tag of policy.tags) {
+        tags[tag] = (tags[tag] || 0) + 1;
+      }
+    }
+
+    return {
+      category: count('category', policy => policy.category),
+      status: count('status', policy => policy.status),
+      framework: count('framework', policy => policy.complianceFramework),
+      tags
+    };
+  }
+
+  /**
+   * The policies in force at `asOf`: active, past their effective date and
+   * not yet expired. Each entry carries the document hash of its version;
+   * `snapshotHash` covers the sorted (policy, version, document hash)
+   * entries and not the date, so two dates with the same policy set hash
+   * equally.
+   */
+  async effectiveSet(asOf: Date): Promise<EffectivePolicySet> {
+    const states = await this.listAsOf(asOf);
+    const inForce = states
+      .filter(policy =>
+        policy.status === 'ACTIVE' &&
+        policy.effectiveDate <= asOf &&
+        (!policy.expirationDate || policy.expirationDate > asOf)
+      )
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    const policies: EffectivePolicy[] = [];
+    for (const policy of inForce) {
+      const document = await this.documents.load(policy.id, policy.version);
+      policies.push({
+        policyId: policy.id,
+        title: policy.title,
+        version: policy.version,
+        category: policy.category,
+        complianceFramework: policy.complianceFramework,
+        effectiveDate: policy.effectiveDate.toISOString(),
+        expirationDate: policy.expirationDate ? policy.expirationDate.toISOString() : null,
+        documentHash: document.documentHash
+      });
+    }
+
+    const snapshotHash = createHash('sha256')
+      .update(canonicalJson(policies.map(({ policyId, version, documentHash }) => ({ policyId, version, documentHash }))))
+      .digest('hex');
+
+    return { asOf: asOf.toISOString(), count: policies.length, policies, snapshotHash };
+  }
+
+  private async reconstructAll<T extends Policy>(policies: T[], asOf: Date): Promise<PolicyAsOf<T>[]> {
+    if (policies.length === 0) {
+      return [];
+    }
+
+    const ids = policies.map(policy => policy.id);
+    const [versions, events] = await Promise.all([
+      this.prisma.policyVersion.findMany({
+        where: { policyId: { in: ids } },
+        orderBy: { version: 'asc' }
+      }),
+      this.prisma.auditLog.findMany({
+        where: { entityType: 'POLICY', entityId: { in: ids }, action: { in: Object.keys(TRANSITIONS) } },
+        orderBy: { createdAt: 'asc' },
+        select: { entityId: true, action: true, userId: true, details: true, createdAt: true }
+      })
+    ]);
+
+    return policies.map(policy =>
+      this.reconstruct(
+        policy,
+        versions.filter(version => version.policyId === policy.id),
+        events.filter(event => event.entityId === policy.id),
+        asOf
+      )
+    );
+  }
+
+  private details(event: StatusEvent): Details {
+    return event.details && typeof event.details === 'object' && !Array.isArray(event.details)
+      ? (event.details as Details)
+      : {};
+  }
+}
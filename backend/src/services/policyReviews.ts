@@ -0,0 +1,356 @@
+import { PolicyCategory, PrismaClient } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { WorkflowActor } from './policyWorkflow';
+import { createPrismaClient, requireOrganizationId } from '../utils/tenancy';
+
+export interface ReviewCycleConfig {
+  category?: PolicyCategory;
+  framework?: string;
+  intervalDays: number;
+  leadDays: number;
+  isDefault: boolean;
+}
+
+export interface ReviewSchedule {
+  intervalDays: number;
+  leadDays: number;
+  source: 'framework' | 'category' | 'default';
+  reviewedFrom: Date;
+  dueDate: Date;
+}
+
+export interface OverdueReview {
+  policyId: string;
+  title: string;
+  category: PolicyCategory;
+  framework: string | null;
+  owner: { id: string; email: string; firstName: string; lastName: string };
+  lastReviewed: Date | null;
+  dueDate: Date;
+  daysOverdue: number;
+  taskId: string | null;
+}
+
+interface ReviewablePolicy {
+  id: string;
+  category: PolicyCategory;
+  complianceFramework: string | null;
+  lastReviewed: Date | null;
+  approvedAt: Date | null;
+  createdAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LEAD_DAYS = 30;
+
+// Used when an organization has not configured a ReviewCycle for a category
+const DEFAULT_INTERVALS: Record<PolicyCategory, number> = {
+  PRIVACY: 180,
+  SECURITY: 90,
+  COMPLIANCE: 180,
+  HR: 365,
+  IT: 180,
+  FINANCE: 365,
+  OTHER: 365
+};
+
+const REVIEW_MANAGER_ROLES = ['ADMIN', 'POLICY_MANAGER'];
+
+const POLICY_SELECT = {
+  id: true,
+  title: true,
+  category: true,
+  complianceFramework: true,
+  lastReviewed: true,
+  approvedAt: true,
+  createdAt: true,
+  version: true,
+  authorId: true
+};
+
+const OWNER_SELECT = { id: true, email: true, firstName: true, lastName: true };
+
+/**
+ * Periodic reviews of ACTIVE policies. A policy is due one review interval
+ * after it was last reviewed (or approved); the interval comes from its
+ * framework's cycle, else its category's. Review tasks are opened for the
+ * policy author once the due date is within the cycle's lead time.
+ */
+export class PolicyReviews {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  async listCycles(): Promise<ReviewCycleConfig[]> {
+    const configured = await this.prisma.reviewCycle.findMany({
+      where: { organizationId: requireOrganizationId() },
+      orderBy: { framework: 'asc' }
+    });
+    const byCategory = new Map(configured.filter(c => c.category).map(c => [c.category, c]));
+
+    const categories = (Object.keys(DEFAULT_INTERVALS) as PolicyCategory[]).map(category => {
+      const row = byCategory.get(category);
+      return row
+        ? { category, intervalDays: row.intervalDays, leadDays: row.leadDays, isDefault: false }
+        : { category, intervalDays: DEFAULT_INTERVALS[category], leadDays: DEFAULT_LEAD_DAYS, isDefault: true };
+    });
+
+    const frameworks = configured
+      .filter(c => c.framework)
+      .map(c => ({ framework: c.framework!, intervalDays: c.intervalDays, leadDays: c.leadDays, isDefault: false }));
+
+    return [...categories, ...frameworks];
+  }
+
+  async setCycle(
+    target: { category: PolicyCategory } | { framework: string },
+    settings: { intervalDays: number; leadDays?: number },
+    actor: WorkflowActor
+  ): Promise<ReviewCycleConfig> {
+    const { intervalDays, leadDays = DEFAULT_LEAD_DAYS } = settings;
+    const organizationId = requireOrganizationId();
+    const where = 'category' in target ? { category: target.category } : { framework: target.framework };
+
+    const cycle = await this.prisma.reviewCycle.upsert({
+      where: 'category' in target
+        ? { organizationId_category: { organizationId, category: target.category } }
+        : { organizationId_framework: { organizationId, framework: target.framework } },
+      create: { organizationId, ...where, intervalDays, leadDays },
+      update: { intervalDays, leadDays }
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'UPDATE_REVIEW_CYCLE',
+        entityType: 'REVIEW_CYCLE',
+        entityId: cycle.id,
+        userId: actor.userId,
+        details: { ...where, intervalDays, leadDays }
+      }
+    });
+
+    return { ...where, intervalDays, leadDays, isDefault: false };
+  }
+
+  /**
+   * Opens a review task for every ACTIVE policy that is within its lead time
+   * and has no pending task. Safe to call repeatedly.
+   */
+  async openDueReviews(now: Date = new Date()): Promise<string[]> {
+    const [policies, pending, cycles] = await Promise.all([
+      this.prisma.policy.findMany({ where: { status: 'ACTIVE' }, select: POLICY_SELECT }),
+      this.prisma.policyReview.findMany({ where: { status: 'PENDING' }, select: { policyId: true } }),
+      this.prisma.reviewCycle.findMany()
+    ]);
+    const open = new Set(pending.map(review => review.policyId));
+    const opened: string[] = [];
+
+    for (const policy of policies) {
+      if (open.has(policy.id)) continue;
+
+      const schedule = this.scheduleFor(policy, cycles);
+      if (schedule.dueDate.getTime() - schedule.leadDays * DAY_MS > now.getTime()) continue;
+
+      await this.prisma.$transaction([
+        this.prisma.policyReview.create({
+          data: {
+            policyId: policy.id,
+            version: policy.version,
+            assigneeId: policy.authorId,
+            dueDate: schedule.dueDate,
+            status: 'PENDING'
+          }
+        }),
+        this.prisma.auditLog.create({
+          data: {
+            action: 'OPEN_POLICY_REVIEW',
+            entityType: 'POLICY',
+            entityId: policy.id,
+            details: {
+              assigneeId: policy.authorId,
+              dueDate: schedule.dueDate.toISOString(),
+              intervalDays: schedule.intervalDays,
+              automatic: true
+            }
+          }
+        })
+      ]);
+      opened.push(policy.id);
+    }
+
+    if (opened.length > 0) {
+      logger.info(`Opened ${opened.length} policy review tasks`);
+    }
+    return opened;
+  }
+
+  /**
+   * Pending review tasks, soonest due first. Without `assigneeId` every
+   * pending task is listed.
+   */
+  async queue(assigneeId?: string, now: Date = new Date()) {
+    await this.openDueReviews(now);
+
+    const tasks = await this.prisma.policyReview.findMany({
+      where: { status: 'PENDING', ...(assigneeId ? { assigneeId } : {}) },
+      include: {
+        policy: { select: { id: true, title: true, category: true, complianceFramework: true, lastReviewed: true } },
+        assignee: { select: OWNER_SELECT }
+      },
+      orderBy: { dueDate: 'asc' }
+    });
+
+    return tasks.map(task => ({ ...task, overdue: task.dueDate < now }));
+  }
+
+  async history(policyId: string) {
+    return this.prisma.policyReview.findMany({
+      where: { policyId },
+      include: {
+        assignee: { select: OWNER_SELECT },
+        completedBy: { select: OWNER_SELECT }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Records a completed review: closes the pending task (or records one if
+   * the review happened ahead of the queue) and moves `lastReviewed` to now.
+   */
+  async markReviewed(policyId: string, actor: WorkflowActor, notes: string, now: Date = new Date()) {
+    const policy = await this.prisma.policy.findUnique({
+      where: { id: policyId },
+      select: { ...POLICY_SELECT, status: true }
+    });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+    if (policy.status !== 'ACTIVE') {
+      throw new HttpError(409, 'Only active policies are reviewed');
+    }
+
+    const task = await this.prisma.policyReview.findFirst({
+      where: { policyId, status: 'PENDING' },
+      orderBy: { dueDate: 'asc' }
+    });
+
+    const allowed =
+      REVIEW_MANAGER_ROLES.includes(actor.role) ||
+      policy.authorId === actor.userId ||
+      task?.assigneeId === actor.userId;
+    if (!allowed) {
+      throw new HttpError(403, 'Insufficient permissions to review this policy');
+    }
+
+    const completion = { status: 'COMPLETED', notes, completedById: actor.userId, completedAt: now };
+    const cycles = await this.prisma.reviewCycle.findMany();
+    const next = this.scheduleFor({ ...policy, lastReviewed: now }, cycles);
+
+    const [review] = await this.prisma.$transaction([
+      task
+        ? this.prisma.policyReview.update({ where: { id: task.id }, data: completion })
+        : this.prisma.policyReview.create({
+            data: {
+              policyId,
+              version: policy.version,
+              assigneeId: actor.userId,
+              dueDate: this.scheduleFor(policy, cycles).dueDate,
+              ...completion
+            }
+          }),
+      this.prisma.policy.update({ where: { id: policyId }, data: { lastReviewed: now } }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'REVIEW_POLICY',
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId: actor.userId,
+          details: {
+            version: policy.version,
+            notes,
+            previousReview: policy.lastReviewed?.toISOString() ?? null,
+            nextReviewDue: next.dueDate.toISOString()
+          }
+        }
+      })
+    ]);
+
+    return { review, lastReviewed: now, nextReviewDue: next.dueDate };
+  }
+
+  /**
+   * ACTIVE policies past their review due date, most overdue first, with
+   * counts per category and framework.
+   */
+  async overdue(now: Date = new Date()) {
+    await this.openDueReviews(now);
+
+    const [policies, cycles, pending] = await Promise.all([
+      this.prisma.policy.findMany({
+        where: { status: 'ACTIVE' },
+        select: { ...POLICY_SELECT, author: { select: OWNER_SELECT } }
+      }),
+      this.prisma.reviewCycle.findMany(),
+      this.prisma.policyReview.findMany({ where: { status: 'PENDING' }, select: { id: true, policyId: true } })
+    ]);
+    const tasks = new Map(pending.map(task => [task.policyId, task.id]));
+
+    const overdue: OverdueReview[] = policies
+      .map(policy => ({ policy, dueDate: this.scheduleFor(policy, cycles).dueDate }))
+      .filter(({ dueDate }) => dueDate < now)
+      .map(({ policy, dueDate }) => ({
+        policyId: policy.id,
+        title: policy.title,
+        category: policy.category,
+        framework: policy.complianceFramework,
+        owner: policy.author,
+        lastReviewed: policy.lastReviewed,
+        dueDate,
+        daysOverdue: Math.floor((now.getTime() - dueDate.getTime()) / DAY_MS),
+        taskId: tasks.get(policy.id) ?? null
+      }))
+      .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+    const count = (key: (review: OverdueReview) => string | null) =>
+      overdue.reduce<Record<string, number>>((counts, review) => {
+        const value = key(review);
+        if (value) counts[value] = (counts[value] || 0) + 1;
+        return counts;
+      }, {});
+
+    return {
+      total: overdue.length,
+      activePolicies: policies.length,
+      byCategory: count(review => review.category),
+      byFramework: count(review => review.framework),
+      policies: overdue
+    };
+  }
+
+  scheduleFor(
+    policy: ReviewablePolicy,
+    cycles: { category: PolicyCategory | null; framework: string | null; intervalDays: number; leadDays: number }[]
+  ): ReviewSchedule {
+    const framework = policy.complianceFramework
+      ? cycles.find(cycle => cycle.framework === policy.complianceFramework)
+      : undefined;
+    const category = cycles.find(cycle => cycle.category === policy.category);
+    const cycle = framework || category;
+
+    const intervalDays = cycle ? cycle.intervalDays : DEFAULT_INTERVALS[policy.category];
+    const reviewedFrom = policy.lastReviewed || policy.approvedAt || policy.createdAt;
+
+    return {
+      intervalDays,
+      leadDays: cycle ? cycle.leadDays : DEFAULT_LEAD_DAYS,
+      source: framework ? 'framework' : category ? 'category' : 'default',
+      reviewedFrom,
+      dueDate: new Date(reviewedFrom.getTime() + intervalDays * DAY_MS)
+    };
+  }
+}
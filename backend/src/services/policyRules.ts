@@ -0,0 +1,23 @@
+import { compileRules, CompiledRules } from '../rules';
+import { HttpError } from '../utils/errors';
+
+export class PolicyRules {
+  validate(source: string): CompiledRules {
+    return compileRules(source);
+  }
+
+  /**
+   * Rejects malformed rule sections before they are saved. Each diagnostic
+   * carries the line, column and offset of the problem.
+   */
+  assertValid(source: string | null | undefined): void {
+    if (!source || source.trim() === '') {
+      return;
+    }
+
+    const { errors } = this.validate(source);
+    if (errors.length > 0) {
+      throw new HttpError(400, 'Invalid policy rules', { details: errors });
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { PolicyStatus, Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { createPrismaClient } from '../utils/tenancy';
+import { PolicyExceptions } from './policyExceptions';
+
+export type ScheduledTransition = 'ACTIVATE' | 'EXPIRE';
+
+export interface UpcomingTransition {
+  policyId: string;
+  title: string;
+  category: string;
+  status: PolicyStatus;
+  transition: ScheduledTransition;
+  scheduledFor: Date;
+  overdue: boolean;
+}
+
+export interface SchedulerRunResult {
+  activated: string[];
+  expired: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Statuses a policy can expire from; approved policies past their end date never go live
+const EXPIRABLE_STATUSES: PolicyStatus[] = ['APPROVED', 'ACTIVE'];
+
+/**
+ * Applies date-driven status changes: APPROVED policies go ACTIVE on their
+ * effective date and ACTIVE/APPROVED policies go INACTIVE once expired.
+ * Each tick also expires policy exceptions past their end date.
+ */
+export class PolicyScheduler {
+  private prisma: PrismaClient;
+  private exceptions: PolicyExceptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.exceptions = new PolicyExceptions();
+  }
+
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const tick = () => {
+      this.runOnce().catch(error => logger.error('Policy scheduler run failed:', error));
+      this.exceptions.expireDue().catch(error => logger.error('Policy exception expiry failed:', error));
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+    tick();
+
+    logger.info(`Policy scheduler started (every ${intervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Policy scheduler stopped');
+    }
+  }
+
+  async runOnce(now: Date = new Date()): Promise<SchedulerRunResult> {
+    const result: SchedulerRunResult = { activated: [], expired: [] };
+
+    // Skip the tick if the previous run is still in progress
+    if (this.running) {
+      return result;
+    }
+    this.running = true;
+
+    try {
+      const expiring = await this.prisma.policy.findMany({
+        where: {
+          status: { in: EXPIRABLE_STATUSES },
+          expirationDate: { lte: now }
+        },
+        select: { id: true, status: true, expirationDate: true, version: true, organizationId: true }
+      });
+
+      for (const policy of expiring) {
+        const changed = await this.transition(policy, policy.status, 'INACTIVE', 'AUTO_EXPIRE_POLICY', {
+          version: policy.version,
+          expirationDate: policy.expirationDate?.toISOString() ?? null
+        });
+        if (changed) result.expired.push(policy.id);
+      }
+
+      const activating = await this.prisma.policy.findMany({
+        where: {
+          status: 'APPROVED',
+          effectiveDate: { lte: now },
+          OR: [{ expirationDate: null }, { expirationDate: { gt: now } }]
+        },
+        select: { id: true, effectiveDate: true, version: true, approvedById: true, organizationId: true }
+      });
+
+      for (const policy of activating) {
+        const changed = await this.transition(policy, 'APPROVED', 'ACTIVE', 'AUTO_ACTIVATE_POLICY', {
+          version: policy.version,
+          effectiveDate: policy.effectiveDate.toISOString(),
+          approvedById: policy.approvedById
+        });
+        if (changed) result.activated.push(policy.id);
+      }
+
+      if (result.activated.length > 0 || result.expired.length > 0) {
+        logger.info(
+          `Policy scheduler activated ${result.activated.length} and expired ${result.expired.length} policies`
+        );
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Policies due to activate or expire within the next `days` days,
+   * including any that are already due but not yet processed.
+   */
+  async upcomingTransitions(days = 7, now: Date = new Date()): Promise<UpcomingTransition[]> {
+    const until = new Date(now.getTime() + days * DAY_MS);
+    const select = {
+      id: true,
+      title: true,
+      category: true,
+      status: true,
+      effectiveDate: true,
+      expirationDate: true
+    };
+
+    const [activations, expirations] = await Promise.all([
+      this.prisma.policy.findMany({
+        where: { status: 'APPROVED', effectiveDate: { lte: until } },
+        select
+      }),
+      this.prisma.policy.findMany({
+        where: { status: { in: EXPIRABLE_STATUSES }, expirationDate: { lte: until } },
+        select
+      })
+    ]);
+
+    const transitions: UpcomingTransition[] = [
+      ...activations
+        .filter(policy => !policy.expirationDate || policy.expirationDate > policy.effectiveDate)
+        .map(policy => this.toTransition(policy, 'ACTIVATE', policy.effectiveDate, now)),
+      ...expirations.map(policy => this.toTransition(policy, 'EXPIRE', policy.expirationDate as Date, now))
+    ];
+
+    return transitions.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+  }
+
+  // Runs outside any request, so the policy's organization is set explicitly
+  private async transition(
+    policy: { id: string; organizationId: string | null },
+    from: PolicyStatus,
+    to: PolicyStatus,
+    action: string,
+    details: Prisma.InputJsonObject
+  ): Promise<boolean> {
+    return this.prisma.$transaction(async tx => {
+      // Guard on the expected status so a concurrent manual change wins
+      const { count } = await tx.policy.updateMany({
+        where: { id: policy.id, status: from },
+        data: { status: to }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action,
+          entityType: 'POLICY',
+          entityId: policy.id,
+          organizationId: policy.organizationId ?? null,
+          details: { ...details, from, to, automatic: true }
+        }
+      });
+
+      return true;
+    });
+  }
+
+  private toTransition(
+    policy: { id: string; title: string; category: string; status: PolicyStatus },
+    transition: ScheduledTransition,
+    scheduledFor: Date,
+    now: Date
+  ): UpcomingTransition {
+    return {
+      policyId: policy.id,
+      title: policy.title,
+      category: policy.category,
+      status: policy.status,
+      transition,
+      scheduledFor,
+      overdue: scheduledFor <= now
+    };
+  }
+}
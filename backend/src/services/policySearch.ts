@@ -0,0 +1,147 @@
+import { PrismaClient } from '@prisma/client';
+import { toTsQuery } from '../utils/searchQuery';
+import { HttpError } from '../utils/errors';
+import { createPrismaClient, currentOrganizationId } from '../utils/tenancy';
+
+export interface SearchOptions {
+  includeVersions?: boolean;
+}
+
+export interface SearchMatch {
+  policyId: string;
+  rank: number;
+  // Earlier versions whose text matched; the current version is not listed
+  matchedVersions: number[];
+}
+
+export interface SearchHighlight {
+  title: string;
+  snippet: string;
+  versions: { version: number; snippet: string }[];
+}
+
+// Upper bound on ranked ids fed back into the Prisma query
+const MAX_MATCHES = 1000;
+
+// Policies found only through an earlier version rank below direct matches
+const ARCHIVED_MATCH_WEIGHT = 0.5;
+
+const TITLE_HEADLINE = 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>';
+const SNIPPET_HEADLINE = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=10, MaxWords=30, FragmentDelimiter=" … "';
+
+/**
+ * Postgres full-text search over the generated `search_vector` columns on
+ * policies and policy_versions (title weighted over description over content).
+ */
+export class PolicySearch {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  parse(input: string): string {
+    const query = toTsQuery(input);
+
+    if (!query) {
+      throw new HttpError(400, 'Search query must contain at least one word');
+    }
+
+    return query;
+  }
+
+  /**
+   * Matching policy ids, most relevant first.
+   */
+  async rank(input: string, options: SearchOptions = {}): Promise<SearchMatch[]> {
+    const query = this.parse(input);
+    // Raw queries bypass the tenant-scoped client, so the organization is filtered here
+    const organizationId = currentOrganizationId();
+
+    const direct = await this.prisma.$queryRaw<{ id: string; rank: number }[]>`
+      SELECT p."id", ts_rank_cd(p."search_vector", q) AS rank
+      FROM "policies" p, to_tsquery('english', ${query}) q
+      WHERE p."search_vector" @@ q
+        AND (${organizationId}::text IS NULL OR p."organizationId" = ${organizationId})
+      ORDER BY rank DESC
+      LIMIT ${MAX_MATCHES}
+    `;
+
+    const matches = new Map<string, SearchMatch>(
+      direct.map(row => [row.id, { policyId: row.id, rank: Number(row.rank), matchedVersions: [] }])
+    );
+
+    if (options.includeVersions) {
+      const archived = await this.prisma.$queryRaw<{ policyId: string; version: number; rank: number }[]>`
+        SELECT v."policyId", v."version", ts_rank_cd(v."search_vector", q) AS rank
+        FROM "policy_versions" v
+        JOIN "policies" p ON p."id" = v."policyId", to_tsquery('english', ${query}) q
+        WHERE v."search_vector" @@ q AND v."version" < p."version"
+          AND (${organizationId}::text IS NULL OR p."organizationId" = ${organizationId})
+        ORDER BY rank DESC
+        LIMIT ${MAX_MATCHES}
+      `;
+
+      for (const row of archived) {
+        const rank = Number(row.rank) * ARCHIVED_MATCH_WEIGHT;
+        const match = matches.get(row.policyId);
+
+        if (match) {
+          match.matchedVersions.push(row.version);
+        } else if (matches.size < MAX_MATCHES) {
+          matches.set(row.policyId, { policyId: row.policyId, rank, matchedVersions: [row.version] });
+        }
+      }
+    }
+
+    return Array.from(matches.values()).sort((a, b) => b.rank - a.rank);
+  }
+
+  /**
+   * Highlighted title and content snippets (matches wrapped in <mark>) for
+   * the given policies, plus snippets from matching earlier versions.
+   */
+  async highlight(
+    policyIds: string[],
+    input: string,
+    options: SearchOptions = {}
+  ): Promise<Record<string, SearchHighlight>> {
+    if (policyIds.length === 0) {
+      return {};
+    }
+
+    const query = this.parse(input);
+
+    const rows = await this.prisma.$queryRaw<{ id: string; title: string; snippet: string }[]>`
+      SELECT p."id",
+        ts_headline('english', p."title", q, ${TITLE_HEADLINE}) AS title,
+        ts_headline('english', p."content", q, ${SNIPPET_HEADLINE}) AS snippet
+      FROM "policies" p, to_tsquery('english', ${query}) q
+      WHERE p."id" = ANY(${policyIds}::text[])
+    `;
+
+    const highlights: Record<string, SearchHighlight> = {};
+    for (const row of rows) {
+      highlights[row.id] = { title: row.title, snippet: row.snippet, versions: [] };
+    }
+
+    if (options.includeVersions) {
+      const versions = await this.prisma.$queryRaw<{ policyId: string; version: number; snippet: string }[]>`
+        SELECT v."policyId", v."version",
+          ts_headline('english', v."content", q, ${SNIPPET_HEADLINE}) AS snippet
+        FROM "policy_versions" v
+        JOIN "policies" p ON p."id" = v."policyId", to_tsquery('english', ${query}) q
+        WHERE v."policyId" = ANY(${policyIds}::text[])
+          AND v."search_vector" @@ q
+          AND v."version" < p."version"
+        ORDER BY v."version" DESC
+      `;
+
+      for (const row of versions) {
+        highlights[row.policyId]?.versions.push({ version: row.version, snippet: row.snippet });
+      }
+    }
+
+    return highlights;
+  }
+}
@@ -0,0 +1,150 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { buildPolicyWhere, normalizeTags } from '../utils/policyFilters';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient } from '../utils/tenancy';
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export interface PolicyFacets {
+  category: Record<string, number>;
+  status: Record<string, number>;
+  framework: Record<string, number>;
+  tags: Record<string, number>;
+}
+
+export class PolicyTags {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Every tag in use with the number of policies carrying it, most used first.
+   */
+  async listTags(where: Prisma.PolicyWhereInput = {}): Promise<TagUsage[]> {
+    const policies = await this.prisma.policy.findMany({
+      where,
+      select: { tags: true }
+    });
+
+    return Object.entries(this.countTags(policies))
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  async renameTag(from: string, to: string, userId: string) {
+    return this.mergeTags([from], to, userId, 'RENAME_TAG');
+  }
+
+  /**
+   * Replaces each source tag with the target on every policy that uses it.
+   */
+  async mergeTags(sources: string[], target: string, userId: string, action = 'MERGE_TAGS') {
+    const [targetTag] = normalizeTags([target]);
+    const sourceTags = normalizeTags(sources).filter(tag => tag !== targetTag);
+
+    if (!targetTag) {
+      throw new HttpError(400, 'Target tag must not be empty');
+    }
+
+    if (sourceTags.length === 0) {
+      throw new HttpError(400, 'Provide at least one tag that differs from the target');
+    }
+
+    const affected = await this.prisma.$transaction(async tx => {
+      const policies = await tx.policy.findMany({
+        where: { tags: { hasSome: sourceTags } },
+        select: { id: true, tags: true }
+      });
+
+      if (policies.length === 0) {
+        throw new HttpError(404, `No policies are tagged ${sourceTags.join(', ')}`);
+      }
+
+      for (const policy of policies) {
+        const tags = normalizeTags(policy.tags.map(tag => (sourceTags.includes(tag) ? targetTag : tag)));
+        await tx.policy.update({
+          where: { id: policy.id },
+          data: { tags }
+        });
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action,
+          entityType: 'TAG',
+          entityId: targetTag,
+          userId,
+          details: {
+            sources: sourceTags,
+            target: targetTag,
+            policyIds: policies.map(policy => policy.id)
+          }
+        }
+      });
+
+      return policies.length;
+    }, { timeout: 60000 });
+
+    logger.info(`Merged tags ${sourceTags.join(', ')} into "${targetTag}" on ${affected} policies`);
+
+    return { sources: sourceTags, target: targetTag, updatedPolicies: affected };
+  }
+
+  /**
+   * Counts for each filter value. Each facet ignores its own filter so the
+   * client can show how many results selecting another value would give.
+   * `scope` restricts every count, e.g. to full-text search matches.
+   */
+  async getFacets(query: Record<string, any>, scope: Prisma.PolicyWhereInput = {}): Promise<PolicyFacets> {
+    const [category, status, framework, taggedPolicies] = await Promise.all([
+      this.prisma.policy.groupBy({
+        by: ['category'],
+        where: { ...buildPolicyWhere(query, 'category'), ...scope },
+        _count: { _all: true }
+      }),
+      this.prisma.policy.groupBy({
+        by: ['status'],
+        where: { ...buildPolicyWhere(query, 'status'), ...scope },
+        _count: { _all: true }
+      }),
+      this.prisma.policy.groupBy({
+        by: ['complianceFramework'],
+        where: { ...buildPolicyWhere(query, 'framework'), ...scope },
+        _count: { _all: true }
+      }),
+      this.prisma.policy.findMany({
+        where: { ...buildPolicyWhere(query, 'tags'), ...scope },
+        select: { tags: true }
+      })
+    ]);
+
+    return {
+      category: Object.fromEntries(category.map(row => [row.category, row._count._all])),
+      status: Object.fromEntries(status.map(row => [row.status, row._count._all])),
+      framework: Object.fromEntries(
+        framework
+          .filter(row => row.complianceFramework)
+          .map(row => [row.complianceFramework as string, row._count._all])
+      ),
+      tags: this.countTags(taggedPolicies)
+    };
+  }
+
+  private countTags(policies: { tags: string[] }[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+
+    for (const policy of policies) {
+      for (const tag of policy.tags) {
+        counts[tag] = (counts[tag] || 0) + 1;
+      }
+    }
+
+    return counts;
+  }
+}
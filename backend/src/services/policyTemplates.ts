@@ -0,0 +1,414 @@
+import { PolicyCategory, Prisma, PrismaClient } from '@prisma/client';
+import { createPolicySchema } from '../validators/policy';
+import { HttpError } from '../utils/errors';
+import { normalizeTags } from '../utils/policyFilters';
+import { logger } from '../utils/logger';
+import { PolicyVersioning } from './policyVersioning';
+import { createPrismaClient } from '../utils/tenancy';
+
+export interface TemplateVariable {
+  name: string;
+  label?: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+}
+
+export interface TemplateDefinition {
+  titleTemplate: string;
+  descriptionTemplate: string;
+  body: string;
+  variables: TemplateVariable[];
+}
+
+export interface CreateTemplateInput extends TemplateDefinition {
+  name: string;
+  description: string;
+  category: PolicyCategory;
+  framework?: string;
+}
+
+export interface InstantiateInput {
+  variables: Record<string, string>;
+  effectiveDate: string;
+  expirationDate?: string;
+  tags?: string[];
+}
+
+// Markdown headings every template for a framework must contain
+export const FRAMEWORK_REQUIRED_SECTIONS: Record<string, string[]> = {
+  SOX: ['Purpose', 'Scope', 'Roles and Responsibilities', 'Internal Controls', 'Segregation of Duties', 'Monitoring and Testing'],
+  GDPR: ['Purpose', 'Scope', 'Lawful Basis', 'Data Subject Rights', 'Data Retention', 'Breach Notification'],
+  HIPAA: ['Purpose', 'Scope', 'Administrative Safeguards', 'Physical Safeguards', 'Technical Safeguards', 'Breach Notification'],
+  ISO27001: ['Purpose', 'Scope', 'Roles and Responsibilities', 'Risk Assessment', 'Controls', 'Review and Improvement']
+};
+
+const BASE_REQUIRED_SECTIONS = ['Purpose', 'Scope'];
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+export class PolicyTemplates {
+  private prisma: PrismaClient;
+  private versioning: PolicyVersioning;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.versioning = new PolicyVersioning();
+  }
+
+  requiredSections(framework?: string | null): string[] {
+    return framework ? FRAMEWORK_REQUIRED_SECTIONS[framework] || BASE_REQUIRED_SECTIONS : BASE_REQUIRED_SECTIONS;
+  }
+
+  /**
+   * Lists required sections that have no matching markdown heading.
+   */
+  missingSections(body: string, framework?: string | null): string[] {
+    const headings = body
+      .split(/\r?\n/)
+      .map(line => line.match(/^\s*#{1,6}\s+(.+?)\s*#*\s*$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => match[1].toLowerCase());
+
+    return this.requiredSections(framework)
+      .filter(section => !headings.some(heading => heading.includes(section.toLowerCase())));
+  }
+
+  placeholders(text: string): string[] {
+    return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER), match => match[1])));
+  }
+
+  render(text: string, values: Record<string, string>): string {
+    return text.replace(PLACEHOLDER, (placeholder, name: string) =>
+      values[name] !== undefined ? values[name] : placeholder
+    );
+  }
+
+  /**
+   * Checks that every placeholder is declared, every declared variable is
+   * used and the body covers the framework's required sections.
+   */
+  validateDefinition(definition: TemplateDefinition, framework?: string | null): string[] {
+    const errors: string[] = [];
+    const declared = definition.variables.map(v => v.name);
+    const used = this.placeholders(
+      [definition.titleTemplate, definition.descriptionTemplate, definition.body].join('\n')
+    );
+
+    const undeclared = used.filter(name => !declared.includes(name));
+    if (undeclared.length > 0) {
+      errors.push(`Undeclared placeholders: ${undeclared.join(', ')}`);
+    }
+
+    const unused = declared.filter(name => !used.includes(name));
+    if (unused.length > 0) {
+      errors.push(`Variables not used in the template: ${unused.join(', ')}`);
+    }
+
+    const duplicates = declared.filter((name, index) => declared.indexOf(name) !== index);
+    if (duplicates.length > 0) {
+      errors.push(`Duplicate variables: ${Array.from(new Set(duplicates)).join(', ')}`);
+    }
+
+    const missing = this.missingSections(definition.body, framework);
+    if (missing.length > 0) {
+      errors.push(`Missing required ${framework || 'policy'} sections: ${missing.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  async listTemplates(filters: { framework?: string; category?: PolicyCategory; includeInactive?: boolean }) {
+    return this.prisma.policyTemplate.findMany({
+      where: {
+        framework: filters.framework,
+        category: filters.category,
+        isActive: filters.includeInactive ? undefined : true
+      },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: { select: { policies: true } }
+      }
+    });
+  }
+
+  async getTemplate(templateId: string) {
+    const template = await this.prisma.policyTemplate.findUnique({
+      where: { id: templateId },
+      include: {
+        versions: { orderBy: { version: 'desc' } },
+        createdBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true
+          }
+        }
+      }
+    });
+
+    if (!template) {
+      throw new HttpError(404, 'Template not found');
+    }
+
+    return template;
+  }
+
+  async createTemplate(input: CreateTemplateInput, userId: string) {
+    this.assertValidDefinition(input, input.framework);
+
+    const template = await this.prisma.policyTemplate.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        category: input.category,
+        framework: input.framework,
+        currentVersion: 1,
+        createdById: userId,
+        versions: {
+          create: {
+            version: 1,
+            titleTemplate: input.titleTemplate,
+            descriptionTemplate: input.descriptionTemplate,
+            body: input.body,
+            variables: input.variables as unknown as Prisma.InputJsonValue,
+            changes: 'Initial version',
+            createdById: userId
+          }
+        }
+      },
+      include: { versions: true }
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'CREATE_TEMPLATE',
+        entityType: 'POLICY_TEMPLATE',
+        entityId: template.id,
+        userId,
+        details: { name: template.name, framework: template.framework }
+      }
+    });
+
+    return template;
+  }
+
+  /**
+   * Publishes a new template version; policies generated from earlier
+   * versions are reported as outdated.
+   */
+  async publishVersion(templateId: string, definition: TemplateDefinition, changes: string, userId: string) {
+    const template = await this.prisma.policyTemplate.findUnique({ where: { id: templateId } });
+
+    if (!template) {
+      throw new HttpError(404, 'Template not found');
+    }
+
+    this.assertValidDefinition(definition, template.framework);
+    const version = template.currentVersion + 1;
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.policyTemplate.update({
+        where: { id: templateId },
+        data: { currentVersion: version }
+      }),
+      this.prisma.policyTemplateVersion.create({
+        data: {
+          templateId,
+          version,
+          titleTemplate: definition.titleTemplate,
+          descriptionTemplate: definition.descriptionTemplate,
+          body: definition.body,
+          variables: definition.variables as unknown as Prisma.InputJsonValue,
+          changes,
+          createdById: userId
+        }
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'UPDATE_TEMPLATE',
+          entityType: 'POLICY_TEMPLATE',
+          entityId: templateId,
+          userId,
+          details: { version, changes }
+        }
+      })
+    ]);
+
+    return updated;
+  }
+
+  async deactivateTemplate(templateId: string, userId: string) {
+    const existing = await this.prisma.policyTemplate.findUnique({ where: { id: templateId } });
+
+    if (!existing) {
+      throw new HttpError(404, 'Template not found');
+    }
+
+    const template = await this.prisma.policyTemplate.update({
+      where: { id: templateId },
+      data: { isActive: false }
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'DEACTIVATE_TEMPLATE',
+        entityType: 'POLICY_TEMPLATE',
+        entityId: templateId,
+        userId,
+        details: { name: template.name }
+      }
+    });
+
+    return template;
+  }
+
+  /**
+   * Renders the current template version with the supplied values and saves
+   * the result as a DRAFT policy linked back to the template version.
+   */
+  async instantiate(templateId: string, input: InstantiateInput, userId: string) {
+    const template = await this.prisma.policyTemplate.findUnique({ where: { id: templateId } });
+
+    if (!template || !template.isActive) {
+      throw new HttpError(404, 'Template not found');
+    }
+
+    const current = await this.prisma.policyTemplateVersion.findUnique({
+      where: { templateId_version: { templateId, version: template.currentVersion } }
+    });
+
+    if (!current) {
+      throw new HttpError(500, `Template version ${template.currentVersion} is missing`);
+    }
+
+    const definitions = current.variables as unknown as TemplateVariable[];
+    const values: Record<string, string> = {};
+    const missing: string[] = [];
+
+    for (const variable of definitions) {
+      const value = input.variables[variable.name] ?? variable.default;
+      if (value === undefined || value === '') {
+        if (variable.required !== false) {
+          missing.push(variable.name);
+        }
+        values[variable.name] = '';
+      } else {
+        values[variable.name] = value;
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new HttpError(400, 'Missing template variables', { missing });
+    }
+
+    const rendered = {
+      title: this.render(current.titleTemplate, values),
+      description: this.render(current.descriptionTemplate, values),
+      content: this.render(current.body, values),
+      category: template.category,
+      effectiveDate: input.effectiveDate,
+      expirationDate: input.expirationDate,
+      tags: input.tags
+    };
+
+    const { error } = createPolicySchema.validate(rendered, { abortEarly: false });
+    if (error) {
+      throw new HttpError(400, 'Rendered policy is invalid', {
+        details: error.details.map(detail => ({
+          field: detail.path.join('.'),
+          message: detail.message
+        }))
+      });
+    }
+
+    const policy = await this.prisma.$transaction(async tx => {
+      const created = await tx.policy.create({
+        data: {
+          title: rendered.title,
+          description: rendered.description,
+          content: rendered.content,
+          category: template.category,
+          complianceFramework: template.framework,
+          effectiveDate: new Date(input.effectiveDate),
+          expirationDate: input.expirationDate ? new Date(input.expirationDate) : null,
+          tags: normalizeTags(input.tags),
+          authorId: userId,
+          status: 'DRAFT',
+          version: 1,
+          templateId,
+          templateVersion: current.version
+        }
+      });
+
+      await this.versioning.recordVersion(
+        created,
+        userId,
+        `Generated from template "${template.name}" v${current.version}`,
+        tx
+      );
+
+      await tx.auditLog.create({
+        data: {
+          action: 'INSTANTIATE_TEMPLATE',
+          entityType: 'POLICY',
+          entityId: created.id,
+          userId,
+          details: { templateId, templateVersion: current.version, title: created.title }
+        }
+      });
+
+      return created;
+    });
+
+    logger.info(`Policy ${policy.id} generated from template ${templateId} v${current.version}`);
+    return policy;
+  }
+
+  /**
+   * Policies generated from a template version older than its current one.
+   */
+  async findOutdatedPolicies(templateId?: string) {
+    const templates = await this.prisma.policyTemplate.findMany({
+      where: templateId ? { id: templateId } : undefined,
+      select: {
+        id: true,
+        name: true,
+        currentVersion: true,
+        policies: {
+          where: { status: { not: 'ARCHIVED' } },
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            templateVersion: true
+          }
+        }
+      }
+    });
+
+    if (templateId && templates.length === 0) {
+      throw new HttpError(404, 'Template not found');
+    }
+
+    return templates.flatMap(template =>
+      template.policies
+        .filter(policy => (policy.templateVersion ?? 0) < template.currentVersion)
+        .map(policy => ({
+          ...policy,
+          templateId: template.id,
+          templateName: template.name,
+          currentTemplateVersion: template.currentVersion
+        }))
+    );
+  }
+
+  private assertValidDefinition(definition: TemplateDefinition, framework?: string | null): void {
+    const errors = this.validateDefinition(definition, framework);
+
+    if (errors.length > 0) {
+      throw new HttpError(400, 'Invalid template', { details: errors });
+    }
+  }
+}
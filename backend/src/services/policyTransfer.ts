@@ -0,0 +1,272 @@
+import { Policy, Prisma, PrismaClient } from '@prisma/client';
+import YAML from 'yaml';
+import { createPolicySchema } from '../validators/policy';
+import { HttpError } from '../utils/errors';
+import { normalizeTags } from '../utils/policyFilters';
+import { parseCsv, toCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+import { PolicyVersioning } from './policyVersioning';
+import { PolicyRules } from './policyRules';
+import { createPrismaClient } from '../utils/tenancy';
+
+export type TransferFormat = 'json' | 'yaml' | 'csv';
+
+export interface ImportOptions {
+  dryRun: boolean;
+  skipInvalid: boolean;
+}
+
+export interface ImportRowError {
+  row: number;
+  title?: string;
+  errors: { field: string; message: string }[];
+}
+
+export interface ImportReport {
+  format: TransferFormat;
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  errors: ImportRowError[];
+  policies: { id?: string; row: number; title: string }[];
+}
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Column order for CSV export; tags are joined with ';'
+const EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'content',
+  'category',
+  'status',
+  'version',
+  'effectiveDate',
+  'expirationDate',
+  'tags',
+  'complianceFramework',
+  'rules'
+];
+
+const CONTENT_TYPES: Record<TransferFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/x-yaml',
+  csv: 'text/csv'
+};
+
+export class PolicyTransfer {
+  private prisma: PrismaClient;
+  private versioning: PolicyVersioning;
+  private rules: PolicyRules;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.versioning = new PolicyVersioning();
+    this.rules = new PolicyRules();
+  }
+
+  /**
+   * Resolves the file format from an explicit value or the file extension.
+   */
+  detectFormat(filename?: string, explicit?: string): TransferFormat {
+    const candidate = (explicit || filename?.split('.').pop() || '').toLowerCase();
+
+    if (candidate === 'json') return 'json';
+    if (candidate === 'yaml' || candidate === 'yml') return 'yaml';
+    if (candidate === 'csv') return 'csv';
+
+    throw new HttpError(400, 'Unsupported format; use json, yaml or csv');
+  }
+
+  parse(text: string, format: TransferFormat): Record<string, any>[] {
+    let rows: any;
+
+    try {
+      if (format === 'csv') {
+        rows = parseCsv(text).map(record => ({
+          ...record,
+          tags: record.tags ? record.tags.split(';').map(tag => tag.trim()).filter(Boolean) : undefined
+        }));
+      } else {
+        const document = format === 'json' ? JSON.parse(text) : YAML.parse(text);
+        rows = Array.isArray(document) ? document : document?.policies;
+      }
+    } catch (error) {
+      throw new HttpError(400, `Could not parse ${format.toUpperCase()} file: ${(error as Error).message}`);
+    }
+
+    if (!Array.isArray(rows)) {
+      throw new HttpError(400, 'Expected a list of policies or an object with a "policies" list');
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new HttpError(413, `Imports are limited to ${MAX_IMPORT_ROWS} policies per file`);
+    }
+
+    return rows.map(row => this.normalizeRow(row));
+  }
+
+  async importPolicies(
+    text: string,
+    format: TransferFormat,
+    userId: string,
+    options: ImportOptions
+  ): Promise<ImportReport> {
+    const rows = this.parse(text, format);
+    const errors: ImportRowError[] = [];
+    const valid: { row: number; value: any }[] = [];
+
+    rows.forEach((raw, index) => {
+      const { error, value } = createPolicySchema.validate(raw, { abortEarly: false, stripUnknown: true });
+      const rowErrors = error
+        ? error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        : [];
+
+      if (!error && value.rules) {
+        for (const diagnostic of this.rules.validate(value.rules).errors) {
+          rowErrors.push({
+            field: 'rules',
+            message: `${diagnostic.message} (line ${diagnostic.line}, column ${diagnostic.column})`
+          });
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push({
+          row: index + 1,
+          title: typeof raw.title === 'string' ? raw.title : undefined,
+          errors: rowErrors
+        });
+      } else {
+        valid.push({ row: index + 1, value });
+      }
+    });
+
+    const report: ImportReport = {
+      format,
+      dryRun: options.dryRun,
+      total: rows.length,
+      valid: valid.length,
+      invalid: errors.length,
+      created: 0,
+      errors,
+      policies: valid.map(({ row, value }) => ({ row, title: value.title }))
+    };
+
+    // Imports are all-or-nothing unless the caller opts to skip bad rows
+    if (options.dryRun || valid.length === 0 || (errors.length > 0 && !options.skipInvalid)) {
+      return report;
+    }
+
+    const created = await this.prisma.$transaction(async tx => {
+      const policies: Policy[] = [];
+
+      for (const { value } of valid) {
+        const policy = await tx.policy.create({
+          data: {
+            title: value.title,
+            description: value.description,
+            content: value.content,
+            category: value.category,
+            effectiveDate: new Date(value.effectiveDate),
+            expirationDate: value.expirationDate ? new Date(value.expirationDate) : null,
+            tags: normalizeTags(value.tags),
+            rules: value.rules || null,
+            authorId: userId,
+            status: 'DRAFT',
+            version: 1
+          }
+        });
+
+        await this.versioning.recordVersion(policy, userId, `Imported from ${format.toUpperCase()}`, tx);
+
+        await tx.auditLog.create({
+          data: {
+            action: 'IMPORT_POLICY',
+            entityType: 'POLICY',
+            entityId: policy.id,
+            userId,
+            details: { title: policy.title, category: policy.category, format }
+          }
+        });
+
+        policies.push(policy);
+      }
+
+      return policies;
+    }, { timeout: 60000 });
+
+    logger.info(`Imported ${created.length} policies from ${format.toUpperCase()}`);
+
+    report.created = created.length;
+    report.policies = valid.map(({ row }, index) => ({
+      id: created[index].id,
+      row,
+      title: created[index].title
+    }));
+
+    return report;
+  }
+
+  async exportPolicies(where: Prisma.PolicyWhereInput, format: TransferFormat) {
+    const policies = await this.prisma.policy.findMany({
+      where,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const records = policies.map(policy => ({
+      id: policy.id,
+      title: policy.title,
+      description: policy.description,
+      content: policy.content,
+      category: policy.category,
+      status: policy.status,
+      version: policy.version,
+      effectiveDate: policy.effectiveDate.toISOString(),
+      expirationDate: policy.expirationDate ? policy.expirationDate.toISOString() : null,
+      tags: policy.tags,
+      complianceFramework: policy.complianceFramework,
+      rules: policy.rules
+    }));
+
+    let body: string;
+    if (format === 'csv') {
+      body = toCsv(EXPORT_COLUMNS, records.map(record => ({ ...record, tags: record.tags.join(';') })));
+    } else {
+      const document = { exportedAt: new Date().toISOString(), count: records.length, policies: records };
+      body = format === 'json' ? JSON.stringify(document, null, 2) : YAML.stringify(document);
+    }
+
+    return {
+      body,
+      count: records.length,
+      contentType: CONTENT_TYPES[format],
+      filename: `policies-${new Date().toISOString().slice(0, 10)}.${format}`
+    };
+  }
+
+  /**
+   * Spreadsheet and YAML sources use empty strings and nulls for missing
+   * values; drop them so optional fields validate cleanly.
+   */
+  private normalizeRow(row: any): Record<string, any> {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      return {};
+    }
+
+    const normalized: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (value === null || value === undefined || value === '') {
+        continue;
+      }
+      normalized[key] = value instanceof Date ? value.toISOString() : value;
+    }
+    return normalized;
+  }
+}
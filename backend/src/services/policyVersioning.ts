@@ -0,0 +1,257 @@
+import { Policy, Prisma, PrismaClient } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { diffFields, diffLines } from '../utils/diff';
+import { logger } from '../utils/logger';
+import { PolicyWorkflow } from './policyWorkflow';
+import { createPrismaClient } from '../utils/tenancy';
+
+type PrismaExecutor = PrismaClient | Prisma.TransactionClient;
+
+export interface PolicySnapshot {
+  title: string;
+  description: string;
+  category: string;
+  effectiveDate: string;
+  expirationDate: string | null;
+  tags: string[];
+  complianceFramework: string | null;
+  rules: string | null;
+}
+
+// Fields captured alongside content on every version
+const SNAPSHOT_FIELDS: (keyof PolicySnapshot)[] = [
+  'title',
+  'description',
+  'category',
+  'effectiveDate',
+  'expirationDate',
+  'tags',
+  'complianceFramework',
+  'rules'
+];
+
+// Tags are catalog labels rather than reviewed content; changing only them keeps the version
+const VERSIONED_FIELDS = ['content', ...SNAPSHOT_FIELDS.filter(field => field !== 'tags')];
+
+export class PolicyVersioning {
+  private prisma: PrismaClient;
+  private workflow: PolicyWorkflow;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.workflow = new PolicyWorkflow();
+  }
+
+  snapshot(policy: Policy): PolicySnapshot {
+    return {
+      title: policy.title,
+      description: policy.description,
+      category: policy.category,
+      effectiveDate: policy.effectiveDate.toISOString(),
+      expirationDate: policy.expirationDate ? policy.expirationDate.toISOString() : null,
+      tags: policy.tags || [],
+      complianceFramework: policy.complianceFramework,
+      rules: policy.rules ?? null
+    };
+  }
+
+  /**
+   * Builds a summary such as "Updated title, content" by comparing two
+   * states of the same policy.
+   */
+  summarizeChanges(before: Policy, after: Policy): string {
+    const changed = this.diff(before, after).map(change => change.field);
+
+    return changed.length > 0 ? `Updated ${changed.join(', ')}` : 'No content changes';
+  }
+
+  /**
+   * Fields whose change makes a new version; an update that changes none of
+   * them is recorded on the current one.
+   */
+  versionedChanges(before: Policy, after: Policy): string[] {
+    return this.diff(before, after)
+      .map(change => change.field)
+      .filter(field => VERSIONED_FIELDS.includes(field));
+  }
+
+  async recordVersion(
+    policy: Policy,
+    createdById: string,
+    changes: string,
+    client: PrismaExecutor = this.prisma
+  ) {
+    return client.policyVersion.create({
+      data: {
+        policyId: policy.id,
+        version: policy.version,
+        content: policy.content,
+        changes,
+        snapshot: this.snapshot(policy) as unknown as Prisma.InputJsonValue,
+        createdById
+      }
+    });
+  }
+
+  /**
+   * Policies created before version history was recorded have no row for
+   * their current version; capture it before it is overwritten.
+   */
+  async ensureBaseline(policy: Policy, client: PrismaExecutor = this.prisma): Promise<void> {
+    const existing = await client.policyVersion.findUnique({
+      where: { policyId_version: { policyId: policy.id, version: policy.version } }
+    });
+
+    if (!existing) {
+      await this.recordVersion(policy, policy.authorId, 'Baseline snapshot', client);
+    }
+  }
+
+  async listVersions(policyId: string) {
+    await this.loadPolicy(policyId);
+
+    return this.prisma.policyVersion.findMany({
+      where: { policyId },
+      orderBy: { version: 'desc' },
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true
+          }
+        }
+      }
+    });
+  }
+
+  async diffVersions(policyId: string, fromVersion: number, toVersion: number) {
+    const [from, to] = await Promise.all([
+      this.loadVersion(policyId, fromVersion),
+      this.loadVersion(policyId, toVersion)
+    ]);
+
+    const lines = diffLines(from.content, to.content);
+    const fields = diffFields(
+      this.snapshotFields(from.snapshot),
+      this.snapshotFields(to.snapshot)
+    );
+
+    return {
+      policyId,
+      from: { version: from.version, createdAt: from.createdAt, changes: from.changes },
+      to: { version: to.version, createdAt: to.createdAt, changes: to.changes },
+      fields,
+      lines,
+      stats: {
+        added: lines.filter(l => l.type === 'added').length,
+        removed: lines.filter(l => l.type === 'removed').length,
+        unchanged: lines.filter(l => l.type === 'equal').length
+      }
+    };
+  }
+
+  /**
+   * Restores the content and metadata of an old version as a new version;
+   * history is never rewritten.
+   */
+  async rollback(policyId: string, targetVersion: number, userId: string) {
+    const policy = await this.loadPolicy(policyId);
+    const target = await this.loadVersion(policyId, targetVersion);
+
+    if (target.version === policy.version) {
+      throw new HttpError(409, `Policy is already at version ${targetVersion}`);
+    }
+
+    const restored = this.snapshotFields(target.snapshot) as Partial<PolicySnapshot>;
+
+    const updated = await this.prisma.$transaction(async tx => {
+      await this.ensureBaseline(policy, tx);
+
+      const next = await tx.policy.update({
+        where: { id: policyId },
+        data: {
+          content: target.content,
+          title: restored.title,
+          description: restored.description,
+          category: restored.category as Policy['category'] | undefined,
+          effectiveDate: restored.effectiveDate ? new Date(restored.effectiveDate) : undefined,
+          expirationDate: restored.expirationDate !== undefined
+            ? (restored.expirationDate ? new Date(restored.expirationDate) : null)
+            : undefined,
+          tags: restored.tags,
+          complianceFramework: restored.complianceFramework,
+          rules: restored.rules,
+          ...this.workflow.editReset(policy.status),
+          version: { increment: 1 }
+        }
+      });
+
+      await this.recordVersion(next, userId, `Rolled back to version ${targetVersion}`, tx);
+
+      await tx.auditLog.create({
+        data: {
+          action: 'ROLLBACK_POLICY',
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId,
+          details: {
+            fromVersion: policy.version,
+            restoredVersion: targetVersion,
+            newVersion: next.version,
+            status: next.status
+          }
+        }
+      });
+
+      return next;
+    });
+
+    logger.info(`Policy ${policyId} rolled back to v${targetVersion} as v${updated.version}`);
+    return updated;
+  }
+
+  private diff(before: Policy, after: Policy) {
+    return diffFields(
+      { ...this.snapshot(before), content: before.content },
+      { ...this.snapshot(after), content: after.content }
+    );
+  }
+
+  private snapshotFields(snapshot: Prisma.JsonValue | null): Record<string, any> {
+    if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+      return {};
+    }
+
+    const fields: Record<string, any> = {};
+    for (const field of SNAPSHOT_FIELDS) {
+      if (field in snapshot) {
+        fields[field] = (snapshot as Record<string, any>)[field];
+      }
+    }
+    return fields;
+  }
+
+  private async loadPolicy(policyId: string): Promise<Policy> {
+    const policy = await this.prisma.policy.findUnique({ where: { id: policyId } });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    return policy;
+  }
+
+  private async loadVersion(policyId: string, version: number) {
+    const row = await this.prisma.policyVersion.findUnique({
+      where: { policyId_version: { policyId, version } }
+    });
+
+    if (!row) {
+      throw new HttpError(404, `Version ${version} not found for this policy`);
+    }
+
+    return row;
+  }
+}
@@ -0,0 +1,404 @@
+import { Policy, PolicyCategory, PolicyStatus, PrismaClient, UserRole } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient, currentOrganizationId, requireOrganizationId } from '../utils/tenancy';
+
+export type WorkflowAction = 'SUBMIT' | 'APPROVE' | 'REJECT' | 'ACTIVATE';
+
+export interface WorkflowActor {
+  userId: string;
+  role: string;
+}
+
+export interface ApprovalRequirementConfig {
+  category: PolicyCategory;
+  requiredApprovals: number;
+  approverRoles: UserRole[];
+  isDefault: boolean;
+}
+
+interface ApprovalOutcome {
+  policy: Policy;
+  approvals: number;
+  requiredApprovals: number;
+  fullyApproved: boolean;
+}
+
+// Used when an organization has not configured an ApprovalRequirement for a category
+const DEFAULT_REQUIREMENTS: Record<PolicyCategory, { requiredApprovals: number; approverRoles: UserRole[] }> = {
+  PRIVACY: { requiredApprovals: 2, approverRoles: ['ADMIN', 'POLICY_MANAGER', 'AUDITOR'] },
+  SECURITY: { requiredApprovals: 2, approverRoles: ['ADMIN', 'POLICY_MANAGER'] },
+  COMPLIANCE: { requiredApprovals: 2, approverRoles: ['ADMIN', 'POLICY_MANAGER', 'AUDITOR'] },
+  HR: { requiredApprovals: 1, approverRoles: ['ADMIN', 'POLICY_MANAGER'] },
+  IT: { requiredApprovals: 1, approverRoles: ['ADMIN', 'POLICY_MANAGER'] },
+  FINANCE: { requiredApprovals: 2, approverRoles: ['ADMIN', 'POLICY_MANAGER', 'AUDITOR'] },
+  OTHER: { requiredApprovals: 1, approverRoles: ['ADMIN', 'POLICY_MANAGER'] }
+};
+
+// Statuses each workflow action may start from
+const ACTION_SOURCE_STATUSES: Record<WorkflowAction, PolicyStatus[]> = {
+  SUBMIT: ['DRAFT', 'REJECTED', 'INACTIVE'],
+  APPROVE: ['IN_REVIEW'],
+  REJECT: ['IN_REVIEW'],
+  ACTIVATE: ['APPROVED']
+};
+
+// Status changes that may still be made directly through PUT /api/policies/:id
+const MANUAL_TRANSITIONS: Partial<Record<PolicyStatus, PolicyStatus[]>> = {
+  ACTIVE: ['INACTIVE']
+};
+
+// Editing a policy in one of these statuses sends it back to DRAFT
+const REVIEW_STATUSES: PolicyStatus[] = ['IN_REVIEW', 'APPROVED', 'REJECTED', 'ACTIVE'];
+
+const POLICY_INCLUDE = {
+  author: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true
+    }
+  },
+  approvedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true
+    }
+  }
+};
+
+export class PolicyWorkflow {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Requirements are configured per organization; `organizationId` defaults
+   * to the current one.
+   */
+  async getRequirement(
+    category: PolicyCategory,
+    organizationId: string | null = currentOrganizationId()
+  ): Promise<ApprovalRequirementConfig> {
+    const configured = organizationId
+      ? await this.prisma.approvalRequirement.findUnique({
+          where: { organizationId_category: { organizationId, category } }
+        })
+      : null;
+
+    if (configured) {
+      return {
+        category,
+        requiredApprovals: configured.requiredApprovals,
+        approverRoles: configured.approverRoles,
+        isDefault: false
+      };
+    }
+
+    return { category, ...DEFAULT_REQUIREMENTS[category], isDefault: true };
+  }
+
+  async listRequirements(): Promise<ApprovalRequirementConfig[]> {
+    const configured = await this.prisma.approvalRequirement.findMany({
+      where: { organizationId: requireOrganizationId() }
+    });
+    const byCategory = new Map(configured.map(r => [r.category, r]));
+
+    return (Object.keys(DEFAULT_REQUIREMENTS) as PolicyCategory[]).map(category => {
+      const row = byCategory.get(category);
+      return row
+        ? { category, requiredApprovals: row.requiredApprovals, approverRoles: row.approverRoles, isDefault: false }
+        : { category, ...DEFAULT_REQUIREMENTS[category], isDefault: true };
+    });
+  }
+
+  async setRequirement(
+    category: PolicyCategory,
+    requiredApprovals: number,
+    approverRoles: UserRole[],
+    actor: WorkflowActor
+  ): Promise<ApprovalRequirementConfig> {
+    const organizationId = requireOrganizationId();
+    const requirement = await this.prisma.approvalRequirement.upsert({
+      where: { organizationId_category: { organizationId, category } },
+      create: { organizationId, category, requiredApprovals, approverRoles },
+      update: { requiredApprovals, approverRoles }
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'UPDATE_APPROVAL_REQUIREMENT',
+        entityType: 'APPROVAL_REQUIREMENT',
+        entityId: requirement.id,
+        userId: actor.userId,
+        details: { category, requiredApprovals, approverRoles }
+      }
+    });
+
+    return { category, requiredApprovals, approverRoles, isDefault: false };
+  }
+
+  /**
+   * Status changes outside the review workflow are limited to taking an
+   * ACTIVE policy offline; everything else must go through submit/approve.
+   */
+  assertManualStatusChange(from: PolicyStatus, to: PolicyStatus): void {
+    if (from === to) {
+      return;
+    }
+
+    if (!(MANUAL_TRANSITIONS[from] || []).includes(to)) {
+      throw new HttpError(409, `Cannot change status from ${from} to ${to} directly; use the approval workflow`);
+    }
+  }
+
+  /**
+   * Content edits invalidate an in-flight review or a sign-off, so the
+   * policy returns to DRAFT; an ACTIVE policy must be reviewed again before
+   * the new content is in force.
+   */
+  statusAfterEdit(current: PolicyStatus): PolicyStatus {
+    return REVIEW_STATUSES.includes(current) ? 'DRAFT' : current;
+  }
+
+  /**
+   * Status and approval fields to write with a content edit.
+   */
+  editReset(current: PolicyStatus): { status: PolicyStatus; approvedById?: null; approvedAt?: null } {
+    const status = this.statusAfterEdit(current);
+    return status === current ? { status } : { status, approvedById: null, approvedAt: null };
+  }
+
+  async submitForReview(policyId: string, actor: WorkflowActor, comments?: string): Promise<Policy> {
+    const policy = await this.loadPolicy(policyId);
+    this.assertAction(policy, 'SUBMIT');
+
+    if (actor.role !== 'ADMIN' && actor.role !== 'POLICY_MANAGER' && policy.authorId !== actor.userId) {
+      throw new HttpError(403, 'Insufficient permissions to submit this policy');
+    }
+
+    // Each submission opens a new round, so decisions on an earlier
+    // submission of the same version neither count nor block reviewers
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.policy.update({
+        where: { id: policyId },
+        data: { status: 'IN_REVIEW', approvedById: null, approvedAt: null, reviewRound: { increment: 1 } },
+        include: POLICY_INCLUDE
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'SUBMIT_POLICY',
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId: actor.userId,
+          details: { version: policy.version, round: policy.reviewRound + 1, previousStatus: policy.status, comments }
+        }
+      })
+    ]);
+
+    return updated;
+  }
+
+  async approve(policyId: string, actor: WorkflowActor, comments?: string): Promise<ApprovalOutcome> {
+    const policy = await this.loadPolicy(policyId);
+    this.assertAction(policy, 'APPROVE');
+
+    const requirement = await this.getRequirement(policy.category, policy.organizationId);
+    await this.assertCanDecide(policy, requirement, actor);
+
+    return this.prisma.$transaction(async tx => {
+      await tx.policyApproval.create({
+        data: {
+          policyId,
+          version: policy.version,
+          round: policy.reviewRound,
+          approverId: actor.userId,
+          decision: 'APPROVED',
+          comments
+        }
+      });
+
+      const approvals = await tx.policyApproval.count({
+        where: { policyId, round: policy.reviewRound, decision: 'APPROVED' }
+      });
+      const fullyApproved = approvals >= requirement.requiredApprovals;
+
+      const updated = fullyApproved
+        ? await tx.policy.update({
+            where: { id: policyId },
+            data: { status: 'APPROVED', approvedById: actor.userId, approvedAt: new Date() },
+            include: POLICY_INCLUDE
+          })
+        : policy;
+
+      await tx.auditLog.create({
+        data: {
+          action: 'APPROVE_POLICY',
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId: actor.userId,
+          details: {
+            version: policy.version,
+            round: policy.reviewRound,
+            comments,
+            approvals,
+            requiredApprovals: requirement.requiredApprovals,
+            status: updated.status
+          }
+        }
+      });
+
+      if (fullyApproved) {
+        logger.info(`Policy ${policyId} v${policy.version} approved (${approvals}/${requirement.requiredApprovals})`);
+      }
+
+      return { policy: updated, approvals, requiredApprovals: requirement.requiredApprovals, fullyApproved };
+    });
+  }
+
+  async reject(policyId: string, actor: WorkflowActor, comments: string): Promise<Policy> {
+    const policy = await this.loadPolicy(policyId);
+    this.assertAction(policy, 'REJECT');
+
+    const requirement = await this.getRequirement(policy.category, policy.organizationId);
+    await this.assertCanDecide(policy, requirement, actor);
+
+    const [, updated] = await this.prisma.$transaction([
+      this.prisma.policyApproval.create({
+        data: {
+          policyId,
+          version: policy.version,
+          round: policy.reviewRound,
+          approverId: actor.userId,
+          decision: 'REJECTED',
+          comments
+        }
+      }),
+      this.prisma.policy.update({
+        where: { id: policyId },
+        data: { status: 'REJECTED' },
+        include: POLICY_INCLUDE
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'REJECT_POLICY',
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId: actor.userId,
+          details: { version: policy.version, round: policy.reviewRound, comments }
+        }
+      })
+    ]);
+
+    return updated;
+  }
+
+  async activate(policyId: string, actor: WorkflowActor): Promise<Policy> {
+    const policy = await this.loadPolicy(policyId);
+    this.assertAction(policy, 'ACTIVATE');
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.policy.update({
+        where: { id: policyId },
+        data: { status: 'ACTIVE' },
+        include: POLICY_INCLUDE
+      }),
+      this.prisma.auditLog.create({
+        data: {
+          action: 'ACTIVATE_POLICY',
+          entityType: 'POLICY',
+          entityId: policyId,
+          userId: actor.userId,
+          details: { version: policy.version, approvedById: policy.approvedById }
+        }
+      })
+    ]);
+
+    return updated;
+  }
+
+  async getApprovalHistory(policyId: string) {
+    const policy = await this.loadPolicy(policyId);
+    const requirement = await this.getRequirement(policy.category, policy.organizationId);
+
+    const approvals = await this.prisma.policyApproval.findMany({
+      where: { policyId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        approver: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+            role: true
+          }
+        }
+      }
+    });
+
+    const currentApprovals = approvals.filter(
+      a => a.round === policy.reviewRound && a.decision === 'APPROVED'
+    ).length;
+
+    return {
+      policyId,
+      status: policy.status,
+      version: policy.version,
+      round: policy.reviewRound,
+      requirement,
+      currentApprovals,
+      approvals
+    };
+  }
+
+  private async loadPolicy(policyId: string): Promise<Policy> {
+    const policy = await this.prisma.policy.findUnique({ where: { id: policyId } });
+
+    if (!policy) {
+      throw new HttpError(404, 'Policy not found');
+    }
+
+    return policy;
+  }
+
+  private assertAction(policy: Policy, action: WorkflowAction): void {
+    if (!ACTION_SOURCE_STATUSES[action].includes(policy.status)) {
+      throw new HttpError(409, `Cannot ${action.toLowerCase()} a policy in ${policy.status} status`);
+    }
+  }
+
+  private async assertCanDecide(
+    policy: Policy,
+    requirement: ApprovalRequirementConfig,
+    actor: WorkflowActor
+  ): Promise<void> {
+    if (!requirement.approverRoles.includes(actor.role as UserRole)) {
+      throw new HttpError(403, `Role ${actor.role} cannot review ${policy.category} policies`);
+    }
+
+    // Separation of duties: authors never sign off their own policies
+    if (policy.authorId === actor.userId) {
+      throw new HttpError(403, 'Authors cannot approve or reject their own policies');
+    }
+
+    const existing = await this.prisma.policyApproval.findUnique({
+      where: {
+        policyId_round_approverId: {
+          policyId: policy.id,
+          round: policy.reviewRound,
+          approverId: actor.userId
+        }
+      }
+    });
+
+    if (existing) {
+      throw new HttpError(409, 'You have already recorded a decision in this review round');
+    }
+  }
+}
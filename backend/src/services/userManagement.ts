@@ -0,0 +1,383 @@
+import { Prisma, PrismaClient, UserRole } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createPrismaClient, currentOrganizationId, requireOrganizationId, runInOrganization } from '../utils/tenancy';
+import { WorkflowActor } from './policyWorkflow';
+
+export interface UserFilters {
+  search?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface UserProfileUpdate {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  organization?: string | null;
+}
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  organization: true,
+  isActive: true,
+  mfaEnabled: true,
+  lastLogin: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+// Accounts are shared by organizations; the role shown is the one held in
+// `organizationId` (none outside an organization)
+const userSelect = (organizationId: string | null) => ({
+  ...USER_SELECT,
+  memberships: { where: { organizationId: organizationId ?? '' }, select: { role: true } }
+});
+
+const withRole = <T extends { memberships: { role: UserRole }[] }>({ memberships, ...user }: T) => ({
+  ...user,
+  role: memberships[0]?.role ?? null
+});
+
+const PROFILE_FIELDS: (keyof UserProfileUpdate)[] = ['firstName', 'lastName', 'email', 'organization'];
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Account administration. Users are scoped to the current organization by
+ * membership, and roles are changed on that membership, since it is the
+ * membership role that tokens carry. The account itself (profile, active
+ * flag) is shared by every organization the user belongs to, so only the
+ * user or a platform admin changes it (see the routes).
+ */
+export class UserManagement {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  async list(filters: UserFilters = {}) {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, filters.limit || 20));
+    const search = filters.search?.trim();
+
+    const organizationId = currentOrganizationId();
+    const where: Prisma.UserWhereInput = {
+      ...(filters.role && { memberships: { some: { organizationId: organizationId ?? '', role: filters.role } } }),
+      ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+      ...(search && {
+        OR: [
+          { email: { contains: search, mode: 'insensitive' as const } },
+          { firstName: { contains: search, mode: 'insensitive' as const } },
+          { lastName: { contains: search, mode: 'insensitive' as const } }
+        ]
+      })
+    };
+
+    const [users, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        select: userSelect(organizationId),
+        orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.user.count({ where })
+    ]);
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      users: users.map(withRole),
+      pagination: { page, limit, total, totalPages, hasNext: page < totalPages, hasPrev: page > 1 }
+    };
+  }
+
+  /**
+   * The user with the role held in `organizationId`, by default the current
+   * organization.
+   */
+  async get(id: string, organizationId: string | null = currentOrganizationId()) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { ...userSelect(organizationId), _count: { select: { authoredPolicies: true } } }
+    });
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    return withRole(user);
+  }
+
+  async updateProfile(id: string, update: UserProfileUpdate, actor: WorkflowActor) {
+    // Platform admins edit accounts outside their own organization; the
+    // role shown is still the one held in the caller's
+    const organizationId = currentOrganizationId();
+    return runInOrganization(null, () => this.applyProfile(id, update, actor, organizationId));
+  }
+
+  private async applyProfile(id: string, update: UserProfileUpdate, actor: WorkflowActor, organizationId: string | null) {
+    const user = await this.get(id, organizationId);
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const field of PROFILE_FIELDS) {
+      if (update[field] !== undefined && update[field] !== user[field]) {
+        changes[field] = { from: user[field], to: update[field] };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return user;
+    }
+
+    if (changes.email) {
+      // Emails are unique across organizations
+      const taken = await this.prisma.user.findUnique({ where: { email: update.email }, select: { id: true } });
+      if (taken) {
+        throw new HttpError(409, 'User already exists with this email');
+      }
+    }
+
+    const data = Object.fromEntries(Object.keys(changes).map(field => [field, update[field as keyof UserProfileUpdate]]));
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.user.update({ where: { id }, data, select: userSelect(organizationId) }),
+      this.audit('UPDATE_USER', id, actor, { changes })
+    ]);
+
+    return withRole(updated);
+  }
+
+  /**
+   * Changes the role the user holds in the current organization. Their
+   * roles elsewhere, and the account itself, are left alone.
+   */
+  async setRole(id: string, role: UserRole, actor: WorkflowActor) {
+    if (id === actor.userId) {
+      throw new HttpError(400, 'You cannot change your own role');
+    }
+
+    const organizationId = requireOrganizationId();
+    const membership = await this.prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId: id } }
+    });
+
+    if (!membership) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    if (membership.role === role) {
+      return this.get(id);
+    }
+
+    if (membership.role === 'ADMIN') {
+      await this.assertAnotherAdmin(id);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.organizationMember.update({ where: { id: membership.id }, data: { role } }),
+      this.audit('UPDATE_USER_ROLE', id, actor, { from: membership.role, to: role }),
+      // Sessions in this organization were issued with the old role
+      this.prisma.refreshToken.updateMany({
+        where: { userId: id, organizationId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      })
+    ]);
+
+    logger.info(`User ${id} role in ${organizationId} changed from ${membership.role} to ${role} by ${actor.userId}`);
+    return this.get(id);
+  }
+
+  /**
+   * Deactivated users cannot log in to any organization and their sessions
+   * end; their records and history are kept.
+   */
+  async setActive(id: string, isActive: boolean, actor: WorkflowActor) {
+    if (id === actor.userId && !isActive) {
+      throw new HttpError(400, 'You cannot deactivate your own account');
+    }
+
+    const organizationId = currentOrganizationId();
+    return runInOrganization(null, () => this.applyActive(id, isActive, actor, organizationId));
+  }
+
+  private async applyActive(id: string, isActive: boolean, actor: WorkflowActor, organizationId: string | null) {
+    const user = await this.get(id, organizationId);
+    if (user.isActive === isActive) {
+      return user;
+    }
+
+    if (!isActive) {
+      await this.assertAnotherAdmin(id);
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.user.update({ where: { id }, data: { isActive }, select: userSelect(organizationId) }),
+      this.audit(isActive ? 'REACTIVATE_USER' : 'DEACTIVATE_USER', id, actor, { email: user.email }),
+      // Sessions do not come back on reactivation
+      ...(isActive ? [] : [this.prisma.refreshToken.updateMany({ where: { userId: id, revokedAt: null }, data: { revokedAt: new Date() } })])
+    ]);
+
+    logger.info(`User ${id} ${isActive ? 'reactivated' : 'deactivated'} by ${actor.userId}`);
+    return withRole(updated);
+  }
+
+  /**
+   * Deletes a user, handing their policies, templates and open review tasks
+   * to `reassignTo`, along with the versions they wrote of those policies
+   * and templates. Users who approved, edited someone else's policy or
+   * otherwise signed records are refused: that history must keep its
+   * author, so they are deactivated instead.
+   */
+  async remove(id: string, reassignTo: string, actor: WorkflowActor) {
+    if (id === actor.userId) {
+      throw new HttpError(400, 'You cannot delete your own account');
+    }
+
+    if (id === reassignTo) {
+      throw new HttpError(400, 'Policies must be reassigned to another user');
+    }
+
+    const user = await this.get(id);
+    const successor = await this.prisma.user.findUnique({ where: { id: reassignTo }, select: { id: true, isActive: true } });
+    if (!successor || !successor.isActive) {
+      throw new HttpError(400, 'Reassignment target must be an active user in this organization');
+    }
+
+    // Unscoped: records in other organizations would be left pointing at the user
+    const organizationId = currentOrganizationId();
+    const [otherMemberships, history] = await runInOrganization(null, () =>
+      Promise.all([
+        organizationId
+          ? this.prisma.organizationMember.count({ where: { userId: id, organizationId: { not: organizationId } } })
+          : Promise.resolve(0),
+        this.historyCounts(id)
+      ])
+    );
+
+    if (otherMemberships > 0) {
+      throw new HttpError(409, 'User belongs to other organizations; remove them from this organization instead');
+    }
+
+    const recorded = Object.fromEntries(Object.entries(history).filter(([, count]) => count > 0));
+    if (Object.keys(recorded).length > 0) {
+      throw new HttpError(409, 'User has recorded history; deactivate the account instead', { history: recorded });
+    }
+
+    await this.assertAnotherAdmin(id);
+
+    const reassigned = await this.prisma.$transaction(async tx => {
+      // Before the policies and templates, whose authorship these filter on
+      const [versions, templateVersions] = await Promise.all([
+        tx.policyVersion.updateMany({ where: { createdById: id, policy: { authorId: id } }, data: { createdById: reassignTo } }),
+        tx.policyTemplateVersion.updateMany({
+          where: { createdById: id, template: { createdById: id } },
+          data: { createdById: reassignTo }
+        })
+      ]);
+      const [policies, templates, reviews] = await Promise.all([
+        tx.policy.updateMany({ where: { authorId: id }, data: { authorId: reassignTo } }),
+        tx.policyTemplate.updateMany({ where: { createdById: id }, data: { createdById: reassignTo } }),
+        tx.policyReview.updateMany({ where: { assigneeId: id, status: 'PENDING' }, data: { assigneeId: reassignTo } })
+      ]);
+
+      await tx.user.delete({ where: { id } });
+      await tx.auditLog.create({
+        data: {
+          action: 'DELETE_USER',
+          entityType: 'USER',
+          entityId: id,
+          userId: actor.userId,
+          details: {
+            email: user.email,
+            reassignedTo: reassignTo,
+            policies: policies.count,
+            versions: versions.count,
+            templates: templates.count,
+            templateVersions: templateVersions.count,
+            reviews: reviews.count
+          }
+        }
+      });
+
+      return {
+        policies: policies.count,
+        versions: versions.count,
+        templates: templates.count,
+        templateVersions: templateVersions.count,
+        reviews: reviews.count
+      };
+    });
+
+    logger.info(`User ${id} deleted by ${actor.userId}; records reassigned to ${reassignTo}`);
+    return { reassignedTo: reassignTo, reassigned };
+  }
+
+  // Records that name the user as the person who did something. Versions of
+  // their own policies and templates are not counted: they are reassigned
+  private async historyCounts(id: string) {
+    const [policyVersions, approvals, approvedPolicies, completedReviews, exceptionRequests, exceptionApprovals,
+      controlMappings, evidence, templateVersions] = await Promise.all([
+      this.prisma.policyVersion.count({ where: { createdById: id, policy: { authorId: { not: id } } } }),
+      this.prisma.policyApproval.count({ where: { approverId: id } }),
+      this.prisma.policy.count({ where: { approvedById: id } }),
+      this.prisma.policyReview.count({ where: { OR: [{ completedById: id }, { assigneeId: id, status: { not: 'PENDING' } }] } }),
+      this.prisma.policyException.count({ where: { requestedById: id } }),
+      this.prisma.policyException.count({ where: { approvedById: id } }),
+      this.prisma.policyControl.count({ where: { mappedById: id } }),
+      this.prisma.evidence.count({ where: { uploadedById: id } }),
+      this.prisma.policyTemplateVersion.count({ where: { createdById: id, template: { createdById: { not: id } } } })
+    ]);
+
+    return {
+      policyVersions,
+      approvals,
+      approvedPolicies,
+      completedReviews,
+      exceptionRequests,
+      exceptionApprovals,
+      controlMappings,
+      evidence,
+      templateVersions
+    };
+  }
+
+  // Demoting, deactivating or deleting must leave an active admin behind in
+  // the current organization, or outside one in every organization the user
+  // administers
+  private async assertAnotherAdmin(id: string): Promise<void> {
+    const current = currentOrganizationId();
+    const organizationIds = current
+      ? [current]
+      : (await this.prisma.organizationMember.findMany({
+          where: { userId: id, role: 'ADMIN' },
+          select: { organizationId: true }
+        })).map(membership => membership.organizationId);
+
+    for (const organizationId of organizationIds) {
+      const isAdmin = (await this.prisma.organizationMember.count({ where: { organizationId, userId: id, role: 'ADMIN' } })) > 0;
+      if (!isAdmin) {
+        continue;
+      }
+
+      const others = await this.prisma.organizationMember.count({
+        where: { organizationId, role: 'ADMIN', userId: { not: id }, user: { isActive: true } }
+      });
+
+      if (others === 0) {
+        throw new HttpError(409, 'At least one active admin must remain');
+      }
+    }
+  }
+
+  private audit(action: string, id: string, actor: WorkflowActor, details: Record<string, any>) {
+    return this.prisma.auditLog.create({
+      data: { action, entityType: 'USER', entityId: id, userId: actor.userId, details }
+    });
+  }
+}
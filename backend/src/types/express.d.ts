@@ -7,6 +7,11 @@ declare global {
         userId: string;
         email: string;
         role: string;
+        organizationId?: string;
+        // Session (refresh token family) the access token belongs to
+        sid?: string;
+        // Epoch seconds of the session's last second-factor verification
+        mfaAt?: number;
       };
     }
   }
@@ -17,5 +22,8 @@ export interface AuthenticatedRequest extends Request {
     userId: string;
     email: string;
     role: string;
+    organizationId?: string;
+    sid?: string;
+    mfaAt?: number;
   };
 }
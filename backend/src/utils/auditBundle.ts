@@ -0,0 +1,171 @@
+import { createHash, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { canonicalJson } from './canonicalJson';
+import { readTar, TarEntry, writeTar } from './tar';
+
+export const BUNDLE_FORMAT = 'audit-bundle/1';
+
+export const MANIFEST_PATH = 'manifest.json';
+export const SIGNATURE_PATH = 'manifest.sig';
+
+// Upper bound on a bundle's unpacked size, so a small upload cannot
+// inflate into an archive that exhausts memory
+export const MAX_BUNDLE_BYTES = 256 * 1024 * 1024;
+
+export interface BundleFile {
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+export interface BundleManifest {
+  format: string;
+  bundleId: string;
+  framework: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  generatedBy: string;
+  organizationId: string | null;
+  counts: Record<string, number>;
+  files: BundleFile[];
+}
+
+export interface BundleSignature {
+  algorithm: 'Ed25519';
+  publicKey: string;
+  signature: string;
+}
+
+export interface BundleVerification {
+  valid: boolean;
+  signatureValid: boolean;
+  // Whether the key embedded in the bundle is the expected one
+  trustedKey: boolean;
+  manifest: BundleManifest | null;
+  files: (BundleFile & { status: 'OK' | 'MODIFIED' | 'MISSING' })[];
+  unexpectedFiles: string[];
+  errors: string[];
+}
+
+const hash = (content: Buffer): string => createHash('sha256').update(content).digest('hex');
+
+const spki = (key: KeyObject | string): Buffer =>
+  (typeof key === 'string' ? createPublicKey(key) : key).export({ type: 'spki', format: 'der' });
+
+/**
+ * Packs `files` into a gzipped tar with a manifest listing each file's
+ * SHA-256 and an Ed25519 signature over the manifest bytes.
+ */
+export function packBundle(
+  manifest: Omit<BundleManifest, 'format' | 'files'>,
+  files: TarEntry[],
+  privateKey: KeyObject
+): { archive: Buffer; manifest: BundleManifest; manifestHash: string } {
+  const complete: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    ...manifest,
+    files: files.map(file => ({ path: file.name, sha256: hash(file.content), size: file.content.length }))
+  };
+
+  const manifestBytes = Buffer.from(canonicalJson(complete));
+  const signature: BundleSignature = {
+    algorithm: 'Ed25519',
+    publicKey: createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString(),
+    signature: sign(null, manifestBytes, privateKey).toString('base64')
+  };
+
+  const archive = gzipSync(writeTar([
+    { name: MANIFEST_PATH, content: manifestBytes },
+    { name: SIGNATURE_PATH, content: Buffer.from(JSON.stringify(signature, null, 2)) },
+    ...files
+  ], new Date(manifest.generatedAt)));
+
+  return { archive, manifest: complete, manifestHash: hash(manifestBytes) };
+}
+
+/**
+ * Checks a bundle without any server access: the manifest signature against
+ * the expected `publicKey`, and every file's hash. The key embedded in the
+ * bundle is never trusted on its own, since anyone can re-sign a modified
+ * bundle with a key of their own.
+ */
+export function verifyBundle(
+  archive: Buffer,
+  options: { publicKey: string; maxBytes?: number }
+): BundleVerification {
+  const result: BundleVerification = {
+    valid: false,
+    signatureValid: false,
+    trustedKey: false,
+    manifest: null,
+    files: [],
+    unexpectedFiles: [],
+    errors: []
+  };
+
+  let expectedKey: KeyObject;
+  try {
+    expectedKey = createPublicKey(options.publicKey);
+  } catch {
+    result.errors.push('Expected public key is not a valid PEM key');
+    return result;
+  }
+
+  let entries: TarEntry[];
+  try {
+    entries = readTar(gunzipSync(archive, { maxOutputLength: options.maxBytes ?? MAX_BUNDLE_BYTES }));
+  } catch (error: any) {
+    result.errors.push(error.code === 'ERR_BUFFER_TOO_LARGE'
+      ? 'Archive unpacks to more than the allowed size'
+      : `Unreadable archive: ${error.message}`);
+    return result;
+  }
+
+  const byPath = new Map(entries.map(entry => [entry.name, entry.content]));
+  const manifestBytes = byPath.get(MANIFEST_PATH);
+  const signatureBytes = byPath.get(SIGNATURE_PATH);
+
+  if (!manifestBytes || !signatureBytes) {
+    result.errors.push('Bundle has no signed manifest');
+    return result;
+  }
+
+  let signature: BundleSignature;
+  try {
+    result.manifest = JSON.parse(manifestBytes.toString('utf8'));
+    signature = JSON.parse(signatureBytes.toString('utf8'));
+    result.signatureValid = verify(null, manifestBytes, expectedKey, Buffer.from(signature.signature, 'base64'));
+  } catch (error: any) {
+    result.errors.push(`Invalid manifest or signature: ${error.message}`);
+    return result;
+  }
+
+  try {
+    result.trustedKey = spki(expectedKey).equals(spki(signature.publicKey));
+  } catch {
+    result.trustedKey = false;
+  }
+
+  if (!result.trustedKey) result.errors.push('Bundle was signed with a different key');
+  if (!result.signatureValid) result.errors.push('Manifest signature does not verify with the expected key');
+
+  const listed = new Set<string>();
+  for (const file of result.manifest?.files ?? []) {
+    listed.add(file.path);
+    const content = byPath.get(file.path);
+    const status = !content ? 'MISSING' : hash(content) === file.sha256 ? 'OK' : 'MODIFIED';
+    result.files.push({ ...file, status });
+    if (status !== 'OK') result.errors.push(`${file.path}: ${status.toLowerCase()}`);
+  }
+
+  result.unexpectedFiles = entries
+    .map(entry => entry.name)
+    .filter(name => name !== MANIFEST_PATH && name !== SIGNATURE_PATH && !listed.has(name));
+  for (const name of result.unexpectedFiles) {
+    result.errors.push(`${name}: not listed in the manifest`);
+  }
+
+  result.valid = result.errors.length === 0;
+  return result;
+}
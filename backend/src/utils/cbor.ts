@@ -0,0 +1,97 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder for what WebAuthn authenticators send:
+ * integers, byte and text strings, arrays, maps and simple values, all of
+ * definite length. Byte strings decode to Buffers and maps to Maps, as COSE
+ * keys use integer map keys.
+ */
+export function decodeCbor(buffer: Buffer): unknown {
+  const { value, offset } = decodeItem(buffer, 0);
+
+  if (offset !== buffer.length) {
+    throw new Error('Unexpected data after CBOR item');
+  }
+
+  return value;
+}
+
+/**
+ * Decodes the item at `offset` and returns where it ends, for items
+ * followed by other data (the credential public key in authenticator data).
+ */
+export function decodeCborPrefix(buffer: Buffer, offset = 0): { value: unknown; offset: number } {
+  return decodeItem(buffer, offset);
+}
+
+function readLength(buffer: Buffer, offset: number, info: number): { length: number; offset: number } {
+  if (info < 24) {
+    return { length: info, offset };
+  }
+
+  const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+  if (!size) {
+    throw new Error('Unsupported CBOR length encoding');
+  }
+  if (offset + size > buffer.length) {
+    throw new Error('Truncated CBOR data');
+  }
+
+  const length = size === 8 ? Number(buffer.readBigUInt64BE(offset)) : buffer.readUIntBE(offset, size);
+  return { length, offset: offset + size };
+}
+
+function decodeItem(buffer: Buffer, start: number): { value: unknown; offset: number } {
+  if (start >= buffer.length) {
+    throw new Error('Truncated CBOR data');
+  }
+
+  const major = buffer[start] >> 5;
+  const info = buffer[start] & 0x1f;
+
+  if (major === 7) {
+    const simple: Record<number, unknown> = { 20: false, 21: true, 22: null, 23: undefined };
+    if (!(info in simple)) {
+      throw new Error('Unsupported CBOR simple value');
+    }
+    return { value: simple[info], offset: start + 1 };
+  }
+
+  const header = readLength(buffer, start + 1, info);
+  const length = header.length;
+  let offset = header.offset;
+
+  switch (major) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+    case 3: {
+      if (offset + length > buffer.length) {
+        throw new Error('Truncated CBOR data');
+      }
+      const bytes = buffer.subarray(offset, offset + length);
+      return { value: major === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), offset: offset + length };
+    }
+    case 4: {
+      const items: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeItem(buffer, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeItem(buffer, offset);
+        const entry = decodeItem(buffer, key.offset);
+        map.set(key.value, entry.value);
+        offset = entry.offset;
+      }
+      return { value: map, offset };
+    }
+    default:
+      throw new Error('Unsupported CBOR item');
+  }
+}
@@ -0,0 +1,79 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type ContentStatus = 'VALID' | 'CORRUPTED' | 'MISSING';
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export const sha256 = (content: Buffer): string => createHash('sha256').update(content).digest('hex');
+
+/**
+ * Files on local disk addressed by the SHA-256 of their content, sharded by
+ * the first two hex characters. Identical content is stored once.
+ */
+export class ContentStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  /**
+   * Stores `content` under its hash. `stored` is false when an intact copy
+   * was already there; a copy that no longer matches its hash is replaced.
+   */
+  async put(content: Buffer): Promise<{ sha256: string; stored: boolean }> {
+    const hash = sha256(content);
+
+    if ((await this.verify(hash)) === 'VALID') {
+      return { sha256: hash, stored: false };
+    }
+
+    const target = this.pathFor(hash);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Rename into place so a failed write never leaves a partial file at the address
+    const temporary = `${target}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(temporary, content, { flag: 'wx' });
+    await fs.rename(temporary, target);
+
+    return { sha256: hash, stored: true };
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(hash));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Re-hashes the stored copy and compares it with its address.
+   */
+  async verify(hash: string): Promise<ContentStatus> {
+    const content = await this.get(hash);
+
+    if (!content) {
+      return 'MISSING';
+    }
+
+    return sha256(content) === hash ? 'VALID' : 'CORRUPTED';
+  }
+
+  async remove(hash: string): Promise<void> {
+    await fs.rm(this.pathFor(hash), { force: true });
+  }
+
+  pathFor(hash: string): string {
+    if (!HASH_PATTERN.test(hash)) {
+      throw new Error('Invalid content hash');
+    }
+
+    return path.join(this.root, hash.slice(0, 2), hash);
+  }
+}
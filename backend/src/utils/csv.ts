@@ -0,0 +1,90 @@
+/**
+ * Minimal RFC 4180 CSV reader/writer: quoted fields, escaped quotes and
+ * embedded newlines are supported. The first row is treated as the header.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const [header, ...records] = nonEmpty;
+  const columns = header.map(column => column.trim());
+
+  return records.map(record => {
+    const entry: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      entry[column] = record[index] ?? '';
+    });
+    return entry;
+  });
+}
+
+export function toCsv(columns: string[], records: Record<string, any>[]): string {
+  const lines = [columns.map(escapeCsvField).join(',')];
+
+  for (const record of records) {
+    lines.push(columns.map(column => escapeCsvField(record[column])).join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function escapeCsvField(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,134 @@
+export interface LineChange {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+/**
+ * Line-level diff using Myers' O(ND) algorithm. Common prefix and suffix
+ * lines are trimmed first so typical small edits stay cheap.
+ */
+export function diffLines(oldText: string, newText: string): LineChange[] {
+  const a = oldText.split(/\r?\n/);
+  const b = newText.split(/\r?\n/);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const changes: LineChange[] = [];
+  for (let i = 0; i < prefix; i++) {
+    changes.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  for (const change of middle) {
+    changes.push({
+      ...change,
+      oldLine: change.oldLine !== undefined ? change.oldLine + prefix : undefined,
+      newLine: change.newLine !== undefined ? change.newLine + prefix : undefined
+    });
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    changes.push({
+      type: 'equal',
+      text: a[a.length - i],
+      oldLine: a.length - i + 1,
+      newLine: b.length - i + 1
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Compares two flat records and reports every field whose value differs.
+ */
+export function diffFields(from: Record<string, any>, to: Record<string, any>): FieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+
+  return fields
+    .filter(field => JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null))
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+function myers(a: string[], b: string[]): LineChange[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const changes: LineChange[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      changes.push({ type: 'equal', text: a[x - 1], oldLine: x, newLine: y });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        changes.push({ type: 'added', text: b[y - 1], newLine: y });
+      } else {
+        changes.push({ type: 'removed', text: a[x - 1], oldLine: x });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return changes.reverse();
+}
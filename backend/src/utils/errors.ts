@@ -0,0 +1,18 @@
+import { CustomError } from '../middleware/errorHandler';
+
+/**
+ * Error raised by services for expected request failures (missing entity,
+ * invalid state transition, permission problem). Routes translate it into a
+ * `{ error }` response with the given status code.
+ */
+export class HttpError extends Error implements CustomError {
+  statusCode: number;
+  details?: Record<string, any>;
+
+  constructor(statusCode: number, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
@@ -0,0 +1,253 @@
+import { deflateSync } from 'zlib';
+
+export interface PdfParagraph {
+  text: string;
+  font?: 'regular' | 'bold' | 'mono';
+  size?: number;
+  indent?: number;
+  spaceBefore?: number;
+  // Drawn to the left of the first line, inside the indent
+  bullet?: string;
+  // Draws a horizontal line instead of text
+  rule?: boolean;
+}
+
+export interface PdfMetadata {
+  title: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creationDate?: Date;
+  // Printed at the bottom of every page next to the page number
+  footer?: string;
+}
+
+interface PdfLine {
+  text: string;
+  font: 'regular' | 'bold' | 'mono';
+  size: number;
+  x: number;
+  y: number;
+  rule?: boolean;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const FOOTER_HEIGHT = 24;
+const LINE_SPACING = 1.35;
+
+const FONTS = { regular: 'F1', bold: 'F2', mono: 'F3' };
+
+// Advance widths (1/1000 em) for characters 32..126 of the standard fonts
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584
+];
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+/**
+ * Lays out paragraphs on A4 pages with the standard Helvetica and Courier
+ * fonts and writes a PDF 1.4 file. The fonts are not embedded, so text is
+ * limited to WinAnsi characters; anything else is printed as "?". Output is
+ * byte-for-byte stable for the same input.
+ */
+export function renderPdf(paragraphs: PdfParagraph[], metadata: PdfMetadata): Buffer {
+  const pages = layout(paragraphs);
+  const objects: string[] = [];
+
+  // 1: catalog, 2: page tree, 3-5: fonts, 6: info, then a page and content stream per page
+  const pageIds = pages.map((_, index) => 7 + index * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push(fontObject('Helvetica'));
+  objects.push(fontObject('Helvetica-Bold'));
+  objects.push(fontObject('Courier'));
+  objects.push(infoObject(metadata));
+
+  pages.forEach((lines, index) => {
+    const footer = `${metadata.footer ? `${metadata.footer}    ` : ''}Page ${index + 1} of ${pages.length}`;
+    const content = contentStream([
+      ...lines,
+      { text: footer, font: 'regular', size: 8, x: MARGIN, y: MARGIN - FOOTER_HEIGHT / 2 }
+    ]);
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n${content}\nendstream`);
+  });
+
+  // Offsets are byte positions; every character below is a single latin1 byte
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+function layout(paragraphs: PdfParagraph[]): PdfLine[][] {
+  const pages: PdfLine[][] = [[]];
+  const bottom = MARGIN + FOOTER_HEIGHT;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const advance = (height: number) => {
+    if (y - height < bottom) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= height;
+  };
+
+  for (const paragraph of paragraphs) {
+    const font = paragraph.font || 'regular';
+    const size = paragraph.size || 10;
+    const indent = paragraph.indent || 0;
+    const lineHeight = size * LINE_SPACING;
+
+    // Leading space is dropped at the top of a page
+    if (paragraph.spaceBefore && pages[pages.length - 1].length > 0) {
+      y -= paragraph.spaceBefore;
+    }
+
+    if (paragraph.rule) {
+      advance(lineHeight / 2);
+      pages[pages.length - 1].push({ text: '', font, size, x: MARGIN + indent, y, rule: true });
+      continue;
+    }
+
+    const width = PAGE_WIDTH - 2 * MARGIN - indent;
+    const lines = encode(paragraph.text)
+      .split('\n')
+      .flatMap(segment => wrap(segment, font, size, width));
+
+    lines.forEach((text, index) => {
+      advance(lineHeight);
+      const page = pages[pages.length - 1];
+      if (index === 0 && paragraph.bullet) {
+        const bullet = encode(paragraph.bullet);
+        page.push({ text: bullet, font, size, x: MARGIN + indent - textWidth(`${bullet} `, font, size), y });
+      }
+      page.push({ text, font, size, x: MARGIN + indent, y });
+    });
+  }
+
+  return pages;
+}
+
+function wrap(text: string, font: PdfLine['font'], size: number, width: number): string[] {
+  if (font === 'mono') {
+    const perLine = Math.max(1, Math.floor(width / (0.6 * size)));
+    const lines: string[] = [];
+    for (let start = 0; start < text.length; start += perLine) {
+      lines.push(text.slice(start, start + perLine));
+    }
+    return lines.length > 0 ? lines : [''];
+  }
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate, font, size) <= width) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+
+    // Words longer than a line are broken wherever they overflow
+    current = '';
+    for (const char of word) {
+      if (current && textWidth(current + char, font, size) > width) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+function textWidth(text: string, font: PdfLine['font'], size: number): number {
+  if (font === 'mono') return text.length * 0.6 * size;
+
+  const widths = font === 'bold' ? HELVETICA_BOLD : HELVETICA;
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : widths[0x41 - 32];
+  }
+  return (units * size) / 1000;
+}
+
+/** Maps text to WinAnsi byte values, one latin1 character per byte. */
+function encode(text: string): string {
+  let result = '';
+  for (const char of text.replace(/\t/g, '    ')) {
+    const code = char.codePointAt(0)!;
+    if (char === '\n' || (code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+      result += char;
+    } else if (WIN_ANSI[char]) {
+      result += String.fromCharCode(WIN_ANSI[char]);
+    } else if (code >= 32) {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+function literal(text: string): string {
+  return `(${text.replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+function contentStream(lines: PdfLine[]): string {
+  const operations = lines.map(line =>
+    line.rule
+      ? `0.5 w ${line.x} ${line.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${line.y.toFixed(2)} l S`
+      : `BT /${FONTS[line.font]} ${line.size} Tf ${line.x.toFixed(2)} ${line.y.toFixed(2)} Td ${literal(line.text)} Tj ET`
+  );
+  return deflateSync(Buffer.from(operations.join('\n'), 'latin1')).toString('latin1');
+}
+
+function fontObject(name: string): string {
+  return `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`;
+}
+
+function infoObject(metadata: PdfMetadata): string {
+  const entries: string[] = [`/Title ${literal(encode(metadata.title))}`, '/Producer (Policy Management Platform)'];
+  if (metadata.author) entries.push(`/Author ${literal(encode(metadata.author))}`);
+  if (metadata.subject) entries.push(`/Subject ${literal(encode(metadata.subject))}`);
+  if (metadata.keywords) entries.push(`/Keywords ${literal(encode(metadata.keywords))}`);
+  if (metadata.creationDate) {
+    const stamp = metadata.creationDate.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    entries.push(`/CreationDate (D:${stamp}Z)`);
+  }
+  return `<< ${entries.join(' ')} >>`;
+}
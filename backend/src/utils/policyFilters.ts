@@ -0,0 +1,112 @@
+import { Prisma } from '@prisma/client';
+
+export type FacetField = 'category' | 'status' | 'framework' | 'tags';
+
+/**
+ * Reads a filter that may be given once, repeated (`?tags=a&tags=b`) or
+ * comma-separated (`?tags=a,b`).
+ */
+export function listParam(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(entry => String(entry).split(','))
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Lower-cased, trimmed and de-duplicated so the tag catalog doesn't split
+ * "GDPR" and "gdpr " into separate entries.
+ */
+export function normalizeTags(tags: string[] | undefined): string[] {
+  if (!tags) {
+    return [];
+  }
+
+  const normalized = tags
+    .map(tag => tag.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean);
+
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Translates the query string accepted by GET /api/policies into a Prisma
+ * where clause, so listing and export always filter the same way.
+ *
+ * `category`, `status`, `framework` and `tags` accept several values.
+ * Policies must carry every requested tag unless `tagMode=any`. Passing
+ * `exclude` drops one filter, which is how facet counts are computed.
+ * Free-text `search` is handled by PolicySearch, not here.
+ */
+export function buildPolicyWhere(query: Record<string, any>, exclude?: FacetField): Prisma.PolicyWhereInput {
+  const { tagMode } = query;
+  const where: any = {};
+
+  const categories = listParam(query.category);
+  if (categories.length > 0 && exclude !== 'category') {
+    where.category = categories.length === 1 ? categories[0] : { in: categories };
+  }
+
+  const statuses = listParam(query.status);
+  if (statuses.length > 0 && exclude !== 'status') {
+    where.status = statuses.length === 1 ? statuses[0] : { in: statuses };
+  }
+
+  const frameworks = listParam(query.framework);
+  if (frameworks.length > 0 && exclude !== 'framework') {
+    where.complianceFramework = frameworks.length === 1 ? frameworks[0] : { in: frameworks };
+  }
+
+  const tags = normalizeTags(listParam(query.tags ?? query.tag));
+  if (tags.length > 0 && exclude !== 'tags') {
+    where.tags = tagMode === 'any' ? { hasSome: tags } : { hasEvery: tags };
+  }
+
+  return where;
+}
+
+/**
+ * In-memory counterpart of `buildPolicyWhere`, for policy states that are
+ * reconstructed rather than queried (e.g. `asOf` listings).
+ */
+export function matchesPolicyFilters(
+  policy: { category: string; status: string; complianceFramework: string | null; tags: string[] },
+  query: Record<string, any>,
+  exclude?: FacetField
+): boolean {
+  const categories = listParam(query.category);
+  if (categories.length > 0 && exclude !== 'category' && !categories.includes(policy.category)) {
+    return false;
+  }
+
+  const statuses = listParam(query.status);
+  if (statuses.length > 0 && exclude !== 'status' && !statuses.includes(policy.status)) {
+    return false;
+  }
+
+  const frameworks = listParam(query.framework);
+  if (
+    frameworks.length > 0 &&
+    exclude !== 'framework' &&
+    !(policy.complianceFramework && frameworks.includes(policy.complianceFramework))
+  ) {
+    return false;
+  }
+
+  const tags = normalizeTags(listParam(query.tags ?? query.tag));
+  if (tags.length > 0 && exclude !== 'tags') {
+    const matches = query.tagMode === 'any'
+      ? tags.some(tag => policy.tags.includes(tag))
+      : tags.every(tag => policy.tags.includes(tag));
+    if (!matches) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,65 @@
+/**
+ * Converts user search input into a Postgres `to_tsquery` expression.
+ *
+ *   password reset      -> password & reset
+ *   "clean desk"        -> (clean <-> desk)
+ *   encrypt*            -> encrypt:*
+ *   gdpr OR hipaa       -> gdpr | hipaa
+ *   -draft              -> !draft
+ *
+ * Words are reduced to letters and digits, so the result never contains
+ * operators the user did not ask for. Returns null when nothing searchable
+ * is left.
+ */
+export function toTsQuery(input: string): string | null {
+  const tokens = input.match(/-?"[^"]*"?|\S+/g) || [];
+  const parts: string[] = [];
+  let pendingOr = false;
+
+  for (const token of tokens) {
+    if (token === 'OR' || token === '|') {
+      pendingOr = parts.length > 0;
+      continue;
+    }
+
+    const negated = token.startsWith('-') && token.length > 1;
+    const body = negated ? token.slice(1) : token;
+    const term = body.startsWith('"') ? phraseTerm(body) : wordTerm(body);
+
+    if (!term) {
+      continue;
+    }
+
+    const operand = negated ? `!${term}` : term;
+    if (parts.length === 0) {
+      parts.push(operand);
+    } else {
+      parts.push(pendingOr ? '|' : '&', operand);
+    }
+    pendingOr = false;
+  }
+
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+function lexemes(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function phraseTerm(token: string): string | null {
+  const words = lexemes(token.replace(/"/g, ' '));
+  if (words.length === 0) return null;
+  return words.length === 1 ? words[0] : `(${words.join(' <-> ')})`;
+}
+
+function wordTerm(token: string): string | null {
+  const prefix = token.endsWith('*');
+  const words = lexemes(token);
+  if (words.length === 0) return null;
+
+  // Hyphenated or dotted words are matched as a phrase, e.g. e-mail
+  if (prefix) {
+    words[words.length - 1] += ':*';
+  }
+  return words.length === 1 ? words[0] : `(${words.join(' <-> ')})`;
+}
@@ -0,0 +1,89 @@
+export interface TarEntry {
+  name: string;
+  content: Buffer;
+}
+
+const BLOCK = 512;
+
+const octal = (value: number, length: number): string => value.toString(8).padStart(length - 1, '0') + '\0';
+
+const field = (header: Buffer, offset: number, length: number): string =>
+  header.toString('utf8', offset, offset + length).replace(/\0.*$/s, '');
+
+const checksum = (header: Buffer): number => {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 32 : header[i];
+  }
+  return sum;
+};
+
+/**
+ * Minimal ustar archive of regular files, readable by `tar`. Names are
+ * limited to 100 bytes, which is enough for bundle-internal paths.
+ */
+export function writeTar(entries: TarEntry[], mtime: Date = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    if (Buffer.byteLength(entry.name) > 100) {
+      throw new Error(`Archive path too long: ${entry.name}`);
+    }
+
+    const header = Buffer.alloc(BLOCK);
+    header.write(entry.name, 0, 100, 'utf8');
+    header.write(octal(0o644, 8), 100, 8, 'ascii');
+    header.write(octal(0, 8), 108, 8, 'ascii');
+    header.write(octal(0, 8), 116, 8, 'ascii');
+    header.write(octal(entry.content.length, 12), 124, 12, 'ascii');
+    header.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136, 12, 'ascii');
+    header.write('0', 156, 1, 'ascii');
+    header.write('ustar\0', 257, 6, 'ascii');
+    header.write('00', 263, 2, 'ascii');
+    header.write(octal(checksum(header), 7) + ' ', 148, 8, 'ascii');
+
+    const padding = (BLOCK - (entry.content.length % BLOCK)) % BLOCK;
+    blocks.push(header, entry.content, Buffer.alloc(padding));
+  }
+
+  // Two zero blocks mark the end of the archive
+  blocks.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Reads the regular files of a ustar archive, rejecting corrupt headers.
+ */
+export function readTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK);
+
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    if (parseInt(field(header, 148, 8).trim(), 8) !== checksum(header)) {
+      throw new Error('Corrupt archive header');
+    }
+
+    const size = parseInt(field(header, 124, 12).trim() || '0', 8);
+    const type = field(header, 156, 1);
+    const start = offset + BLOCK;
+
+    if (start + size > archive.length) {
+      throw new Error('Truncated archive');
+    }
+
+    if (type === '0' || type === '') {
+      entries.push({ name: field(header, 0, 100), content: Buffer.from(archive.subarray(start, start + size)) });
+    }
+
+    offset = start + Math.ceil(size / BLOCK) * BLOCK;
+  }
+
+  return entries;
+}
@@ -0,0 +1,135 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { PrismaClient } from '@prisma/client';
+import { HttpError } from './errors';
+
+interface TenantScope {
+  organizationId: string | null;
+}
+
+const tenant = new AsyncLocalStorage<TenantScope>();
+
+// Models with their own organizationId column
+const ORGANIZATION_MODELS = new Set([
+  'Policy',
+  'PolicyTemplate',
+  'AuditLog',
+  'SecurityIncident',
+  'Evidence',
+  'ApprovalRequirement',
+  'ReviewCycle'
+]);
+
+// Models that belong to an organization through a parent record
+const RELATION_SCOPES: Record<string, (organizationId: string) => Record<string, unknown>> = {
+  PolicyVersion: organizationId => ({ policy: { organizationId } }),
+  PolicyApproval: organizationId => ({ policy: { organizationId } }),
+  PolicyAssignment: organizationId => ({ policy: { organizationId } }),
+  PolicyReview: organizationId => ({ policy: { organizationId } }),
+  PolicyException: organizationId => ({ policy: { organizationId } }),
+  PolicyControl: organizationId => ({ policy: { organizationId } }),
+  PolicyTemplateVersion: organizationId => ({ template: { organizationId } }),
+  User: organizationId => ({ memberships: { some: { organizationId } } })
+};
+
+const FILTERED_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+  'upsert'
+]);
+
+/**
+ * Runs `callback` with every query of a tenant-scoped client limited to the
+ * organization. `null` runs unscoped, as background jobs do.
+ */
+export function runInOrganization<T>(organizationId: string | null, callback: () => T): T {
+  return tenant.run({ organizationId }, callback);
+}
+
+export function currentOrganizationId(): string | null {
+  return tenant.getStore()?.organizationId ?? null;
+}
+
+/**
+ * The current organization, for records that only exist inside one such as
+ * approval requirements and review cycles.
+ */
+export function requireOrganizationId(): string {
+  const organizationId = currentOrganizationId();
+
+  if (!organizationId) {
+    throw new HttpError(403, 'This action requires an organization');
+  }
+
+  return organizationId;
+}
+
+/**
+ * Adds the organization filter to a query's `where` and stamps the
+ * organization on created records. Explicit organization ids in create
+ * data are kept so records can be written for another organization on
+ * purpose (e.g. when one is created).
+ */
+export function scopeArgs(model: string, operation: string, args: any, organizationId: string): any {
+  const direct = ORGANIZATION_MODELS.has(model);
+  const filter = direct ? { organizationId } : RELATION_SCOPES[model]?.(organizationId);
+  if (!filter) {
+    return args;
+  }
+
+  const scoped = { ...(args || {}) };
+
+  if (FILTERED_OPERATIONS.has(operation)) {
+    const where = scoped.where || {};
+    const and = where.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND];
+    scoped.where = { ...where, AND: [...and, filter] };
+  }
+
+  if (direct) {
+    const stamp = (data: any) =>
+      data && data.organizationId === undefined && data.organization === undefined ? { ...data, organizationId } : data;
+
+    if (operation === 'create') scoped.data = stamp(scoped.data);
+    if (operation === 'createMany') {
+      scoped.data = Array.isArray(scoped.data) ? scoped.data.map(stamp) : stamp(scoped.data);
+    }
+    if (operation === 'upsert') scoped.create = stamp(scoped.create);
+  }
+
+  return scoped;
+}
+
+/**
+ * PrismaClient whose model queries are limited to the organization of the
+ * current request (see `runInOrganization`, set by authMiddleware). Raw
+ * queries are not rewritten and must filter on "organizationId" themselves.
+ */
+export function createPrismaClient(): PrismaClient {
+  const client = new PrismaClient();
+
+  // Test doubles of PrismaClient have no $extends
+  if (typeof (client as any).$extends !== 'function') {
+    return client;
+  }
+
+  // The extended client has the same model API; only its static type differs
+  return client.$extends({
+    query: {
+      $allModels: {
+        $allOperations({ model, operation, args, query }) {
+          const organizationId = currentOrganizationId();
+          return query(organizationId ? scopeArgs(model, operation, args, organizationId) : args);
+        }
+      }
+    }
+  }) as unknown as PrismaClient;
+}
@@ -0,0 +1,129 @@
+import { createPublicKey, KeyObject, verify } from 'crypto';
+import { decodeCborPrefix } from './cbor';
+
+// COSE algorithm identifiers offered for new credentials, preferred first
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257
+} as const;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  backedUp: boolean;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Buffer;
+    publicKey: Buffer;
+  };
+}
+
+/**
+ * Parses authenticator data (WebAuthn §6.1); the attested credential is
+ * only present in registration responses.
+ */
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    signCount: data.readUInt32BE(33)
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (data.length < 55) {
+      throw new Error('Authenticator data is too short');
+    }
+
+    const aaguid = data.subarray(37, 53).toString('hex');
+    const idLength = data.readUInt16BE(53);
+    const credentialId = data.subarray(55, 55 + idLength);
+    // The COSE key is followed by extensions when those are present
+    const { offset } = decodeCborPrefix(data, 55 + idLength);
+
+    parsed.attestedCredential = {
+      aaguid: aaguid.replace(/(.{8})(.{4})(.{4})(.{4})(.{12})/, '$1-$2-$3-$4-$5'),
+      credentialId: Buffer.from(credentialId),
+      publicKey: Buffer.from(data.subarray(55 + idLength, offset))
+    };
+  }
+
+  return parsed;
+}
+
+const coseValue = (key: Map<unknown, unknown>, label: number): Buffer => {
+  const value = key.get(label);
+  if (!Buffer.isBuffer(value)) {
+    throw new Error('Malformed COSE key');
+  }
+  return value;
+};
+
+/**
+ * Converts a COSE_Key (RFC 9053) of a supported algorithm to a Node key.
+ */
+export function coseToPublicKey(coseKey: Buffer): { algorithm: number; key: KeyObject } {
+  const { value } = decodeCborPrefix(coseKey);
+  if (!(value instanceof Map)) {
+    throw new Error('Malformed COSE key');
+  }
+
+  const keyType = value.get(1);
+  const algorithm = value.get(3) as number;
+  const curve = value.get(-1);
+
+  if (algorithm === COSE_ALGORITHMS.ES256 && keyType === 2 && curve === 1) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: 'EC', crv: 'P-256', x: coseValue(value, -2).toString('base64url'), y: coseValue(value, -3).toString('base64url') },
+        format: 'jwk'
+      })
+    };
+  }
+
+  if (algorithm === COSE_ALGORITHMS.EdDSA && keyType === 1 && curve === 6) {
+    return {
+      algorithm,
+      key: createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: coseValue(value, -2).toString('base64url') }, format: 'jwk' })
+    };
+  }
+
+  if (algorithm === COSE_ALGORITHMS.RS256 && keyType === 3) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: 'RSA', n: coseValue(value, -1).toString('base64url'), e: coseValue(value, -2).toString('base64url') },
+        format: 'jwk'
+      })
+    };
+  }
+
+  throw new Error('Unsupported public key algorithm');
+}
+
+/**
+ * Checks a WebAuthn signature: DER-encoded for ES256, raw for EdDSA and
+ * PKCS#1 v1.5 for RS256.
+ */
+export function verifySignature(algorithm: number, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  try {
+    return verify(algorithm === COSE_ALGORITHMS.EdDSA ? null : 'sha256', data, key, signature);
+  } catch {
+    return false;
+  }
+}
@@ -2,7 +2,8 @@ import Joi from 'joi';
 
 export const loginSchema = Joi.object({
   email: Joi.string().email().required(),
-  password: Joi.string().min(6).required()
+  password: Joi.string().min(6).required(),
+  organizationId: Joi.string().optional()
 });
 
 export const registerSchema = Joi.object({
@@ -10,5 +11,111 @@ export const registerSchema = Joi.object({
   password: Joi.string().min(6).required(),
   firstName: Joi.string().min(2).max(50).required(),
   lastName: Joi.string().min(2).max(50).required(),
-  role: Joi.string().valid('USER', 'ADMIN', 'POLICY_MANAGER').optional()
+  role: Joi.string().valid('USER', 'ADMIN', 'POLICY_MANAGER').optional(),
+  // Creates this organization with the new user as its admin; omitted, a personal one is created
+  organization: Joi.string().min(2).max(100).optional()
+});
+
+export const switchOrganizationSchema = Joi.object({
+  organizationId: Joi.string().required()
+});
+
+export const organizationSchema = Joi.object({
+  name: Joi.string().min(2).max(100).required()
+});
+
+export const organizationInvitationSchema = Joi.object({
+  email: Joi.string().email().required(),
+  role: Joi.string().valid('USER', 'ADMIN', 'POLICY_MANAGER', 'AUDITOR').required()
+});
+
+export const organizationMemberRoleSchema = Joi.object({
+  role: Joi.string().valid('USER', 'ADMIN', 'POLICY_MANAGER', 'AUDITOR').required()
+});
+
+export const userProfileSchema = Joi.object({
+  email: Joi.string().email().optional(),
+  firstName: Joi.string().min(2).max(50).optional(),
+  lastName: Joi.string().min(2).max(50).optional(),
+  organization: Joi.string().max(100).allow(null).optional()
+}).min(1);
+
+export const userRoleSchema = Joi.object({
+  role: Joi.string().valid('USER', 'ADMIN', 'POLICY_MANAGER', 'AUDITOR').required()
+});
+
+export const deleteUserSchema = Joi.object({
+  // Receives the deleted user's policies, templates and open review tasks
+  reassignTo: Joi.string().required()
+});
+
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+export const logoutSchema = Joi.object({
+  // Ends every session of the user, not only the current one
+  allSessions: Joi.boolean().optional()
+});
+
+const totpCode = Joi.string().pattern(/^\d{6}$/).message('code must be a 6-digit authentication code');
+
+export const mfaCodeSchema = Joi.object({
+  code: totpCode.required()
+});
+
+// A current authentication code, or one of the recovery codes
+export const mfaProofSchema = Joi.object({
+  code: totpCode,
+  recoveryCode: Joi.string().max(20)
+}).xor('code', 'recoveryCode');
+
+export const mfaLoginSchema = Joi.object({
+  mfaToken: Joi.string().required(),
+  code: totpCode,
+  recoveryCode: Joi.string().max(20)
+}).xor('code', 'recoveryCode');
+
+const base64url = Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(16384);
+
+// Browsers add fields of their own (clientExtensionResults, authenticatorAttachment, ...)
+const passkeyCredential = (response: Record<string, Joi.Schema>) => Joi.object({
+  id: base64url.required(),
+  rawId: base64url.required(),
+  type: Joi.string().valid('public-key').required(),
+  response: Joi.object(response).unknown(true).required()
+}).unknown(true);
+
+export const passkeyRegistrationSchema = Joi.object({
+  credential: passkeyCredential({
+    clientDataJSON: base64url.required(),
+    attestationObject: base64url.required(),
+    transports: Joi.array().items(Joi.string().max(20)).max(10)
+  }).required(),
+  name: Joi.string().max(100)
+});
+
+const passkeyAssertion = passkeyCredential({
+  clientDataJSON: base64url.required(),
+  authenticatorData: base64url.required(),
+  signature: base64url.required(),
+  userHandle: base64url.allow(null)
+});
+
+export const passkeyLoginSchema = Joi.object({
+  credential: passkeyAssertion.required(),
+  organizationId: Joi.string()
+});
+
+export const passkeyMfaOptionsSchema = Joi.object({
+  mfaToken: Joi.string().required()
+});
+
+export const passkeyMfaLoginSchema = Joi.object({
+  mfaToken: Joi.string().required(),
+  credential: passkeyAssertion.required()
+});
+
+export const passkeyStepUpSchema = Joi.object({
+  credential: passkeyAssertion.required()
 });
@@ -0,0 +1,12 @@
+import Joi from 'joi';
+
+// Result of a ZK policy proof check, as reported by ZKPolicyVerifier.verifyProof
+export const zkVerificationSchema = Joi.object({
+  policyId: Joi.string().required(),
+  commitment: Joi.string().max(200).required(),
+  publicSignals: Joi.array().items(Joi.string().max(200)).max(50).required(),
+  isValid: Joi.boolean().required(),
+  trustScore: Joi.number().min(0).max(100).optional(),
+  accessGranted: Joi.boolean().optional(),
+  riskFactors: Joi.array().items(Joi.string().max(200)).max(50).optional()
+});
@@ -0,0 +1,8 @@
+import Joi from 'joi';
+
+export const accessRequestSchema = Joi.object({
+  subject: Joi.object({ id: Joi.string().required() }).unknown(true).required(),
+  resource: Joi.object({ id: Joi.string().required() }).unknown(true).required(),
+  action: Joi.string().min(1).max(100).required(),
+  context: Joi.object().unknown(true).optional()
+});
@@ -0,0 +1,19 @@
+import Joi from 'joi';
+
+// Multipart fields sent alongside the evidence file
+export const evidenceUploadSchema = Joi.object({
+  policyId: Joi.string().optional(),
+  controlId: Joi.string().max(100).optional(),
+  description: Joi.string().max(2000).optional()
+});
+
+export const auditBundleSchema = Joi.object({
+  framework: Joi.string().max(50).required(),
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().optional()
+});
+
+// Multipart fields sent alongside a bundle to verify
+export const bundleVerificationSchema = Joi.object({
+  publicKey: Joi.string().max(2000).optional()
+});
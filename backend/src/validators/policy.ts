@@ -7,7 +7,8 @@ export const createPolicySchema = Joi.object({
   category: Joi.string().valid('PRIVACY', 'SECURITY', 'COMPLIANCE', 'HR', 'IT', 'FINANCE', 'OTHER').required(),
   effectiveDate: Joi.date().iso().required(),
   expirationDate: Joi.date().iso().greater(Joi.ref('effectiveDate')).optional(),
-  tags: Joi.array().items(Joi.string()).optional()
+  tags: Joi.array().items(Joi.string()).optional(),
+  rules: Joi.string().max(20000).allow('').optional()
 });
 
 export const updatePolicySchema = Joi.object({
@@ -16,7 +17,75 @@ export const updatePolicySchema = Joi.object({
   content: Joi.string().min(50).optional(),
   category: Joi.string().valid('PRIVACY', 'SECURITY', 'COMPLIANCE', 'HR', 'IT', 'FINANCE', 'OTHER').optional(),
   effectiveDate: Joi.date().iso().optional(),
-  expirationDate: Joi.date().iso().optional(),
-  status: Joi.string().valid('DRAFT', 'ACTIVE', 'INACTIVE', 'ARCHIVED').optional(),
-  tags: Joi.array().items(Joi.string()).optional()
+  expirationDate: Joi.date().iso().allow(null).optional(),
+  status: Joi.string().valid('DRAFT', 'IN_REVIEW', 'APPROVED', 'REJECTED', 'ACTIVE', 'INACTIVE', 'ARCHIVED').optional(),
+  tags: Joi.array().items(Joi.string()).optional(),
+  rules: Joi.string().max(20000).allow('', null).optional(),
+  changeSummary: Joi.string().max(500).optional()
+});
+
+export const workflowCommentSchema = Joi.object({
+  comments: Joi.string().max(2000).optional()
+});
+
+export const rejectPolicySchema = Joi.object({
+  comments: Joi.string().min(3).max(2000).required()
+});
+
+export const approvalRequirementSchema = Joi.object({
+  requiredApprovals: Joi.number().integer().min(1).max(10).required(),
+  approverRoles: Joi.array()
+    .items(Joi.string().valid('USER', 'ADMIN', 'POLICY_MANAGER', 'AUDITOR'))
+    .min(1)
+    .unique()
+    .required()
+});
+
+export const assignPolicySchema = Joi.object({
+  userIds: Joi.array().items(Joi.string()).min(1).unique().optional(),
+  roles: Joi.array().items(Joi.string().valid('USER', 'ADMIN', 'POLICY_MANAGER', 'AUDITOR')).min(1).optional(),
+  organization: Joi.string().max(200).optional()
+}).or('userIds', 'roles', 'organization');
+
+export const acknowledgePolicySchema = Joi.object({
+  version: Joi.number().integer().min(1).required()
+});
+
+export const renameTagSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required()
+});
+
+export const mergeTagsSchema = Joi.object({
+  sources: Joi.array().items(Joi.string().trim().min(1).max(100)).min(1).required(),
+  target: Joi.string().trim().min(1).max(100).required()
+});
+
+export const validateRulesSchema = Joi.object({
+  rules: Joi.string().max(20000).required()
+});
+
+export const simulatePolicySchema = Joi.object({
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().greater(Joi.ref('from')).required(),
+  limit: Joi.number().integer().min(1).max(20000).optional()
+});
+
+export const reviewCycleSchema = Joi.object({
+  intervalDays: Joi.number().integer().min(1).max(1825).required(),
+  leadDays: Joi.number().integer().min(0).max(365).optional()
+});
+
+export const markReviewedSchema = Joi.object({
+  notes: Joi.string().min(3).max(2000).required()
+});
+
+export const policyExceptionSchema = Joi.object({
+  userIds: Joi.array().items(Joi.string()).max(500).optional(),
+  roles: Joi.array().items(Joi.string().valid('USER', 'ADMIN', 'POLICY_MANAGER', 'AUDITOR')).max(4).optional(),
+  justification: Joi.string().min(10).max(2000).required(),
+  expiresAt: Joi.date().iso().required()
+}).or('userIds', 'roles');
+
+export const policyControlsSchema = Joi.object({
+  controlIds: Joi.array().items(Joi.string().min(1).max(100)).max(500).required()
 });
@@ -0,0 +1,36 @@
+import Joi from 'joi';
+
+const templateVariableSchema = Joi.object({
+  name: Joi.string().pattern(/^[a-zA-Z][a-zA-Z0-9_]*$/).max(64).required(),
+  label: Joi.string().max(200).optional(),
+  description: Joi.string().max(500).optional(),
+  required: Joi.boolean().default(true),
+  default: Joi.string().max(2000).optional()
+});
+
+const templateDefinition = {
+  titleTemplate: Joi.string().min(3).max(200).required(),
+  descriptionTemplate: Joi.string().min(10).max(500).required(),
+  body: Joi.string().min(50).required(),
+  variables: Joi.array().items(templateVariableSchema).default([])
+};
+
+export const createTemplateSchema = Joi.object({
+  name: Joi.string().min(3).max(200).required(),
+  description: Joi.string().max(1000).required(),
+  category: Joi.string().valid('PRIVACY', 'SECURITY', 'COMPLIANCE', 'HR', 'IT', 'FINANCE', 'OTHER').required(),
+  framework: Joi.string().valid('SOX', 'GDPR', 'HIPAA', 'ISO27001').optional(),
+  ...templateDefinition
+});
+
+export const publishTemplateVersionSchema = Joi.object({
+  ...templateDefinition,
+  changes: Joi.string().min(3).max(500).required()
+});
+
+export const instantiateTemplateSchema = Joi.object({
+  variables: Joi.object().pattern(Joi.string(), Joi.string().allow('')).default({}),
+  effectiveDate: Joi.date().iso().required(),
+  expirationDate: Joi.date().iso().greater(Joi.ref('effectiveDate')).optional(),
+  tags: Joi.array().items(Joi.string()).optional()
+});
@@ -1,6 +1,89 @@
 import request from 'supertest';
 import app from '../src/app';
 
+// In-memory users, organizations and sessions, kept across tests so that the
+// user registered first can log in and read their profile afterwards
+jest.mock('@prisma/client', () => {
+  const tables: Record<string, any[]> = { user: [], organization: [], organizationMember: [], refreshToken: [] };
+
+  // Relation field -> [related table, resolves the related row(s)]
+  const relations: Record<string, Record<string, [string, (row: any) => any]>> = {
+    user: { memberships: ['organizationMember', row => tables.organizationMember.filter(member => member.userId === row.id)] },
+    organizationMember: { organization: ['organization', row => tables.organization.find(org => org.id === row.organizationId)] },
+    refreshToken: { user: ['user', row => tables.user.find(user => user.id === row.userId)] },
+  };
+
+  const matches = (name: string, row: any, where: any = {}): boolean =>
+    Object.entries(where).every(([field, value]: [string, any]) => {
+      if (relations[name]?.[field]) {
+        const related = relations[name][field][1](row);
+        return Boolean(related) && Object.entries(value).every(([key, expected]) => related[key] === expected);
+      }
+      if (value && typeof value === 'object' && 'gt' in value) return row[field] > value.gt;
+      return (row[field] ?? null) === value;
+    });
+
+  const project = (name: string, row: any, { select, include }: any): any => {
+    if (!row) return null;
+    const shape = select ?? include;
+    const result: any = select ? {} : { ...row };
+    for (const [field, option] of Object.entries(shape ?? {})) {
+      const relation = relations[name]?.[field];
+      if (!relation) {
+        result[field] = row[field];
+        continue;
+      }
+      const [target, resolve] = relation;
+      const related = resolve(row);
+      const nested = option === true ? {} : (option as any);
+      result[field] = Array.isArray(related)
+        ? related.map(item => project(target, item, nested))
+        : project(target, related, nested);
+    }
+    return result;
+  };
+
+  let ids = 0;
+  const insert = (name: string, data: any) => {
+    const row = { id: `${name}-${++ids}`, createdAt: new Date(), updatedAt: new Date(), ...data };
+    tables[name].push(row);
+    return row;
+  };
+
+  const delegate = (name: string) => ({
+    findUnique: async (args: any) => project(name, tables[name].find(row => matches(name, row, args.where)), args),
+    findFirst: async (args: any) => project(name, tables[name].find(row => matches(name, row, args.where)), args),
+    findMany: async (args: any) =>
+      tables[name].filter(row => matches(name, row, args.where)).map(row => project(name, row, args)),
+    count: async ({ where }: any) => tables[name].filter(row => matches(name, row, where)).length,
+    create: async (args: any) => {
+      const { memberships, ...data } = args.data;
+      const row = insert(name, data);
+      if (memberships) {
+        const organization = insert('organization', { isActive: true, ...memberships.create.organization.create });
+        insert('organizationMember', { userId: row.id, organizationId: organization.id, role: memberships.create.role });
+      }
+      return project(name, row, args);
+    },
+    update: async ({ where, data }: any) => Object.assign(tables[name].find(row => matches(name, row, where)), data),
+    updateMany: async () => ({ count: 0 }),
+  });
+
+  const mockPrismaClient: any = Object.fromEntries(Object.keys(tables).map(name => [name, delegate(name)]));
+  // Login throttling runs on every login; nothing is throttled here
+  mockPrismaClient.loginThrottle = {
+    findMany: jest.fn().mockResolvedValue([]),
+    upsert: jest.fn().mockResolvedValue({ id: 'throttle-1', scope: 'ACCOUNT', failures: 1, accounts: [], lockouts: 0 }),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+  };
+  mockPrismaClient.webAuthnCredential = { count: jest.fn().mockResolvedValue(0) };
+  mockPrismaClient.auditLog = { create: jest.fn() };
+  mockPrismaClient.$disconnect = jest.fn();
+
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
 describe('Authentication Routes', () => {
   describe('POST /api/auth/register', () => {
     it('should register a new user successfully', async () => {
@@ -27,6 +27,11 @@ jest.mock('@prisma/client', () => ({
 // Mock jwt
 jest.mock('jsonwebtoken');
 
+// The token's session is live
+jest.mock('../../src/services/authTokens', () => ({
+  AuthTokens: jest.fn(() => ({ isSessionActive: jest.fn().mockResolvedValue(true) })),
+}));
+
 describe('AI Security Routes', () => {
   let token: string;
 
@@ -35,7 +40,8 @@ describe('AI Security Routes', () => {
     (jwt.verify as jest.Mock).mockReturnValue({
       userId: 'user-123',
       role: 'ADMIN',
-      email: 'admin@test.com'
+      email: 'admin@test.com',
+      sid: 'session-1'
     });
   });
 
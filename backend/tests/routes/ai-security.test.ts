@@ -8,6 +8,10 @@ import { AdvancedAnalytics } from '../../src/services/advancedAnalytics';
 // Mock the services
 jest.mock('../../src/services/aiSecurityAnalyzer');
 jest.mock('../../src/services/advancedAnalytics');
+// Every token below belongs to a live session
+jest.mock('../../src/services/authTokens', () => ({
+  AuthTokens: jest.fn(() => ({ isSessionActive: jest.fn().mockResolvedValue(true) })),
+}));
 jest.mock('../../src/utils/logger', () => ({
   logger: {
     info: jest.fn(),
@@ -50,6 +54,7 @@ describe('AI Security Routes', () => {
     // Create mock instances
     mockAnalyzer = {
       analyzeUserBehavior: jest.fn(),
+      assessUser: jest.fn(),
       detectAnomalies: jest.fn(),
       predictSecurityIncidents: jest.fn(),
       adaptPoliciesBasedOnThreat: jest.fn(),
@@ -70,7 +75,7 @@ describe('AI Security Routes', () => {
 
     // Create auth token
     authToken = jwt.sign(
-      { userId: 'test-user', role: 'ADMIN' },
+      { userId: 'test-user', role: 'ADMIN', sid: 'session-1' },
       process.env.JWT_SECRET || 'test-secret'
     );
   });
@@ -241,6 +246,7 @@ describe('AI Security Routes', () => {
         securityPosture: 85,
         userEngagement: 70,
         policyEffectiveness: 80,
+        policyAcknowledgmentRate: 75,
         complianceReadiness: 90,
         threatResponse: 95
       };
@@ -338,7 +344,7 @@ describe('AI Security Routes', () => {
   describe('Role-based Access Control', () => {
     test('should allow ADMIN access to all endpoints', async () => {
       const adminToken = jwt.sign(
-        { userId: 'admin-user', role: 'ADMIN' },
+        { userId: 'admin-user', role: 'ADMIN', sid: 'session-2' },
         process.env.JWT_SECRET || 'test-secret'
       );
 
@@ -351,7 +357,7 @@ describe('AI Security Routes', () => {
 
     test('should allow POLICY_MANAGER access to policy recommendations', async () => {
       const managerToken = jwt.sign(
-        { userId: 'manager-user', role: 'POLICY_MANAGER' },
+        { userId: 'manager-user', role: 'POLICY_MANAGER', sid: 'session-3' },
         process.env.JWT_SECRET || 'test-secret'
       );
 
@@ -3,31 +3,58 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import authRouter from '../../src/routes/auth';
+import { errorHandler } from '../../src/middleware/errorHandler';
 import express from 'express';
 
-// Mock Prisma Client
-const mockPrismaClient = {
-  user: {
-    findUnique: jest.fn(),
-    create: jest.fn(),
-    update: jest.fn(),
-  },
-  auditLog: {
-    create: jest.fn(),
-  },
-};
+// Mock Prisma Client, built inside the factory because the router creates its client on import
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    organization: {
+      findUnique: jest.fn(),
+    },
+    organizationMember: {
+      findMany: jest.fn(),
+    },
+    refreshToken: {
+      create: jest.fn(),
+    },
+    loginThrottle: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    webAuthnCredential: {
+      count: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => mockPrismaClient) };
+});
 
-jest.mock('@prisma/client', () => ({
-  PrismaClient: jest.fn().mockImplementation(() => mockPrismaClient),
-}));
+const mockPrismaClient = new PrismaClient() as any;
 
 jest.mock('../../src/utils/logger', () => ({
   logger: {
     info: jest.fn(),
+    warn: jest.fn(),
     error: jest.fn(),
   },
 }));
 
+const membership = {
+  role: 'POLICY_MANAGER',
+  createdAt: new Date(),
+  organization: { id: 'org-1', name: 'Test Corp', slug: 'test-corp', isActive: true },
+};
+
 describe('Auth Routes', () => {
   let app: express.Application;
 
@@ -35,7 +62,42 @@ describe('Auth Routes', () => {
     app = express();
     app.use(express.json());
     app.use('/api/auth', authRouter);
+    app.use(errorHandler);
     jest.clearAllMocks();
+
+    mockPrismaClient.organization.findUnique.mockResolvedValue(null);
+    mockPrismaClient.organizationMember.findMany.mockResolvedValue([membership]);
+    mockPrismaClient.refreshToken.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'refresh-1', ...data }));
+    mockPrismaClient.loginThrottle.findMany.mockResolvedValue([]);
+    mockPrismaClient.loginThrottle.upsert.mockResolvedValue({ id: 'throttle-1', scope: 'ACCOUNT', failures: 1, accounts: [], lockouts: 0 });
+    mockPrismaClient.loginThrottle.deleteMany.mockResolvedValue({ count: 0 });
+    mockPrismaClient.webAuthnCredential.count.mockResolvedValue(0);
+  });
+
+  // What the register route selects from the created user
+  const createdUser = (overrides: any = {}) => ({
+    id: 'user-123',
+    email: 'test@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    role: 'USER',
+    organization: 'Test Corp',
+    isActive: true,
+    memberships: [{ role: 'ADMIN', organization: { id: 'org-1', name: 'Test Corp', slug: 'test-corp' } }],
+    ...overrides,
+  });
+
+  const accountWith = async (password: string, overrides: any = {}) => ({
+    id: 'user-123',
+    email: 'test@example.com',
+    password: await bcrypt.hash(password, 10),
+    firstName: 'John',
+    lastName: 'Doe',
+    role: 'USER',
+    organization: 'Test Corp',
+    isActive: true,
+    mfaEnabled: false,
+    ...overrides,
   });
 
   describe('POST /api/auth/register', () => {
@@ -48,22 +110,8 @@ describe('Auth Routes', () => {
         organization: 'Test Corp'
       };
 
-      const hashedPassword = await bcrypt.hash(userData.password, 10);
-      const mockUser = {
-        id: 'user-123',
-        email: userData.email,
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        role: 'USER',
-        organization: userData.organization,
-        isActive: true,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
       mockPrismaClient.user.findUnique.mockResolvedValue(null); // User doesn't exist
-      mockPrismaClient.user.create.mockResolvedValue(mockUser);
-      mockPrismaClient.auditLog.create.mockResolvedValue({});
+      mockPrismaClient.user.create.mockResolvedValue(createdUser());
 
       const response = await request(app)
         .post('/api/auth/register')
@@ -71,15 +119,21 @@ describe('Auth Routes', () => {
 
       expect(response.status).toBe(201);
       expect(response.body).toHaveProperty('token');
+      expect(response.body).toHaveProperty('refreshToken');
       expect(response.body.user).toEqual({
-        id: mockUser.id,
-        email: mockUser.email,
-        firstName: mockUser.firstName,
-        lastName: mockUser.lastName,
-        role: mockUser.role,
-        organization: mockUser.organization
+        id: 'user-123',
+        email: userData.email,
+        firstName: userData.firstName,
+        lastName: userData.lastName,
+        role: 'USER',
+        organization: userData.organization,
+        isActive: true
+      });
+      // The registering user administers the organization they create
+      expect(response.body.organization).toEqual({ id: 'org-1', name: 'Test Corp', slug: 'test-corp', role: 'ADMIN' });
+      expect(mockPrismaClient.user.create.mock.calls[0][0].data.memberships).toEqual({
+        create: { role: 'ADMIN', organization: { create: { name: 'Test Corp', slug: 'test-corp' } } }
       });
-      expect(mockPrismaClient.user.create).toHaveBeenCalled();
     });
 
     test('should reject registration with existing email', async () => {
@@ -96,8 +150,20 @@ describe('Auth Routes', () => {
         .post('/api/auth/register')
         .send(userData);
 
-      expect(response.status).toBe(400);
-      expect(response.body.error).toBe('User already exists');
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('User already exists with this email');
+      expect(mockPrismaClient.user.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject an organization name that is taken', async () => {
+      mockPrismaClient.user.findUnique.mockResolvedValue(null);
+      mockPrismaClient.organization.findUnique.mockResolvedValue({ id: 'org-1', slug: 'test-corp' });
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'test@example.com', password: 'Password123!', firstName: 'John', lastName: 'Doe', organization: 'Test Corp' });
+
+      expect(response.status).toBe(409);
       expect(mockPrismaClient.user.create).not.toHaveBeenCalled();
     });
 
@@ -112,7 +178,7 @@ describe('Auth Routes', () => {
         .send(incompleteData);
 
       expect(response.status).toBe(400);
-      expect(response.body.errors).toBeDefined();
+      expect(response.body.details).toBeDefined();
     });
 
     test('should validate email format', async () => {
@@ -128,7 +194,7 @@ describe('Auth Routes', () => {
         .send(userData);
 
       expect(response.status).toBe(400);
-      expect(response.body.errors).toBeDefined();
+      expect(response.body.details).toBeDefined();
     });
 
     test('should validate password strength', async () => {
@@ -144,7 +210,7 @@ describe('Auth Routes', () => {
         .send(userData);
 
       expect(response.status).toBe(400);
-      expect(response.body.errors).toBeDefined();
+      expect(response.body.details).toBeDefined();
     });
   });
 
@@ -155,21 +221,9 @@ describe('Auth Routes', () => {
         password: 'Password123!'
       };
 
-      const hashedPassword = await bcrypt.hash(loginData.password, 10);
-      const mockUser = {
-        id: 'user-123',
-        email: loginData.email,
-        password: hashedPassword,
-        firstName: 'John',
-        lastName: 'Doe',
-        role: 'USER',
-        organization: 'Test Corp',
-        isActive: true
-      };
-
+      const mockUser = await accountWith(loginData.password);
       mockPrismaClient.user.findUnique.mockResolvedValue(mockUser);
       mockPrismaClient.user.update.mockResolvedValue(mockUser);
-      mockPrismaClient.auditLog.create.mockResolvedValue({});
 
       const response = await request(app)
         .post('/api/auth/login')
@@ -177,13 +231,13 @@ describe('Auth Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('token');
+      // The role is the one held in the organization signed in to
       expect(response.body.user).toEqual({
         id: mockUser.id,
         email: mockUser.email,
         firstName: mockUser.firstName,
         lastName: mockUser.lastName,
-        role: mockUser.role,
-        organization: mockUser.organization
+        role: 'POLICY_MANAGER'
       });
       expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
@@ -191,6 +245,19 @@ describe('Auth Routes', () => {
       });
     });
 
+    test('should ask for a second factor before issuing a session', async () => {
+      mockPrismaClient.user.findUnique.mockResolvedValue(await accountWith('Password123!', { mfaEnabled: true }));
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123!' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ mfaRequired: true, mfaMethods: ['totp', 'recovery_code'] });
+      expect(response.body).not.toHaveProperty('token');
+      expect(mockPrismaClient.refreshToken.create).not.toHaveBeenCalled();
+    });
+
     test('should reject login with invalid email', async () => {
       const loginData = {
         email: 'nonexistent@example.com',
@@ -213,15 +280,7 @@ describe('Auth Routes', () => {
         password: 'WrongPassword!'
       };
 
-      const hashedPassword = await bcrypt.hash('CorrectPassword123!', 10);
-      const mockUser = {
-        id: 'user-123',
-        email: loginData.email,
-        password: hashedPassword,
-        isActive: true
-      };
-
-      mockPrismaClient.user.findUnique.mockResolvedValue(mockUser);
+      mockPrismaClient.user.findUnique.mockResolvedValue(await accountWith('CorrectPassword123!'));
 
       const response = await request(app)
         .post('/api/auth/login')
@@ -237,22 +296,16 @@ describe('Auth Routes', () => {
         password: 'Password123!'
       };
 
-      const hashedPassword = await bcrypt.hash(loginData.password, 10);
-      const mockUser = {
-        id: 'user-123',
-        email: loginData.email,
-        password: hashedPassword,
-        isActive: false // Inactive user
-      };
-
-      mockPrismaClient.user.findUnique.mockResolvedValue(mockUser);
+      mockPrismaClient.user.findUnique.mockResolvedValue(await accountWith(loginData.password, { isActive: false }));
 
       const response = await request(app)
         .post('/api/auth/login')
         .send(loginData);
 
+      // Same answer as a wrong password, so it doesn't reveal the account
       expect(response.status).toBe(401);
-      expect(response.body.error).toBe('Account is deactivated');
+      expect(response.body.error).toBe('Invalid credentials');
+      expect(mockPrismaClient.refreshToken.create).not.toHaveBeenCalled();
     });
 
     test('should validate required login fields', async () => {
@@ -266,7 +319,7 @@ describe('Auth Routes', () => {
         .send(incompleteData);
 
       expect(response.status).toBe(400);
-      expect(response.body.errors).toBeDefined();
+      expect(response.body.details).toBeDefined();
     });
   });
 
@@ -277,21 +330,9 @@ describe('Auth Routes', () => {
         password: 'Password123!'
       };
 
-      const hashedPassword = await bcrypt.hash(loginData.password, 10);
-      const mockUser = {
-        id: 'user-123',
-        email: loginData.email,
-        password: hashedPassword,
-        firstName: 'John',
-        lastName: 'Doe',
-        role: 'USER',
-        organization: 'Test Corp',
-        isActive: true
-      };
-
+      const mockUser = await accountWith(loginData.password);
       mockPrismaClient.user.findUnique.mockResolvedValue(mockUser);
       mockPrismaClient.user.update.mockResolvedValue(mockUser);
-      mockPrismaClient.auditLog.create.mockResolvedValue({});
 
       const response = await request(app)
         .post('/api/auth/login')
@@ -304,7 +345,9 @@ describe('Auth Routes', () => {
       const decoded = jwt.verify(response.body.token, process.env.JWT_SECRET || 'fallback-secret') as any;
       expect(decoded.userId).toBe(mockUser.id);
       expect(decoded.email).toBe(mockUser.email);
-      expect(decoded.role).toBe(mockUser.role);
+      expect(decoded.role).toBe('POLICY_MANAGER');
+      expect(decoded.organizationId).toBe('org-1');
+      expect(decoded.sid).toBe(mockPrismaClient.refreshToken.create.mock.calls[0][0].data.familyId);
     });
 
     test('should include proper token expiration', async () => {
@@ -313,20 +356,9 @@ describe('Auth Routes', () => {
         password: 'Password123!'
       };
 
-      const hashedPassword = await bcrypt.hash(loginData.password, 10);
-      const mockUser = {
-        id: 'user-123',
-        email: loginData.email,
-        password: hashedPassword,
-        firstName: 'John',
-        lastName: 'Doe',
-        role: 'USER',
-        isActive: true
-      };
-
+      const mockUser = await accountWith(loginData.password);
       mockPrismaClient.user.findUnique.mockResolvedValue(mockUser);
       mockPrismaClient.user.update.mockResolvedValue(mockUser);
-      mockPrismaClient.auditLog.create.mockResolvedValue({});
 
       const response = await request(app)
         .post('/api/auth/login')
@@ -334,83 +366,39 @@ describe('Auth Routes', () => {
 
       const decoded = jwt.verify(response.body.token, process.env.JWT_SECRET || 'fallback-secret') as any;
       expect(decoded.exp).toBeGreaterThan(Date.now() / 1000); // Should expire in the future
+      expect(new Date(response.body.refreshExpiresAt).getTime()).toBeGreaterThan(Date.now());
     });
   });
 
-  describe('Audit Logging', () => {
-    test('should create audit log for successful registration', async () => {
-      const userData = {
-        email: 'test@example.com',
-        password: 'Password123!',
-        firstName: 'John',
-        lastName: 'Doe'
-      };
-
-      const mockUser = {
-        id: 'user-123',
-        email: userData.email,
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        role: 'USER',
-        isActive: true
-      };
-
+  describe('Session Records', () => {
+    test('should record the session started by a registration', async () => {
       mockPrismaClient.user.findUnique.mockResolvedValue(null);
-      mockPrismaClient.user.create.mockResolvedValue(mockUser);
-      mockPrismaClient.auditLog.create.mockResolvedValue({});
+      mockPrismaClient.user.create.mockResolvedValue(createdUser());
 
       await request(app)
         .post('/api/auth/register')
-        .send(userData);
-
-      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
-        data: {
-          action: 'REGISTER',
-          entityType: 'USER',
-          entityId: mockUser.id,
-          userId: mockUser.id,
-          details: {
-            email: userData.email,
-            firstName: userData.firstName,
-            lastName: userData.lastName
-          }
-        }
+        .set('User-Agent', 'jest')
+        .send({ email: 'test@example.com', password: 'Password123!', firstName: 'John', lastName: 'Doe' });
+
+      expect(mockPrismaClient.refreshToken.create.mock.calls[0][0].data).toMatchObject({
+        userId: 'user-123',
+        organizationId: 'org-1',
+        userAgent: 'jest',
+        ipAddress: expect.any(String),
+        mfaVerifiedAt: null
       });
     });
 
-    test('should create audit log for successful login', async () => {
-      const loginData = {
-        email: 'test@example.com',
-        password: 'Password123!'
-      };
-
-      const hashedPassword = await bcrypt.hash(loginData.password, 10);
-      const mockUser = {
-        id: 'user-123',
-        email: loginData.email,
-        password: hashedPassword,
-        isActive: true
-      };
-
-      mockPrismaClient.user.findUnique.mockResolvedValue(mockUser);
-      mockPrismaClient.user.update.mockResolvedValue(mockUser);
-      mockPrismaClient.auditLog.create.mockResolvedValue({});
+    test('should count a failed login against the account and IP address', async () => {
+      mockPrismaClient.user.findUnique.mockResolvedValue(await accountWith('CorrectPassword123!'));
 
       await request(app)
         .post('/api/auth/login')
-        .send(loginData);
+        .send({ email: 'test@example.com', password: 'WrongPassword!' });
 
-      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
-        data: {
-          action: 'LOGIN',
-          entityType: 'USER',
-          entityId: mockUser.id,
-          userId: mockUser.id,
-          details: {
-            email: loginData.email
-          }
-        }
-      });
+      const scopes = mockPrismaClient.loginThrottle.upsert.mock.calls.map((call: any) => call[0].where.scope_key.scope);
+      expect(scopes.sort()).toEqual(['ACCOUNT', 'IP']);
+      expect(mockPrismaClient.refreshToken.create).not.toHaveBeenCalled();
     });
   });
 
@@ -430,7 +418,7 @@ describe('Auth Routes', () => {
         .send(userData);
 
       expect(response.status).toBe(500);
-      expect(response.body.error).toBe('Internal server error');
+      expect(response.body.error.message).toBe('Database connection failed');
     });
 
     test('should handle database errors during login', async () => {
@@ -446,7 +434,7 @@ describe('Auth Routes', () => {
         .send(loginData);
 
       expect(response.status).toBe(500);
-      expect(response.body.error).toBe('Internal server error');
+      expect(response.body.error.message).toBe('Database connection failed');
     });
 
     test('should handle bcrypt errors', async () => {
@@ -458,18 +446,15 @@ describe('Auth Routes', () => {
       };
 
       mockPrismaClient.user.findUnique.mockResolvedValue(null);
-      
-      // Mock bcrypt to throw an error
-      jest.doMock('bcryptjs', () => ({
-        hash: jest.fn().mockRejectedValue(new Error('Bcrypt error')),
-        compare: jest.fn()
-      }));
+      const hash = jest.spyOn(bcrypt, 'hash').mockRejectedValueOnce(new Error('Bcrypt error') as never);
 
       const response = await request(app)
         .post('/api/auth/register')
         .send(userData);
 
       expect(response.status).toBe(500);
+      expect(mockPrismaClient.user.create).not.toHaveBeenCalled();
+      hash.mockRestore();
     });
   });
 
@@ -482,24 +467,14 @@ describe('Auth Routes', () => {
         lastName: 'Doe'
       };
 
-      const mockUser = {
-        id: 'user-123',
-        email: userData.email,
-        password: 'hashed-password',
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        role: 'USER',
-        isActive: true
-      };
-
       mockPrismaClient.user.findUnique.mockResolvedValue(null);
-      mockPrismaClient.user.create.mockResolvedValue(mockUser);
-      mockPrismaClient.auditLog.create.mockResolvedValue({});
+      mockPrismaClient.user.create.mockResolvedValue(createdUser());
 
       const response = await request(app)
         .post('/api/auth/register')
         .send(userData);
 
+      expect(mockPrismaClient.user.create.mock.calls[0][0].select.password).toBeUndefined();
       expect(response.body.user).not.toHaveProperty('password');
     });
 
@@ -512,8 +487,7 @@ describe('Auth Routes', () => {
       };
 
       mockPrismaClient.user.findUnique.mockResolvedValue(null);
-      mockPrismaClient.user.create.mockResolvedValue({ id: 'user-123' });
-      mockPrismaClient.auditLog.create.mockResolvedValue({});
+      mockPrismaClient.user.create.mockResolvedValue(createdUser());
 
       await request(app)
         .post('/api/auth/register')
@@ -0,0 +1,93 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import decideRouter from '../../src/routes/decide';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/authTokens', () => ({
+  AuthTokens: jest.fn().mockImplementation(() => ({
+    isSessionActive: jest.fn().mockResolvedValue(true),
+  })),
+}));
+
+const mockDecide = jest.fn();
+const mockSubjectFor = jest.fn();
+jest.mock('../../src/services/policyDecision', () => ({
+  PolicyDecisionPoint: jest.fn().mockImplementation(() => ({
+    // The router builds its decision point on import, before these are set
+    decide: (...args: any[]) => mockDecide(...args),
+    subjectFor: (...args: any[]) => mockSubjectFor(...args),
+  })),
+}));
+
+const tokenFor = (userId: string, role: string) =>
+  jwt.sign(
+    { userId, role, organizationId: 'org-a', sid: `session-${userId}`, mfaAt: Math.floor(Date.now() / 1000) },
+    process.env.JWT_SECRET || 'test-jwt-secret'
+  );
+
+const resource = { id: 'payroll', classification: 'CONFIDENTIAL' };
+
+describe('Decision routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDecide.mockResolvedValue({ decision: 'DENY' });
+    mockSubjectFor.mockResolvedValue({ id: 'user-1', email: 'user-1@example.com', role: 'USER' });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/decide', decideRouter);
+  });
+
+  test('should not let users claim subject attributes or context for themselves', async () => {
+    const response = await request(app)
+      .post('/api/decide')
+      .set('Authorization', `Bearer ${tokenFor('user-1', 'USER')}`)
+      .send({ subject: { id: 'user-1', role: 'ADMIN' }, resource, action: 'read', context: { trustScore: 100 } })
+      .expect(400);
+
+    expect(response.body.claimed).toEqual(['subject.role', 'context']);
+    expect(mockDecide).not.toHaveBeenCalled();
+  });
+
+  test('should decide a user\'s own request on the recorded subject and server-side context', async () => {
+    await request(app)
+      .post('/api/decide')
+      .set('Authorization', `Bearer ${tokenFor('user-1', 'USER')}`)
+      .send({ subject: { id: 'user-1' }, resource, action: 'read' })
+      .expect(200);
+
+    expect(mockSubjectFor).toHaveBeenCalledWith('user-1');
+    expect(mockDecide).toHaveBeenCalledWith(
+      {
+        subject: { id: 'user-1', email: 'user-1@example.com', role: 'USER' },
+        resource,
+        action: 'read',
+        context: { ip: expect.any(String), mfa: true },
+      },
+      'user-1'
+    );
+  });
+
+  test('should take the request as given from delegates', async () => {
+    const body = { subject: { id: 'user-2', role: 'AUDITOR' }, resource, action: 'read', context: { trustScore: 40 } };
+
+    await request(app)
+      .post('/api/decide')
+      .set('Authorization', `Bearer ${tokenFor('admin-1', 'ADMIN')}`)
+      .send(body)
+      .expect(200);
+
+    expect(mockSubjectFor).not.toHaveBeenCalled();
+    expect(mockDecide).toHaveBeenCalledWith(body, 'admin-1');
+  });
+});
@@ -0,0 +1,166 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import approvalRequirementRouter from '../../src/routes/approval-requirements';
+import reviewRouter from '../../src/routes/reviews';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/authTokens', () => ({
+  AuthTokens: jest.fn().mockImplementation(() => ({
+    isSessionActive: jest.fn().mockResolvedValue(true),
+  })),
+}));
+
+// In-memory tables behind a client whose $extends runs the tenancy query hook,
+// so the organization scoping under test is the real one
+jest.mock('@prisma/client', () => {
+  const tables: Record<string, any[]> = { approvalRequirement: [], reviewCycle: [], auditLog: [] };
+
+  const matches = (row: any, where: any = {}): boolean =>
+    Object.entries(where).every(([field, value]: [string, any]) => {
+      if (field === 'AND') return (Array.isArray(value) ? value : [value]).every(part => matches(row, part));
+      if (value && typeof value === 'object' && !(value instanceof Date)) return matches(row, value);
+      return row[field] === value;
+    });
+
+  const delegate = (table: string) => ({
+    findUnique: jest.fn(async ({ where }: any) => tables[table].find(row => matches(row, where)) ?? null),
+    findMany: jest.fn(async ({ where }: any = {}) => tables[table].filter(row => matches(row, where))),
+    create: jest.fn(async ({ data }: any) => {
+      const row = { id: `${table}-${tables[table].length + 1}`, ...data };
+      tables[table].push(row);
+      return row;
+    }),
+    upsert: jest.fn(async ({ where, create, update }: any) => {
+      const existing = tables[table].find(row => matches(row, where));
+      if (existing) return Object.assign(existing, update);
+      const row = { id: `${table}-${tables[table].length + 1}`, ...create };
+      tables[table].push(row);
+      return row;
+    }),
+  });
+
+  const mockPrismaClient: any = {
+    approvalRequirement: delegate('approvalRequirement'),
+    reviewCycle: delegate('reviewCycle'),
+    auditLog: delegate('auditLog'),
+    __tables: tables,
+  };
+
+  mockPrismaClient.$extends = jest.fn((extension: any) => {
+    const hook = extension.query.$allModels.$allOperations;
+    const scoped: any = { ...mockPrismaClient };
+    for (const name of ['approvalRequirement', 'reviewCycle', 'auditLog']) {
+      const model = name[0].toUpperCase() + name.slice(1);
+      scoped[name] = Object.fromEntries(
+        Object.entries(mockPrismaClient[name]).map(([operation, query]) => [
+          operation,
+          (args: any) => hook({ model, operation, args, query }),
+        ])
+      );
+    }
+    return scoped;
+  });
+
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const { PrismaClient } = jest.requireMock('@prisma/client');
+const tables = new PrismaClient().__tables as Record<string, any[]>;
+
+const tokenFor = (userId: string, organizationId: string) =>
+  jwt.sign({ userId, role: 'ADMIN', organizationId, sid: `session-${userId}` }, process.env.JWT_SECRET || 'test-jwt-secret');
+
+describe('Organization settings isolation', () => {
+  let app: express.Application;
+  const acme = tokenFor('acme-admin', 'org-acme');
+  const globex = tokenFor('globex-admin', 'org-globex');
+
+  beforeEach(() => {
+    Object.values(tables).forEach(rows => rows.splice(0));
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/approval-requirements', approvalRequirementRouter);
+    app.use('/api/reviews', reviewRouter);
+  });
+
+  test('should keep approval requirements within the organization that set them', async () => {
+    await request(app)
+      .put('/api/approval-requirements/HR')
+      .set('Authorization', `Bearer ${acme}`)
+      .send({ requiredApprovals: 3, approverRoles: ['ADMIN'] })
+      .expect(200);
+
+    const other = await request(app)
+      .get('/api/approval-requirements')
+      .set('Authorization', `Bearer ${globex}`)
+      .expect(200);
+    expect(other.body.requirements.find((r: any) => r.category === 'HR')).toMatchObject({
+      requiredApprovals: 1,
+      isDefault: true,
+    });
+
+    // Globex configuring the same category leaves Acme's rule alone
+    await request(app)
+      .put('/api/approval-requirements/HR')
+      .set('Authorization', `Bearer ${globex}`)
+      .send({ requiredApprovals: 2, approverRoles: ['POLICY_MANAGER'] })
+      .expect(200);
+
+    const own = await request(app)
+      .get('/api/approval-requirements')
+      .set('Authorization', `Bearer ${acme}`)
+      .expect(200);
+    expect(own.body.requirements.find((r: any) => r.category === 'HR')).toEqual({
+      category: 'HR',
+      requiredApprovals: 3,
+      approverRoles: ['ADMIN'],
+      isDefault: false,
+    });
+    expect(tables.approvalRequirement.map(row => row.organizationId).sort()).toEqual(['org-acme', 'org-globex']);
+  });
+
+  test('should keep review cycles within the organization that set them', async () => {
+    await request(app)
+      .put('/api/reviews/cycles/category/security')
+      .set('Authorization', `Bearer ${acme}`)
+      .send({ intervalDays: 30 })
+      .expect(200);
+    await request(app)
+      .put('/api/reviews/cycles/framework/sox')
+      .set('Authorization', `Bearer ${globex}`)
+      .send({ intervalDays: 60, leadDays: 10 })
+      .expect(200);
+
+    const acmeCycles = await request(app)
+      .get('/api/reviews/cycles')
+      .set('Authorization', `Bearer ${acme}`)
+      .expect(200);
+    expect(acmeCycles.body.cycles.find((c: any) => c.category === 'SECURITY')).toMatchObject({
+      intervalDays: 30,
+      isDefault: false,
+    });
+    expect(acmeCycles.body.cycles.some((c: any) => c.framework === 'SOX')).toBe(false);
+
+    const globexCycles = await request(app)
+      .get('/api/reviews/cycles')
+      .set('Authorization', `Bearer ${globex}`)
+      .expect(200);
+    expect(globexCycles.body.cycles.find((c: any) => c.category === 'SECURITY')).toMatchObject({
+      intervalDays: 90,
+      isDefault: true,
+    });
+    expect(globexCycles.body.cycles.find((c: any) => c.framework === 'SOX')).toMatchObject({
+      intervalDays: 60,
+      leadDays: 10,
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import policyRouter from '../../src/routes/policies';
+import evidenceRouter from '../../src/routes/evidence';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/authTokens', () => ({
+  AuthTokens: jest.fn().mockImplementation(() => ({
+    isSessionActive: jest.fn().mockResolvedValue(true),
+  })),
+}));
+
+// Evidence bytes are kept in memory instead of EVIDENCE_DIR
+jest.mock('../../src/utils/contentStore', () => ({
+  ...jest.requireActual('../../src/utils/contentStore'),
+  ContentStore: jest.fn().mockImplementation(() => ({
+    put: jest.fn().mockResolvedValue({ stored: true }),
+  })),
+}));
+
+// In-memory tables behind a client whose $extends runs the tenancy query hook,
+// so the organization scoping under test is the real one
+jest.mock('@prisma/client', () => {
+  const tables: Record<string, any[]> = {};
+  const table = (name: string) => (tables[name] = tables[name] || []);
+
+  const matches = (row: any, where: any = {}): boolean =>
+    Object.entries(where).every(([field, value]: [string, any]) => {
+      if (field === 'AND') return (Array.isArray(value) ? value : [value]).every(part => matches(row, part));
+      return (row[field] ?? null) === value;
+    });
+
+  const delegate = (name: string) => ({
+    findUnique: async ({ where }: any) => table(name).find(row => matches(row, where)) ?? null,
+    findFirst: async ({ where }: any) => table(name).find(row => matches(row, where)) ?? null,
+    create: async ({ data }: any) => {
+      const row = { id: `${name}-${table(name).length + 1}`, ...data };
+      table(name).push(row);
+      return row;
+    },
+  });
+
+  const models = ['policy', 'policyVersion', 'auditLog', 'evidence'];
+  const mockPrismaClient: any = Object.fromEntries(models.map(name => [name, delegate(name)]));
+  mockPrismaClient.__tables = tables;
+
+  mockPrismaClient.$extends = (extension: any) => {
+    const hook = extension.query.$allModels.$allOperations;
+    const scoped: any = {};
+    for (const name of models) {
+      const model = name[0].toUpperCase() + name.slice(1);
+      scoped[name] = Object.fromEntries(
+        Object.entries(mockPrismaClient[name]).map(([operation, query]) => [
+          operation,
+          (args: any) => hook({ model, operation, args, query }),
+        ])
+      );
+    }
+    scoped.$transaction = (callback: any) => callback(scoped);
+    return scoped;
+  };
+
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const { PrismaClient } = jest.requireMock('@prisma/client');
+const tables = new PrismaClient().__tables as Record<string, any[]>;
+
+const tokenFor = (userId: string, organizationId: string) =>
+  jwt.sign({ userId, role: 'ADMIN', organizationId, sid: `session-${userId}` }, process.env.JWT_SECRET || 'test-jwt-secret');
+
+const importFile = JSON.stringify([
+  {
+    title: 'Clean Desk Policy',
+    description: 'Keeping desks free of sensitive papers',
+    content: 'Employees must lock away sensitive documents at the end of every working day.',
+    category: 'SECURITY',
+    effectiveDate: '2025-01-01',
+  },
+]);
+
+describe('Upload routes', () => {
+  let app: express.Application;
+  const acme = tokenFor('acme-admin', 'org-acme');
+  const globex = tokenFor('globex-admin', 'org-globex');
+
+  beforeEach(() => {
+    Object.values(tables).forEach(rows => rows.splice(0));
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/policies', policyRouter);
+    app.use('/api/evidence', evidenceRouter);
+  });
+
+  test('should create imported policies in the importer\'s organization', async () => {
+    const response = await request(app)
+      .post('/api/policies/import')
+      .set('Authorization', `Bearer ${acme}`)
+      .attach('file', Buffer.from(importFile), 'policies.json')
+      .expect(201);
+
+    expect(response.body.report.created).toBe(1);
+    expect(tables.policy).toHaveLength(1);
+    expect(tables.policy[0]).toMatchObject({ title: 'Clean Desk Policy', organizationId: 'org-acme' });
+    expect(tables.auditLog[0]).toMatchObject({ action: 'IMPORT_POLICY', organizationId: 'org-acme' });
+  });
+
+  test('should store evidence in the uploader\'s organization and not link other organizations\' policies', async () => {
+    tables.policy = tables.policy || [];
+    tables.policy.push({ id: 'acme-policy', organizationId: 'org-acme', complianceFramework: 'SOX' });
+
+    await request(app)
+      .post('/api/evidence')
+      .set('Authorization', `Bearer ${globex}`)
+      .field('policyId', 'acme-policy')
+      .attach('file', Buffer.from('access review export'), 'review.csv')
+      .expect(404);
+
+    await request(app)
+      .post('/api/evidence')
+      .set('Authorization', `Bearer ${acme}`)
+      .field('policyId', 'acme-policy')
+      .attach('file', Buffer.from('access review export'), 'review.csv')
+      .expect(201);
+
+    expect(tables.evidence).toHaveLength(1);
+    expect(tables.evidence[0]).toMatchObject({ policyId: 'acme-policy', organizationId: 'org-acme' });
+  });
+
+  test('should not report another organization\'s copy of a file as a duplicate', async () => {
+    const upload = (token: string) =>
+      request(app)
+        .post('/api/evidence')
+        .set('Authorization', `Bearer ${token}`)
+        .attach('file', Buffer.from('signed board minutes'), 'minutes.pdf');
+
+    await upload(acme).expect(201);
+    const response = await upload(globex).expect(201);
+
+    expect(response.body.duplicate).toBe(false);
+    expect(tables.evidence.map(row => row.organizationId)).toEqual(['org-acme', 'org-globex']);
+  });
+});
@@ -0,0 +1,252 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import policyRouter from '../../src/routes/policies';
+import userRouter from '../../src/routes/users';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/authTokens', () => ({
+  AuthTokens: jest.fn().mockImplementation(() => ({
+    isSessionActive: jest.fn().mockResolvedValue(true),
+  })),
+}));
+
+// In-memory tables behind a client whose $extends runs the tenancy query hook,
+// with enough of Prisma's filters (relations, `not`, `in`, `some`) for the
+// queries under test
+jest.mock('@prisma/client', () => {
+  const tables: Record<string, any[]> = {};
+  const table = (name: string) => (tables[name] = tables[name] || []);
+
+  // Relation field -> [parent table, foreign key]
+  const parents: Record<string, [string, string]> = {
+    policy: ['policy', 'policyId'],
+    template: ['policyTemplate', 'templateId'],
+    user: ['user', 'userId'],
+  };
+
+  const compare = (actual: any, condition: any): boolean => {
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('not' in condition) return (actual ?? null) !== condition.not;
+      if ('in' in condition) return condition.in.includes(actual);
+    }
+    return (actual ?? null) === condition;
+  };
+
+  const matches = (row: any, where: any = {}): boolean =>
+    Object.entries(where).every(([field, value]: [string, any]) => {
+      if (value === undefined) return true;
+      if (field === 'AND') return (Array.isArray(value) ? value : [value]).every(part => matches(row, part));
+      if (field === 'OR') return value.some((part: any) => matches(row, part));
+      if (field === 'memberships') {
+        return table('organizationMember').some(member => member.userId === row.id && matches(member, value.some));
+      }
+      if (parents[field]) {
+        const [parent, key] = parents[field];
+        const related = table(parent).find(candidate => candidate.id === row[key]);
+        return Boolean(related) && matches(related, value);
+      }
+      // Compound unique keys such as organizationId_userId
+      if (field.includes('_') && value && typeof value === 'object') return matches(row, value);
+      return compare(row[field], value);
+    });
+
+  // Selected memberships of a user, as `select: { memberships: { where } }` returns them
+  const project = (row: any, select: any) =>
+    row && select?.memberships
+      ? {
+          ...row,
+          memberships: table('organizationMember')
+            .filter(member => member.userId === row.id && matches(member, select.memberships.where))
+            .map(member => ({ role: member.role })),
+        }
+      : row;
+
+  const delegate = (name: string) => ({
+    findUnique: async ({ where, select }: any) => project(table(name).find(row => matches(row, where)) ?? null, select),
+    findFirst: async ({ where }: any = {}) => table(name).find(row => matches(row, where)) ?? null,
+    findMany: async ({ where, select }: any = {}) =>
+      table(name).filter(row => matches(row, where)).map(row => project(row, select)),
+    count: async ({ where }: any = {}) => table(name).filter(row => matches(row, where)).length,
+    create: async ({ data }: any) => {
+      const row = { id: `${name}-${table(name).length + 1}`, createdAt: new Date(), ...data };
+      table(name).push(row);
+      return row;
+    },
+    update: async ({ where, data, select }: any) => {
+      const row = table(name).find(candidate => matches(candidate, where));
+      if (!row) throw new Error(`${name} not found`);
+      return project(Object.assign(row, data), select);
+    },
+    updateMany: async ({ where, data }: any) => {
+      const rows = table(name).filter(row => matches(row, where));
+      rows.forEach(row => Object.assign(row, data));
+      return { count: rows.length };
+    },
+    delete: async ({ where }: any) => {
+      const row = table(name).find(candidate => matches(candidate, where));
+      if (!row) throw new Error(`${name} not found`);
+      table(name).splice(table(name).indexOf(row), 1);
+      return row;
+    },
+  });
+
+  const models = [
+    'user', 'organizationMember', 'refreshToken', 'policy', 'policyVersion', 'policyApproval', 'policyReview',
+    'policyException', 'policyControl', 'policyTemplate', 'policyTemplateVersion', 'evidence', 'auditLog',
+  ];
+  const mockPrismaClient: any = Object.fromEntries(models.map(name => [name, delegate(name)]));
+  mockPrismaClient.__tables = tables;
+
+  mockPrismaClient.$extends = (extension: any) => {
+    const hook = extension.query.$allModels.$allOperations;
+    const scoped: any = {};
+    for (const name of models) {
+      const model = name[0].toUpperCase() + name.slice(1);
+      scoped[name] = Object.fromEntries(
+        Object.entries(mockPrismaClient[name]).map(([operation, query]) => [
+          operation,
+          (args: any) => hook({ model, operation, args, query }),
+        ])
+      );
+    }
+    scoped.$transaction = (operations: any) =>
+      typeof operations === 'function' ? operations(scoped) : Promise.all(operations);
+    return scoped;
+  };
+
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const { PrismaClient } = jest.requireMock('@prisma/client');
+const tables = new PrismaClient().__tables as Record<string, any[]>;
+
+const tokenFor = (userId: string, role: string, organizationId = 'org-a') =>
+  jwt.sign(
+    { userId, role, organizationId, sid: `session-${userId}`, mfaAt: Math.floor(Date.now() / 1000) },
+    process.env.JWT_SECRET || 'test-jwt-secret'
+  );
+
+const account = (id: string, overrides: any = {}) => ({
+  id,
+  email: `${id}@example.com`,
+  firstName: id,
+  lastName: 'Example',
+  role: 'USER',
+  isActive: true,
+  isPlatformAdmin: false,
+  ...overrides,
+});
+
+const policyBody = {
+  title: 'Remote Access Policy',
+  description: 'Who may connect from outside the office',
+  content: 'Remote access requires the corporate VPN and a managed device at all times.',
+  category: 'SECURITY',
+  effectiveDate: '2026-01-01',
+};
+
+describe('User routes', () => {
+  let app: express.Application;
+  const admin = tokenFor('admin-1', 'ADMIN');
+
+  beforeEach(() => {
+    Object.values(tables).forEach(rows => rows.splice(0));
+    tables.user = [
+      account('admin-1', { role: 'ADMIN' }),
+      account('author-1'),
+      account('heir-1'),
+      account('operator-1', { isPlatformAdmin: true }),
+    ];
+    tables.organizationMember = [
+      { id: 'mem-1', organizationId: 'org-a', userId: 'admin-1', role: 'ADMIN' },
+      { id: 'mem-2', organizationId: 'org-a', userId: 'author-1', role: 'POLICY_MANAGER' },
+      { id: 'mem-3', organizationId: 'org-a', userId: 'heir-1', role: 'POLICY_MANAGER' },
+      { id: 'mem-4', organizationId: 'org-ops', userId: 'operator-1', role: 'ADMIN' },
+    ];
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/policies', policyRouter);
+    app.use('/api/users', userRouter);
+  });
+
+  const createPolicy = async (authorId: string) => {
+    const response = await request(app)
+      .post('/api/policies')
+      .set('Authorization', `Bearer ${tokenFor(authorId, 'POLICY_MANAGER')}`)
+      .send(policyBody)
+      .expect(201);
+    return response.body.policy;
+  };
+
+  test('should delete the author of a created policy, reassigning the policy and its versions', async () => {
+    const policy = await createPolicy('author-1');
+    expect(tables.policyVersion).toEqual([expect.objectContaining({ policyId: policy.id, createdById: 'author-1' })]);
+
+    const response = await request(app)
+      .delete('/api/users/author-1')
+      .set('Authorization', `Bearer ${admin}`)
+      .send({ reassignTo: 'heir-1' })
+      .expect(200);
+
+    expect(response.body.reassigned).toMatchObject({ policies: 1, versions: 1 });
+    expect(tables.policy[0].authorId).toBe('heir-1');
+    expect(tables.policyVersion[0].createdById).toBe('heir-1');
+    expect(tables.user.some(user => user.id === 'author-1')).toBe(false);
+  });
+
+  test('should not delete someone whose versions of another author\'s policy must keep their author', async () => {
+    const policy = await createPolicy('author-1');
+    tables.policyVersion.push({ id: 'ver-2', policyId: policy.id, version: 2, createdById: 'heir-1' });
+
+    const response = await request(app)
+      .delete('/api/users/heir-1')
+      .set('Authorization', `Bearer ${admin}`)
+      .send({ reassignTo: 'author-1' })
+      .expect(409);
+
+    expect(response.body.history).toEqual({ policyVersions: 1 });
+    expect(tables.user.some(user => user.id === 'heir-1')).toBe(true);
+  });
+
+  test('should limit organization admins to the membership and leave the account to a platform admin', async () => {
+    tables.organizationMember.push({ id: 'mem-5', organizationId: 'org-b', userId: 'author-1', role: 'ADMIN' });
+
+    await request(app)
+      .put('/api/users/author-1')
+      .set('Authorization', `Bearer ${admin}`)
+      .send({ email: 'attacker@example.com' })
+      .expect(403);
+    await request(app).post('/api/users/author-1/deactivate').set('Authorization', `Bearer ${admin}`).expect(403);
+
+    await request(app)
+      .put('/api/users/author-1/role')
+      .set('Authorization', `Bearer ${admin}`)
+      .send({ role: 'AUDITOR' })
+      .expect(200);
+    expect(tables.organizationMember.find(member => member.id === 'mem-2').role).toBe('AUDITOR');
+    const listed = await request(app).get('/api/users?role=AUDITOR').set('Authorization', `Bearer ${admin}`).expect(200);
+    expect(listed.body.users).toEqual([expect.objectContaining({ id: 'author-1', role: 'AUDITOR' })]);
+    expect(tables.organizationMember.find(member => member.id === 'mem-5').role).toBe('ADMIN');
+    expect(tables.user.find(user => user.id === 'author-1')).toMatchObject({
+      email: 'author-1@example.com',
+      role: 'USER',
+      isActive: true,
+    });
+
+    // A platform admin reaches accounts outside their own organization
+    const operator = tokenFor('operator-1', 'ADMIN', 'org-ops');
+    // org-b keeps another admin once author-1 is deactivated
+    tables.organizationMember.push({ id: 'mem-6', organizationId: 'org-b', userId: 'heir-1', role: 'ADMIN' });
+    await request(app).post('/api/users/author-1/deactivate').set('Authorization', `Bearer ${operator}`).expect(200);
+    expect(tables.user.find(user => user.id === 'author-1').isActive).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { canApply, compileRules, ruleCovers, ruleShape, rulesOverlap } from '../../src/rules';
+
+const shape = (source: string) => {
+  const { rules, errors } = compileRules(source);
+  expect(errors).toEqual([]);
+  return ruleShape(rules[0]);
+};
+
+describe('rule analysis', () => {
+  test('should detect rules that can never apply', () => {
+    expect(canApply(shape('permit "a" { subjects: role == "ADMIN" and role == "USER"; }'))).toBe(false);
+    expect(canApply(shape('permit "a" { when: trustScore > 80 and trustScore < 50; }'))).toBe(false);
+    expect(canApply(shape('permit "a" { when: mfa and not mfa; }'))).toBe(false);
+    expect(canApply(shape('permit "a" { actions: []; }'))).toBe(false);
+    expect(canApply(shape('permit "a" { subjects: role in ["ADMIN", "USER"] and role != "ADMIN"; }'))).toBe(true);
+  });
+
+  test('should treat a negated comparison as true when the attribute is missing', () => {
+    // department may be absent, which satisfies both negations
+    expect(canApply(shape('permit "a" { subjects: not department == "x" and not department != "x"; }'))).toBe(true);
+    expect(canApply(shape('permit "a" { subjects: department == "x" and department != "x"; }'))).toBe(false);
+  });
+
+  test('should find overlapping rules through actions and conditions', () => {
+    const reads = shape('permit "a" { actions: ["read"]; when: trustScore >= 70; }');
+
+    expect(rulesOverlap(reads, shape('deny "b" { actions: ["read", "export"]; when: trustScore < 80; }'))).toBe(true);
+    expect(rulesOverlap(reads, shape('deny "b" { actions: ["export"]; }'))).toBe(false);
+    expect(rulesOverlap(reads, shape('deny "b" { when: trustScore < 70; }'))).toBe(false);
+  });
+
+  test('should decide coverage for ranges, sets, lists and time windows', () => {
+    expect(
+      ruleCovers(shape('deny "a" { when: trustScore < 50; }'), shape('permit "b" { when: trustScore <= 20; }'))
+    ).toBe(true);
+    expect(
+      ruleCovers(
+        shape('deny "a" { subjects: role in ["USER", "AUDITOR"]; }'),
+        shape('permit "b" { subjects: role != "ADMIN" and role != "POLICY_MANAGER"; }')
+      )
+    ).toBe(true);
+    expect(
+      ruleCovers(
+        shape('permit "a" { subjects: groups contains "ops"; }'),
+        shape('permit "b" { subjects: "ops" in groups and department == "it"; }')
+      )
+    ).toBe(true);
+    expect(
+      ruleCovers(
+        shape('deny "a" { when: time between 20:00 and 07:00; }'),
+        shape('permit "b" { when: time between 22:00 and 23:30 or time < 06:00; }')
+      )
+    ).toBe(true);
+    expect(
+      ruleCovers(shape('deny "a" { when: time between 20:00 and 07:00; }'), shape('permit "b" { when: time > 06:00; }'))
+    ).toBe(false);
+  });
+
+  test('should not claim coverage it cannot prove', () => {
+    const outer = shape('deny "a" { subjects: department == resource.owner; }');
+
+    expect(ruleCovers(outer, shape('permit "b" { subjects: role == "USER"; }'))).toBe(false);
+    expect(
+      ruleCovers(outer, shape('permit "b" { subjects: department == resource.owner and role == "USER"; }'))
+    ).toBe(true);
+    expect(ruleCovers(shape('deny "a" { actions: ["read"]; }'), shape('permit "b" { actions: *; }'))).toBe(false);
+  });
+});
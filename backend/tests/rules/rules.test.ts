@@ -0,0 +1,131 @@
+import { compileRules, evaluateRules } from '../../src/rules';
+
+const financeRules = `
+# Finance reports are readable from managed devices during office hours
+permit "finance-reports" {
+  subjects: role in ["ADMIN", "AUDITOR"] or department == "finance";
+  resources: type == "financial-report";
+  actions: ["read", "export"];
+  when: trustScore >= 70 and device.managed and time between 08:00 and 18:00;
+  obligations: ["log-access"];
+}
+
+deny "untrusted-export" {
+  resources: classification == "restricted";
+  actions: ["export"];
+  when: location.country not in ["US", "CA"] or not mfa;
+  obligations: ["notify-security"];
+}
+`;
+
+const request = {
+  subject: { id: 'u1', role: 'USER', department: 'finance' },
+  resource: { id: 'r1', type: 'financial-report', classification: 'restricted' },
+  action: 'read',
+  context: {
+    trustScore: 82,
+    mfa: true,
+    device: { managed: true },
+    location: { country: 'US' },
+    time: '09:30',
+  },
+};
+
+describe('policy rule language', () => {
+  describe('compileRules', () => {
+    test('should compile a valid rule section', () => {
+      const { rules, errors } = compileRules(financeRules);
+
+      expect(errors).toEqual([]);
+      expect(rules.map(rule => [rule.name, rule.effect, rule.actions])).toEqual([
+        ['finance-reports', 'permit', ['read', 'export']],
+        ['untrusted-export', 'deny', ['export']],
+      ]);
+    });
+
+    test('should report syntax errors with their position and keep checking later clauses', () => {
+      const { errors } = compileRules(
+        'permit "a" {\n  subjects: role == ;\n  actions: read;\n}'
+      );
+
+      expect(errors).toEqual([
+        expect.objectContaining({ stage: 'syntax', line: 2, column: 21, message: "Expected a value but found ';'" }),
+        expect.objectContaining({ stage: 'syntax', line: 3, column: 12, message: "Expected '[' but found 'read'" }),
+      ]);
+    });
+
+    test('should report lexical errors', () => {
+      const { errors } = compileRules('permit "a" {\n  when: time > 25:00 $;\n}');
+
+      expect(errors.map(error => [error.line, error.column, error.message])).toEqual([
+        [2, 16, 'Invalid time 25:00; expected HH:MM between 00:00 and 23:59'],
+        [2, 22, "Unexpected character '$'"],
+      ]);
+    });
+
+    test('should report type errors at the offending expression', () => {
+      const source = [
+        'permit "typed" {',
+        '  subjects: role == "ADMN" and groups contains 3;',
+        '  when: trustScore >= "high" and device.color == "red" and mfa == 1;',
+        '}',
+      ].join('\n');
+
+      const { errors } = compileRules(source);
+
+      expect(errors.map(error => [error.stage, error.line, error.column, error.message])).toEqual([
+        ['type', 2, 21, '"ADMN" is not a valid role; expected one of USER, ADMIN, POLICY_MANAGER, AUDITOR'],
+        ['type', 2, 48, 'Cannot check whether a list of text contains a number'],
+        ['type', 3, 23, "Cannot compare a number with text using '>='"],
+        ['type', 3, 34, expect.stringContaining("Unknown context attribute 'device.color'")],
+        ['type', 3, 67, "Cannot compare true/false with a number using '=='"],
+      ]);
+    });
+
+    test('should require conditions to be true/false and rule names to be unique', () => {
+      const { errors } = compileRules('permit "a" { when: trustScore; }\ndeny "a" { }');
+
+      expect(errors.map(error => error.message)).toEqual([
+        'Condition must be true/false but this is a number',
+        'Rule name "a" is already used on line 1',
+      ]);
+    });
+  });
+
+  describe('evaluateRules', () => {
+    const { rules } = compileRules(financeRules);
+
+    test('should permit a matching request and return its obligations', () => {
+      expect(evaluateRules(rules, request)).toEqual({
+        decision: 'PERMIT',
+        matched: [{ rule: 'finance-reports', effect: 'permit', obligations: ['log-access'] }],
+        obligations: ['log-access'],
+      });
+    });
+
+    test('should let a matching deny rule override permits', () => {
+      const result = evaluateRules(rules, {
+        ...request,
+        action: 'export',
+        context: { ...request.context, location: { country: 'FR' } },
+      });
+
+      expect(result.decision).toBe('DENY');
+      expect(result.obligations).toEqual(['notify-security']);
+    });
+
+    test('should not match outside the time window or when attributes are missing', () => {
+      expect(evaluateRules(rules, { ...request, context: { ...request.context, time: '19:00' } }).decision).toBe(
+        'NOT_APPLICABLE'
+      );
+      expect(evaluateRules(rules, { ...request, context: { time: '09:30' } }).decision).toBe('NOT_APPLICABLE');
+    });
+
+    test('should support time windows that wrap past midnight', () => {
+      const { rules: night } = compileRules('deny "night" { when: time between 22:00 and 06:00; }');
+
+      expect(evaluateRules(night, { ...request, context: { time: '23:15' } }).decision).toBe('DENY');
+      expect(evaluateRules(night, { ...request, context: { time: '12:00' } }).decision).toBe('NOT_APPLICABLE');
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { AISecurityAnalyzer } from '../../src/services/aiSecurityAnalyzer';
 import { PrismaClient } from '@prisma/client';
+import { currentOrganizationId, runInOrganization } from '../../src/utils/tenancy';
 
 jest.mock('@prisma/client', () => ({
   PrismaClient: jest.fn().mockImplementation(() => ({
@@ -97,4 +98,40 @@ describe('AISecurityAnalyzer', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('behavior profiles', () => {
+    const log = (organizationId: string, location: string) => ({
+      action: 'VIEW_POLICY',
+      organizationId,
+      location,
+      createdAt: new Date('2026-01-05T10:00:00Z'),
+    });
+
+    it('should load every organization\'s users and score each organization on its own activity', async () => {
+      const scopes: Array<string | null> = [];
+      (PrismaClient as unknown as jest.Mock).mockImplementationOnce(() => ({
+        user: {
+          findMany: jest.fn(async () => {
+            scopes.push(currentOrganizationId());
+            return [{
+              id: 'shared-user',
+              auditLogs: [
+                log('org-a', 'Berlin'),
+                ...['Lagos', 'Lima', 'Oslo', 'Perth', 'Quito', 'Seoul'].map(city => log('org-b', city)),
+              ],
+            }];
+          }),
+        },
+      }));
+
+      // Built inside a request of org-a, as the routes do on first use
+      const scoped = runInOrganization('org-a', () => new AISecurityAnalyzer());
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(scopes).toEqual([null]);
+      // org-b's six locations are a risk factor there, not in org-a
+      expect(runInOrganization('org-a', () => scoped.analyzeUserBehavior('shared-user'))).toBe(20);
+      expect(runInOrganization('org-b', () => scoped.analyzeUserBehavior('shared-user'))).toBe(70);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { createPublicKey, generateKeyPairSync, KeyObject } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { PrismaClient } from '@prisma/client';
+import { AuditBundles } from '../../src/services/auditBundles';
+import { packBundle, verifyBundle } from '../../src/utils/auditBundle';
+import { HttpError } from '../../src/utils/errors';
+import { readTar, writeTar } from '../../src/utils/tar';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockReadEvidence = jest.fn();
+jest.mock('../../src/services/evidenceStore', () => ({
+  EvidenceStore: jest.fn(() => ({ read: mockReadEvidence })),
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: { findMany: jest.fn() },
+    evidence: { findMany: jest.fn() },
+    policyVersion: { findMany: jest.fn() },
+    policyApproval: { findMany: jest.fn() },
+    policyAssignment: { findMany: jest.fn() },
+    blockchainTransaction: { findMany: jest.fn() },
+    auditLog: { findMany: jest.fn(), create: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const auditor = { userId: 'auditor-1', role: 'AUDITOR' };
+const at = (day: number) => new Date(Date.UTC(2026, 0, day));
+const evidenceHash = 'a'.repeat(64);
+
+const files = (archive: Buffer) =>
+  new Map(readTar(gunzipSync(archive)).map(entry => [entry.name, entry.content.toString('utf8')]));
+
+describe('AuditBundles', () => {
+  let bundles: AuditBundles;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    bundles = new AuditBundles();
+    mockPrisma.policy.findMany.mockResolvedValue([{ id: 'pol-1', title: 'Financial Controls', controls: [] }]);
+    mockPrisma.evidence.findMany.mockResolvedValue([
+      { id: 'ev-1', sha256: evidenceHash, fileName: 'signoff.pdf' },
+      { id: 'ev-2', sha256: 'b'.repeat(64), fileName: 'lost.pdf' },
+    ]);
+    mockPrisma.policyVersion.findMany.mockResolvedValue([{ id: 'ver-1', policyId: 'pol-1', version: 1 }]);
+    mockPrisma.policyApproval.findMany.mockResolvedValue([{ id: 'apr-1', decision: 'APPROVED' }]);
+    mockPrisma.policyAssignment.findMany.mockResolvedValue([]);
+    mockPrisma.blockchainTransaction.findMany.mockResolvedValue([]);
+    mockPrisma.auditLog.findMany.mockResolvedValue([
+      { id: 'log-1', action: 'ANCHOR_POLICY_DOCUMENT', entityType: 'POLICY', entityId: 'pol-1', details: { txHash: 'policy_1' }, createdAt: at(3) },
+      { id: 'log-2', action: 'ACCESS_DECISION', entityType: 'RESOURCE', entityId: 'ledger', details: { policyIds: ['pol-1'], ledger: { fabricTxId: 'fabric_1', ethTxId: 'eth_1', verified: true } }, createdAt: at(4) },
+      { id: 'log-3', action: 'RECORD_ZK_VERIFICATION', entityType: 'POLICY', entityId: 'pol-1', details: { isValid: true, commitment: 'c1' }, createdAt: at(5) },
+    ]);
+    mockReadEvidence.mockImplementation((id: string) =>
+      id === 'ev-1'
+        ? Promise.resolve({ content: Buffer.from('signed off') })
+        : Promise.reject(new HttpError(409, 'Evidence file is missing from the store'))
+    );
+  });
+
+  test('should pack the framework records into a bundle that verifies', async () => {
+    const bundle = await bundles.build({ framework: 'sox', from: at(1), to: at(31) }, auditor);
+    const contents = files(bundle.archive);
+    const ledger = JSON.parse(contents.get('ledger.json')!);
+    const evidence = JSON.parse(contents.get('evidence.json')!);
+
+    expect(verifyBundle(bundle.archive, { publicKey: bundles.publicKey() })).toMatchObject({
+      valid: true,
+      signatureValid: true,
+      trustedKey: true,
+    });
+    expect(bundle.manifest).toMatchObject({
+      framework: 'SOX',
+      counts: { policies: 1, versions: 1, approvals: 1, auditLogs: 3, ledgerTransactions: 3, zkVerifications: 1, evidence: 1 },
+    });
+    expect(ledger.references.map((reference: any) => [reference.txId, reference.network, reference.verified])).toEqual([
+      ['policy_1', null, null],
+      ['fabric_1', 'hyperledger-fabric', true],
+      ['eth_1', 'ethereum', true],
+    ]);
+    expect(JSON.parse(contents.get('zk-verifications.json')!)).toHaveLength(1);
+    expect(contents.get(`evidence/${evidenceHash}`)).toBe('signed off');
+    expect(evidence.map((record: any) => record.included)).toEqual([true, false]);
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'EXPORT_AUDIT_BUNDLE',
+      entityId: bundle.manifest.bundleId,
+      details: expect.objectContaining({ manifestHash: bundle.manifestHash }),
+    });
+  });
+
+  test('should select policies by framework tag or control mapping', async () => {
+    await bundles.build({ framework: 'GDPR', from: at(1), to: at(31) }, auditor);
+
+    expect(mockPrisma.policy.findMany.mock.calls[0][0].where).toEqual({
+      createdAt: { lte: at(31) },
+      OR: [{ complianceFramework: 'GDPR' }, { controls: { some: { framework: 'GDPR' } } }],
+    });
+  });
+
+  test('should reject a reversed range and unknown frameworks', async () => {
+    await expect(bundles.build({ framework: 'SOX', from: at(10), to: at(1) }, auditor)).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    await expect(bundles.build({ framework: 'PCI', from: at(1) }, auditor)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+const publicPem = (key: KeyObject) => createPublicKey(key).export({ type: 'spki', format: 'pem' }).toString();
+
+describe('verifyBundle', () => {
+  const { privateKey } = generateKeyPairSync('ed25519');
+  const manifest = {
+    bundleId: 'bundle-1',
+    framework: 'SOX',
+    from: at(1).toISOString(),
+    to: at(31).toISOString(),
+    generatedAt: at(31).toISOString(),
+    generatedBy: 'auditor-1',
+    organizationId: 'org-a',
+    counts: { policies: 1 },
+  };
+  const { archive } = packBundle(manifest, [{ name: 'policies.json', content: Buffer.from('[{"id":"pol-1"}]') }], privateKey);
+  const publicKey = publicPem(privateKey);
+
+  const repack = (change: (entries: ReturnType<typeof readTar>) => ReturnType<typeof readTar>) =>
+    gzipSync(writeTar(change(readTar(gunzipSync(archive)))));
+
+  test('should detect a file changed after signing', () => {
+    const tampered = repack(entries =>
+      entries.map(entry => (entry.name === 'policies.json' ? { ...entry, content: Buffer.from('[]') } : entry))
+    );
+
+    const result = verifyBundle(tampered, { publicKey });
+
+    expect(result.signatureValid).toBe(true);
+    expect(result.valid).toBe(false);
+    expect(result.files[0]).toMatchObject({ path: 'policies.json', status: 'MODIFIED' });
+  });
+
+  test('should detect added files and a key other than the expected one', () => {
+    const padded = repack(entries => [...entries, { name: 'extra.json', content: Buffer.from('{}') }]);
+    const otherKey = publicPem(generateKeyPairSync('ed25519').privateKey);
+
+    expect(verifyBundle(padded, { publicKey }).unexpectedFiles).toEqual(['extra.json']);
+    expect(verifyBundle(archive, { publicKey: otherKey })).toMatchObject({
+      valid: false,
+      signatureValid: false,
+      trustedKey: false,
+    });
+  });
+
+  test('should not trust a bundle re-signed with the key it carries', () => {
+    const forger = generateKeyPairSync('ed25519').privateKey;
+    const forged = packBundle(manifest, [{ name: 'policies.json', content: Buffer.from('[]') }], forger).archive;
+
+    expect(verifyBundle(forged, { publicKey })).toMatchObject({
+      valid: false,
+      signatureValid: false,
+      trustedKey: false,
+      errors: expect.arrayContaining(['Bundle was signed with a different key']),
+    });
+    expect(verifyBundle(archive, { publicKey })).toMatchObject({ valid: true, signatureValid: true, trustedKey: true });
+  });
+
+  test('should reject archives that cannot be read or unpack too large', () => {
+    expect(verifyBundle(Buffer.from('not a bundle'), { publicKey })).toMatchObject({
+      valid: false,
+      errors: [expect.stringContaining('Unreadable archive')],
+    });
+    expect(verifyBundle(gzipSync(Buffer.alloc(64 * 1024)), { publicKey, maxBytes: 1024 })).toMatchObject({
+      valid: false,
+      errors: ['Archive unpacks to more than the allowed size'],
+    });
+  });
+
+  test('tar should round-trip files of any length', () => {
+    const entries = [
+      { name: 'empty.txt', content: Buffer.alloc(0) },
+      { name: 'block.bin', content: Buffer.alloc(512, 7) },
+      { name: 'dir/notes.txt', content: Buffer.from('evidence') },
+    ];
+
+    expect(readTar(writeTar(entries))).toEqual(entries);
+  });
+});
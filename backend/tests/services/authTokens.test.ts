@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { AuthTokens } from '../../src/services/authTokens';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    refreshToken: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    organizationMember: {
+      findMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const user = { id: 'user-1', email: 'jane@example.com' };
+const membership = { id: 'org-a', name: 'Acme', slug: 'acme', role: 'POLICY_MANAGER' as const };
+
+const stored = (overrides: any = {}) => ({
+  id: 'rt-1',
+  userId: 'user-1',
+  familyId: 'family-1',
+  tokenHash: 'hash',
+  organizationId: 'org-a',
+  expiresAt: new Date(Date.now() + DAY_MS),
+  revokedAt: null,
+  replacedById: null,
+  user: { ...user, isActive: true },
+  ...overrides,
+});
+
+describe('AuthTokens', () => {
+  let tokens: AuthTokens;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tokens = new AuthTokens();
+    mockPrisma.refreshToken.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'rt-2', ...data }));
+    mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.organizationMember.findMany.mockResolvedValue([
+      { role: 'AUDITOR', organization: { id: 'org-a', name: 'Acme', slug: 'acme' } },
+    ]);
+  });
+
+  test('should issue a short-lived access token bound to a stored refresh token', async () => {
+    const pair = await tokens.issue(user, membership, { ipAddress: '10.0.0.1' });
+
+    const claims = jwt.verify(pair.token, process.env.JWT_SECRET || 'fallback-secret') as any;
+    const { data } = mockPrisma.refreshToken.create.mock.calls[0][0];
+    expect(claims).toMatchObject({ userId: 'user-1', role: 'POLICY_MANAGER', organizationId: 'org-a', sid: data.familyId });
+    expect(claims.exp - claims.iat).toBe(15 * 60);
+    expect(data.tokenHash).toBe(createHash('sha256').update(pair.refreshToken).digest('hex'));
+    expect(JSON.stringify(data)).not.toContain(pair.refreshToken);
+  });
+
+  test('should rotate the refresh token within its family and re-read the role', async () => {
+    mockPrisma.refreshToken.findUnique.mockResolvedValue(stored());
+
+    const pair = await tokens.refresh('presented');
+
+    expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'rt-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(mockPrisma.refreshToken.create.mock.calls[0][0].data.familyId).toBe('family-1');
+    expect(mockPrisma.refreshToken.update).toHaveBeenCalledWith({ where: { id: 'rt-1' }, data: { replacedById: 'rt-2' } });
+    expect(jwt.decode(pair.token)).toMatchObject({ role: 'AUDITOR', sid: 'family-1' });
+  });
+
+  test('should revoke the whole family when a rotated token is presented again', async () => {
+    mockPrisma.refreshToken.findUnique.mockResolvedValue(stored({ revokedAt: new Date(), replacedById: 'rt-2' }));
+
+    await expect(tokens.refresh('stolen', { ipAddress: '10.0.0.9' })).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { familyId: 'family-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'REFRESH_TOKEN_REUSE',
+      entityId: 'user-1',
+      organizationId: 'org-a',
+      details: expect.objectContaining({ familyId: 'family-1', ipAddress: '10.0.0.9' }),
+    });
+    expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  test('should treat losing a concurrent rotation as reuse', async () => {
+    mockPrisma.refreshToken.findUnique.mockResolvedValue(stored());
+    mockPrisma.refreshToken.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(tokens.refresh('presented')).rejects.toMatchObject({ statusCode: 401 });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data.action).toBe('REFRESH_TOKEN_REUSE');
+  });
+
+  test('should refuse unknown, expired and deactivated-user tokens', async () => {
+    mockPrisma.refreshToken.findUnique.mockResolvedValueOnce(null);
+    await expect(tokens.refresh('unknown')).rejects.toMatchObject({ message: 'Invalid refresh token' });
+
+    mockPrisma.refreshToken.findUnique.mockResolvedValueOnce(stored({ expiresAt: new Date(Date.now() - 1000) }));
+    await expect(tokens.refresh('old')).rejects.toMatchObject({ message: 'Refresh token expired' });
+
+    mockPrisma.refreshToken.findUnique.mockResolvedValueOnce(stored({ user: { ...user, isActive: false } }));
+    await expect(tokens.refresh('deactivated')).rejects.toMatchObject({ statusCode: 401 });
+    expect(mockPrisma.refreshToken.updateMany.mock.calls[0][0].where).toEqual({ familyId: 'family-1', revokedAt: null });
+  });
+
+  test('should record a verified second factor on the session and carry it through refresh', async () => {
+    const { token, mfaVerifiedAt } = await tokens.markMfaVerified(user, membership, 'family-1');
+
+    expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { familyId: 'family-1', userId: 'user-1', revokedAt: null },
+      data: { mfaVerifiedAt },
+    });
+    expect(jwt.decode(token)).toMatchObject({ sid: 'family-1', mfaAt: Math.floor(mfaVerifiedAt.getTime() / 1000) });
+
+    mockPrisma.refreshToken.findUnique.mockResolvedValue(stored({ mfaVerifiedAt }));
+    const pair = await tokens.refresh('presented');
+    expect((jwt.decode(pair.token) as any).mfaAt).toBe(Math.floor(mfaVerifiedAt.getTime() / 1000));
+
+    mockPrisma.refreshToken.updateMany.mockResolvedValueOnce({ count: 0 });
+    await expect(tokens.markMfaVerified(user, membership, 'ended')).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  test('should only count live sessions of active users', async () => {
+    mockPrisma.refreshToken.count.mockResolvedValue(0);
+
+    expect(await tokens.isSessionActive('user-1', 'family-1')).toBe(false);
+    expect(mockPrisma.refreshToken.count.mock.calls[0][0].where).toMatchObject({
+      familyId: 'family-1',
+      userId: 'user-1',
+      revokedAt: null,
+      user: { isActive: true },
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { PrismaClient } from '@prisma/client';
+import { ControlCatalog } from '../../src/services/controlCatalog';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+    },
+    policyControl: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const manager = { userId: 'manager-1', role: 'POLICY_MANAGER' };
+
+describe('ControlCatalog', () => {
+  let catalog: ControlCatalog;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    catalog = new ControlCatalog();
+    mockPrisma.policy.findUnique.mockResolvedValue({ id: 'pol-1', status: 'ACTIVE' });
+  });
+
+  describe('catalog', () => {
+    test('should load every bundled framework with unique control ids', () => {
+      const frameworks = catalog.frameworks();
+      const ids = catalog.controls().map(control => control.id);
+
+      expect(frameworks.map(framework => framework.framework)).toEqual(['SOX', 'GDPR', 'HIPAA', 'ISO27001']);
+      expect(frameworks.find(framework => framework.framework === 'ISO27001')?.controlCount).toBe(93);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(catalog.getControl('GDPR:Art.32')).toMatchObject({ framework: 'GDPR', title: 'Security of processing' });
+    });
+
+    test('should filter by framework and domain and reject unknown frameworks', () => {
+      const physical = catalog.controls({ framework: 'hipaa', domain: 'physical safeguards' });
+
+      expect(physical.map(control => control.reference)).toEqual([
+        '164.310(a)(1)',
+        '164.310(b)',
+        '164.310(c)',
+        '164.310(d)(1)',
+      ]);
+      expect(() => catalog.controls({ framework: 'PCI' })).toThrow('Framework not found');
+    });
+  });
+
+  describe('setPolicyControls', () => {
+    test('should add and remove mappings and audit the difference', async () => {
+      mockPrisma.policyControl.findMany
+        .mockResolvedValueOnce([{ controlId: 'ISO27001:A.5.1' }, { controlId: 'ISO27001:A.5.15' }])
+        .mockResolvedValueOnce([]);
+
+      await catalog.setPolicyControls('pol-1', ['ISO27001:A.5.15', 'GDPR:Art.32', 'GDPR:Art.32'], manager);
+
+      expect(mockPrisma.policyControl.deleteMany).toHaveBeenCalledWith({
+        where: { policyId: 'pol-1', controlId: { in: ['ISO27001:A.5.1'] } },
+      });
+      expect(mockPrisma.policyControl.createMany).toHaveBeenCalledWith({
+        data: [{ policyId: 'pol-1', controlId: 'GDPR:Art.32', framework: 'GDPR', mappedById: 'manager-1' }],
+      });
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'MAP_POLICY_CONTROLS',
+        entityId: 'pol-1',
+        details: { added: ['GDPR:Art.32'], removed: ['ISO27001:A.5.1'], controlCount: 2 },
+      });
+    });
+
+    test('should not audit an unchanged mapping', async () => {
+      mockPrisma.policyControl.findMany.mockResolvedValue([{ controlId: 'SOX:302' }]);
+
+      await catalog.setPolicyControls('pol-1', ['SOX:302'], manager);
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject controls missing from the catalog', async () => {
+      await expect(catalog.setPolicyControls('pol-1', ['SOX:302', 'SOX:999'], manager)).rejects.toMatchObject({
+        statusCode: 400,
+        details: { unknownControls: ['SOX:999'] },
+      });
+      expect(mockPrisma.policy.findUnique).not.toHaveBeenCalled();
+    });
+
+    test('should refuse archived policies', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue({ id: 'pol-1', status: 'ARCHIVED' });
+
+      await expect(catalog.setPolicyControls('pol-1', ['SOX:302'], manager)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('coverage', () => {
+    test('should split controls into covered, pending and unmapped', async () => {
+      mockPrisma.policyControl.findMany.mockResolvedValue([
+        { controlId: 'SOX:302', policy: { status: 'ACTIVE' } },
+        { controlId: 'SOX:302', policy: { status: 'DRAFT' } },
+        { controlId: 'SOX:404(a)', policy: { status: 'DRAFT' } },
+      ]);
+
+      const [sox] = await catalog.coverage('SOX');
+
+      expect(sox).toMatchObject({ framework: 'SOX', totalControls: 12, mappedControls: 2, coveredControls: 1, coverage: 8 });
+      expect(sox.pending.map(control => control.id)).toEqual(['SOX:404(a)']);
+      expect(sox.unmapped).toHaveLength(10);
+      expect(sox.unmapped.map(control => control.id)).not.toContain('SOX:302');
+      expect(mockPrisma.policyControl.findMany.mock.calls[0][0].where).toEqual({
+        framework: { in: ['SOX'] },
+        policy: { status: { not: 'ARCHIVED' } },
+      });
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { EvidenceStore } from '../../src/services/evidenceStore';
+import { ContentStore, sha256 } from '../../src/utils/contentStore';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+    },
+    evidence: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const auditor = { userId: 'auditor-1', role: 'AUDITOR' };
+const content = Buffer.from('Q3 access review sign-off');
+const hash = sha256(content);
+
+const record = (overrides: any = {}) => ({
+  id: 'ev-1',
+  sha256: hash,
+  fileName: 'signoff.pdf',
+  mimeType: 'application/pdf',
+  size: content.length,
+  policyId: null,
+  controlId: 'SOX:404(a)',
+  complianceTxIds: [],
+  retainUntil: new Date(Date.now() + 100 * DAY_MS),
+  integrity: 'VALID',
+  ...overrides,
+});
+
+describe('EvidenceStore', () => {
+  let root: string;
+  let evidence: EvidenceStore;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'evidence-'));
+    evidence = new EvidenceStore(root);
+    mockPrisma.evidence.findFirst.mockResolvedValue(null);
+    mockPrisma.evidence.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'ev-1', ...data }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  describe('upload', () => {
+    test('should store the file under its hash with the framework retention', async () => {
+      const result = await evidence.upload(
+        { fileName: 'signoff.pdf', mimeType: 'application/pdf', content, controlId: 'SOX:404(a)' },
+        auditor
+      );
+
+      expect(result.duplicate).toBe(false);
+      expect(result.evidence).toMatchObject({ sha256: hash, size: content.length, integrity: 'VALID' });
+      expect(await fs.readFile(path.join(root, hash.slice(0, 2), hash))).toEqual(content);
+
+      const retainedDays = (result.evidence.retainUntil.getTime() - Date.now()) / DAY_MS;
+      expect(Math.round(retainedDays)).toBe(7 * 365);
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'UPLOAD_EVIDENCE',
+        details: expect.objectContaining({ sha256: hash, newContent: true }),
+      });
+    });
+
+    test('should return the existing record for the same content and links', async () => {
+      mockPrisma.evidence.findFirst.mockResolvedValue(record());
+
+      const result = await evidence.upload(
+        { fileName: 'copy.pdf', mimeType: 'application/pdf', content, controlId: 'SOX:404(a)' },
+        auditor
+      );
+
+      expect(result).toMatchObject({ duplicate: true, evidence: { id: 'ev-1' } });
+      expect(mockPrisma.evidence.findFirst.mock.calls[0][0].where).toEqual({
+        sha256: hash,
+        policyId: null,
+        controlId: 'SOX:404(a)',
+      });
+      expect(mockPrisma.evidence.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject empty files and unknown controls', async () => {
+      const input = { fileName: 'a.txt', mimeType: 'text/plain' };
+
+      await expect(evidence.upload({ ...input, content: Buffer.alloc(0) }, auditor)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(evidence.upload({ ...input, content, controlId: 'SOX:999' }, auditor)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'Unknown control',
+      });
+    });
+  });
+
+  describe('integrity', () => {
+    test('should refuse and flag a file that no longer matches its hash', async () => {
+      mockPrisma.evidence.findUnique.mockResolvedValue(record());
+      const target = new ContentStore(root).pathFor(hash);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, 'tampered');
+
+      await expect(evidence.read('ev-1')).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Evidence file failed integrity verification',
+      });
+      expect(mockPrisma.evidence.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['ev-1'] } },
+        data: { integrity: 'CORRUPTED', lastVerifiedAt: expect.any(Date) },
+      });
+    });
+
+    test('should verify each stored file once for all records sharing it', async () => {
+      await new ContentStore(root).put(content);
+      const missing = sha256(Buffer.from('never stored'));
+      mockPrisma.evidence.findMany.mockResolvedValue([
+        { id: 'ev-1', sha256: hash },
+        { id: 'ev-2', sha256: hash },
+        { id: 'ev-3', sha256: missing },
+      ]);
+
+      const summary = await evidence.verifyAll(auditor);
+
+      expect(summary).toEqual({ checked: 3, valid: 2, corrupted: [], missing: ['ev-3'] });
+      expect(mockPrisma.evidence.updateMany).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retention', () => {
+    test('should not delete evidence before its retention date', async () => {
+      mockPrisma.evidence.findUnique.mockResolvedValue(record());
+
+      await expect(evidence.remove('ev-1', auditor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockPrisma.evidence.delete).not.toHaveBeenCalled();
+    });
+
+    test('should delete the stored file once nothing references it', async () => {
+      const store = new ContentStore(root);
+      await store.put(content);
+      mockPrisma.evidence.findUnique.mockResolvedValue(record({ retainUntil: new Date(Date.now() - DAY_MS) }));
+      mockPrisma.evidence.count.mockResolvedValue(0);
+
+      await evidence.remove('ev-1', auditor);
+
+      expect(mockPrisma.evidence.delete).toHaveBeenCalledWith({ where: { id: 'ev-1' } });
+      expect(await store.verify(hash)).toBe('MISSING');
+    });
+
+    test('should extend retention to the regulation of a linked compliance event', async () => {
+      mockPrisma.evidence.findUnique.mockResolvedValue(record());
+
+      await evidence.linkComplianceEvent('ev-1', { txId: 'compliance_1', eventType: 'AUDIT', regulation: 'HIPAA' }, auditor);
+
+      const { data } = mockPrisma.evidence.update.mock.calls[0][0];
+      expect(data.complianceTxIds).toEqual({ push: 'compliance_1' });
+      expect(Math.round((data.retainUntil.getTime() - Date.now()) / DAY_MS)).toBe(6 * 365);
+    });
+  });
+});
+
+describe('ContentStore', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'content-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('should keep identical content once and repair a corrupted copy', async () => {
+    const store = new ContentStore(root);
+
+    expect(await store.put(content)).toEqual({ sha256: hash, stored: true });
+    expect(await store.put(content)).toEqual({ sha256: hash, stored: false });
+
+    await fs.writeFile(store.pathFor(hash), 'bit rot');
+    expect(await store.verify(hash)).toBe('CORRUPTED');
+    expect(await store.put(content)).toEqual({ sha256: hash, stored: true });
+    expect(await store.verify(hash)).toBe('VALID');
+  });
+
+  test('should refuse addresses that are not SHA-256 hashes', () => {
+    expect(() => new ContentStore(root).pathFor('../../etc/passwd')).toThrow('Invalid content hash');
+  });
+});
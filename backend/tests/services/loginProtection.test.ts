@@ -0,0 +1,212 @@
+import { PrismaClient } from '@prisma/client';
+import { LoginProtection } from '../../src/services/loginProtection';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    loginThrottle: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+    securityIncident: {
+      create: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const admin = { userId: 'admin-1', role: 'ADMIN' };
+
+describe('LoginProtection', () => {
+  let protection: LoginProtection;
+  let records: any[];
+
+  const find = (scope: string, key: string) => records.find(record => record.scope === scope && record.key === key);
+
+  const fail = async (email: string, ipAddress = '203.0.113.7', times = 1) => {
+    for (let i = 0; i < times; i++) {
+      await protection.recordFailure({ email, ipAddress });
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    protection = new LoginProtection();
+    records = [];
+
+    mockPrisma.loginThrottle.findMany.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.OR ? records.filter(record => where.OR.some((key: any) => key.scope === record.scope && key.key === record.key)) : records)
+    );
+    mockPrisma.loginThrottle.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(records.find(record => record.id === where.id) ?? null)
+    );
+    mockPrisma.loginThrottle.upsert.mockImplementation(({ where, create, update }: any) => {
+      let record = find(where.scope_key.scope, where.scope_key.key);
+      if (!record) {
+        record = { id: `throttle-${records.length + 1}`, lockedUntil: null, lockouts: 0, ...create };
+        records.push(record);
+      } else {
+        record.failures += update.failures.increment;
+        record.lastFailureAt = update.lastFailureAt;
+        if (update.accounts) record.accounts = [...record.accounts, ...update.accounts.push];
+      }
+      return Promise.resolve({ ...record, accounts: [...record.accounts] });
+    });
+    mockPrisma.loginThrottle.updateMany.mockImplementation(({ where, data }: any) => {
+      const matching = records.filter(record =>
+        (where.id ? record.id === where.id && record.failures === where.failures : record.scope === where.scope && record.key === where.key) &&
+        (!where.lastFailureAt || record.lastFailureAt < where.lastFailureAt.lt)
+      );
+      matching.forEach(record => Object.assign(record, {
+        ...data,
+        ...(data.lockouts && { lockouts: record.lockouts + data.lockouts.increment }),
+      }));
+      return Promise.resolve({ count: matching.length });
+    });
+    mockPrisma.loginThrottle.deleteMany.mockImplementation(({ where }: any) => {
+      if (where.scope) records = records.filter(record => !(record.scope === where.scope && record.key === where.key));
+      return Promise.resolve({ count: 0 });
+    });
+    mockPrisma.user.findMany.mockResolvedValue([]);
+  });
+
+  test('should delay repeated failures and then lock the account out', async () => {
+    await fail('jane@example.com', '203.0.113.7', 2);
+    expect(await protection.retryAfter({ email: 'jane@example.com' })).toBe(1);
+
+    await fail('jane@example.com', '203.0.113.7', 2);
+    expect(await protection.retryAfter({ email: 'Jane@Example.com' })).toBe(4);
+
+    await fail('jane@example.com');
+
+    const account = find('ACCOUNT', 'jane@example.com');
+    expect(account).toMatchObject({ failures: 0, lockouts: 1 });
+    expect(await protection.retryAfter({ email: 'jane@example.com' })).toBe(15 * 60);
+
+    // Throttling is per account and per address, not global
+    expect(await protection.retryAfter({ email: 'john@example.com', ipAddress: '198.51.100.1' })).toBe(0);
+  });
+
+  test('should make each lockout twice as long as the previous one', async () => {
+    await fail('jane@example.com', undefined, 5);
+    find('ACCOUNT', 'jane@example.com').lockedUntil = new Date(Date.now() - 1000);
+
+    await fail('jane@example.com', undefined, 5);
+
+    expect(find('ACCOUNT', 'jane@example.com').lockouts).toBe(2);
+    expect(await protection.retryAfter({ email: 'jane@example.com' })).toBe(30 * 60);
+  });
+
+  test('should forget failures from before the window', async () => {
+    await fail('jane@example.com', undefined, 4);
+    find('ACCOUNT', 'jane@example.com').lastFailureAt = new Date(Date.now() - 16 * 60 * 1000);
+
+    expect(await protection.retryAfter({ email: 'jane@example.com' })).toBe(0);
+
+    await fail('jane@example.com');
+    expect(find('ACCOUNT', 'jane@example.com')).toMatchObject({ failures: 1, lockouts: 0 });
+  });
+
+  test('should clear the account on a completed login', async () => {
+    await fail('jane@example.com', '203.0.113.7', 3);
+
+    await protection.recordSuccess({ email: 'jane@example.com', ipAddress: '203.0.113.7' });
+
+    expect(find('ACCOUNT', 'jane@example.com')).toBeUndefined();
+    expect(find('IP', '203.0.113.7').failures).toBe(3);
+  });
+
+  test('should lock an IP trying many accounts and open an incident per targeted organization', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([
+      { id: 'user-1', email: 'user0@example.com', memberships: [{ organizationId: 'org-a' }] },
+      { id: 'user-2', email: 'user1@example.com', memberships: [{ organizationId: 'org-a' }, { organizationId: 'org-b' }] },
+    ]);
+
+    for (let i = 0; i < 10; i++) {
+      await fail(`user${i}@example.com`);
+    }
+
+    expect(find('IP', '203.0.113.7')).toMatchObject({ lockouts: 1, accounts: [] });
+    expect(await protection.retryAfter({ email: 'someone@example.com', ipAddress: '203.0.113.7' })).toBe(15 * 60);
+
+    expect(mockPrisma.securityIncident.create).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.securityIncident.create.mock.calls[0][0].data).toMatchObject({
+      incidentType: 'CREDENTIAL_STUFFING',
+      severity: 'HIGH',
+      status: 'OPEN',
+      organizationId: 'org-a',
+      indicators: ['ip:203.0.113.7', 'accounts_tried:10', 'targeted:user0@example.com', 'targeted:user1@example.com'],
+    });
+    expect(mockPrisma.securityIncident.create.mock.calls[1][0].data).toMatchObject({
+      organizationId: 'org-b',
+      indicators: ['ip:203.0.113.7', 'accounts_tried:10', 'targeted:user1@example.com'],
+    });
+  });
+
+  test('should count a failure without an account against the IP address only', async () => {
+    await protection.recordFailure({ ipAddress: '203.0.113.7' });
+
+    expect(records).toEqual([expect.objectContaining({ scope: 'IP', key: '203.0.113.7', failures: 1, accounts: [] })]);
+  });
+
+  test('should only list and clear account lockouts of the current organization', async () => {
+    await fail('jane@example.com', '203.0.113.7', 5);
+    await fail('other@tenant.example', '198.51.100.1', 5);
+    find('IP', '198.51.100.1').lockedUntil = new Date(Date.now() + 60 * 1000);
+    mockPrisma.user.findMany.mockResolvedValue([{ email: 'jane@example.com' }]);
+
+    const lockouts = await protection.list({});
+
+    expect(lockouts.map(lockout => `${lockout.scope}:${lockout.key}`)).toEqual(['ACCOUNT:jane@example.com']);
+
+    const hidden = find('ACCOUNT', 'other@tenant.example');
+    await expect(protection.clear(hidden.id, admin)).rejects.toMatchObject({ statusCode: 404 });
+
+    const jane = find('ACCOUNT', 'jane@example.com');
+    await protection.clear(jane.id, admin);
+    expect(mockPrisma.loginThrottle.delete).toHaveBeenCalledWith({ where: { id: jane.id } });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'CLEAR_LOGIN_LOCKOUT',
+      userId: 'admin-1',
+      details: expect.objectContaining({ scope: 'ACCOUNT', key: 'jane@example.com' }),
+    });
+  });
+
+  test('should leave IP address lockouts to platform admins', async () => {
+    await fail('other@tenant.example', '198.51.100.1', 5);
+    const ip = find('IP', '198.51.100.1');
+    ip.lockedUntil = new Date(Date.now() + 60 * 1000);
+
+    // IP addresses below their own threshold are not listed
+    expect(await protection.list({ scope: 'IP' })).toEqual([]);
+    expect((await protection.list({ scope: 'IP' }, true)).map(lockout => lockout.key)).toEqual(['198.51.100.1']);
+
+    await expect(protection.clear(ip.id, admin)).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockPrisma.loginThrottle.delete).not.toHaveBeenCalled();
+
+    await protection.clear(ip.id, admin, true);
+    expect(mockPrisma.loginThrottle.delete).toHaveBeenCalledWith({ where: { id: ip.id } });
+  });
+});
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { MultiFactorAuth, roleRequiresMfa } from '../../src/services/multiFactorAuth';
+import { runInOrganization } from '../../src/utils/tenancy';
+import { base32Encode, timeStep, totpCode, verifyTotp } from '../../src/utils/totp';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockRetryAfter = jest.fn();
+const mockRecordFailure = jest.fn();
+jest.mock('../../src/services/loginProtection', () => ({
+  LoginProtection: jest.fn().mockImplementation(() => ({
+    retryAfter: mockRetryAfter,
+    recordFailure: mockRecordFailure,
+  })),
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    organizationMember: {
+      findMany: jest.fn(),
+    },
+    webAuthnCredential: {
+      deleteMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const actor = { userId: 'user-1', role: 'ADMIN' };
+
+const hash = (code: string) => createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+describe('TOTP', () => {
+  // RFC 6238 appendix B (SHA1), truncated to six digits
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  test('should match the RFC 6238 test vectors', () => {
+    expect(totpCode(secret, timeStep(new Date(59 * 1000)))).toBe('287082');
+    expect(totpCode(secret, timeStep(new Date(1111111109 * 1000)))).toBe('081804');
+    expect(totpCode(secret, timeStep(new Date(2000000000 * 1000)))).toBe('279037');
+  });
+
+  test('should accept one step of clock drift and nothing beyond it', () => {
+    const at = new Date(1111111109 * 1000);
+    const step = timeStep(at);
+
+    expect(verifyTotp(secret, totpCode(secret, step - 1), at)).toBe(step - 1);
+    expect(verifyTotp(secret, totpCode(secret, step + 2), at)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', at)).toBeNull();
+  });
+});
+
+describe('MultiFactorAuth', () => {
+  let mfa: MultiFactorAuth;
+  let stored: any;
+
+  // Enrolls through the service so the secret is sealed the way it is stored
+  const enroll = async () => {
+    const { secret } = await mfa.beginEnrollment('user-1');
+    const recoveryCodes = await mfa.confirmEnrollment('user-1', totpCode(secret, timeStep()), actor);
+    return { secret, recoveryCodes };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.MFA_REQUIRED_ROLES;
+    mfa = new MultiFactorAuth();
+    stored = {
+      id: 'user-1',
+      email: 'jane@example.com',
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaLastUsedStep: null,
+      mfaRecoveryCodes: [],
+    };
+    mockPrisma.user.findUnique.mockImplementation(() => Promise.resolve({ ...stored }));
+    mockPrisma.user.update.mockImplementation(({ data }: any) => {
+      stored = { ...stored, ...data };
+      return Promise.resolve(stored);
+    });
+    // Honours the compare-and-swap on recovery codes
+    mockPrisma.user.updateMany.mockImplementation(({ where, data }: any) => {
+      const codes = where.mfaRecoveryCodes;
+      if (codes && (!stored.mfaRecoveryCodes.includes(codes.has) || stored.mfaRecoveryCodes.join() !== codes.equals.join())) {
+        return Promise.resolve({ count: 0 });
+      }
+      stored = { ...stored, ...data };
+      return Promise.resolve({ count: 1 });
+    });
+    mockPrisma.webAuthnCredential.deleteMany.mockResolvedValue({ count: 0 });
+    mockRetryAfter.mockResolvedValue(0);
+  });
+
+  test('should enroll with an otpauth URI and store the secret encrypted', async () => {
+    const { secret, otpauthUri } = await mfa.beginEnrollment('user-1');
+
+    expect(otpauthUri).toMatch(/^otpauth:\/\/totp\/Policy%20Admin%3Ajane%40example\.com\?secret=[A-Z2-7]+&issuer=Policy\+Admin/);
+    expect(stored.mfaSecret).not.toContain(secret);
+    expect(stored.mfaEnabled).toBe(false);
+
+    await expect(mfa.confirmEnrollment('user-1', '000000', actor)).rejects.toMatchObject({ statusCode: 401 });
+
+    const recoveryCodes = await mfa.confirmEnrollment('user-1', totpCode(secret, timeStep()), actor);
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(recoveryCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(stored.mfaRecoveryCodes).toEqual(recoveryCodes.map(hash));
+    expect(stored.mfaEnabled).toBe(true);
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({ action: 'ENABLE_MFA', entityId: 'user-1' });
+  });
+
+  test('should reject a code that was already used', async () => {
+    const { secret } = await enroll();
+    const next = totpCode(secret, timeStep() + 1);
+
+    expect(await mfa.verify('user-1', { code: next })).toBe('totp');
+    await expect(mfa.verify('user-1', { code: next })).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Invalid authentication code',
+    });
+  });
+
+  test('should consume a recovery code on use', async () => {
+    const { recoveryCodes } = await enroll();
+
+    expect(await mfa.verify('user-1', { recoveryCode: recoveryCodes[3].toUpperCase() })).toBe('recovery_code');
+    expect(stored.mfaRecoveryCodes).toHaveLength(9);
+    expect(mockPrisma.auditLog.create.mock.calls[1][0].data).toMatchObject({
+      action: 'USE_MFA_RECOVERY_CODE',
+      details: { remaining: 9 },
+    });
+
+    await expect(mfa.verify('user-1', { recoveryCode: recoveryCodes[3] })).rejects.toMatchObject({
+      message: 'Invalid recovery code',
+    });
+  });
+
+  test('should spend a recovery code only once when used concurrently', async () => {
+    const { recoveryCodes } = await enroll();
+
+    const results = await Promise.allSettled([
+      mfa.verify('user-1', { recoveryCode: recoveryCodes[0] }),
+      mfa.verify('user-1', { recoveryCode: recoveryCodes[0] }),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(stored.mfaRecoveryCodes).toHaveLength(9);
+  });
+
+  test('should count wrong codes against the login throttle and refuse checks while locked out', async () => {
+    const { secret } = await enroll();
+
+    await expect(mfa.verify('user-1', { code: '000000' }, '203.0.113.9')).rejects.toMatchObject({ statusCode: 401 });
+    expect(mockRecordFailure).toHaveBeenCalledWith({ email: 'jane@example.com', ipAddress: '203.0.113.9' });
+
+    mockRetryAfter.mockResolvedValue(60);
+    await expect(mfa.verify('user-1', { code: totpCode(secret, timeStep() + 1) }, '203.0.113.9')).rejects.toMatchObject({
+      statusCode: 429,
+      details: { retryAfter: 60 },
+    });
+    expect(stored.mfaLastUsedStep).not.toBe(timeStep() + 1);
+  });
+
+  test('should only let organization admins reset members of no other organization', async () => {
+    await enroll();
+    const admin = { userId: 'admin-1', role: 'ADMIN' };
+    const reset = (platformAdmin = false) => runInOrganization('org-a', () => mfa.reset('user-1', admin, platformAdmin));
+
+    mockPrisma.organizationMember.findMany.mockResolvedValue([{ organizationId: 'org-b' }]);
+    await expect(reset()).rejects.toMatchObject({ statusCode: 404 });
+
+    mockPrisma.organizationMember.findMany.mockResolvedValue([{ organizationId: 'org-a' }, { organizationId: 'org-b' }]);
+    await expect(reset()).rejects.toMatchObject({ statusCode: 409 });
+    expect(stored.mfaEnabled).toBe(true);
+
+    await reset(true);
+    expect(stored).toMatchObject({ mfaEnabled: false, mfaSecret: null });
+  });
+
+  test('should not let users of a role that requires MFA turn it off', async () => {
+    const { recoveryCodes } = await enroll();
+    process.env.MFA_REQUIRED_ROLES = 'admin, AUDITOR';
+
+    expect(roleRequiresMfa('ADMIN')).toBe(true);
+    expect(roleRequiresMfa('VIEWER')).toBe(false);
+    await expect(mfa.disable('user-1', { recoveryCode: recoveryCodes[0] }, 'ADMIN', actor)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+
+    await mfa.disable('user-1', { recoveryCode: recoveryCodes[0] }, 'VIEWER', actor);
+    expect(stored).toMatchObject({ mfaEnabled: false, mfaSecret: null, mfaRecoveryCodes: [] });
+  });
+
+  test('should only accept its own challenge tokens', () => {
+    const token = mfa.challengeToken('user-1', 'org-a');
+
+    expect(mfa.readChallengeToken(token)).toEqual({ userId: 'user-1', organizationId: 'org-a' });
+    expect(() => mfa.readChallengeToken('not-a-token')).toThrow('MFA challenge is invalid or has expired');
+  });
+});
@@ -0,0 +1,290 @@
+import { PrismaClient } from '@prisma/client';
+import { Organizations, slugify } from '../../src/services/organizations';
+import { createPrismaClient, currentOrganizationId, runInOrganization, scopeArgs } from '../../src/utils/tenancy';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    organization: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    organizationMember: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    organizationInvitation: {
+      findFirst: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    refreshToken: {
+      updateMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  // Returns the same client so the services under test keep using these mocks
+  mockPrismaClient.$extends = jest.fn(() => mockPrismaClient);
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const admin = { userId: 'admin-1', role: 'ADMIN' };
+
+const membership = (organizationId: string, role = 'USER') => ({
+  id: `mem-${organizationId}`,
+  organizationId,
+  userId: 'user-1',
+  role,
+  organization: { id: organizationId, name: `Org ${organizationId}`, slug: `org-${organizationId}` },
+});
+
+describe('Organizations', () => {
+  let organizations: Organizations;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    organizations = new Organizations();
+  });
+
+  describe('resolveMembership', () => {
+    test('should default to the oldest membership', async () => {
+      mockPrisma.organizationMember.findMany.mockResolvedValue([membership('org-a', 'ADMIN'), membership('org-b')]);
+
+      const resolved = await organizations.resolveMembership('user-1');
+
+      expect(resolved).toEqual({ id: 'org-a', name: 'Org org-a', slug: 'org-org-a', role: 'ADMIN' });
+    });
+
+    test('should use the role held in the requested organization', async () => {
+      mockPrisma.organizationMember.findMany.mockResolvedValue([membership('org-a', 'ADMIN'), membership('org-b')]);
+
+      const resolved = await organizations.resolveMembership('user-1', 'org-b');
+
+      expect(resolved.role).toBe('USER');
+    });
+
+    test('should refuse an organization the user does not belong to', async () => {
+      mockPrisma.organizationMember.findMany.mockResolvedValue([membership('org-a')]);
+
+      await expect(organizations.resolveMembership('user-1', 'org-z')).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test('should refuse a user without memberships', async () => {
+      mockPrisma.organizationMember.findMany.mockResolvedValue([]);
+
+      await expect(organizations.resolveMembership('user-1')).rejects.toMatchObject({
+        statusCode: 403,
+        message: 'User is not a member of any organization',
+      });
+    });
+  });
+
+  describe('create', () => {
+    test('should make the creator an admin and audit under the new organization', async () => {
+      mockPrisma.organization.findUnique.mockResolvedValue(null);
+      mockPrisma.organization.create.mockResolvedValue({ id: 'org-new', name: 'Acme Corp', slug: 'acme-corp' });
+
+      const created = await organizations.create('Acme Corp', 'user-1');
+
+      expect(created).toEqual({ id: 'org-new', name: 'Acme Corp', slug: 'acme-corp', role: 'ADMIN' });
+      expect(mockPrisma.organization.create.mock.calls[0][0].data.members).toEqual({
+        create: { userId: 'user-1', role: 'ADMIN' },
+      });
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'CREATE_ORGANIZATION',
+        organizationId: 'org-new',
+      });
+    });
+
+    test('should reject a name whose slug is taken', async () => {
+      mockPrisma.organization.findUnique.mockResolvedValue({ id: 'org-a' });
+
+      await expect(organizations.create('ACME corp!', 'user-1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockPrisma.organization.findUnique).toHaveBeenCalledWith({ where: { slug: 'acme-corp' } });
+    });
+  });
+
+  describe('members', () => {
+    test('should invite a user by email without making them a member', async () => {
+      mockPrisma.organizationMember.findFirst.mockResolvedValue(null);
+      mockPrisma.organizationInvitation.upsert.mockImplementation(({ create }: any) =>
+        Promise.resolve({ id: 'inv-1', ...create })
+      );
+
+      const invitation = await organizations.invite('org-a', 'Bob@Example.com', 'POLICY_MANAGER', admin);
+
+      expect(invitation).toMatchObject({ organizationId: 'org-a', email: 'bob@example.com', role: 'POLICY_MANAGER' });
+      expect(invitation.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockPrisma.organizationMember.create).not.toHaveBeenCalled();
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'INVITE_ORGANIZATION_MEMBER',
+        entityId: 'org-a',
+      });
+    });
+
+    test('should not invite an existing member', async () => {
+      mockPrisma.organizationMember.findFirst.mockResolvedValue({ id: 'mem-2' });
+
+      await expect(organizations.invite('org-a', 'bob@example.com', 'USER', admin)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(mockPrisma.organizationInvitation.upsert).not.toHaveBeenCalled();
+    });
+
+    test('should add the member with the invited role when they accept', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'Bob@example.com' });
+      mockPrisma.organizationInvitation.findFirst.mockResolvedValue({
+        id: 'inv-1',
+        organizationId: 'org-a',
+        email: 'bob@example.com',
+        role: 'POLICY_MANAGER',
+        invitedById: 'admin-1',
+        organization: { id: 'org-a', name: 'Org A', slug: 'org-a' },
+      });
+      mockPrisma.organizationMember.findUnique.mockResolvedValue(null);
+
+      const joined = await organizations.acceptInvitation('inv-1', 'user-2');
+
+      expect(mockPrisma.organizationInvitation.findFirst.mock.calls[0][0].where).toMatchObject({
+        id: 'inv-1',
+        email: 'bob@example.com',
+      });
+      expect(mockPrisma.organizationMember.create).toHaveBeenCalledWith({
+        data: { organizationId: 'org-a', userId: 'user-2', role: 'POLICY_MANAGER' },
+      });
+      expect(mockPrisma.organizationInvitation.delete).toHaveBeenCalledWith({ where: { id: 'inv-1' } });
+      expect(joined).toEqual({ id: 'org-a', name: 'Org A', slug: 'org-a', role: 'POLICY_MANAGER' });
+    });
+
+    test('should not let anyone else accept an invitation', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'mallory@example.com' });
+      mockPrisma.organizationInvitation.findFirst.mockResolvedValue(null);
+
+      await expect(organizations.acceptInvitation('inv-1', 'user-3')).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockPrisma.organizationMember.create).not.toHaveBeenCalled();
+    });
+
+    test('should not demote or remove the last admin', async () => {
+      mockPrisma.organizationMember.findUnique.mockResolvedValue({ id: 'mem-1', role: 'ADMIN' });
+      mockPrisma.organizationMember.count.mockResolvedValue(1);
+
+      await expect(organizations.updateMemberRole('org-a', 'admin-1', 'USER', admin)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      await expect(organizations.removeMember('org-a', 'admin-1', admin)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockPrisma.organizationMember.update).not.toHaveBeenCalled();
+      expect(mockPrisma.organizationMember.delete).not.toHaveBeenCalled();
+    });
+
+    test('should remove an admin while another remains', async () => {
+      mockPrisma.organizationMember.findUnique.mockResolvedValue({ id: 'mem-1', role: 'ADMIN' });
+      mockPrisma.organizationMember.count.mockResolvedValue(2);
+
+      await organizations.removeMember('org-a', 'admin-1', admin);
+
+      expect(mockPrisma.organizationMember.delete).toHaveBeenCalledWith({ where: { id: 'mem-1' } });
+    });
+
+    test('should end the member\'s sessions in the organization when their role changes or they leave', async () => {
+      mockPrisma.organizationMember.findUnique.mockResolvedValue({ id: 'mem-1', role: 'POLICY_MANAGER' });
+
+      await organizations.updateMemberRole('org-a', 'user-1', 'USER', admin);
+      await organizations.removeMember('org-a', 'user-1', admin);
+
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledTimes(2);
+      for (const [args] of mockPrisma.refreshToken.updateMany.mock.calls) {
+        expect(args).toEqual({
+          where: { userId: 'user-1', organizationId: 'org-a', revokedAt: null },
+          data: { revokedAt: expect.any(Date) },
+        });
+      }
+    });
+  });
+
+  test('slugify should normalise names', () => {
+    expect(slugify('  Acme & Sons, Ltd. ')).toBe('acme-sons-ltd');
+  });
+});
+
+describe('tenant scoping', () => {
+  test('should limit a lookup by id to the current organization', () => {
+    const args = scopeArgs('Policy', 'findUnique', { where: { id: 'pol-b' } }, 'org-a');
+
+    expect(args.where).toEqual({ id: 'pol-b', AND: [{ organizationId: 'org-a' }] });
+  });
+
+  test('should keep existing AND conditions', () => {
+    const args = scopeArgs('AuditLog', 'findMany', { where: { AND: { action: 'LOGIN' } } }, 'org-a');
+
+    expect(args.where.AND).toEqual([{ action: 'LOGIN' }, { organizationId: 'org-a' }]);
+  });
+
+  test('should scope child records through their parent', () => {
+    expect(scopeArgs('PolicyVersion', 'findMany', {}, 'org-a').where).toEqual({
+      AND: [{ policy: { organizationId: 'org-a' } }],
+    });
+    expect(scopeArgs('User', 'count', { where: { id: 'user-b' } }, 'org-a').where).toEqual({
+      id: 'user-b',
+      AND: [{ memberships: { some: { organizationId: 'org-a' } } }],
+    });
+  });
+
+  test('should stamp created records unless an organization is given', () => {
+    expect(scopeArgs('Policy', 'create', { data: { title: 'A' } }, 'org-a').data).toEqual({
+      title: 'A',
+      organizationId: 'org-a',
+    });
+    expect(scopeArgs('AuditLog', 'create', { data: { organizationId: 'org-b' } }, 'org-a').data).toEqual({
+      organizationId: 'org-b',
+    });
+    expect(scopeArgs('PolicyVersion', 'create', { data: { version: 1 } }, 'org-a').data).toEqual({ version: 1 });
+  });
+
+  test('should leave platform-wide models alone', () => {
+    const args = { where: { indicator: '203.0.113.7' } };
+
+    expect(scopeArgs('ThreatIntelligence', 'findMany', args, 'org-a')).toBe(args);
+    expect(scopeArgs('ReviewCycle', 'findMany', { where: { framework: 'GDPR' } }, 'org-a').where.AND).toEqual([
+      { organizationId: 'org-a' },
+    ]);
+  });
+
+  test('should scope queries issued inside a request and not outside it', async () => {
+    createPrismaClient();
+    const { query: extension } = mockPrisma.$extends.mock.calls[0][0];
+    const query = jest.fn((args: any) => Promise.resolve(args));
+    const run = (args: any) =>
+      extension.$allModels.$allOperations({ model: 'Policy', operation: 'findFirst', args, query });
+
+    const scoped = await runInOrganization('org-a', () => {
+      expect(currentOrganizationId()).toBe('org-a');
+      return run({ where: { id: 'pol-b' } });
+    });
+    const unscoped = await run({ where: { id: 'pol-b' } });
+
+    expect(scoped.where.AND).toEqual([{ organizationId: 'org-a' }]);
+    expect(unscoped).toEqual({ where: { id: 'pol-b' } });
+    expect(currentOrganizationId()).toBeNull();
+  });
+});
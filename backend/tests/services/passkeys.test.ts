@@ -0,0 +1,260 @@
+import { createHash, generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { Passkeys } from '../../src/services/passkeys';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    webAuthnCredential: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    webAuthnChallenge: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const ORIGIN = 'http://localhost:3000';
+const actor = { userId: 'user-1', role: 'USER' };
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest();
+
+// Just enough CBOR encoding to build authenticator responses
+const cbor = (value: any): Buffer => {
+  const head = (major: number, length: number) =>
+    length < 24
+      ? Buffer.from([(major << 5) | length])
+      : length < 256
+        ? Buffer.from([(major << 5) | 24, length])
+        : Buffer.from([(major << 5) | 25, length >> 8, length & 0xff]);
+
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value);
+  if (Buffer.isBuffer(value)) return Buffer.concat([head(2, value.length), value]);
+  if (typeof value === 'string') return Buffer.concat([head(3, Buffer.byteLength(value)), Buffer.from(value)]);
+  if (Array.isArray(value)) return Buffer.concat([head(4, value.length), ...value.map(cbor)]);
+
+  const entries: [any, any][] = value instanceof Map ? [...value.entries()] : Object.entries(value);
+  return Buffer.concat([head(5, entries.length), ...entries.flatMap(([key, entry]) => [cbor(key), cbor(entry)])]);
+};
+
+const coseKey = (publicKey: KeyObject) => {
+  const jwk = publicKey.export({ format: 'jwk' });
+  return cbor(new Map<number, any>([
+    [1, 2],
+    [3, -7],
+    [-1, 1],
+    [-2, Buffer.from(jwk.x!, 'base64url')],
+    [-3, Buffer.from(jwk.y!, 'base64url')],
+  ]));
+};
+
+const clientData = (type: string, challenge: string, origin = ORIGIN) =>
+  Buffer.from(JSON.stringify({ type, challenge, origin })).toString('base64url');
+
+const authenticatorData = (flags: number, signCount: number, attested = Buffer.alloc(0)) => {
+  const counter = Buffer.alloc(4);
+  counter.writeUInt32BE(signCount);
+  return Buffer.concat([sha256('localhost'), Buffer.from([flags]), counter, attested]);
+};
+
+describe('Passkeys', () => {
+  let passkeys: Passkeys;
+  let challenges: any[];
+  let credentials: any[];
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const credentialId = Buffer.from('credential-1');
+
+  const register = async (origin = ORIGIN) => {
+    const { challenge } = await passkeys.registrationOptions('user-1');
+    const attested = Buffer.concat([Buffer.alloc(16), Buffer.from([0, credentialId.length]), credentialId, coseKey(publicKey)]);
+    const attestationObject = cbor({ fmt: 'none', attStmt: {}, authData: authenticatorData(0x45, 0, attested) });
+
+    return passkeys.verifyRegistration('user-1', {
+      id: credentialId.toString('base64url'),
+      rawId: credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientData('webauthn.create', challenge, origin),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+    }, 'Laptop', actor);
+  };
+
+  const assertion = (challenge: string, flags: number, signCount: number, key = privateKey) => {
+    const data = authenticatorData(flags, signCount);
+    const clientDataJSON = clientData('webauthn.get', challenge);
+    const signature = sign('sha256', Buffer.concat([data, sha256(Buffer.from(clientDataJSON, 'base64url'))]), key);
+
+    return {
+      id: credentialId.toString('base64url'),
+      rawId: credentialId.toString('base64url'),
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON,
+        authenticatorData: data.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: Buffer.from('user-1').toString('base64url'),
+      },
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    passkeys = new Passkeys();
+    challenges = [];
+    credentials = [];
+
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: 'user-1', email: 'jane@example.com', firstName: 'Jane', lastName: 'Doe', passkeys: [],
+    });
+    mockPrisma.webAuthnChallenge.create.mockImplementation(({ data }: any) => {
+      challenges.push(data);
+      return Promise.resolve(data);
+    });
+    mockPrisma.webAuthnChallenge.deleteMany.mockImplementation(({ where }: any) => {
+      const index = challenges.findIndex(candidate =>
+        candidate.challenge === where.challenge &&
+        candidate.purpose === where.purpose &&
+        candidate.userId === where.userId &&
+        candidate.expiresAt > new Date()
+      );
+      if (!where.challenge || index === -1) return Promise.resolve({ count: 0 });
+      challenges.splice(index, 1);
+      return Promise.resolve({ count: 1 });
+    });
+    mockPrisma.webAuthnCredential.create.mockImplementation(({ data }: any) => {
+      credentials.push({ id: 'passkey-1', ...data });
+      return Promise.resolve({ id: 'passkey-1', ...data });
+    });
+    mockPrisma.webAuthnCredential.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(credentials.find(candidate => candidate.credentialId === where.credentialId) ?? null)
+    );
+    mockPrisma.webAuthnCredential.findMany.mockImplementation(() => Promise.resolve(credentials));
+    mockPrisma.webAuthnCredential.updateMany.mockImplementation(({ where, data }: any) => {
+      const stored = credentials.find(candidate => candidate.id === where.id && candidate.signCount === where.signCount);
+      if (stored) Object.assign(stored, data);
+      return Promise.resolve({ count: stored ? 1 : 0 });
+    });
+  });
+
+  test('should register a passkey from a fresh challenge', async () => {
+    const options = await passkeys.registrationOptions('user-1');
+
+    expect(options).toMatchObject({
+      rp: { id: 'localhost' },
+      user: { id: Buffer.from('user-1').toString('base64url'), name: 'jane@example.com' },
+      attestation: 'none',
+    });
+
+    await register();
+
+    expect(credentials[0]).toMatchObject({
+      userId: 'user-1',
+      credentialId: credentialId.toString('base64url'),
+      signCount: 0,
+      transports: ['internal'],
+      name: 'Laptop',
+    });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({ action: 'REGISTER_PASSKEY', entityId: 'user-1' });
+  });
+
+  test('should refuse registrations from another origin', async () => {
+    await expect(register('https://evil.example')).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Passkey was created for another site',
+    });
+    expect(credentials).toHaveLength(0);
+  });
+
+  test('should log in without a password when the authenticator verified the user', async () => {
+    await register();
+
+    const { challenge, allowCredentials, userVerification } = await passkeys.authenticationOptions();
+    expect(allowCredentials).toEqual([]);
+    expect(userVerification).toBe('required');
+
+    const result = await passkeys.verifyAuthentication(assertion(challenge, 0x05, 1));
+
+    expect(result).toEqual({ userId: 'user-1', credentialId: credentialId.toString('base64url'), userVerified: true });
+    expect(credentials[0]).toMatchObject({ signCount: 1, lastUsedAt: expect.any(Date) });
+
+    // The challenge is spent
+    await expect(passkeys.verifyAuthentication(assertion(challenge, 0x05, 2))).rejects.toMatchObject({
+      message: 'Passkey challenge is invalid or has expired',
+    });
+  });
+
+  test('should require user verification for passwordless login only', async () => {
+    await register();
+
+    const passwordless = await passkeys.authenticationOptions();
+    await expect(passkeys.verifyAuthentication(assertion(passwordless.challenge, 0x01, 1))).rejects.toMatchObject({
+      message: 'Passkey did not verify the user',
+    });
+
+    const secondFactor = await passkeys.authenticationOptions('user-1');
+    await expect(passkeys.verifyAuthentication(assertion(secondFactor.challenge, 0x01, 1), 'user-1')).resolves.toMatchObject({
+      userId: 'user-1',
+      userVerified: false,
+    });
+  });
+
+  test('should not accept a second-factor challenge for passwordless login', async () => {
+    await register();
+
+    const { challenge } = await passkeys.authenticationOptions('user-1');
+
+    await expect(passkeys.verifyAuthentication(assertion(challenge, 0x05, 1))).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  test('should reject signatures from another key', async () => {
+    await register();
+    const { challenge } = await passkeys.authenticationOptions();
+    const other = generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey;
+
+    await expect(passkeys.verifyAuthentication(assertion(challenge, 0x05, 1, other))).rejects.toMatchObject({
+      message: 'Passkey verification failed',
+    });
+    expect(credentials[0].signCount).toBe(0);
+  });
+
+  test('should flag a signature counter that went backwards as a cloned authenticator', async () => {
+    await register();
+    credentials[0].signCount = 10;
+
+    const { challenge } = await passkeys.authenticationOptions();
+
+    await expect(passkeys.verifyAuthentication(assertion(challenge, 0x05, 7))).rejects.toMatchObject({ statusCode: 401 });
+    expect(mockPrisma.auditLog.create.mock.calls[1][0].data).toMatchObject({
+      action: 'PASSKEY_CLONE_DETECTED',
+      details: expect.objectContaining({ storedSignCount: 10, presentedSignCount: 7 }),
+    });
+  });
+});
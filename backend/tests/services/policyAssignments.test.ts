@@ -0,0 +1,169 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyAssignments } from '../../src/services/policyAssignments';
+import { runInOrganization } from '../../src/utils/tenancy';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+    policyAssignment: {
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((ops: any[]) => Promise.all(ops));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+describe('PolicyAssignments', () => {
+  let assignments: PolicyAssignments;
+
+  const activePolicy = { id: 'policy-1', title: 'Acceptable Use', status: 'ACTIVE', version: 2 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    assignments = new PolicyAssignments();
+    mockPrisma.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('assign', () => {
+    test('should bulk assign by role and skip existing assignments', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(activePolicy);
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'u1' }, { id: 'u2' }, { id: 'u3' }]);
+      mockPrisma.policyAssignment.createMany.mockResolvedValue({ count: 2 });
+
+      const result = await assignments.assign('policy-1', { roles: ['USER'] }, 'admin-1');
+
+      expect(result).toEqual({ matchedUsers: 3, assigned: 2, alreadyAssigned: 1 });
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: { isActive: true, OR: [{ memberships: { some: { role: { in: ['USER'] } } } }] },
+        select: { id: true },
+      });
+      expect(mockPrisma.policyAssignment.createMany).toHaveBeenCalledWith({
+        data: [
+          { policyId: 'policy-1', userId: 'u1' },
+          { policyId: 'policy-1', userId: 'u2' },
+          { policyId: 'policy-1', userId: 'u3' },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    test('should match roles and the organization by membership in the current organization', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(activePolicy);
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'u1' }]);
+      mockPrisma.policyAssignment.createMany.mockResolvedValue({ count: 1 });
+
+      await runInOrganization('org-1', () =>
+        assignments.assign('policy-1', { roles: ['AUDITOR'], organization: 'acme' }, 'admin-1')
+      );
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: {
+          isActive: true,
+          OR: [
+            { memberships: { some: { organizationId: 'org-1', role: { in: ['AUDITOR'] } } } },
+            {
+              memberships: {
+                some: {
+                  organizationId: 'org-1',
+                  organization: { OR: [{ id: 'acme' }, { slug: 'acme' }, { name: 'acme' }] },
+                },
+              },
+            },
+          ],
+        },
+        select: { id: true },
+      });
+    });
+
+    test('should report unknown user ids', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(activePolicy);
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'u1' }]);
+
+      await expect(
+        assignments.assign('policy-1', { userIds: ['u1', 'ghost'] }, 'admin-1')
+      ).rejects.toMatchObject({ statusCode: 404, details: { missing: ['ghost'] } });
+    });
+  });
+
+  describe('acknowledge', () => {
+    test('should stamp the acknowledged version', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(activePolicy);
+      mockPrisma.policyAssignment.findUnique.mockResolvedValue({ id: 'a1', acknowledgedVersion: 1 });
+      mockPrisma.policyAssignment.update.mockResolvedValue({ id: 'a1', acknowledgedVersion: 2 });
+
+      const result = await assignments.acknowledge('policy-1', 'u1', 2);
+
+      expect(result.acknowledgedVersion).toBe(2);
+      expect(mockPrisma.policyAssignment.update).toHaveBeenCalledWith({
+        where: { id: 'a1' },
+        data: { acknowledgedAt: expect.any(Date), acknowledgedVersion: 2 },
+      });
+    });
+
+    test('should reject acknowledgment of a stale version', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(activePolicy);
+
+      await expect(assignments.acknowledge('policy-1', 'u1', 1)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    test('should reject acknowledgment by users without an assignment', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(activePolicy);
+      mockPrisma.policyAssignment.findUnique.mockResolvedValue(null);
+
+      await expect(assignments.acknowledge('policy-1', 'u9', 2)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('completionReport', () => {
+    test('should compute completion against the current version', async () => {
+      mockPrisma.policy.findMany.mockResolvedValue([
+        {
+          id: 'policy-1',
+          title: 'Acceptable Use',
+          version: 2,
+          assignments: [
+            { acknowledgedAt: new Date(), acknowledgedVersion: 2 },
+            { acknowledgedAt: new Date(), acknowledgedVersion: 1 },
+            { acknowledgedAt: null, acknowledgedVersion: null },
+            { acknowledgedAt: new Date(), acknowledgedVersion: 2 },
+          ],
+        },
+      ]);
+
+      const [report] = await assignments.completionReport('policy-1');
+
+      expect(report).toEqual({
+        policyId: 'policy-1',
+        title: 'Acceptable Use',
+        version: 2,
+        assigned: 4,
+        acknowledged: 3,
+        acknowledgedCurrentVersion: 2,
+        pending: 2,
+        completionRate: 50,
+      });
+    });
+  });
+});
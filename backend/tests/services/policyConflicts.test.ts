@@ -0,0 +1,144 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyConflicts } from '../../src/services/policyConflicts';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const draft = (rules: string) => ({
+  id: 'pol-new',
+  title: 'New access policy',
+  status: 'DRAFT',
+  category: 'SECURITY',
+  complianceFramework: 'ISO27001',
+  rules,
+});
+
+const peer = (id: string, rules: string, status = 'ACTIVE') => ({ id, title: `Policy ${id}`, status, rules });
+
+describe('PolicyConflicts', () => {
+  let conflicts: PolicyConflicts;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    conflicts = new PolicyConflicts();
+    mockPrisma.policy.findMany.mockResolvedValue([]);
+  });
+
+  test('should compare against active and draft policies sharing the category or framework', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValue(draft('permit "a" { actions: ["read"]; }'));
+
+    await conflicts.analyze('pol-new');
+
+    expect(mockPrisma.policy.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: { not: 'pol-new' },
+          status: { in: ['ACTIVE', 'DRAFT'] },
+          rules: { not: null },
+          OR: [{ category: 'SECURITY' }, { complianceFramework: 'ISO27001' }],
+        },
+      })
+    );
+  });
+
+  test('should flag contradictions with other policies', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValue(
+      draft('deny "block-exports" { actions: ["export"]; when: not mfa; }')
+    );
+    mockPrisma.policy.findMany.mockResolvedValue([
+      peer('pol-exports', 'permit "finance-export" { subjects: department == "finance"; actions: ["export"]; }'),
+      peer('pol-reads', 'permit "reads" { actions: ["read"]; }'),
+    ]);
+
+    const report = await conflicts.analyze('pol-new');
+
+    expect(report.summary).toEqual({ contradictions: 1, overlaps: 0, deadRules: 0 });
+    expect(report.findings[0]).toMatchObject({
+      type: 'CONTRADICTION',
+      severity: 'MEDIUM',
+      rule: 'block-exports',
+      other: { policyId: 'pol-exports', rule: 'finance-export', status: 'ACTIVE' },
+    });
+  });
+
+  test('should report permit rules that a deny fully overrides as dead', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValue(
+      draft('permit "night-shift" { subjects: role == "USER"; when: time between 22:00 and 23:00; }')
+    );
+    mockPrisma.policy.findMany.mockResolvedValue([
+      peer('pol-hours', 'deny "after-hours" { when: time between 20:00 and 06:00; }'),
+    ]);
+
+    const report = await conflicts.analyze('pol-new');
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({ type: 'DEAD_RULE', severity: 'HIGH', rule: 'night-shift' }),
+    ]);
+  });
+
+  test('should report redundant and unsatisfiable rules within a policy', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValue(
+      draft(`
+        permit "staff" { subjects: role in ["USER", "AUDITOR"]; actions: ["read"]; }
+        permit "auditors" { subjects: role == "AUDITOR"; actions: ["read"]; }
+        permit "impossible" { when: trustScore > 90 and trustScore < 10; }
+      `)
+    );
+
+    const report = await conflicts.analyze('pol-new');
+
+    expect(report.rulesAnalyzed).toBe(3);
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        type: 'OVERLAP',
+        severity: 'LOW',
+        rule: 'staff',
+        other: expect.objectContaining({ rule: 'auditors' }),
+      }),
+      expect.objectContaining({ type: 'DEAD_RULE', rule: 'impossible' }),
+    ]);
+  });
+
+  test('should audit the summary when run on submission', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValue(draft('permit "a" { actions: ["read"]; }'));
+    mockPrisma.policy.findMany.mockResolvedValue([peer('pol-dup', 'permit "b" { actions: ["read"]; }', 'DRAFT')]);
+
+    const report = await conflicts.analyze('pol-new', 'user-1');
+
+    expect(report.summary).toEqual({ contradictions: 0, overlaps: 1, deadRules: 0 });
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'ANALYZE_CONFLICTS',
+        entityId: 'pol-new',
+        userId: 'user-1',
+        details: expect.objectContaining({ automatic: true, overlaps: 1, comparedPolicies: ['pol-dup'] }),
+      }),
+    });
+  });
+
+  test('should throw 404 for unknown policies', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValue(null);
+
+    await expect(conflicts.analyze('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,220 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyDecisionPoint } from '../../src/services/policyDecision';
+import { runInOrganization } from '../../src/utils/tenancy';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findMany: jest.fn(),
+    },
+    policyException: {
+      findMany: jest.fn(),
+    },
+    organizationMember: {
+      findUnique: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockRecordAccessDecision = jest.fn();
+jest.mock('../../src/services/blockchainService', () => ({
+  BlockchainService: jest.fn(() => ({ recordAccessDecision: mockRecordAccessDecision })),
+}));
+
+const mockDetectAnomalies = jest.fn();
+jest.mock('../../src/services/aiSecurityAnalyzer', () => ({
+  AISecurityAnalyzer: jest.fn(() => ({ detectAnomalies: mockDetectAnomalies })),
+}));
+
+const mockPrisma = new PrismaClient() as any;
+
+const readRules = `
+permit "staff-read" {
+  subjects: department == "finance";
+  actions: ["read"];
+  obligations: ["log-access"];
+}
+`;
+
+const riskRules = `
+deny "high-risk" {
+  actions: *;
+  when: riskScore >= 50;
+  obligations: ["notify-security"];
+}
+`;
+
+const policies = [
+  { id: 'pol-read', title: 'Finance access', version: 2, rules: readRules },
+  { id: 'pol-risk', title: 'Risk guard', version: 1, rules: riskRules },
+];
+
+const request = {
+  subject: { id: 'user-1', department: 'finance' },
+  resource: { id: 'report-9', type: 'financial-report' },
+  action: 'read',
+  context: { ip: '10.0.0.5' },
+};
+
+describe('PolicyDecisionPoint', () => {
+  let pdp: PolicyDecisionPoint;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pdp = new PolicyDecisionPoint();
+    mockPrisma.policy.findMany.mockResolvedValue(policies);
+    mockPrisma.policyException.findMany.mockResolvedValue([]);
+    mockRecordAccessDecision.mockResolvedValue({ fabricTxId: 'fabric_1', ethTxId: 'eth_1', verified: true });
+    mockDetectAnomalies.mockReturnValue({ level: 'LOW', riskScore: 0, confidence: 0.6, indicators: [], recommendations: [] });
+  });
+
+  describe('evaluate', () => {
+    test('should permit with the obligations of matching permit rules', () => {
+      const result = pdp.evaluate(policies, { ...request, context: { riskScore: 10 } });
+
+      expect(result.decision).toBe('PERMIT');
+      expect(result.policyIds).toEqual(['pol-read']);
+      expect(result.obligations).toEqual(['log-access']);
+    });
+
+    test('should let a deny in any policy override permits', () => {
+      const result = pdp.evaluate(policies, { ...request, context: { riskScore: 80 } });
+
+      expect(result.decision).toBe('DENY');
+      expect(result.policyIds).toEqual(['pol-read', 'pol-risk']);
+      expect(result.obligations).toEqual(['notify-security']);
+    });
+
+    test('should deny by default when no rule applies', () => {
+      const result = pdp.evaluate(policies, { ...request, action: 'delete', context: { riskScore: 0 } });
+
+      expect(result).toMatchObject({
+        decision: 'DENY',
+        reason: 'No active policy applies to this request',
+        policyIds: [],
+        obligations: [],
+      });
+    });
+
+    test('should waive deny rules of a policy the subject holds an exception for', () => {
+      const exception = { id: 'exc-1', policyId: 'pol-risk', expiresAt: new Date('2026-09-30T00:00:00.000Z') };
+
+      const result = pdp.evaluate(policies, { ...request, context: { riskScore: 80 } }, [exception]);
+
+      expect(result.decision).toBe('PERMIT');
+      expect(result.reason).toBe('Permitted by policy rule under a policy exception');
+      expect(result.policyIds).toEqual(['pol-read']);
+      expect(result.exceptions).toEqual([exception]);
+    });
+
+    test('should skip policies whose rules do not compile', () => {
+      const broken = [{ id: 'pol-bad', title: 'Broken', version: 1, rules: 'permit {' }, policies[0]];
+
+      const result = pdp.evaluate(broken, { ...request, context: {} });
+
+      expect(result.decision).toBe('PERMIT');
+      expect(result.policyIds).toEqual(['pol-read']);
+    });
+  });
+
+  describe('decide', () => {
+    test('should only load active policies with rules', async () => {
+      await pdp.decide(request, 'user-1');
+
+      expect(mockPrisma.policy.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: 'ACTIVE', rules: { not: null } } })
+      );
+    });
+
+    test('should feed the analyzer risk score into rule evaluation', async () => {
+      mockDetectAnomalies.mockReturnValue({
+        level: 'HIGH',
+        riskScore: 55,
+        confidence: 0.8,
+        indicators: ['Access from unusual location'],
+        recommendations: [],
+      });
+
+      const result = await pdp.decide({ ...request, context: { riskScore: 0 } }, 'user-1');
+
+      expect(result.decision).toBe('DENY');
+      expect(result.riskScore).toBe(55);
+      expect(result.threatLevel).toBe('HIGH');
+      expect(result.indicators).toEqual(['Access from unusual location']);
+    });
+
+    test('should anchor the decision on the ledger and audit it', async () => {
+      const result = await pdp.decide(request, 'caller-1');
+
+      expect(result.ledger).toEqual({ fabricTxId: 'fabric_1', ethTxId: 'eth_1', verified: true });
+      expect(mockRecordAccessDecision).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          resourceId: 'report-9',
+          action: 'read',
+          decision: 'PERMIT',
+          riskScore: 0,
+        })
+      );
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'ACCESS_DECISION',
+          entityType: 'RESOURCE',
+          entityId: 'report-9',
+          userId: 'caller-1',
+          ipAddress: '10.0.0.5',
+          riskScore: 0,
+          threatLevel: 'LOW',
+          details: expect.objectContaining({ decision: 'PERMIT', policyIds: ['pol-read'] }),
+        }),
+      });
+    });
+
+    test('should look up exceptions covering the subject and audit those applied', async () => {
+      mockDetectAnomalies.mockReturnValue({ level: 'HIGH', riskScore: 60, confidence: 0.8, indicators: [], recommendations: [] });
+      mockPrisma.policyException.findMany.mockResolvedValue([
+        { id: 'exc-1', policyId: 'pol-risk', expiresAt: new Date('2026-09-30T00:00:00.000Z') },
+      ]);
+
+      mockPrisma.organizationMember.findUnique.mockResolvedValue({ role: 'USER' });
+
+      // The role claimed in the request is ignored in favour of the membership
+      const result = await runInOrganization('org-a', () =>
+        pdp.decide({ ...request, subject: { ...request.subject, role: 'ADMIN', roles: ['ADMIN'] } }, 'user-1')
+      );
+
+      expect(result.decision).toBe('PERMIT');
+      expect(mockPrisma.policyException.findMany.mock.calls[0][0].where).toMatchObject({
+        status: 'APPROVED',
+        OR: [{ userIds: { has: 'user-1' } }, { roles: { has: 'USER' } }],
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ details: expect.objectContaining({ exceptionIds: ['exc-1'] }) }),
+      });
+    });
+
+    test('should still decide when ledger anchoring fails', async () => {
+      mockRecordAccessDecision.mockRejectedValue(new Error('Blockchain recording failed'));
+
+      const result = await pdp.decide(request, 'user-1');
+
+      expect(result.decision).toBe('PERMIT');
+      expect(result.ledger).toBeNull();
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ details: expect.objectContaining({ ledger: null }) }),
+      });
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyDocuments } from '../../src/services/policyDocuments';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockRecordPolicyChange = jest.fn();
+jest.mock('../../src/services/blockchainService', () => ({
+  BlockchainService: jest.fn(() => ({ recordPolicyChange: mockRecordPolicyChange })),
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    policyVersion: {
+      findUnique: jest.fn(),
+    },
+    policyApproval: {
+      findMany: jest.fn(),
+    },
+    auditLog: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any[]) => Promise.all(operations));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const policy = (overrides: any = {}) => ({
+  id: 'pol-1',
+  title: 'Information Security Policy',
+  description: 'Guidelines for protecting <company> information',
+  content: '# Information Security\n\n## Passwords\n- Minimum **12** characters\n- Rotated yearly\n\nReport incidents within 24 hours.',
+  category: 'SECURITY',
+  status: 'ACTIVE',
+  version: 2,
+  effectiveDate: new Date('2025-01-01T00:00:00.000Z'),
+  expirationDate: null,
+  tags: ['security'],
+  complianceFramework: 'ISO27001',
+  rules: null,
+  blockchainTxHash: null,
+  blockchainAddress: null,
+  updatedAt: new Date('2025-02-01T00:00:00.000Z'),
+  author: { id: 'user-1', firstName: 'Ada', lastName: 'Owner', email: 'ada@example.com', role: 'POLICY_MANAGER' },
+  ...overrides,
+});
+
+const approval = {
+  approverId: 'user-2',
+  decision: 'APPROVED',
+  comments: 'Reviewed with legal',
+  createdAt: new Date('2025-01-20T10:00:00.000Z'),
+  approver: { id: 'user-2', firstName: 'Bo', lastName: 'Approver', email: 'bo@example.com', role: 'ADMIN' },
+};
+
+describe('PolicyDocuments', () => {
+  let documents: PolicyDocuments;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    documents = new PolicyDocuments();
+    mockPrisma.policy.findUnique.mockResolvedValue(policy());
+    mockPrisma.policyVersion.findUnique.mockResolvedValue({
+      version: 2,
+      content: policy().content,
+      snapshot: null,
+      createdAt: new Date('2025-01-15T00:00:00.000Z'),
+    });
+    mockPrisma.policyApproval.findMany.mockResolvedValue([approval]);
+    mockPrisma.auditLog.findFirst.mockResolvedValue(null);
+  });
+
+  describe('document hash', () => {
+    test('should be the same for every format and unaffected by status or ledger anchor', async () => {
+      const html = await documents.render('pol-1', 'html');
+      const markdown = await documents.render('pol-1', 'markdown');
+      const pdf = await documents.render('pol-1', 'pdf');
+
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ status: 'INACTIVE', blockchainTxHash: 'policy_1' }));
+      const later = await documents.load('pol-1');
+
+      expect(html.documentHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(markdown.documentHash).toBe(html.documentHash);
+      expect(pdf.documentHash).toBe(html.documentHash);
+      expect(later.documentHash).toBe(html.documentHash);
+    });
+
+    test('should change when the content or an approval changes', async () => {
+      const original = await documents.load('pol-1');
+
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ content: 'Changed' }));
+      const edited = await documents.load('pol-1');
+
+      mockPrisma.policy.findUnique.mockResolvedValue(policy());
+      mockPrisma.policyApproval.findMany.mockResolvedValue([]);
+      const unapproved = await documents.load('pol-1');
+
+      expect(edited.documentHash).not.toBe(original.documentHash);
+      expect(unapproved.documentHash).not.toBe(original.documentHash);
+    });
+  });
+
+  describe('render', () => {
+    test('should render Markdown with metadata, content, approvals and integrity section', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ blockchainTxHash: 'policy_123' }));
+
+      const result = await documents.render('pol-1', 'markdown');
+      const body = result.body as string;
+
+      expect(result).toMatchObject({
+        contentType: 'text/markdown; charset=utf-8',
+        filename: 'information-security-policy-v2.md',
+      });
+      expect(body).toMatch(/^# Information Security Policy\n/);
+      expect(body).toContain('| Compliance framework | ISO27001 |');
+      expect(body).toContain('### Information Security');
+      expect(body).toContain('#### Passwords');
+      expect(body).toContain('- Minimum **12** characters');
+      expect(body).toContain('| Bo Approver | ADMIN | APPROVED | 2025-01-20T10:00:00.000Z | Reviewed with legal |');
+      expect(body).toContain(`- Document hash (SHA-256): \`${result.documentHash}\``);
+      expect(body).toContain('- Ledger anchor: `policy_123`');
+    });
+
+    test('should render standalone HTML with escaped text', async () => {
+      const result = await documents.render('pol-1', 'html');
+      const body = result.body as string;
+
+      expect(body).toMatch(/^<!DOCTYPE html>/);
+      expect(body).toContain(`<meta name="document-hash" content="${result.documentHash}">`);
+      expect(body).toContain('<p>Guidelines for protecting &lt;company&gt; information</p>');
+      expect(body).toContain('<li>Minimum <strong>12</strong> characters</li>');
+      expect(body).toContain('<td>Not anchored</td>');
+    });
+
+    test('should render a well-formed, reproducible PDF', async () => {
+      const first = await documents.render('pol-1', 'pdf');
+      const second = await documents.render('pol-1', 'pdf');
+      const pdf = (first.body as Buffer).toString('latin1');
+
+      expect(first.contentType).toBe('application/pdf');
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(Buffer.compare(first.body as Buffer, second.body as Buffer)).toBe(0);
+
+      // Every xref entry must point at the start of its object
+      const xrefAt = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+      const entries = pdf.slice(xrefAt).match(/^\d{10} 00000 n /gm)!;
+      entries.forEach((entry, index) => {
+        expect(pdf.slice(Number(entry.slice(0, 10))).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+      expect(pdf).toContain('/Title (Information Security Policy \\(v2\\))');
+    });
+
+    test('should rebuild earlier versions from their snapshot', async () => {
+      mockPrisma.policyVersion.findUnique.mockResolvedValue({
+        version: 1,
+        content: 'Original text',
+        snapshot: { title: 'Security Policy', tags: ['legacy'] },
+        createdAt: new Date('2024-06-01T00:00:00.000Z'),
+      });
+
+      const document = await documents.load('pol-1', 1);
+
+      expect(mockPrisma.policyApproval.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { policyId: 'pol-1', version: 1 } })
+      );
+      expect(document).toMatchObject({
+        version: 1,
+        currentVersion: 2,
+        status: 'SUPERSEDED',
+        title: 'Security Policy',
+        tags: ['legacy'],
+        content: 'Original text',
+        complianceFramework: 'ISO27001',
+        versionCreatedAt: '2024-06-01T00:00:00.000Z',
+      });
+    });
+
+    test('should throw 404 for unknown versions and 400 for unknown formats', async () => {
+      mockPrisma.policyVersion.findUnique.mockResolvedValue(null);
+
+      await expect(documents.load('pol-1', 7)).rejects.toMatchObject({ statusCode: 404 });
+      expect(() => documents.detectFormat('docx')).toThrow('Unsupported format');
+      expect(documents.detectFormat('md')).toBe('markdown');
+    });
+  });
+
+  describe('anchor', () => {
+    test('should record the document hash on the ledger and store the transaction', async () => {
+      mockRecordPolicyChange.mockResolvedValue('policy_tx_1');
+      const { documentHash } = await documents.load('pol-1');
+
+      const result = await documents.anchor('pol-1', { userId: 'user-1', role: 'ADMIN' });
+
+      expect(result).toEqual({ txHash: 'policy_tx_1', documentHash, version: 2 });
+      expect(mockRecordPolicyChange).toHaveBeenCalledWith(
+        expect.objectContaining({ policyId: 'pol-1', version: '2', changeType: 'CREATE', newHash: documentHash })
+      );
+      expect(mockPrisma.policy.update).toHaveBeenCalledWith({
+        where: { id: 'pol-1' },
+        data: { blockchainTxHash: 'policy_tx_1' },
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'ANCHOR_POLICY_DOCUMENT',
+          details: expect.objectContaining({ documentHash, txHash: 'policy_tx_1', previousHash: null }),
+        }),
+      });
+    });
+
+    test('should refuse to anchor policies that are not approved or active', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ status: 'DRAFT' }));
+
+      await expect(documents.anchor('pol-1', { userId: 'user-1', role: 'ADMIN' })).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(mockRecordPolicyChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    test('should match the hash anchored under blockchainTxHash', async () => {
+      const { documentHash } = await documents.load('pol-1');
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ blockchainTxHash: 'policy_tx_1' }));
+      mockPrisma.auditLog.findFirst.mockResolvedValue({
+        createdAt: new Date('2025-02-02T00:00:00.000Z'),
+        details: { txHash: 'policy_tx_1', documentHash, version: 2 },
+      });
+
+      const result = await documents.verify('pol-1', { hash: documentHash.toUpperCase() });
+
+      expect(result).toMatchObject({
+        documentHash,
+        matchesLedger: true,
+        matchesSupplied: true,
+        ledger: { txHash: 'policy_tx_1', anchoredHash: documentHash, anchoredVersion: 2 },
+      });
+    });
+
+    test('should not match after the anchored text changed', async () => {
+      const { documentHash } = await documents.load('pol-1');
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ content: 'Edited', blockchainTxHash: 'policy_tx_1' }));
+      mockPrisma.auditLog.findFirst.mockResolvedValue({
+        createdAt: new Date(),
+        details: { txHash: 'policy_tx_1', documentHash, version: 2 },
+      });
+
+      const result = await documents.verify('pol-1', { hash: documentHash });
+
+      expect(result.matchesLedger).toBe(false);
+      expect(result.matchesSupplied).toBe(false);
+      expect(result.ledger.anchoredHash).toBe(documentHash);
+    });
+  });
+});
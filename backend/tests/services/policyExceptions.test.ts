@@ -0,0 +1,199 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyExceptions } from '../../src/services/policyExceptions';
+import { runInOrganization } from '../../src/utils/tenancy';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      count: jest.fn(),
+    },
+    organizationMember: {
+      findUnique: jest.fn(),
+    },
+    policyException: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const inDays = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+const requester = { userId: 'user-1', role: 'USER' };
+const manager = { userId: 'manager-1', role: 'POLICY_MANAGER' };
+
+const exception = (overrides: any = {}) => ({
+  id: 'exc-1',
+  policyId: 'pol-1',
+  userIds: [],
+  roles: ['finance'],
+  justification: 'Finance laptops are replaced in Q3',
+  status: 'PENDING',
+  expiresAt: inDays(60),
+  requestedById: 'user-1',
+  approvedById: null,
+  approvedAt: null,
+  decisionNotes: null,
+  ...overrides,
+});
+
+describe('PolicyExceptions', () => {
+  let exceptions: PolicyExceptions;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    exceptions = new PolicyExceptions();
+    mockPrisma.policy.findUnique.mockResolvedValue({ id: 'pol-1', status: 'ACTIVE' });
+    mockPrisma.policyException.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'exc-1', ...data }));
+    mockPrisma.policyException.update.mockImplementation(({ data }: any) => Promise.resolve({ ...exception(), ...data }));
+  });
+
+  describe('request', () => {
+    test('should create a pending exception and audit it', async () => {
+      const created = await exceptions.request(
+        'pol-1',
+        { roles: ['finance', 'finance'], justification: 'Finance laptops are replaced in Q3', expiresAt: inDays(90) },
+        requester
+      );
+
+      expect(created).toMatchObject({ status: 'PENDING', roles: ['finance'], userIds: [], requestedById: 'user-1' });
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'REQUEST_POLICY_EXCEPTION',
+        entityId: 'pol-1',
+      });
+    });
+
+    test('should reject an expiry in the past or beyond a year', async () => {
+      const input = { roles: ['finance'], justification: 'Finance laptops are replaced in Q3' };
+
+      await expect(exceptions.request('pol-1', { ...input, expiresAt: inDays(-1) }, requester)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'expiresAt must be in the future',
+      });
+      await expect(exceptions.request('pol-1', { ...input, expiresAt: inDays(400) }, requester)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    test('should reject unknown users in the scope', async () => {
+      mockPrisma.user.count.mockResolvedValue(1);
+
+      await expect(
+        exceptions.request(
+          'pol-1',
+          { userIds: ['user-2', 'user-3'], justification: 'Pilot group for the new VPN', expiresAt: inDays(30) },
+          requester
+        )
+      ).rejects.toMatchObject({ statusCode: 400, message: 'Exception scope names unknown users' });
+    });
+  });
+
+  describe('approve', () => {
+    test('should record the approver', async () => {
+      mockPrisma.policyException.findUnique.mockResolvedValue(exception());
+
+      const approved = await exceptions.approve('exc-1', manager, 'Until the rollout finishes');
+
+      expect(approved).toMatchObject({ status: 'APPROVED', approvedById: 'manager-1' });
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'APPROVE_POLICY_EXCEPTION',
+        details: expect.objectContaining({ exceptionId: 'exc-1' }),
+      });
+    });
+
+    test('should not let the requester approve their own exception', async () => {
+      mockPrisma.policyException.findUnique.mockResolvedValue(exception());
+
+      await expect(exceptions.approve('exc-1', requester)).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test('should refuse exceptions that are decided or expired', async () => {
+      mockPrisma.policyException.findUnique.mockResolvedValueOnce(exception({ status: 'REJECTED' }));
+      await expect(exceptions.approve('exc-1', manager)).rejects.toMatchObject({ statusCode: 409 });
+
+      mockPrisma.policyException.findUnique.mockResolvedValueOnce(exception({ expiresAt: inDays(-1) }));
+      await expect(exceptions.approve('exc-1', manager)).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Exception has expired',
+      });
+    });
+  });
+
+  describe('activeFor', () => {
+    test('should match approved, unexpired exceptions by id or organization role', async () => {
+      mockPrisma.policyException.findMany.mockResolvedValue([]);
+      mockPrisma.organizationMember.findUnique.mockResolvedValue({ role: 'AUDITOR' });
+      const now = new Date('2026-06-01T00:00:00.000Z');
+
+      await runInOrganization('org-a', () => exceptions.activeFor('user-1', now));
+
+      expect(mockPrisma.organizationMember.findUnique.mock.calls[0][0].where).toEqual({
+        organizationId_userId: { organizationId: 'org-a', userId: 'user-1' },
+      });
+      expect(mockPrisma.policyException.findMany.mock.calls[0][0].where).toEqual({
+        status: 'APPROVED',
+        expiresAt: { gt: now },
+        OR: [{ userIds: { has: 'user-1' } }, { roles: { has: 'AUDITOR' } }],
+      });
+    });
+
+    test('should only match by id for subjects outside the organization', async () => {
+      mockPrisma.policyException.findMany.mockResolvedValue([]);
+      mockPrisma.organizationMember.findUnique.mockResolvedValue(null);
+
+      await runInOrganization('org-a', () => exceptions.activeFor('contractor-7'));
+
+      expect(mockPrisma.policyException.findMany.mock.calls[0][0].where.OR).toEqual([
+        { userIds: { has: 'contractor-7' } },
+      ]);
+    });
+  });
+
+  describe('expireDue', () => {
+    test('should expire due exceptions with an automatic audit entry', async () => {
+      const expiresAt = new Date('2026-05-31T00:00:00.000Z');
+      mockPrisma.policyException.findMany.mockResolvedValue([
+        { id: 'exc-1', policyId: 'pol-1', status: 'APPROVED', expiresAt, policy: { organizationId: 'org-a' } },
+        { id: 'exc-2', policyId: 'pol-2', status: 'PENDING', expiresAt, policy: { organizationId: null } },
+      ]);
+      mockPrisma.policyException.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      const expired = await exceptions.expireDue(new Date('2026-06-01T00:00:00.000Z'));
+
+      expect(expired).toEqual(['exc-1']);
+      expect(mockPrisma.policyException.updateMany).toHaveBeenCalledWith({
+        where: { id: 'exc-1', status: 'APPROVED' },
+        data: { status: 'EXPIRED' },
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'EXPIRE_POLICY_EXCEPTION',
+        organizationId: 'org-a',
+        details: expect.objectContaining({ exceptionId: 'exc-1', automatic: true }),
+      });
+    });
+  });
+});
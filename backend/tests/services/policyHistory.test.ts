@@ -0,0 +1,256 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyHistory } from '../../src/services/policyHistory';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockLoadDocument = jest.fn();
+jest.mock('../../src/services/policyDocuments', () => ({
+  PolicyDocuments: jest.fn(() => ({ load: mockLoadDocument })),
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    policyVersion: {
+      findMany: jest.fn(),
+    },
+    auditLog: {
+      findMany: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any[]) => Promise.all(operations));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const at = (day: number) => new Date(Date.UTC(2025, 2, day));
+
+const policy = (overrides: any = {}) => ({
+  id: 'pol-1',
+  title: 'Access Control v2',
+  description: 'Current description',
+  content: '# Current',
+  category: 'SECURITY',
+  complianceFramework: 'ISO27001',
+  effectiveDate: at(1),
+  expirationDate: null,
+  tags: ['access'],
+  rules: null,
+  status: 'ACTIVE',
+  version: 2,
+  authorId: 'author-1',
+  approvedById: 'approver-1',
+  approvedAt: at(20),
+  createdAt: at(1),
+  updatedAt: at(20),
+  ...overrides,
+});
+
+const version = (number: number, createdAt: Date, title: string) => ({
+  id: `ver-${number}`,
+  policyId: 'pol-1',
+  version: number,
+  content: `# Version ${number}`,
+  changes: 'Edit',
+  snapshot: {
+    title,
+    description: `Description ${number}`,
+    category: 'SECURITY',
+    effectiveDate: at(1).toISOString(),
+    expirationDate: null,
+    tags: ['access'],
+    complianceFramework: 'ISO27001',
+    rules: null,
+  },
+  createdById: 'author-1',
+  createdAt,
+});
+
+const event = (action: string, createdAt: Date, details: any = {}, userId = 'author-1') => ({
+  entityId: 'pol-1',
+  action,
+  userId,
+  createdAt,
+  details,
+});
+
+const lifecycle = [
+  event('CREATE_POLICY', at(1), { status: 'DRAFT' }),
+  event('SUBMIT_POLICY', at(2), { previousStatus: 'DRAFT' }),
+  event('APPROVE_POLICY', at(3), { status: 'APPROVED' }, 'approver-0'),
+  event('ACTIVATE_POLICY', at(4)),
+  event('UPDATE_POLICY', at(10), { status: 'ACTIVE', version: 2 }),
+];
+
+describe('PolicyHistory', () => {
+  let history: PolicyHistory;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    history = new PolicyHistory();
+    mockPrisma.policyVersion.findMany.mockResolvedValue([
+      version(1, at(1), 'Access Control'),
+      version(2, at(10), 'Access Control v2'),
+    ]);
+    mockPrisma.auditLog.findMany.mockResolvedValue(lifecycle);
+  });
+
+  describe('parseAsOf', () => {
+    test('should reject dates that cannot be parsed or lie in the future', () => {
+      expect(() => history.parseAsOf('not-a-date')).toThrow('asOf must be an ISO 8601 date');
+      expect(() => history.parseAsOf('2999-01-01')).toThrow('asOf cannot be in the future');
+      expect(history.parseAsOf('2025-03-14').toISOString()).toBe('2025-03-14T00:00:00.000Z');
+    });
+  });
+
+  describe('statusAt', () => {
+    test('should replay status changes up to the date', () => {
+      expect(history.statusAt(lifecycle, at(2), 'ACTIVE')).toBe('IN_REVIEW');
+      expect(history.statusAt(lifecycle, at(3), 'ACTIVE')).toBe('APPROVED');
+      expect(history.statusAt(lifecycle, at(14), 'ACTIVE')).toBe('ACTIVE');
+    });
+
+    test('should ignore partial approvals that did not change the status', () => {
+      const events = [
+        event('SUBMIT_POLICY', at(2)),
+        event('APPROVE_POLICY', at(3), { status: 'IN_REVIEW', approvals: 1, requiredApprovals: 2 }),
+      ];
+
+      expect(history.statusAt(events, at(5), 'ACTIVE')).toBe('IN_REVIEW');
+    });
+
+    test('should send a policy under review back to draft on rollback', () => {
+      const events = [event('SUBMIT_POLICY', at(2)), event('ROLLBACK_POLICY', at(3), { restoredVersion: 1 })];
+
+      expect(history.statusAt(events, at(5), 'DRAFT')).toBe('DRAFT');
+    });
+
+    test('should use the status the first later event moved away from', () => {
+      const events = [event('AUTO_EXPIRE_POLICY', at(10), { from: 'ACTIVE', to: 'INACTIVE', automatic: true })];
+
+      expect(history.statusAt(events, at(5), 'INACTIVE')).toBe('ACTIVE');
+      expect(history.statusAt([], at(5), 'INACTIVE')).toBe('INACTIVE');
+    });
+  });
+
+  describe('approvalAt', () => {
+    const current = { approvedById: 'approver-2', approvedAt: at(12) };
+    const reapproved = [
+      ...lifecycle,
+      event('SUBMIT_POLICY', at(11), { previousStatus: 'DRAFT' }),
+      event('APPROVE_POLICY', at(12), { status: 'APPROVED' }, 'approver-2'),
+    ];
+
+    test('should take the approver of each round from its approval', () => {
+      expect(history.approvalAt(reapproved, at(2), current)).toEqual({ approvedById: null, approvedAt: null });
+      expect(history.approvalAt(reapproved, at(5), current)).toEqual({ approvedById: 'approver-0', approvedAt: at(3) });
+      expect(history.approvalAt(reapproved, at(11), current)).toEqual({ approvedById: null, approvedAt: null });
+      expect(history.approvalAt(reapproved, at(13), current)).toEqual(current);
+    });
+
+    test('should not credit reviewers whose approval did not complete the round', () => {
+      const events = [
+        event('SUBMIT_POLICY', at(2)),
+        event('APPROVE_POLICY', at(3), { status: 'IN_REVIEW', approvals: 1, requiredApprovals: 2 }, 'approver-0'),
+        event('APPROVE_POLICY', at(4), { status: 'APPROVED', approvals: 2, requiredApprovals: 2 }, 'approver-1'),
+      ];
+
+      expect(history.approvalAt(events, at(3), current).approvedById).toBeNull();
+      expect(history.approvalAt(events, at(5), current)).toEqual({ approvedById: 'approver-1', approvedAt: at(4) });
+    });
+
+    test('should fall back to the stored approval when none was recorded', () => {
+      const events = [event('CREATE_POLICY', at(1), { status: 'APPROVED' })];
+
+      expect(history.approvalAt(events, at(5), current).approvedById).toBeNull();
+      expect(history.approvalAt(events, at(14), current)).toEqual(current);
+    });
+  });
+
+  describe('getAsOf', () => {
+    test('should return the version, status and approver in force at the date', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ approvedBy: { id: 'approver-1' } }));
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'approver-0', email: 'first@example.com' });
+
+      const state = await history.getAsOf('pol-1', at(5));
+
+      expect(state).toMatchObject({
+        version: 1,
+        title: 'Access Control',
+        description: 'Description 1',
+        content: '# Version 1',
+        status: 'ACTIVE',
+        approvedById: 'approver-0',
+        approvedAt: at(3),
+        approvedBy: { id: 'approver-0' },
+        updatedAt: at(4),
+      });
+      expect(mockPrisma.user.findUnique.mock.calls[0][0].where).toEqual({ id: 'approver-0' });
+    });
+
+    test('should not report an approval before the policy was approved', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ approvedBy: { id: 'approver-1' } }));
+
+      const state = await history.getAsOf('pol-1', at(2));
+
+      expect(state).toMatchObject({ status: 'IN_REVIEW', approvedById: null, approvedAt: null, approvedBy: null });
+    });
+
+    test('should not find a policy created after the date', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ createdAt: at(10) }));
+
+      await expect(history.getAsOf('pol-1', at(5))).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('effectiveSet', () => {
+    beforeEach(() => {
+      mockLoadDocument.mockImplementation((policyId: string, number: number) =>
+        Promise.resolve({ documentHash: `hash-${policyId}-v${number}` })
+      );
+    });
+
+    test('should only include policies active and within their effective dates', async () => {
+      mockPrisma.policy.findMany.mockResolvedValue([
+        policy(),
+        policy({ id: 'pol-2', effectiveDate: at(30) }),
+      ]);
+      mockPrisma.policyVersion.findMany.mockResolvedValue([]);
+      mockPrisma.auditLog.findMany.mockResolvedValue([]);
+
+      const snapshot = await history.effectiveSet(at(14));
+
+      expect(snapshot.count).toBe(1);
+      expect(snapshot.policies[0]).toMatchObject({ policyId: 'pol-1', version: 2, documentHash: 'hash-pol-1-v2' });
+      expect(mockPrisma.policy.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { createdAt: { lte: at(14) } } })
+      );
+    });
+
+    test('should hash equal policy sets equally and changed ones differently', async () => {
+      mockPrisma.policy.findMany.mockResolvedValue([policy()]);
+
+      const before = await history.effectiveSet(at(5));
+      const sameSet = await history.effectiveSet(at(6));
+      const afterEdit = await history.effectiveSet(at(14));
+
+      expect(before.policies[0].version).toBe(1);
+      expect(afterEdit.policies[0].version).toBe(2);
+      expect(sameSet.snapshotHash).toBe(before.snapshotHash);
+      expect(afterEdit.snapshotHash).not.toBe(before.snapshotHash);
+      expect(before.snapshotHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyReviews } from '../../src/services/policyReviews';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    policyReview: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    reviewCycle: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any[]) => Promise.all(operations));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const now = new Date('2025-11-10T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const policy = (overrides: any = {}) => ({
+  id: 'pol-1',
+  title: 'Access Control',
+  category: 'SECURITY',
+  complianceFramework: null,
+  lastReviewed: null,
+  approvedAt: null,
+  createdAt: daysAgo(400),
+  version: 2,
+  authorId: 'owner-1',
+  status: 'ACTIVE',
+  ...overrides,
+});
+
+describe('PolicyReviews', () => {
+  let reviews: PolicyReviews;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reviews = new PolicyReviews();
+    mockPrisma.reviewCycle.findMany.mockResolvedValue([]);
+    mockPrisma.policyReview.findMany.mockResolvedValue([]);
+    mockPrisma.policyReview.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'rev-new', ...data }));
+    mockPrisma.policyReview.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'rev-1', ...data }));
+  });
+
+  describe('scheduleFor', () => {
+    test('should prefer a framework cycle over the category default', () => {
+      const cycles = [
+        { category: 'SECURITY', framework: null, intervalDays: 60, leadDays: 10 },
+        { category: null, framework: 'SOX', intervalDays: 30, leadDays: 5 },
+      ];
+
+      const sox = reviews.scheduleFor(policy({ complianceFramework: 'SOX', lastReviewed: daysAgo(10) }), cycles as any);
+      const plain = reviews.scheduleFor(policy({ lastReviewed: daysAgo(10) }), cycles as any);
+      const hr = reviews.scheduleFor(policy({ category: 'HR', approvedAt: daysAgo(10) }), []);
+
+      expect(sox).toMatchObject({ source: 'framework', intervalDays: 30, dueDate: new Date(daysAgo(10).getTime() + 30 * 86400000) });
+      expect(plain).toMatchObject({ source: 'category', intervalDays: 60 });
+      expect(hr).toMatchObject({ source: 'default', intervalDays: 365, leadDays: 30, reviewedFrom: daysAgo(10) });
+    });
+  });
+
+  describe('openDueReviews', () => {
+    test('should open tasks for policies within their lead time that have none pending', async () => {
+      mockPrisma.policy.findMany.mockResolvedValue([
+        policy({ id: 'due-soon', lastReviewed: daysAgo(70) }),
+        policy({ id: 'recent', lastReviewed: daysAgo(10) }),
+        policy({ id: 'already-queued', lastReviewed: daysAgo(200) }),
+      ]);
+      mockPrisma.policyReview.findMany.mockResolvedValue([{ policyId: 'already-queued' }]);
+
+      const opened = await reviews.openDueReviews(now);
+
+      expect(opened).toEqual(['due-soon']);
+      expect(mockPrisma.policyReview.create).toHaveBeenCalledWith({
+        data: {
+          policyId: 'due-soon',
+          version: 2,
+          assigneeId: 'owner-1',
+          dueDate: new Date(daysAgo(70).getTime() + 90 * 86400000),
+          status: 'PENDING',
+        },
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'OPEN_POLICY_REVIEW',
+          entityId: 'due-soon',
+          details: expect.objectContaining({ automatic: true }),
+        }),
+      });
+    });
+  });
+
+  describe('markReviewed', () => {
+    test('should complete the pending task and update lastReviewed', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ lastReviewed: daysAgo(100) }));
+      mockPrisma.policyReview.findFirst.mockResolvedValue({ id: 'rev-1', assigneeId: 'owner-1' });
+
+      const result = await reviews.markReviewed('pol-1', { userId: 'owner-1', role: 'USER' }, 'Still accurate', now);
+
+      expect(mockPrisma.policyReview.update).toHaveBeenCalledWith({
+        where: { id: 'rev-1' },
+        data: { status: 'COMPLETED', notes: 'Still accurate', completedById: 'owner-1', completedAt: now },
+      });
+      expect(mockPrisma.policy.update).toHaveBeenCalledWith({ where: { id: 'pol-1' }, data: { lastReviewed: now } });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'REVIEW_POLICY',
+          userId: 'owner-1',
+          details: expect.objectContaining({ notes: 'Still accurate', version: 2 }),
+        }),
+      });
+      expect(result.nextReviewDue).toEqual(new Date(now.getTime() + 90 * 86400000));
+    });
+
+    test('should record a completed review when none was queued', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy());
+      mockPrisma.policyReview.findFirst.mockResolvedValue(null);
+
+      await reviews.markReviewed('pol-1', { userId: 'mgr-1', role: 'POLICY_MANAGER' }, 'Early review', now);
+
+      expect(mockPrisma.policyReview.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ policyId: 'pol-1', assigneeId: 'mgr-1', status: 'COMPLETED' }),
+      });
+    });
+
+    test('should reject reviewers who neither own nor manage the policy', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy());
+      mockPrisma.policyReview.findFirst.mockResolvedValue({ id: 'rev-1', assigneeId: 'owner-1' });
+
+      await expect(
+        reviews.markReviewed('pol-1', { userId: 'someone', role: 'USER' }, 'Looks fine', now)
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockPrisma.policy.update).not.toHaveBeenCalled();
+    });
+
+    test('should only review active policies', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(policy({ status: 'DRAFT' }));
+
+      await expect(
+        reviews.markReviewed('pol-1', { userId: 'owner-1', role: 'USER' }, 'Looks fine', now)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('overdue', () => {
+    test('should list overdue policies with counts per category and framework', async () => {
+      const owner = { id: 'owner-1', email: 'o@example.com', firstName: 'O', lastName: 'Wner' };
+      mockPrisma.policy.findMany.mockResolvedValue([
+        policy({ id: 'late', lastReviewed: daysAgo(120), complianceFramework: 'ISO27001', author: owner }),
+        policy({ id: 'later', category: 'HR', lastReviewed: daysAgo(400), author: owner }),
+        policy({ id: 'fine', lastReviewed: daysAgo(5), author: owner }),
+      ]);
+      mockPrisma.policyReview.findMany.mockResolvedValue([{ id: 'rev-late', policyId: 'late' }]);
+
+      const report = await reviews.overdue(now);
+
+      expect(report).toMatchObject({
+        total: 2,
+        activePolicies: 3,
+        byCategory: { SECURITY: 1, HR: 1 },
+        byFramework: { ISO27001: 1 },
+      });
+      expect(report.policies.map(p => [p.policyId, p.daysOverdue, p.taskId])).toEqual([
+        ['later', 35, null],
+        ['late', 30, 'rev-late'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyScheduler } from '../../src/services/policyScheduler';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((fn: any) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const now = new Date('2025-11-10T12:00:00.000Z');
+
+describe('PolicyScheduler', () => {
+  let scheduler: PolicyScheduler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    scheduler = new PolicyScheduler();
+    mockPrisma.policy.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('runOnce', () => {
+    test('should expire and activate due policies with an audit entry each', async () => {
+      mockPrisma.policy.findMany
+        .mockResolvedValueOnce([
+          { id: 'expired', status: 'ACTIVE', version: 3, expirationDate: new Date('2025-11-09T00:00:00.000Z') },
+        ])
+        .mockResolvedValueOnce([
+          { id: 'due', version: 1, approvedById: 'mgr-1', effectiveDate: new Date('2025-11-10T00:00:00.000Z') },
+        ]);
+
+      const result = await scheduler.runOnce(now);
+
+      expect(result).toEqual({ activated: ['due'], expired: ['expired'] });
+      expect(mockPrisma.policy.updateMany).toHaveBeenCalledWith({
+        where: { id: 'expired', status: 'ACTIVE' },
+        data: { status: 'INACTIVE' },
+      });
+      expect(mockPrisma.policy.updateMany).toHaveBeenCalledWith({
+        where: { id: 'due', status: 'APPROVED' },
+        data: { status: 'ACTIVE' },
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'AUTO_EXPIRE_POLICY',
+          entityId: 'expired',
+          details: expect.objectContaining({ from: 'ACTIVE', to: 'INACTIVE', automatic: true }),
+        }),
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'AUTO_ACTIVATE_POLICY', entityId: 'due' }),
+      });
+    });
+
+    test('should skip the audit entry when the status changed concurrently', async () => {
+      mockPrisma.policy.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          { id: 'due', version: 1, approvedById: null, effectiveDate: new Date('2025-11-10T00:00:00.000Z') },
+        ]);
+      mockPrisma.policy.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await scheduler.runOnce(now);
+
+      expect(result.activated).toEqual([]);
+      expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  test('should list upcoming transitions in date order', async () => {
+    mockPrisma.policy.findMany
+      .mockResolvedValueOnce([
+        {
+          id: 'p1',
+          title: 'Starts soon',
+          category: 'IT',
+          status: 'APPROVED',
+          effectiveDate: new Date('2025-11-14T00:00:00.000Z'),
+          expirationDate: null,
+        },
+      ])
+      .mockResolvedValueOnce([
+        {
+          id: 'p2',
+          title: 'Ends soon',
+          category: 'HR',
+          status: 'ACTIVE',
+          effectiveDate: new Date('2025-01-01T00:00:00.000Z'),
+          expirationDate: new Date('2025-11-12T00:00:00.000Z'),
+        },
+      ]);
+
+    const transitions = await scheduler.upcomingTransitions(7, now);
+
+    expect(transitions.map(t => [t.policyId, t.transition, t.overdue])).toEqual([
+      ['p2', 'EXPIRE', false],
+      ['p1', 'ACTIVATE', false],
+    ]);
+  });
+});
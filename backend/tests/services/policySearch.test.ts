@@ -0,0 +1,91 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicySearch } from '../../src/services/policySearch';
+import { toTsQuery } from '../../src/utils/searchQuery';
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    $queryRaw: jest.fn(),
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+describe('PolicySearch', () => {
+  let search: PolicySearch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    search = new PolicySearch();
+  });
+
+  describe('toTsQuery', () => {
+    test('should AND plain words', () => {
+      expect(toTsQuery('password reset')).toBe('password & reset');
+    });
+
+    test('should support phrases, prefixes, OR and negation', () => {
+      expect(toTsQuery('"clean desk" encrypt* OR hipaa -draft')).toBe(
+        '(clean <-> desk) & encrypt:* | hipaa & !draft'
+      );
+    });
+
+    test('should strip tsquery operators from user input', () => {
+      expect(toTsQuery("gdpr & (x | y) !z ' :*")).toBe('gdpr & x | y & z');
+      expect(toTsQuery('e-mail')).toBe('(e <-> mail)');
+    });
+
+    test('should return null when nothing is searchable', () => {
+      expect(toTsQuery('  "" & | ')).toBeNull();
+    });
+  });
+
+  test('should reject queries without words', async () => {
+    await expect(search.rank('***')).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  test('should rank direct matches above matches in earlier versions', async () => {
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([
+        { id: 'p1', rank: 0.4 },
+        { id: 'p2', rank: 0.1 },
+      ])
+      .mockResolvedValueOnce([
+        { policyId: 'p3', version: 2, rank: 0.6 },
+        { policyId: 'p1', version: 1, rank: 0.5 },
+      ]);
+
+    const matches = await search.rank('retention', { includeVersions: true });
+
+    expect(matches).toEqual([
+      { policyId: 'p1', rank: 0.4, matchedVersions: [1] },
+      { policyId: 'p3', rank: 0.3, matchedVersions: [2] },
+      { policyId: 'p2', rank: 0.1, matchedVersions: [] },
+    ]);
+  });
+
+  test('should skip version search unless requested', async () => {
+    mockPrisma.$queryRaw.mockResolvedValueOnce([]);
+
+    await search.rank('retention');
+
+    expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  test('should attach version snippets to highlights', async () => {
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([{ id: 'p1', title: '<mark>Retention</mark> Policy', snippet: 'Keep …' }])
+      .mockResolvedValueOnce([{ policyId: 'p1', version: 1, snippet: 'Old <mark>retention</mark>' }]);
+
+    const highlights = await search.highlight(['p1'], 'retention', { includeVersions: true });
+
+    expect(highlights).toEqual({
+      p1: {
+        title: '<mark>Retention</mark> Policy',
+        snippet: 'Keep …',
+        versions: [{ version: 1, snippet: 'Old <mark>retention</mark>' }],
+      },
+    });
+  });
+});
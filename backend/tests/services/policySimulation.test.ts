@@ -0,0 +1,165 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicySimulation } from '../../src/services/policySimulation';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    auditLog: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    securityIncident: {
+      groupBy: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockRecordAccessDecision = jest.fn();
+jest.mock('../../src/services/blockchainService', () => ({
+  BlockchainService: jest.fn(() => ({ recordAccessDecision: mockRecordAccessDecision })),
+}));
+
+const mockPrisma = new PrismaClient() as any;
+
+const activePolicy = {
+  id: 'pol-active',
+  title: 'Staff access',
+  version: 1,
+  rules: 'permit "staff" { actions: ["read", "export"]; }',
+};
+
+const draftPolicy = {
+  id: 'pol-draft',
+  title: 'Export guard',
+  version: 1,
+  status: 'DRAFT',
+  rules: 'deny "no-export" { actions: ["export"]; when: not mfa; }',
+};
+
+const accessEvent = (id: string, subject: string, action: string, riskScore: number, context: any = {}) => ({
+  id,
+  riskScore,
+  createdAt: new Date('2025-11-01T10:00:00.000Z'),
+  details: {
+    subject: { id: subject },
+    resource: { id: 'report-1' },
+    action,
+    context,
+    decision: 'PERMIT',
+  },
+});
+
+const window = {
+  from: new Date('2025-11-01T00:00:00.000Z'),
+  to: new Date('2025-11-02T00:00:00.000Z'),
+};
+
+describe('PolicySimulation', () => {
+  let simulation: PolicySimulation;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    simulation = new PolicySimulation();
+    mockPrisma.policy.findUnique.mockResolvedValue(draftPolicy);
+    mockPrisma.policy.findMany.mockResolvedValue([activePolicy]);
+    mockPrisma.securityIncident.groupBy.mockResolvedValue([]);
+  });
+
+  test('should report decisions the draft policy would change', async () => {
+    mockPrisma.auditLog.findMany.mockResolvedValue([
+      accessEvent('log-1', 'alice', 'export', 10),
+      accessEvent('log-2', 'alice', 'export', 70),
+      accessEvent('log-3', 'bob', 'export', 5, { mfa: true }),
+      accessEvent('log-4', 'bob', 'read', 5),
+    ]);
+    mockPrisma.securityIncident.groupBy.mockResolvedValue([{ severity: 'HIGH', _count: { _all: 2 } }]);
+
+    const report = await simulation.simulate('pol-draft', window);
+
+    expect(report).toMatchObject({
+      evaluated: 4,
+      skipped: 0,
+      truncated: false,
+      changed: 2,
+      newlyDenied: 2,
+      newlyPermitted: 0,
+      affectedUsers: [{ id: 'alice', newlyDenied: 2, newlyPermitted: 0 }],
+      affectedResources: [{ id: 'report-1', newlyDenied: 2, newlyPermitted: 0 }],
+      impact: {
+        blockedHighRisk: 1,
+        blockedLowRisk: 1,
+        permittedHighRisk: 0,
+        disruptionRate: 0.25,
+        relatedIncidents: { total: 2, bySeverity: { HIGH: 2 } },
+      },
+    });
+    expect(report.changes[0]).toMatchObject({
+      auditLogId: 'log-1',
+      before: 'PERMIT',
+      after: 'DENY',
+      rules: ['no-export'],
+    });
+    expect(mockPrisma.securityIncident.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ userId: { in: ['alice'] } }) })
+    );
+  });
+
+  test('should not write decisions or ledger records', async () => {
+    mockPrisma.auditLog.findMany.mockResolvedValue([accessEvent('log-1', 'alice', 'export', 10)]);
+
+    await simulation.simulate('pol-draft', window);
+
+    expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+    expect(mockRecordAccessDecision).not.toHaveBeenCalled();
+  });
+
+  test('should skip audit entries without a replayable request', async () => {
+    mockPrisma.auditLog.findMany.mockResolvedValue([
+      { id: 'log-1', riskScore: null, createdAt: window.from, details: { decision: 'DENY' } },
+      accessEvent('log-2', 'bob', 'read', 0),
+    ]);
+
+    const report = await simulation.simulate('pol-draft', window);
+
+    expect(report.evaluated).toBe(1);
+    expect(report.skipped).toBe(1);
+    expect(report.changed).toBe(0);
+    expect(mockPrisma.securityIncident.groupBy).not.toHaveBeenCalled();
+  });
+
+  test('should flag truncation when the window holds more events than the limit', async () => {
+    mockPrisma.auditLog.findMany.mockResolvedValue([
+      accessEvent('log-1', 'alice', 'read', 0),
+      accessEvent('log-2', 'alice', 'read', 0),
+    ]);
+
+    const report = await simulation.simulate('pol-draft', { ...window, limit: 1 });
+
+    expect(report.truncated).toBe(true);
+    expect(report.evaluated).toBe(1);
+    expect(mockPrisma.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 2 }));
+  });
+
+  test('should reject active policies and policies without rules', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValueOnce({ ...draftPolicy, status: 'ACTIVE' });
+    await expect(simulation.simulate('pol-draft', window)).rejects.toMatchObject({ statusCode: 409 });
+
+    mockPrisma.policy.findUnique.mockResolvedValueOnce({ ...draftPolicy, rules: null });
+    await expect(simulation.simulate('pol-draft', window)).rejects.toMatchObject({ statusCode: 400 });
+
+    mockPrisma.policy.findUnique.mockResolvedValueOnce(null);
+    await expect(simulation.simulate('missing', window)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,119 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyTags } from '../../src/services/policyTags';
+import { buildPolicyWhere, normalizeTags } from '../../src/utils/policyFilters';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((fn: any) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+describe('PolicyTags', () => {
+  let tags: PolicyTags;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tags = new PolicyTags();
+  });
+
+  describe('filters', () => {
+    test('should normalize and de-duplicate tags', () => {
+      expect(normalizeTags([' GDPR', 'gdpr', 'Data  Retention', ''])).toEqual(['gdpr', 'data retention']);
+    });
+
+    test('should build multi-value filters', () => {
+      expect(buildPolicyWhere({ tags: 'GDPR,hr', status: ['ACTIVE', 'DRAFT'], framework: 'SOX' })).toEqual({
+        tags: { hasEvery: ['gdpr', 'hr'] },
+        status: { in: ['ACTIVE', 'DRAFT'] },
+        complianceFramework: 'SOX',
+      });
+      expect(buildPolicyWhere({ tags: 'gdpr,hr', tagMode: 'any' }).tags).toEqual({ hasSome: ['gdpr', 'hr'] });
+    });
+
+    test('should drop the excluded facet filter', () => {
+      expect(buildPolicyWhere({ category: 'HR', tags: 'gdpr' }, 'category')).toEqual({
+        tags: { hasEvery: ['gdpr'] },
+      });
+    });
+  });
+
+  test('should list tags by usage', async () => {
+    mockPrisma.policy.findMany.mockResolvedValue([
+      { tags: ['gdpr', 'privacy'] },
+      { tags: ['gdpr'] },
+      { tags: [] },
+    ]);
+
+    expect(await tags.listTags()).toEqual([
+      { tag: 'gdpr', count: 2 },
+      { tag: 'privacy', count: 1 },
+    ]);
+  });
+
+  describe('mergeTags', () => {
+    test('should replace source tags without duplicating the target', async () => {
+      mockPrisma.policy.findMany.mockResolvedValue([
+        { id: 'p1', tags: ['data-privacy', 'privacy', 'hr'] },
+        { id: 'p2', tags: ['data-privacy'] },
+      ]);
+
+      const result = await tags.mergeTags(['Data-Privacy'], 'privacy', 'user-1');
+
+      expect(result).toEqual({ sources: ['data-privacy'], target: 'privacy', updatedPolicies: 2 });
+      expect(mockPrisma.policy.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: { tags: ['privacy', 'hr'] },
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'MERGE_TAGS', entityType: 'TAG', entityId: 'privacy' }),
+      });
+    });
+
+    test('should return 404 when no policy uses the tag', async () => {
+      mockPrisma.policy.findMany.mockResolvedValue([]);
+
+      await expect(tags.renameTag('unused', 'other', 'user-1')).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  test('should compute facet counts ignoring each facet\'s own filter', async () => {
+    mockPrisma.policy.groupBy
+      .mockResolvedValueOnce([{ category: 'HR', _count: { _all: 2 } }, { category: 'IT', _count: { _all: 1 } }])
+      .mockResolvedValueOnce([{ status: 'ACTIVE', _count: { _all: 3 } }])
+      .mockResolvedValueOnce([
+        { complianceFramework: 'SOX', _count: { _all: 1 } },
+        { complianceFramework: null, _count: { _all: 2 } },
+      ]);
+    mockPrisma.policy.findMany.mockResolvedValue([{ tags: ['gdpr'] }, { tags: ['gdpr', 'hr'] }]);
+
+    const facets = await tags.getFacets({ category: 'HR' });
+
+    expect(mockPrisma.policy.groupBy.mock.calls[0][0].where).toEqual({});
+    expect(mockPrisma.policy.groupBy.mock.calls[1][0].where).toEqual({ category: 'HR' });
+    expect(facets).toEqual({
+      category: { HR: 2, IT: 1 },
+      status: { ACTIVE: 3 },
+      framework: { SOX: 1 },
+      tags: { gdpr: 2, hr: 1 },
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyTemplates } from '../../src/services/policyTemplates';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      create: jest.fn(),
+    },
+    policyVersion: {
+      create: jest.fn(),
+    },
+    policyTemplate: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    policyTemplateVersion: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((arg: any) =>
+    typeof arg === 'function' ? arg(mockPrismaClient) : Promise.all(arg)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const gdprBody = [
+  '# {{organization}} Data Protection Policy',
+  '## Purpose',
+  'Describes how {{organization}} processes personal data.',
+  '## Scope',
+  'Applies to all staff and processors.',
+  '## Lawful Basis for Processing',
+  '## Data Subject Rights',
+  'Requests are answered within {{responseDays}} days.',
+  '## Data Retention',
+  '## Breach Notification',
+].join('\n');
+
+const gdprDefinition = {
+  titleTemplate: '{{organization}} Data Protection Policy',
+  descriptionTemplate: 'GDPR data protection policy for {{organization}}',
+  body: gdprBody,
+  variables: [
+    { name: 'organization' },
+    { name: 'responseDays', default: '30' },
+  ],
+};
+
+describe('PolicyTemplates', () => {
+  let templates: PolicyTemplates;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    templates = new PolicyTemplates();
+  });
+
+  describe('validateDefinition', () => {
+    test('should accept a template covering every GDPR section', () => {
+      expect(templates.validateDefinition(gdprDefinition, 'GDPR')).toEqual([]);
+    });
+
+    test('should report missing framework sections', () => {
+      const errors = templates.validateDefinition(
+        { ...gdprDefinition, body: gdprBody.replace('## Breach Notification', '') },
+        'GDPR'
+      );
+
+      expect(errors).toEqual(['Missing required GDPR sections: Breach Notification']);
+    });
+
+    test('should report undeclared and unused variables', () => {
+      const errors = templates.validateDefinition(
+        { ...gdprDefinition, variables: [{ name: 'organization' }, { name: 'owner' }] },
+        'GDPR'
+      );
+
+      expect(errors).toEqual([
+        'Undeclared placeholders: responseDays',
+        'Variables not used in the template: owner',
+      ]);
+    });
+  });
+
+  test('should reject invalid templates on create', async () => {
+    await expect(
+      templates.createTemplate(
+        { ...gdprDefinition, body: 'No sections here', name: 'GDPR', description: 'x', category: 'PRIVACY', framework: 'GDPR' },
+        'user-1'
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockPrisma.policyTemplate.create).not.toHaveBeenCalled();
+  });
+
+  describe('instantiate', () => {
+    beforeEach(() => {
+      mockPrisma.policyTemplate.findUnique.mockResolvedValue({
+        id: 'tpl-1',
+        name: 'GDPR Data Protection',
+        category: 'PRIVACY',
+        framework: 'GDPR',
+        currentVersion: 2,
+        isActive: true,
+      });
+      mockPrisma.policyTemplateVersion.findUnique.mockResolvedValue({ version: 2, ...gdprDefinition });
+      mockPrisma.policy.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'policy-1', effectiveDate: new Date(data.effectiveDate), ...data })
+      );
+    });
+
+    test('should create a draft policy from the current template version', async () => {
+      await templates.instantiate(
+        'tpl-1',
+        { variables: { organization: 'Acme' }, effectiveDate: '2025-11-01' },
+        'user-1'
+      );
+
+      expect(mockPrisma.policy.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          title: 'Acme Data Protection Policy',
+          status: 'DRAFT',
+          category: 'PRIVACY',
+          complianceFramework: 'GDPR',
+          templateId: 'tpl-1',
+          templateVersion: 2,
+        }),
+      });
+      const { content } = mockPrisma.policy.create.mock.calls[0][0].data;
+      expect(content).toContain('Requests are answered within 30 days.');
+      expect(mockPrisma.policyVersion.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'INSTANTIATE_TEMPLATE' }),
+      });
+    });
+
+    test('should list missing required variables', async () => {
+      await expect(
+        templates.instantiate('tpl-1', { variables: {}, effectiveDate: '2025-11-01' }, 'user-1')
+      ).rejects.toMatchObject({ statusCode: 400, details: { missing: ['organization'] } });
+      expect(mockPrisma.policy.create).not.toHaveBeenCalled();
+    });
+  });
+
+  test('should report policies generated from older template versions', async () => {
+    mockPrisma.policyTemplate.findMany.mockResolvedValue([
+      {
+        id: 'tpl-1',
+        name: 'GDPR Data Protection',
+        currentVersion: 3,
+        policies: [
+          { id: 'p1', title: 'Old', status: 'ACTIVE', templateVersion: 2 },
+          { id: 'p2', title: 'Current', status: 'DRAFT', templateVersion: 3 },
+        ],
+      },
+    ]);
+
+    const outdated = await templates.findOutdatedPolicies('tpl-1');
+
+    expect(outdated).toEqual([
+      expect.objectContaining({ id: 'p1', templateVersion: 2, currentTemplateVersion: 3 }),
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyTransfer } from '../../src/services/policyTransfer';
+import { parseCsv } from '../../src/utils/csv';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    policyVersion: {
+      create: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((fn: any) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const validContent = 'All employees must lock their workstation when leaving their desk unattended.';
+
+describe('PolicyTransfer', () => {
+  let transfer: PolicyTransfer;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transfer = new PolicyTransfer();
+    mockPrisma.policy.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: `id-${data.title}`, ...data })
+    );
+  });
+
+  describe('parsing', () => {
+    test('should parse quoted CSV fields with commas and newlines', () => {
+      const rows = parseCsv('title,content\r\n"Clean desk, v2","Line one\nLine ""two"""\r\n');
+
+      expect(rows).toEqual([{ title: 'Clean desk, v2', content: 'Line one\nLine "two"' }]);
+    });
+
+    test('should split CSV tags on semicolons', () => {
+      const [row] = transfer.parse(`title,tags\nClean Desk,security; hr\n`, 'csv');
+      expect(row.tags).toEqual(['security', 'hr']);
+    });
+
+    test('should accept YAML documents with a policies list', () => {
+      const rows = transfer.parse(
+        'policies:\n  - title: Clean Desk\n    category: SECURITY\n    expirationDate: null\n',
+        'yaml'
+      );
+
+      expect(rows).toEqual([{ title: 'Clean Desk', category: 'SECURITY' }]);
+    });
+
+    test('should reject malformed files', () => {
+      expect(() => transfer.parse('{not json', 'json')).toThrow(/Could not parse JSON/);
+    });
+
+    test('should detect formats from file extensions', () => {
+      expect(transfer.detectFormat('policies.yml')).toBe('yaml');
+      expect(() => transfer.detectFormat('policies.xlsx')).toThrow(/Unsupported format/);
+    });
+  });
+
+  describe('importPolicies', () => {
+    const file = JSON.stringify([
+      {
+        title: 'Clean Desk Policy',
+        description: 'Workspace security rules',
+        content: validContent,
+        category: 'SECURITY',
+        effectiveDate: '2025-11-01',
+      },
+      {
+        title: 'Broken',
+        description: 'short',
+        content: 'too short',
+        category: 'NOPE',
+        effectiveDate: '2025-11-01',
+      },
+    ]);
+
+    test('should report per-row errors on a dry run without writing', async () => {
+      const report = await transfer.importPolicies(file, 'json', 'user-1', { dryRun: true, skipInvalid: false });
+
+      expect(report.total).toBe(2);
+      expect(report.valid).toBe(1);
+      expect(report.invalid).toBe(1);
+      expect(report.errors[0].row).toBe(2);
+      expect(report.errors[0].errors.map(e => e.field)).toEqual(
+        expect.arrayContaining(['description', 'content', 'category'])
+      );
+      expect(mockPrisma.policy.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject rows whose rule section does not compile', async () => {
+      const withRules = JSON.stringify([
+        {
+          title: 'Clean Desk Policy',
+          description: 'Workspace security rules',
+          content: validContent,
+          category: 'SECURITY',
+          effectiveDate: '2025-11-01',
+          rules: 'permit "desk" {\n  when: trustScore >= ;\n}',
+        },
+      ]);
+
+      const report = await transfer.importPolicies(withRules, 'json', 'user-1', { dryRun: true, skipInvalid: false });
+
+      expect(report.errors[0].errors).toEqual([
+        { field: 'rules', message: "Expected a value but found ';' (line 2, column 23)" },
+      ]);
+    });
+
+    test('should create nothing when any row is invalid', async () => {
+      const report = await transfer.importPolicies(file, 'json', 'user-1', { dryRun: false, skipInvalid: false });
+
+      expect(report.created).toBe(0);
+      expect(mockPrisma.policy.create).not.toHaveBeenCalled();
+    });
+
+    test('should import valid rows as drafts with a first version when skipping invalid rows', async () => {
+      const report = await transfer.importPolicies(file, 'json', 'user-1', { dryRun: false, skipInvalid: true });
+
+      expect(report.created).toBe(1);
+      expect(report.policies).toEqual([{ id: 'id-Clean Desk Policy', row: 1, title: 'Clean Desk Policy' }]);
+      expect(mockPrisma.policy.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'DRAFT', authorId: 'user-1', version: 1 }),
+      });
+      expect(mockPrisma.policyVersion.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'IMPORT_POLICY' }),
+      });
+    });
+  });
+
+  describe('exportPolicies', () => {
+    test('should export CSV that can be imported again', async () => {
+      mockPrisma.policy.findMany.mockResolvedValue([
+        {
+          id: 'p1',
+          title: 'Clean Desk Policy',
+          description: 'Workspace security rules',
+          content: validContent,
+          category: 'SECURITY',
+          status: 'ACTIVE',
+          version: 2,
+          effectiveDate: new Date('2025-11-01T00:00:00.000Z'),
+          expirationDate: null,
+          tags: ['security', 'office'],
+          complianceFramework: 'ISO27001',
+        },
+      ]);
+
+      const result = await transfer.exportPolicies({ status: 'ACTIVE' }, 'csv');
+
+      expect(mockPrisma.policy.findMany).toHaveBeenCalledWith({
+        where: { status: 'ACTIVE' },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(result.contentType).toBe('text/csv');
+
+      const report = await transfer.importPolicies(result.body, 'csv', 'user-1', { dryRun: true, skipInvalid: false });
+      expect(report.invalid).toBe(0);
+      expect(report.valid).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyVersioning } from '../../src/services/policyVersioning';
+import { diffFields, diffLines } from '../../src/utils/diff';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    policyVersion: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((fn: any) => fn(mockPrismaClient));
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+describe('Policy diffing', () => {
+  test('should report added and removed lines with line numbers', () => {
+    const changes = diffLines('a\nb\nc\nd', 'a\nc\nd\ne');
+
+    expect(changes.filter(c => c.type !== 'equal')).toEqual([
+      { type: 'removed', text: 'b', oldLine: 2 },
+      { type: 'added', text: 'e', newLine: 4 },
+    ]);
+    expect(changes.filter(c => c.type === 'equal').map(c => c.text)).toEqual(['a', 'c', 'd']);
+  });
+
+  test('should treat identical text as unchanged', () => {
+    const changes = diffLines('same\ntext', 'same\ntext');
+    expect(changes.every(c => c.type === 'equal')).toBe(true);
+  });
+
+  test('should handle completely rewritten content', () => {
+    const changes = diffLines('old one\nold two', 'new one');
+
+    expect(changes.filter(c => c.type === 'removed')).toHaveLength(2);
+    expect(changes.filter(c => c.type === 'added')).toHaveLength(1);
+  });
+
+  test('should list only fields whose values differ', () => {
+    expect(diffFields(
+      { title: 'A', tags: ['x'], category: 'HR' },
+      { title: 'B', tags: ['x'], category: 'HR' }
+    )).toEqual([{ field: 'title', from: 'A', to: 'B' }]);
+  });
+});
+
+describe('PolicyVersioning', () => {
+  let versioning: PolicyVersioning;
+
+  const policy = {
+    id: 'policy-1',
+    title: 'Password Policy',
+    description: 'Rules for passwords',
+    content: 'Passwords must be 12 characters.',
+    category: 'SECURITY',
+    status: 'ACTIVE',
+    version: 3,
+    effectiveDate: new Date('2025-01-01T00:00:00.000Z'),
+    expirationDate: null,
+    tags: ['auth'],
+    complianceFramework: 'ISO27001',
+    authorId: 'author-1',
+  } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    versioning = new PolicyVersioning();
+  });
+
+  test('should summarize changed fields', () => {
+    const summary = versioning.summarizeChanges(policy, {
+      ...policy,
+      title: 'Password Standard',
+      content: 'Passwords must be 14 characters.',
+    });
+
+    expect(summary).toBe('Updated content, title');
+  });
+
+  test('should capture a baseline when the current version was never recorded', async () => {
+    mockPrisma.policyVersion.findUnique.mockResolvedValue(null);
+
+    await versioning.ensureBaseline(policy);
+
+    expect(mockPrisma.policyVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        policyId: 'policy-1',
+        version: 3,
+        content: policy.content,
+        changes: 'Baseline snapshot',
+        createdById: 'author-1',
+      }),
+    });
+  });
+
+  test('should only treat content and reviewed metadata as versioned changes', () => {
+    expect(versioning.versionedChanges(policy, { ...policy, tags: ['auth', 'mfa'] })).toEqual([]);
+    expect(versioning.versionedChanges(policy, { ...policy, status: 'INACTIVE' })).toEqual([]);
+    expect(versioning.versionedChanges(policy, { ...policy, content: 'Passwords must be 14 characters.', tags: [] }))
+      .toEqual(['content']);
+    expect(versioning.versionedChanges(policy, { ...policy, expirationDate: new Date('2026-01-01T00:00:00.000Z') }))
+      .toEqual(['expirationDate']);
+  });
+
+  test('should restore an old version as a new version', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValue(policy);
+    mockPrisma.policyVersion.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve({
+        policyId: 'policy-1',
+        version: where.policyId_version.version,
+        content: 'Passwords must be 8 characters.',
+        changes: 'Initial version',
+        snapshot: { title: 'Old Password Policy', tags: [] },
+      })
+    );
+    mockPrisma.policy.update.mockResolvedValue({ ...policy, version: 4, title: 'Old Password Policy' });
+
+    const updated = await versioning.rollback('policy-1', 1, 'manager-1');
+
+    expect(updated.version).toBe(4);
+    expect(mockPrisma.policy.update).toHaveBeenCalledWith({
+      where: { id: 'policy-1' },
+      data: expect.objectContaining({
+        content: 'Passwords must be 8 characters.',
+        title: 'Old Password Policy',
+        version: { increment: 1 },
+        // Restored content is unreviewed, so the active policy needs a new sign-off
+        status: 'DRAFT',
+        approvedById: null,
+        approvedAt: null,
+      }),
+    });
+    expect(mockPrisma.policyVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ version: 4, changes: 'Rolled back to version 1' }),
+    });
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'ROLLBACK_POLICY', entityId: 'policy-1' }),
+    });
+  });
+
+  test('should refuse to roll back to the current version', async () => {
+    mockPrisma.policy.findUnique.mockResolvedValue(policy);
+    mockPrisma.policyVersion.findUnique.mockResolvedValue({ version: 3, content: '', snapshot: null });
+
+    await expect(versioning.rollback('policy-1', 3, 'manager-1')).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,238 @@
+import { PrismaClient } from '@prisma/client';
+import { PolicyWorkflow } from '../../src/services/policyWorkflow';
+import { HttpError } from '../../src/utils/errors';
+import { runInOrganization } from '../../src/utils/tenancy';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient: any = {
+    policy: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    policyApproval: {
+      create: jest.fn(),
+      count: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    approvalRequirement: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((arg: any) =>
+    typeof arg === 'function' ? arg(mockPrismaClient) : Promise.all(arg)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+describe('PolicyWorkflow', () => {
+  let workflow: PolicyWorkflow;
+
+  const reviewPolicy = {
+    id: 'policy-1',
+    title: 'Access Control Policy',
+    category: 'SECURITY',
+    status: 'IN_REVIEW',
+    version: 3,
+    reviewRound: 2,
+    authorId: 'author-1',
+    approvedById: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    workflow = new PolicyWorkflow();
+    mockPrisma.approvalRequirement.findUnique.mockResolvedValue(null);
+    mockPrisma.policyApproval.findUnique.mockResolvedValue(null);
+    mockPrisma.policyApproval.create.mockResolvedValue({});
+    mockPrisma.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('approval requirements', () => {
+    test('should fall back to category defaults when nothing is configured', async () => {
+      const requirement = await workflow.getRequirement('SECURITY');
+
+      expect(requirement.isDefault).toBe(true);
+      expect(requirement.requiredApprovals).toBe(2);
+      expect(requirement.approverRoles).toContain('POLICY_MANAGER');
+    });
+
+    test('should prefer configured requirements', async () => {
+      mockPrisma.approvalRequirement.findUnique.mockResolvedValue({
+        category: 'HR',
+        requiredApprovals: 3,
+        approverRoles: ['ADMIN'],
+      });
+
+      const requirement = await runInOrganization('org-1', () => workflow.getRequirement('HR'));
+
+      expect(mockPrisma.approvalRequirement.findUnique).toHaveBeenCalledWith({
+        where: { organizationId_category: { organizationId: 'org-1', category: 'HR' } },
+      });
+      expect(requirement).toEqual({
+        category: 'HR',
+        requiredApprovals: 3,
+        approverRoles: ['ADMIN'],
+        isDefault: false,
+      });
+    });
+  });
+
+  describe('approve', () => {
+    test('should record a partial approval without changing status', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(reviewPolicy);
+      mockPrisma.policyApproval.count.mockResolvedValue(1);
+
+      const outcome = await workflow.approve('policy-1', { userId: 'manager-1', role: 'POLICY_MANAGER' }, 'Looks good');
+
+      expect(outcome.fullyApproved).toBe(false);
+      expect(outcome.approvals).toBe(1);
+      expect(outcome.requiredApprovals).toBe(2);
+      expect(mockPrisma.policyApproval.create).toHaveBeenCalledWith({
+        data: {
+          policyId: 'policy-1',
+          version: 3,
+          round: 2,
+          approverId: 'manager-1',
+          decision: 'APPROVED',
+          comments: 'Looks good',
+        },
+      });
+      expect(mockPrisma.policyApproval.count).toHaveBeenCalledWith({
+        where: { policyId: 'policy-1', round: 2, decision: 'APPROVED' },
+      });
+      expect(mockPrisma.policy.update).not.toHaveBeenCalled();
+    });
+
+    test('should move the policy to APPROVED once enough approvals exist', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(reviewPolicy);
+      mockPrisma.policyApproval.count.mockResolvedValue(2);
+      mockPrisma.policy.update.mockResolvedValue({ ...reviewPolicy, status: 'APPROVED', approvedById: 'admin-1' });
+
+      const outcome = await workflow.approve('policy-1', { userId: 'admin-1', role: 'ADMIN' });
+
+      expect(outcome.fullyApproved).toBe(true);
+      expect(outcome.policy.status).toBe('APPROVED');
+      expect(mockPrisma.policy.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'policy-1' },
+          data: expect.objectContaining({ status: 'APPROVED', approvedById: 'admin-1' }),
+        })
+      );
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'APPROVE_POLICY', entityId: 'policy-1' }),
+      });
+    });
+
+    test('should not let authors approve their own policy', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(reviewPolicy);
+
+      await expect(
+        workflow.approve('policy-1', { userId: 'author-1', role: 'ADMIN' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockPrisma.policyApproval.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject approvers whose role is not configured for the category', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(reviewPolicy);
+
+      await expect(
+        workflow.approve('policy-1', { userId: 'auditor-1', role: 'AUDITOR' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test('should reject a second decision by the same approver', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(reviewPolicy);
+      mockPrisma.policyApproval.findUnique.mockResolvedValue({ id: 'approval-1' });
+
+      await expect(
+        workflow.approve('policy-1', { userId: 'manager-1', role: 'POLICY_MANAGER' })
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockPrisma.policyApproval.findUnique).toHaveBeenCalledWith({
+        where: { policyId_round_approverId: { policyId: 'policy-1', round: 2, approverId: 'manager-1' } },
+      });
+    });
+
+    test('should refuse to approve a policy that is not in review', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue({ ...reviewPolicy, status: 'DRAFT' });
+
+      await expect(
+        workflow.approve('policy-1', { userId: 'manager-1', role: 'POLICY_MANAGER' })
+      ).rejects.toBeInstanceOf(HttpError);
+    });
+  });
+
+  describe('reject', () => {
+    test('should store the rejection record and move the policy to REJECTED', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue(reviewPolicy);
+      mockPrisma.policy.update.mockResolvedValue({ ...reviewPolicy, status: 'REJECTED' });
+
+      const policy = await workflow.reject('policy-1', { userId: 'manager-1', role: 'POLICY_MANAGER' }, 'Missing scope');
+
+      expect(policy.status).toBe('REJECTED');
+      expect(mockPrisma.policyApproval.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ decision: 'REJECTED', comments: 'Missing scope' }),
+      });
+    });
+  });
+
+  describe('status changes', () => {
+    test('should only allow taking an active policy offline directly', () => {
+      expect(() => workflow.assertManualStatusChange('ACTIVE', 'INACTIVE')).not.toThrow();
+      expect(() => workflow.assertManualStatusChange('DRAFT', 'ACTIVE')).toThrow(HttpError);
+      expect(() => workflow.assertManualStatusChange('IN_REVIEW', 'APPROVED')).toThrow(HttpError);
+    });
+
+    test('should send edited policies under review back to DRAFT', () => {
+      expect(workflow.statusAfterEdit('IN_REVIEW')).toBe('DRAFT');
+      expect(workflow.statusAfterEdit('APPROVED')).toBe('DRAFT');
+      expect(workflow.statusAfterEdit('DRAFT')).toBe('DRAFT');
+    });
+
+    test('should take edited active policies back to DRAFT without their approver', () => {
+      expect(workflow.editReset('ACTIVE')).toEqual({ status: 'DRAFT', approvedById: null, approvedAt: null });
+      expect(workflow.editReset('INACTIVE')).toEqual({ status: 'INACTIVE' });
+    });
+
+    test('should open a new review round when a rejected policy is resubmitted', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue({ ...reviewPolicy, status: 'REJECTED' });
+      mockPrisma.policy.update.mockResolvedValue({ ...reviewPolicy, reviewRound: 3 });
+
+      await workflow.submitForReview('policy-1', { userId: 'author-1', role: 'USER' });
+
+      expect(mockPrisma.policy.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: 'IN_REVIEW', approvedById: null, approvedAt: null, reviewRound: { increment: 1 } },
+        })
+      );
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'SUBMIT_POLICY',
+          details: expect.objectContaining({ version: 3, round: 3, previousStatus: 'REJECTED' }),
+        }),
+      });
+    });
+
+    test('should not let other users submit someone else\'s policy', async () => {
+      mockPrisma.policy.findUnique.mockResolvedValue({ ...reviewPolicy, status: 'DRAFT' });
+
+      await expect(
+        workflow.submitForReview('policy-1', { userId: 'someone-else', role: 'USER' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+});
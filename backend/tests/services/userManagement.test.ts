@@ -0,0 +1,217 @@
+import { PrismaClient } from '@prisma/client';
+import { UserManagement } from '../../src/services/userManagement';
+import { runInOrganization } from '../../src/utils/tenancy';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@prisma/client', () => {
+  const counted = () => ({ count: jest.fn().mockResolvedValue(0) });
+  const mockPrismaClient: any = {
+    user: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    organizationMember: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+    policy: { ...counted(), updateMany: jest.fn() },
+    policyTemplate: { updateMany: jest.fn() },
+    policyReview: { ...counted(), updateMany: jest.fn() },
+    policyVersion: { ...counted(), updateMany: jest.fn() },
+    policyApproval: counted(),
+    policyException: counted(),
+    policyControl: counted(),
+    evidence: counted(),
+    policyTemplateVersion: { ...counted(), updateMany: jest.fn() },
+    refreshToken: {
+      updateMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  };
+  mockPrismaClient.$transaction = jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrismaClient) : Promise.all(operations)
+  );
+  return { PrismaClient: jest.fn(() => mockPrismaClient) };
+});
+
+const mockPrisma = new PrismaClient() as any;
+
+const admin = { userId: 'admin-1', role: 'ADMIN' };
+
+const user = (overrides: any = {}) => ({
+  id: 'user-1',
+  email: 'jane@example.com',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  // The role held in the current organization, as selected
+  memberships: [{ role: 'USER' }],
+  organization: 'Acme',
+  isActive: true,
+  ...overrides,
+});
+
+describe('UserManagement', () => {
+  let users: UserManagement;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    users = new UserManagement();
+    mockPrisma.user.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === 'user-1' ? user() : where.id === 'user-2' ? user({ id: 'user-2' }) : null)
+    );
+    mockPrisma.user.update.mockImplementation(({ data }: any) => Promise.resolve(user(data)));
+    mockPrisma.organizationMember.count.mockResolvedValue(0);
+    mockPrisma.policy.updateMany.mockResolvedValue({ count: 3 });
+    mockPrisma.policyTemplate.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.policyReview.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.policyVersion.updateMany.mockResolvedValue({ count: 4 });
+    mockPrisma.policyTemplateVersion.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  test('should search names and emails and page the results', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([user()]);
+    mockPrisma.user.count.mockResolvedValue(45);
+
+    const result = await users.list({ search: ' jane ', isActive: true, page: 2, limit: 20 });
+
+    const query = mockPrisma.user.findMany.mock.calls[0][0];
+    expect(query.where.isActive).toBe(true);
+    expect(query.where.OR[0]).toEqual({ email: { contains: 'jane', mode: 'insensitive' } });
+    expect(query).toMatchObject({ skip: 20, take: 20 });
+    expect(query.select.password).toBeUndefined();
+    expect(result.users[0]).toMatchObject({ id: 'user-1', role: 'USER' });
+    expect(result.users[0]).not.toHaveProperty('memberships');
+    expect(result.pagination).toEqual({ page: 2, limit: 20, total: 45, totalPages: 3, hasNext: true, hasPrev: true });
+  });
+
+  test('should filter on the role held in the current organization', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([]);
+    mockPrisma.user.count.mockResolvedValue(0);
+
+    await runInOrganization('org-a', () => users.list({ role: 'AUDITOR' }));
+
+    const query = mockPrisma.user.findMany.mock.calls[0][0];
+    expect(query.where.memberships).toEqual({ some: { organizationId: 'org-a', role: 'AUDITOR' } });
+    expect(query.where.role).toBeUndefined();
+    expect(query.select.memberships).toEqual({ where: { organizationId: 'org-a' }, select: { role: true } });
+  });
+
+  test('should audit only the profile fields that changed', async () => {
+    await users.updateProfile('user-1', { firstName: 'Janet', lastName: 'Doe' }, admin);
+
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toEqual({ firstName: 'Janet' });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'UPDATE_USER',
+      entityType: 'USER',
+      entityId: 'user-1',
+      details: { changes: { firstName: { from: 'Jane', to: 'Janet' } } },
+    });
+  });
+
+  test('should reject an email another account uses', async () => {
+    mockPrisma.user.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.email ? { id: 'user-2' } : user())
+    );
+
+    await expect(users.updateProfile('user-1', { email: 'taken@example.com' }, admin)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+
+  test('should change the role on the membership the token role comes from', async () => {
+    mockPrisma.organizationMember.findUnique.mockResolvedValue({ id: 'mem-1', role: 'USER' });
+
+    await runInOrganization('org-a', () => users.setRole('user-1', 'POLICY_MANAGER', admin));
+
+    expect(mockPrisma.organizationMember.update).toHaveBeenCalledWith({
+      where: { id: 'mem-1' },
+      data: { role: 'POLICY_MANAGER' },
+    });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'UPDATE_USER_ROLE',
+      details: { from: 'USER', to: 'POLICY_MANAGER' },
+    });
+    expect(mockPrisma.refreshToken.updateMany.mock.calls[0][0].where).toEqual({
+      userId: 'user-1',
+      organizationId: 'org-a',
+      revokedAt: null,
+    });
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  test('should keep an active admin in every organization and refuse to lock out the caller', async () => {
+    mockPrisma.organizationMember.findMany.mockResolvedValue([{ organizationId: 'org-a' }, { organizationId: 'org-b' }]);
+    mockPrisma.organizationMember.count
+      .mockResolvedValueOnce(1)
+      .mockResolvedValueOnce(2)
+      .mockResolvedValueOnce(1)
+      .mockResolvedValueOnce(0);
+
+    await expect(runInOrganization('org-a', () => users.setActive('user-1', false, admin))).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'At least one active admin must remain',
+    });
+    await expect(users.setActive('admin-1', false, admin)).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  test('should deactivate and reactivate with an audit entry each', async () => {
+    await users.setActive('user-1', false, admin);
+    mockPrisma.user.findUnique.mockResolvedValue(user({ isActive: false }));
+    await users.setActive('user-1', true, admin);
+
+    expect(mockPrisma.auditLog.create.mock.calls.map((call: any) => call[0].data.action)).toEqual([
+      'DEACTIVATE_USER',
+      'REACTIVATE_USER',
+    ]);
+    expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.refreshToken.updateMany.mock.calls[0][0].where).toEqual({ userId: 'user-1', revokedAt: null });
+  });
+
+  test('should reassign authored policies, their versions and open reviews before deleting', async () => {
+    const result = await runInOrganization('org-a', () => users.remove('user-1', 'user-2', admin));
+
+    expect(mockPrisma.policy.updateMany).toHaveBeenCalledWith({ where: { authorId: 'user-1' }, data: { authorId: 'user-2' } });
+    expect(mockPrisma.policyReview.updateMany).toHaveBeenCalledWith({
+      where: { assigneeId: 'user-1', status: 'PENDING' },
+      data: { assigneeId: 'user-2' },
+    });
+    expect(mockPrisma.policyVersion.updateMany).toHaveBeenCalledWith({
+      where: { createdById: 'user-1', policy: { authorId: 'user-1' } },
+      data: { createdById: 'user-2' },
+    });
+    expect(mockPrisma.user.delete).toHaveBeenCalledWith({ where: { id: 'user-1' } });
+    expect(result).toEqual({
+      reassignedTo: 'user-2',
+      reassigned: { policies: 3, versions: 4, templates: 0, templateVersions: 0, reviews: 1 },
+    });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'DELETE_USER',
+      details: expect.objectContaining({ email: 'jane@example.com', policies: 3 }),
+    });
+  });
+
+  test('should not delete users whose approvals or versions must keep their author', async () => {
+    mockPrisma.policyApproval.count.mockResolvedValueOnce(2);
+
+    await expect(users.remove('user-1', 'user-2', admin)).rejects.toMatchObject({
+      statusCode: 409,
+      details: { history: { approvals: 2 } },
+    });
+    await expect(users.remove('user-1', 'missing', admin)).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+  });
+});
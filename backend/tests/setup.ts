@@ -30,6 +30,13 @@ jest.mock('@prisma/client', () => ({
       create: jest.fn(),
       findMany: jest.fn(),
     },
+    // Login throttling runs on every login; nothing is throttled by default
+    loginThrottle: {
+      findMany: jest.fn().mockResolvedValue([]),
+      upsert: jest.fn().mockResolvedValue({ id: 'throttle-1', scope: 'ACCOUNT', failures: 1, accounts: [], lockouts: 0 }),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
     $disconnect: jest.fn(),
   })),
 }));
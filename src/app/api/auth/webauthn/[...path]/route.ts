@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BACKEND_URL, forwardedFor } from '@/lib/backend';
+
+// Passkey ceremonies run against the backend, which holds the challenges and credentials
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { path: string[] } }
+) {
+  try {
+    const path = params.path?.join('/') || '';
+    const body = await request.text();
+
+    // Get the authorization header
+    const authorization = request.headers.get('authorization');
+
+    const response = await fetch(`${BACKEND_URL}/api/auth/webauthn/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authorization && { Authorization: authorization }),
+        ...forwardedFor(request.headers),
+      },
+      body: body || '{}',
+    });
+
+    const data = await response.json();
+
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Passkey API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to communicate with authentication service' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:5000';
+import { BACKEND_URL } from '@/lib/backend';
 
 export async function GET(
   request: NextRequest,
@@ -7,7 +7,8 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import toast from 'react-hot-toast'
-import { Shield, Eye, EyeOff, Lock, Fingerprint, Wifi, Globe, Zap } from 'lucide-react'
+import { Shield, Eye, EyeOff, Lock, Fingerprint, Wifi, Globe, Zap, KeyRound } from 'lucide-react'
+import { getPasskeyAssertion, isPasskeySupported } from '@/lib/webauthn'
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -28,6 +29,7 @@ interface TrustMetrics {
 export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [isPasskeyLoading, setIsPasskeyLoading] = useState(false)
   const [zkAuthEnabled, setZkAuthEnabled] = useState(false)
   const [trustMetrics, setTrustMetrics] = useState<TrustMetrics>({
     deviceTrust: 0,
@@ -145,6 +147,64 @@ export default function LoginPage() {
     }
   }
 
+  // Runs the passwordless ceremony against /api/auth/webauthn/login/options and /verify
+  const verifyPasskey = async () => {
+    const optionsResponse = await fetch('/api/auth/webauthn/login/options', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({}),
+    })
+    const options = await optionsResponse.json()
+
+    if (!optionsResponse.ok) {
+      throw new Error(options.error || 'Passkey sign-in is unavailable')
+    }
+
+    const credential = await getPasskeyAssertion(options)
+
+    const verifyResponse = await fetch('/api/auth/webauthn/login/verify', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ credential }),
+    })
+    const result = await verifyResponse.json()
+
+    if (!verifyResponse.ok) {
+      throw new Error(result.error || 'Passkey verification failed')
+    }
+
+    return result
+  }
+
+  const onPasskeySignIn = async () => {
+    if (!isPasskeySupported()) {
+      toast.error('This browser does not support passkeys')
+      return
+    }
+
+    setIsPasskeyLoading(true)
+
+    try {
+      setAuthenticationStage('biometric')
+      const result = await verifyPasskey()
+
+      localStorage.setItem('token', result.token)
+      localStorage.setItem('user', JSON.stringify(result.user))
+
+      toast.success('Signed in with passkey')
+      router.push('/dashboard')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Passkey sign-in failed')
+    } finally {
+      setIsPasskeyLoading(false)
+      setAuthenticationStage('initial')
+    }
+  }
+
   const generateDeviceFingerprint = async (): Promise<string> => {
     const canvas = document.createElement('canvas')
     const ctx = canvas.getContext('2d')
@@ -405,6 +465,25 @@ export default function LoginPage() {
                 </div>
               )}
             </button>
+
+            <button
+              type="button"
+              onClick={onPasskeySignIn}
+              disabled={isLoading || isPasskeyLoading}
+              className="mt-3 w-full flex justify-center py-3 px-4 border border-slate-600 text-sm font-medium rounded-md text-gray-200 bg-slate-800/50 hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {isPasskeyLoading ? (
+                <div className="flex items-center space-x-2">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  <span>Waiting for passkey...</span>
+                </div>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <KeyRound className="h-4 w-4 text-cyan-400" />
+                  <span>Sign in with a passkey</span>
+                </div>
+              )}
+            </button>
           </div>
 
           {/* Advanced Security Features */}
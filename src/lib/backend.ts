@@ -0,0 +1,12 @@
+// Where the Next.js API routes forward requests: the Express backend, on port 3001 by default
+
+export const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001'
+
+// The backend throttles logins per client IP address, so it must see the browser's
+// address rather than this server's. Next.js fills X-Forwarded-For with the
+// browser's address when the request arrives without one; the backend reads it
+// when TRUST_PROXY is set.
+export const forwardedFor = (headers: Headers): Record<string, string> => {
+  const chain = headers.get('x-forwarded-for')
+  return chain ? { 'X-Forwarded-For': chain } : {}
+}
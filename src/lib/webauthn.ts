@@ -0,0 +1,80 @@
+// WebAuthn passkey helpers - bridge between the backend's JSON options and navigator.credentials
+
+export interface PasskeyRequestOptions {
+  challenge: string
+  rpId: string
+  timeout?: number
+  userVerification?: UserVerificationRequirement
+  allowCredentials?: { id: string; type: 'public-key'; transports?: string[] }[]
+}
+
+export interface PasskeyAssertion {
+  id: string
+  rawId: string
+  type: 'public-key'
+  response: {
+    clientDataJSON: string
+    authenticatorData: string
+    signature: string
+    userHandle: string | null
+  }
+}
+
+const toBase64url = (buffer: ArrayBuffer): string => {
+  let binary = ''
+  new Uint8Array(buffer).forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64url = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes.buffer
+}
+
+export const isPasskeySupported = (): boolean =>
+  typeof window !== 'undefined' && typeof window.PublicKeyCredential !== 'undefined'
+
+/**
+ * Runs navigator.credentials.get() with options from the backend and
+ * returns the assertion in the base64url JSON form the backend verifies.
+ */
+export async function getPasskeyAssertion(options: PasskeyRequestOptions): Promise<PasskeyAssertion> {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      challenge: fromBase64url(options.challenge),
+      rpId: options.rpId,
+      timeout: options.timeout,
+      userVerification: options.userVerification,
+      allowCredentials: options.allowCredentials?.map(allowed => ({
+        id: fromBase64url(allowed.id),
+        type: allowed.type,
+        transports: allowed.transports as AuthenticatorTransport[] | undefined
+      }))
+    }
+  }) as PublicKeyCredential | null
+
+  if (!credential) {
+    throw new Error('No passkey was selected')
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse
+
+  return {
+    id: credential.id,
+    rawId: toBase64url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      authenticatorData: toBase64url(response.authenticatorData),
+      signature: toBase64url(response.signature),
+      userHandle: response.userHandle ? toBase64url(response.userHandle) : null
+    }
+  }
+}
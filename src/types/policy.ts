@@ -15,7 +15,7 @@ export interface Policy {
   title: string
   description: string
   type: 'security' | 'compliance' | 'blockchain' | 'identity'
-  status: 'draft' | 'active' | 'archived'
+  status: 'draft' | 'in_review' | 'approved' | 'rejected' | 'active' | 'archived'
   version: string
   effectiveDate: string
   createdAt: string